@@ -65,4 +65,18 @@ export const optionalAuth = async (request: FastifyRequest, reply: FastifyReply)
     // For optional auth, we don't fail if token is invalid
     // Don't set request.user to undefined, leave it as is
   }
-};
\ No newline at end of file
+};
+
+// Admins are configured by user id, e.g. ADMIN_USER_IDS=uuid1,uuid2
+export const requireAdmin = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+  const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  const user = (request as any).user as User | undefined;
+
+  if (!user || !adminIds.includes(user.id)) {
+    reply.code(403).send({
+      error: 'Forbidden',
+      message: 'Admin access required',
+      statusCode: 403,
+    });
+  }
+};
@@ -0,0 +1,79 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import Joi from 'joi';
+import { authenticateUser, requireAdmin } from '../middleware/auth';
+import { JobSchedulerService } from '../services/jobScheduler';
+
+const jobQuerySchema = Joi.object({
+  status: Joi.string().valid('pending', 'running', 'completed', 'failed', 'cancelled').optional(),
+  type: Joi.string().max(50).optional(),
+  limit: Joi.number().integer().min(1).max(500).default(100),
+});
+
+async function adminRoutes(fastify: FastifyInstance): Promise<void> {
+  const scheduler: JobSchedulerService = (fastify as any).jobScheduler;
+
+  // GET /api/admin/jobs - List background jobs, newest run time first
+  fastify.get('/jobs', {
+    preHandler: [authenticateUser, requireAdmin],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = jobQuerySchema.validate(request.query);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const result = await scheduler.listJobs(value);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { jobs: result.data || [] }
+        });
+      } else {
+        reply.status(500).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/admin/jobs/:id - Inspect a single job, including attempts and last error
+  fastify.get('/jobs/:id', {
+    preHandler: [authenticateUser, requireAdmin],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as any;
+      
+      const result = await scheduler.getJob(id);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { job: result.data }
+        });
+      } else {
+        reply.status(404).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+}
+
+export default adminRoutes;
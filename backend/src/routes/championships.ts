@@ -0,0 +1,228 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import Joi from 'joi';
+import { authenticateUser } from '../middleware/auth';
+import { ChampionshipService } from '../services/championships';
+
+const pointsSchemeSchema = Joi.object({
+  positions: Joi.array().items(Joi.number().min(0).max(1000)).min(1).max(100)
+    .default([25, 18, 15, 12, 10, 8, 6, 4, 2, 1]),
+  fastestLap: Joi.number().min(0).max(100).default(1),
+  dropWorst: Joi.number().integer().min(0).max(50).default(0),
+});
+
+const divisionSchema = Joi.object({
+  key: Joi.string().pattern(/^[a-z0-9_-]+$/).max(30).required(),
+  name: Joi.string().max(50).required(),
+  minHorsepower: Joi.number().min(0).optional(),
+  maxHorsepower: Joi.number().min(0).optional(),
+  drivetrains: Joi.array().items(Joi.string().max(10)).max(10).optional(),
+});
+
+const championshipSchema = Joi.object({
+  name: Joi.string().max(100).required(),
+  description: Joi.string().max(1000).optional(),
+  pointsScheme: pointsSchemeSchema.default(),
+  divisions: Joi.array().items(divisionSchema).max(20).unique('key').default([]),
+});
+
+const roundSchema = Joi.object({
+  raceId: Joi.string().uuid().required(),
+  roundNumber: Joi.number().integer().min(1).max(1000).optional(),
+});
+
+const errorStatus = (error?: string): number =>
+  error?.includes('not found') ? 404 :
+  error?.includes('Only') ? 403 :
+  error?.includes('Illegal') || error?.includes('already') ? 409 : 500;
+
+async function championshipRoutes(fastify: FastifyInstance): Promise<void> {
+  const championships: ChampionshipService = (fastify as any).championships;
+
+  // GET /api/championships - Most recently created championships
+  fastify.get('/', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const result = await championships.listChampionships();
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: { championships: result.data || [] }
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/championships - Create a championship with its points scheme and divisions
+  fastify.post('/', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = championshipSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({
+          success: false,
+          error: validationError.details[0].message
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+
+      const result = await championships.createChampionship(user.id, value);
+
+      if (result.success) {
+        reply.status(201).send({
+          success: true,
+          data: { championship: result.data }
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /api/championships/:id - Championship and its rounds
+  fastify.get('/:id', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as any;
+
+      const result = await championships.getChampionship(id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /api/championships/:id/standings - Live standings per division with per-round breakdown
+  fastify.get('/:id/standings', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as any;
+
+      const result = await championships.getStandings(id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/championships/:id/rounds - Add one of your races as a round
+  fastify.post('/:id/rounds', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = roundSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({
+          success: false,
+          error: validationError.details[0].message
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await championships.addRound(id, user.id, value.raceId, value.roundNumber);
+
+      if (result.success) {
+        reply.status(201).send({
+          success: true,
+          data: { round: result.data }
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // DELETE /api/championships/:id/rounds/:raceId - Take a race out of the championship
+  fastify.delete('/:id/rounds/:raceId', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id, raceId } = request.params as any;
+
+      const result = await championships.removeRound(id, user.id, raceId);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          message: 'Round removed'
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+}
+
+export default championshipRoutes;
@@ -0,0 +1,179 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import Joi from 'joi';
+import { authenticateUser } from '../middleware/auth';
+import { MatchmakingService } from '../services/matchmaking';
+
+const queueSchema = Joi.object({
+  raceType: Joi.string().valid('drag', 'circuit', 'drift', 'time-trial').required(),
+  location: Joi.object({
+    lat: Joi.number().min(-90).max(90).required(),
+    lng: Joi.number().min(-180).max(180).required(),
+    address: Joi.string().max(200).optional(),
+  }).required(),
+  radiusKm: Joi.number().min(1).max(200).default(25),
+  windowStart: Joi.date().iso().required(),
+  windowEnd: Joi.date().iso().required(),
+});
+
+const errorStatus = (error?: string): number =>
+  error?.includes('not found') ? 404 :
+  error?.includes('Only') ? 403 :
+  error?.includes('Illegal') || error?.includes('already') ? 409 :
+  error?.includes('Invalid') || error?.includes('No vehicle') ? 400 : 500;
+
+async function matchmakingRoutes(fastify: FastifyInstance): Promise<void> {
+  const matchmaking: MatchmakingService = (fastify as any).matchmaking;
+
+  // GET /api/matchmaking/queue - Current ticket and any pending proposal
+  fastify.get('/queue', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+
+      const result = await matchmaking.getStatus(user.id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/matchmaking/queue - Look for a race with the currently selected vehicle
+  fastify.post('/queue', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = queueSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({
+          success: false,
+          error: validationError.details[0].message
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+
+      const result = await matchmaking.enqueue(user.id, value);
+
+      if (result.success) {
+        reply.status(201).send({
+          success: true,
+          data: { ticket: result.data }
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // DELETE /api/matchmaking/queue - Stop searching; declines a pending proposal
+  fastify.delete('/queue', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+
+      const result = await matchmaking.leave(user.id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          message: 'Left matchmaking queue'
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/matchmaking/proposals/:id/accept - The race is created once everyone accepts
+  fastify.post('/proposals/:id/accept', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await matchmaking.respond(id, user.id, true);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: { proposal: result.data }
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/matchmaking/proposals/:id/decline - Leave the queue; the others keep searching
+  fastify.post('/proposals/:id/decline', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await matchmaking.respond(id, user.id, false);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: { proposal: result.data }
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+}
+
+export default matchmakingRoutes;
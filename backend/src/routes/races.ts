@@ -2,6 +2,23 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import Joi from 'joi';
 import { SupabaseService } from '../services/database';
 import { authenticateUser } from '../middleware/auth';
+import { FinishData, RaceRoute } from '../types';
+import { RaceLifecycleService } from '../services/raceLifecycle';
+import { RaceStartService } from '../services/raceStart';
+import { TelemetryService, TELEMETRY_PAGE_SIZE } from '../services/telemetry';
+import { DragTimingService } from '../services/dragTiming';
+import { LapTimingService } from '../services/lapTiming';
+import { StandingsService } from '../services/standings';
+import { DisputeService } from '../services/disputes';
+import { RaceJobsService } from '../services/raceJobs';
+import { RaceAccessService } from '../services/raceAccess';
+import { WaitlistService } from '../services/waitlist';
+import { RaceManagementService } from '../services/raceManagement';
+import { VehicleClassService, VEHICLE_CLASSES } from '../services/vehicleClasses';
+import { BracketRacingService, MAX_DIAL_IN, MIN_DIAL_IN } from '../services/bracketRacing';
+import { DriftScoringService } from '../services/driftScoring';
+import { RaceExportService, ExportFormat, EXPORT_FORMATS, MAX_GPX_IMPORT_BYTES } from '../services/raceExport';
+import { RaceChatService, MAX_CHAT_PAGE_SIZE } from '../services/raceChat';
 
 interface RaceBody {
   name: string;
@@ -13,20 +30,60 @@ interface RaceBody {
   prizePool?: number;
   startTime: string;
   raceType?: string;
+  route?: RaceRoute;
+  isPrivate?: boolean;
+  requiresApproval?: boolean;
+  allowedClasses?: string[];
+  handicap?: boolean;
+  bracketRacing?: boolean;
+  driftTandem?: boolean;
 }
 
 interface LocationUpdate {
   lat: number;
   lng: number;
-  speed?: number;
+  speed?: number; // m/s
   heading?: number;
+  timestamp?: number; // server epoch ms
 }
 
-interface FinishData {
-  finishTime: string;
-  totalTime: number;
-  averageSpeed: number;
-}
+const pointSchema = Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required(),
+});
+
+const gateSchema = Joi.alternatives().try(
+  Joi.object({
+    type: Joi.string().valid('line').required(),
+    name: Joi.string().max(50).optional(),
+    a: pointSchema.required(),
+    b: pointSchema.required(),
+  }),
+  Joi.object({
+    type: Joi.string().valid('radius').required(),
+    name: Joi.string().max(50).optional(),
+    center: pointSchema.required(),
+    radius: Joi.number().min(3).max(500).required(),
+  })
+);
+
+const driftZoneSchema = Joi.object({
+  name: Joi.string().max(50).optional(),
+  entry: gateSchema.required(),
+  exit: gateSchema.required(),
+  line: Joi.array().items(pointSchema).min(2).max(500).required(),
+  targetAngle: Joi.number().min(5).max(90).optional(),
+  targetSpeed: Joi.number().min(1).max(80).optional(),
+  weight: Joi.number().min(0.1).max(10).optional(),
+});
+
+const routeSchema = Joi.object({
+  waypoints: Joi.array().items(pointSchema).max(1000).default([]),
+  startFinish: gateSchema.optional(),
+  checkpoints: Joi.array().items(gateSchema).max(50).optional(),
+  laps: Joi.number().integer().min(1).max(200).optional(),
+  driftZones: Joi.array().items(driftZoneSchema).max(30).optional(),
+}).with('checkpoints', 'startFinish').with('laps', 'startFinish');
 
 const raceSchema = Joi.object({
   name: Joi.string().required(),
@@ -44,6 +101,40 @@ const raceSchema = Joi.object({
   prizePool: Joi.number().min(0).optional(),
   startTime: Joi.string().isoDate().required(),
   raceType: Joi.string().valid('drag', 'circuit', 'drift', 'time-trial', 'street').optional(),
+  route: routeSchema.optional(),
+  isPrivate: Joi.boolean().default(false),
+  requiresApproval: Joi.boolean().default(false),
+  allowedClasses: Joi.array().items(Joi.string().valid(...VEHICLE_CLASSES)).unique().optional(),
+  handicap: Joi.boolean().when('raceType', {
+    is: 'drag',
+    then: Joi.boolean().default(false),
+    otherwise: Joi.boolean().valid(false).default(false),
+  }),
+  // Dial-ins set the stagger, so a bracket race can't also be handicapped from the specs
+  bracketRacing: Joi.boolean().default(false)
+    .when('raceType', { not: 'drag', then: Joi.boolean().valid(false) })
+    .when('handicap', { is: true, then: Joi.boolean().valid(false) }),
+  // A tandem battle is exactly two cars on course together
+  driftTandem: Joi.boolean().default(false)
+    .when('raceType', { not: 'drift', then: Joi.boolean().valid(false) })
+    .when('maxParticipants', { not: 2, then: Joi.boolean().valid(false) }),
+});
+
+const dialInSchema = Joi.object({
+  dialIn: Joi.number().min(MIN_DIAL_IN).max(MAX_DIAL_IN).precision(3).required(),
+});
+
+const updateRaceSchema = Joi.object({
+  name: Joi.string().optional(),
+  description: Joi.string().allow('').optional(),
+  startLocation: pointSchema.optional(),
+  endLocation: pointSchema.optional(),
+  maxParticipants: Joi.number().integer().min(1).max(100).optional(),
+  startTime: Joi.string().isoDate().optional(),
+}).min(1);
+
+const cancelSchema = Joi.object({
+  reason: Joi.string().max(500).required(),
 });
 
 const locationSchema = Joi.object({
@@ -51,6 +142,12 @@ const locationSchema = Joi.object({
   lng: Joi.number().required(),
   speed: Joi.number().min(0).optional(),
   heading: Joi.number().min(0).max(360).optional(),
+  timestamp: Joi.number().integer().min(0).optional(),
+});
+
+const replayQuerySchema = Joi.object({
+  fromSeq: Joi.number().integer().min(0).default(0),
+  limit: Joi.number().integer().min(1).max(TELEMETRY_PAGE_SIZE).default(TELEMETRY_PAGE_SIZE),
 });
 
 const finishSchema = Joi.object({
@@ -59,15 +156,127 @@ const finishSchema = Joi.object({
   averageSpeed: Joi.number().min(0).required(),
 });
 
+const disputeSchema = Joi.object({
+  resultId: Joi.string().uuid().required(),
+  reason: Joi.string().max(1000).required(),
+  evidence: Joi.object({
+    telemetryRange: Joi.object({
+      userId: Joi.string().uuid().required(),
+      fromSeq: Joi.number().integer().min(0).required(),
+      toSeq: Joi.number().integer().min(Joi.ref('fromSeq')).required(),
+    }).optional(),
+    photoUrl: Joi.string().uri({ scheme: ['http', 'https'] }).max(2048).optional(),
+  }).or('telemetryRange', 'photoUrl').required(),
+  requestedPosition: Joi.number().integer().min(1).optional(),
+});
+
+const rulingSchema = Joi.alternatives().try(
+  Joi.object({
+    action: Joi.string().valid('reposition').required(),
+    position: Joi.number().integer().min(1).required(),
+  }),
+  Joi.object({
+    action: Joi.string().valid('adjust_time').required(),
+    timeResult: Joi.number().min(0).required(),
+  }),
+  Joi.object({
+    action: Joi.string().valid('disqualify').required(),
+  })
+);
+
+const resolveDisputeSchema = Joi.object({
+  decision: Joi.string().valid('accept', 'reject').required(),
+  ruling: rulingSchema.when('decision', { is: 'accept', then: Joi.required(), otherwise: Joi.forbidden() }),
+  resolution: Joi.string().max(1000).optional(),
+});
+
+const reviewSchema = Joi.object({
+  decision: Joi.string().valid('approve', 'reject').required(),
+  reason: Joi.string().max(1000).optional(),
+});
+
+const joinSchema = Joi.object({
+  message: Joi.string().max(500).optional(),
+});
+
+const inviteSchema = Joi.object({
+  username: Joi.string().required(),
+});
+
+const invitationResponseSchema = Joi.object({
+  decision: Joi.string().valid('accept', 'decline').required(),
+});
+
+const joinDecisionSchema = Joi.object({
+  decision: Joi.string().valid('approve', 'reject').required(),
+  reason: Joi.string().max(500).optional(),
+});
+
+const exportSchema = Joi.object({
+  format: Joi.string().valid(...EXPORT_FORMATS).default('gpx'),
+});
+
+const chatHistorySchema = Joi.object({
+  before: Joi.string().max(200).optional(),
+  limit: Joi.number().integer().min(1).max(MAX_CHAT_PAGE_SIZE).default(50),
+});
+
+const accessErrorStatus = (error?: string): number =>
+  error?.includes('not found') ? 404 :
+  error?.includes('Only') || error?.includes('invite-only') ? 403 :
+  error?.includes('full') || error?.includes('already') || error?.includes('Illegal') ? 409 : 500;
+
+const disputeErrorStatus = (error?: string): number =>
+  error?.includes('not found') ? 404 :
+  error?.includes('Only') ? 403 :
+  error?.includes('Illegal') || error?.includes('already') ? 409 : 400;
+
+const telemetryErrorStatus = (error?: string): number =>
+  error?.includes('Invalid') ? 400 :
+  error?.includes('not in race') ? 403 :
+  error?.includes('Illegal') ? 409 :
+  error?.includes('limit') ? 429 : 404;
+
 async function raceRoutes(fastify: FastifyInstance): Promise<void> {
   const dbService = new SupabaseService();
+  const lifecycle: RaceLifecycleService = (fastify as any).raceLifecycle;
+  const raceStart: RaceStartService = (fastify as any).raceStart;
+  const telemetry: TelemetryService = (fastify as any).telemetry;
+  const dragTiming: DragTimingService = (fastify as any).dragTiming;
+  const lapTiming: LapTimingService = (fastify as any).lapTiming;
+  const standings: StandingsService = (fastify as any).standings;
+  const disputes: DisputeService = (fastify as any).disputes;
+  const raceJobs: RaceJobsService = (fastify as any).raceJobs;
+  const raceAccess: RaceAccessService = (fastify as any).raceAccess;
+  const waitlist: WaitlistService = (fastify as any).waitlist;
+  const raceManagement: RaceManagementService = (fastify as any).raceManagement;
+  const vehicleClasses: VehicleClassService = (fastify as any).vehicleClasses;
+  const bracketRacing: BracketRacingService = (fastify as any).bracketRacing;
+  const driftScoring: DriftScoringService = (fastify as any).driftScoring;
+  const raceExport: RaceExportService = (fastify as any).raceExport;
+  const raceChat: RaceChatService = (fastify as any).raceChat;
+
+  // Per-race reads go through this: private races are indistinguishable from missing ones for anyone not invited
+  const requireRaceView = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const user = (request as any).user;
+    const { id: raceId } = request.params as any;
+    const result = await dbService.getRace(raceId);
+
+    if (!result.success || !(await raceAccess.canView(result.data, user.id))) {
+      reply.status(404).send({ 
+        success: false, 
+        error: 'Race not found' 
+      });
+    }
+  };
 
   // GET /api/races - List all available races
   fastify.get('/', {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const result = await dbService.getAllRaces();
+      const user = (request as any).user;
+      const result = await dbService.getAllRaces(user.id);
       
       if (result.success) {
         reply.send({ 
@@ -93,13 +302,16 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
+      const user = (request as any).user;
       const { id } = request.params as any;
       const result = await dbService.getRace(id);
       
-      if (result.success) {
+      // Private races are indistinguishable from missing ones for anyone not invited
+      if (result.success && await raceAccess.canView(result.data, user.id)) {
+        const waitlistResult = await waitlist.getSummary(id, user.id);
         reply.send({ 
           success: true, 
-          data: { race: result.data }
+          data: { race: result.data, waitlist: waitlistResult.data }
         });
       } else {
         reply.status(404).send({ 
@@ -120,7 +332,7 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const { error: validationError } = raceSchema.validate(request.body);
+      const { error: validationError, value } = raceSchema.validate(request.body);
       if (validationError) {
         reply.status(400).send({ 
           success: false, 
@@ -130,7 +342,7 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
       }
 
       const user = (request as any).user;
-      const body = request.body as RaceBody;
+      const body = value as RaceBody;
       
       const raceData = {
         name: body.name,
@@ -143,6 +355,13 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
         prizePool: body.prizePool || 0,
         startTime: new Date(body.startTime),
         raceType: body.raceType || 'street',
+        route: body.route,
+        isPrivate: body.isPrivate,
+        requiresApproval: body.requiresApproval,
+        allowedClasses: body.allowedClasses,
+        handicap: body.handicap,
+        bracketRacing: body.bracketRacing,
+        driftTandem: body.driftTandem,
         status: 'pending' as const,
         participants: [] as any[],
       };
@@ -150,6 +369,7 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
       const result = await dbService.createRace(raceData);
       
       if (result.success) {
+        await raceJobs.scheduleRace(result.data);
         reply.status(201).send({ 
           success: true, 
           data: { race: result.data }
@@ -168,25 +388,35 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
-  // POST /api/races/:id/join - Join race
-  fastify.post('/:id/join', {
+  // PUT /api/races/:id - Edit or reschedule a race before its countdown
+  fastify.put('/:id', {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
+      const { error: validationError, value } = updateRaceSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
       const user = (request as any).user;
       const { id: raceId } = request.params as any;
       
-      const result = await dbService.joinRace(raceId, user.id);
+      const result = await raceManagement.updateRace(raceId, user.id, value);
       
       if (result.success) {
         reply.send({ 
           success: true, 
-          message: 'Successfully joined race',
-          data: result.data
+          data: { race: result.data }
         });
       } else {
-        const status = result.error?.includes('full') ? 409 : 
-                      result.error?.includes('already') ? 409 : 500;
+        const status = result.error?.includes('not found') ? 404 :
+                      result.error?.includes('Only') ? 403 :
+                      result.error?.includes('Invalid') ? 400 :
+                      result.error?.includes('Illegal') ? 409 : 500;
         reply.status(status).send({ 
           success: false, 
           error: result.error 
@@ -200,24 +430,35 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
-  // POST /api/races/:id/leave - Leave race
-  fastify.post('/:id/leave', {
+  // POST /api/races/:id/cancel - Cancel a race with a reason for participants
+  fastify.post('/:id/cancel', {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
+      const { error: validationError, value } = cancelSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
       const user = (request as any).user;
       const { id: raceId } = request.params as any;
       
-      const result = await dbService.leaveRace(raceId, user.id);
+      const result = await raceManagement.cancelRace(raceId, user.id, value.reason);
       
       if (result.success) {
         reply.send({ 
           success: true, 
-          message: 'Successfully left race',
-          data: result.data
+          data: { race: result.data }
         });
       } else {
-        reply.status(404).send({ 
+        const status = result.error?.includes('not found') ? 404 :
+                      result.error?.includes('Only') ? 403 :
+                      result.error?.includes('Illegal') ? 409 : 500;
+        reply.status(status).send({ 
           success: false, 
           error: result.error 
         });
@@ -230,30 +471,39 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
-  // POST /api/races/:id/start - Start race
-  fastify.post('/:id/start', {
+  // POST /api/races/:id/join - Join race (queued for approval when the race requires it)
+  fastify.post('/:id/join', {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
+      const { error: validationError, value } = joinSchema.validate(request.body || {});
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
       const user = (request as any).user;
       const { id: raceId } = request.params as any;
       
-      const result = await dbService.startRace(raceId, user.id);
+      const result = await raceAccess.join(raceId, user.id, value.message);
       
-      if (result.success) {
-        // Send WebSocket notification to all race participants
-        const wsService = (fastify as any).wsService;
-        if (wsService) {
-          wsService.sendRaceStartedNotification(raceId);
-        }
-        
+      if (result.success && result.data?.joinRequest) {
+        reply.status(202).send({ 
+          success: true, 
+          message: 'Join request sent to the race organizer',
+          data: result.data
+        });
+      } else if (result.success) {
         reply.send({ 
           success: true, 
-          message: 'Race started successfully',
+          message: 'Successfully joined race',
           data: result.data
         });
       } else {
-        reply.status(403).send({ 
+        reply.status(accessErrorStatus(result.error)).send({ 
           success: false, 
           error: result.error 
         });
@@ -266,45 +516,52 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
-  // POST /api/races/:id/location - Update location during race
-  fastify.post('/:id/location', {
+  // POST /api/races/:id/waitlist - Queue for a spot in a full race
+  fastify.post('/:id/waitlist', {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const { error: validationError } = locationSchema.validate(request.body);
-      if (validationError) {
-        reply.status(400).send({ 
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      
+      const result = await waitlist.join(raceId, user.id);
+      
+      if (result.success) {
+        reply.status(201).send({ 
+          success: true, 
+          data: { waitlist: result.data }
+        });
+      } else {
+        reply.status(accessErrorStatus(result.error)).send({ 
           success: false, 
-          error: validationError.details[0].message 
+          error: result.error 
         });
-        return;
       }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
 
+  // DELETE /api/races/:id/waitlist - Leave the waitlist (or turn down an offered spot)
+  fastify.delete('/:id/waitlist', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
       const user = (request as any).user;
       const { id: raceId } = request.params as any;
-      const locationData = request.body as LocationUpdate;
       
-      const result = await dbService.updateRaceLocation(raceId, user.id, locationData);
+      const result = await waitlist.leave(raceId, user.id);
       
       if (result.success) {
-        // Send WebSocket location update to other race participants
-        const wsService = (fastify as any).wsService;
-        if (wsService) {
-          wsService.sendLocationUpdate(raceId, user.id, {
-            lat: locationData.lat,
-            lng: locationData.lng,
-            heading: locationData.heading,
-            speed: locationData.speed
-          });
-        }
-        
         reply.send({ 
           success: true, 
-          message: 'Location updated successfully',
-          data: result.data
+          data: { waitlist: result.data }
         });
       } else {
-        reply.status(404).send({ 
+        reply.status(accessErrorStatus(result.error)).send({ 
           success: false, 
           error: result.error 
         });
@@ -317,40 +574,54 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
-  // POST /api/races/:id/finish - Finish race
-  fastify.post('/:id/finish', {
+  // POST /api/races/:id/waitlist/confirm - Take the spot offered from the waitlist
+  fastify.post('/:id/waitlist/confirm', {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const { error: validationError } = finishSchema.validate(request.body);
-      if (validationError) {
-        reply.status(400).send({ 
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      
+      const result = await waitlist.confirm(raceId, user.id);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          message: 'Successfully joined race',
+          data: result.data
+        });
+      } else {
+        reply.status(accessErrorStatus(result.error)).send({ 
           success: false, 
-          error: validationError.details[0].message 
+          error: result.error 
         });
-        return;
       }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
 
+  // POST /api/races/:id/leave - Leave race
+  fastify.post('/:id/leave', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
       const user = (request as any).user;
       const { id: raceId } = request.params as any;
-      const finishData = request.body as FinishData;
       
-      const result = await dbService.finishRace(raceId, user.id, finishData);
+      const result = await lifecycle.leaveRace(raceId, user.id);
       
       if (result.success) {
-        // Send WebSocket notification to all race participants about completion
-        const wsService = (fastify as any).wsService;
-        if (wsService) {
-          wsService.sendRaceCompletedNotification(raceId, result.data);
-        }
-        
         reply.send({ 
           success: true, 
-          message: 'Race finished successfully',
-          data: { result: result.data }
+          message: 'Successfully left race',
+          data: result.data
         });
       } else {
-        reply.status(404).send({ 
+        reply.status(result.error?.includes('Illegal') ? 409 : 404).send({ 
           success: false, 
           error: result.error 
         });
@@ -363,32 +634,50 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
-  // GET /api/races/nearby - Get nearby races (keeping legacy endpoint)
-  fastify.get('/nearby', {
+  // POST /api/races/:id/stage - Open staging so participants can line up
+  fastify.post('/:id/stage', {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const user = (request as any).user;
-      const { lat, lng, radius } = request.query as any;
+      const { id: raceId } = request.params as any;
       
-      if (!lat || !lng) {
-        reply.status(400).send({ 
+      const result = await lifecycle.stageRace(raceId, user.id);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          message: 'Race staging opened',
+          data: result.data
+        });
+      } else {
+        const status = result.error?.includes('Illegal') ? 409 :
+                      result.error === 'Race not found' ? 404 : 403;
+        reply.status(status).send({ 
           success: false, 
-          error: 'lat and lng query parameters required' 
+          error: result.error 
         });
-        return;
       }
-      
-      const result = await dbService.getNearbyRaces(
-        parseFloat(lat), 
-        parseFloat(lng), 
-        radius ? parseFloat(radius) : 50
-      );
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/history - Audited race and participant status transitions
+  fastify.get('/:id/history', {
+    preHandler: [authenticateUser, requireRaceView],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id: raceId } = request.params as any;
+      const result = await lifecycle.getHistory(raceId);
       
       if (result.success) {
         reply.send({ 
           success: true, 
-          data: { races: result.data || [] }
+          data: { history: result.data || [] }
         });
       } else {
         reply.status(500).send({ 
@@ -404,21 +693,26 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
-  // GET /api/races/my-races - Get user's races
-  fastify.get('/my-races', {
+  // POST /api/races/:id/start - Begin the synchronized countdown (race_started follows at the green light)
+  fastify.post('/:id/start', {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const user = (request as any).user;
-      const result = await dbService.getUserRaces(user.id);
+      const { id: raceId } = request.params as any;
+      
+      const result = await raceStart.beginCountdown(raceId, user.id);
       
       if (result.success) {
         reply.send({ 
           success: true, 
-          data: { races: result.data || [] }
+          message: 'Race countdown started',
+          data: result.data
         });
       } else {
-        reply.status(500).send({ 
+        const status = result.error?.includes('Illegal') ? 409 :
+                      result.error === 'Race not found' ? 404 : 403;
+        reply.status(status).send({ 
           success: false, 
           error: result.error 
         });
@@ -431,69 +725,1008 @@ async function raceRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
-  // POST /api/races/:id/invite - Invite user to race
-  fastify.post('/:id/invite', {
+  // POST /api/races/:id/location - Update location during race
+  fastify.post('/:id/location', {
     preHandler: [authenticateUser],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const user = (request as any).user;
-      const { id: raceId } = request.params as any;
-      const { username } = request.body as any;
-      
-      // Get race details first
-      const raceResult = await dbService.getRace(raceId);
-      if (!raceResult.success || !raceResult.data) {
-        reply.status(404).send({ 
+      const { error: validationError } = locationSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
           success: false, 
-          error: 'Race not found' 
+          error: validationError.details[0].message 
         });
         return;
       }
+
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      const locationData = request.body as LocationUpdate;
       
-      // Look up the target user by username
-      const supabaseService = (fastify as any).supabaseService;
-      if (!supabaseService) {
-        reply.status(500).send({ success: false, error: 'Database service not available' });
-        return;
-      }
-      
-      // Find user by username
-      const { data: users } = await supabaseService.supabase
-        .from('users')
-        .select('id, username, email')
-        .eq('username', username)
-        .limit(1);
+      // Single points go through the telemetry pipeline, which also relays them to the race room
+      const result = await telemetry.ingest(raceId, user.id, [locationData]);
       
-      if (!users || users.length === 0) {
-        reply.status(404).send({ success: false, error: 'User not found' });
-        return;
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          message: 'Location updated successfully',
+          data: {
+            raceId,
+            userId: user.id,
+            location: locationData,
+            telemetry: result.data,
+            timestamp: new Date().toISOString(),
+          }
+        });
+      } else {
+        reply.status(telemetryErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
       }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // POST /api/races/:id/telemetry - Upload a batch of GPS samples
+  fastify.post('/:id/telemetry', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      const { samples } = (request.body as any) || {};
       
-      const targetUser = users[0];
+      const result = await telemetry.ingest(raceId, user.id, samples);
       
-      // Send WebSocket race invitation
-      const wsService = (fastify as any).wsService;
-      if (wsService) {
-        wsService.sendRaceInvitation(targetUser.id, raceResult.data, {
-          id: user.id,
-          username: user.username,
-          email: user.email
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: result.data
+        });
+      } else {
+        reply.status(telemetryErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
         });
       }
-      
-      reply.send({ 
-        success: true, 
-        message: 'Race invitation sent',
-        data: {
-          invitedUser: targetUser.username,
-          race: raceResult.data
-        }
-      });
     } catch (error) {
-      console.error('Race invite error:', error);
       reply.status(500).send({ 
         success: false, 
-        error: 'Failed to send race invitation' 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/telemetry/:userId - Recorded trace for replay and analysis
+  fastify.get('/:id/telemetry/:userId', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = replayQuerySchema.validate(request.query);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId, userId } = request.params as any;
+
+      // Raw traces are for the field and the organizer only, not everyone who can see the race
+      const raceResult = await dbService.getRace(raceId);
+      const race = raceResult.success ? raceResult.data : null;
+      const inRace = race && (race.createdBy === user.id || race.participants.some((p: any) => p.user_id === user.id));
+      if (!race || !inRace || !(await raceAccess.canView(race, user.id))) {
+        reply.status(404).send({ 
+          success: false, 
+          error: 'Race not found' 
+        });
+        return;
+      }
+      
+      const result = await telemetry.getReplay(raceId, userId, value.fromSeq, value.limit);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { samples: result.data || [] }
+        });
+      } else {
+        reply.status(500).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // POST /api/races/:id/finish - Finish race
+  fastify.post('/:id/finish', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError } = finishSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      const finishData = request.body as FinishData;
+      
+      const result = await lifecycle.finishParticipant(raceId, user.id, finishData);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          message: 'Race finished successfully',
+          data: { result: result.data }
+        });
+      } else {
+        const status = result.error?.includes('Illegal') ? 409 :
+                      result.error?.includes('Incomplete') ? 422 :
+                      result.error?.includes('Failed') ? 500 : 404;
+        reply.status(status).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // PUT /api/races/:id/dial-in - Declare the ET you expect to run in a bracket race, before staging
+  fastify.put('/:id/dial-in', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = dialInSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+
+      const result = await bracketRacing.setDialIn(raceId, user.id, value.dialIn);
+
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: result.data
+        });
+      } else {
+        const status = result.error?.includes('not found') ? 404 :
+                      result.error?.includes('Invalid') ? 400 : 409;
+        reply.status(status).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/handicaps - Head start per lane in a handicap drag race, from estimated ETs
+  fastify.get('/:id/handicaps', {
+    preHandler: [authenticateUser, requireRaceView],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id: raceId } = request.params as any;
+
+      const result = await vehicleClasses.getHandicaps(raceId);
+
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { handicaps: result.data }
+        });
+      } else {
+        const status = result.error?.includes('Invalid') ? 400 : 404;
+        reply.status(status).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/drift-scores - Judged scores with the zone breakdown, best first
+  fastify.get('/:id/drift-scores', {
+    preHandler: [authenticateUser, requireRaceView],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id: raceId } = request.params as any;
+
+      const result = await driftScoring.getScores(raceId);
+
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { scores: result.data }
+        });
+      } else {
+        const status = result.error?.includes('Invalid') ? 400 : 404;
+        reply.status(status).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/timing/:userId - Drag timing slip computed from the participant's GPS trace
+  fastify.get('/:id/timing/:userId', {
+    preHandler: [authenticateUser, requireRaceView],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id: raceId, userId } = request.params as any;
+      
+      const result = await dragTiming.getSlip(raceId, userId);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { slip: result.data }
+        });
+      } else {
+        const status = result.error?.includes('only available') ? 400 :
+                      result.error?.includes('not started') ? 409 : 404;
+        reply.status(status).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // PUT /api/races/:id/route - Set waypoints, timing gates and lap count
+  fastify.put('/:id/route', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = routeSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      
+      const result = await lapTiming.updateRoute(raceId, user.id, value as RaceRoute);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { race: result.data }
+        });
+      } else {
+        const status = result.error?.includes('not found') ? 404 :
+                      result.error?.includes('Illegal') ? 409 : 403;
+        reply.status(status).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // POST /api/races/:id/route/gpx - Set the route from an uploaded GPX file (multipart field "file")
+  fastify.post('/:id/route/gpx', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+
+      const file = request.isMultipart()
+        ? await request.file({ limits: { fileSize: MAX_GPX_IMPORT_BYTES, files: 1 } })
+        : undefined;
+      if (!file) {
+        reply.status(400).send({ 
+          success: false, 
+          error: 'A GPX file is required'
+        });
+        return;
+      }
+
+      let xml: string;
+      try {
+        xml = (await file.toBuffer()).toString('utf8');
+      } catch (error) {
+        reply.status(413).send({ 
+          success: false, 
+          error: `GPX file must be at most ${MAX_GPX_IMPORT_BYTES} bytes`
+        });
+        return;
+      }
+
+      const result = await raceExport.importGpxRoute(raceId, user.id, xml);
+
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { race: result.data }
+        });
+      } else {
+        const status = result.error?.includes('Invalid') ? 400 :
+                      result.error?.includes('not found') ? 404 :
+                      result.error?.includes('Illegal') ? 409 : 403;
+        reply.status(status).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/export?format=gpx|kml|csv|geojson - Every participant's track plus the route and gates as one file
+  fastify.get('/:id/export', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = exportSchema.validate(request.query);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+
+      const result = await raceExport.exportRace(raceId, user.id, value.format as ExportFormat);
+
+      if (result.success) {
+        reply
+          .header('Content-Type', `${result.data!.contentType}; charset=utf-8`)
+          .header('Content-Disposition', `attachment; filename="${result.data!.filename}"`)
+          .send(result.data!.body);
+      } else {
+        const status = result.error?.includes('not found') ? 404 :
+                      result.error?.includes('Illegal') ? 409 :
+                      result.error?.includes('Invalid') ? 413 : 500;
+        reply.status(status).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/messages?before=&limit= - Race chat, newest first; `nextCursor` fetches the older page
+  fastify.get('/:id/messages', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = chatHistorySchema.validate(request.query);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+
+      const result = await raceChat.getHistory(raceId, user.id, value.before, value.limit);
+
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: result.data
+        });
+      } else {
+        const status = result.error?.includes('Invalid') ? 400 :
+                      result.error?.includes('not found') ? 404 : 500;
+        reply.status(status).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/laps/:userId - Lap and sector times detected so far
+  fastify.get('/:id/laps/:userId', {
+    preHandler: [authenticateUser, requireRaceView],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id: raceId, userId } = request.params as any;
+      
+      const result = await lapTiming.getLaps(raceId, userId);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: result.data
+        });
+      } else {
+        reply.status(404).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/standings - Current leaderboard (live while racing, from results afterwards)
+  fastify.get('/:id/standings', {
+    preHandler: [authenticateUser, requireRaceView],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id: raceId } = request.params as any;
+      
+      const result = await standings.getStandings(raceId);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { standings: result.data || [] }
+        });
+      } else {
+        reply.status(404).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/results - Recorded results in finishing order
+  fastify.get('/:id/results', {
+    preHandler: [authenticateUser, requireRaceView],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id: raceId } = request.params as any;
+      
+      const result = await dbService.getRaceResults(raceId);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { results: result.data || [] }
+        });
+      } else {
+        reply.status(400).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/results/history - Audit trail of every result change
+  fastify.get('/:id/results/history', {
+    preHandler: [authenticateUser, requireRaceView],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id: raceId } = request.params as any;
+      
+      const result = await disputes.getHistory(raceId);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { history: result.data || [] }
+        });
+      } else {
+        reply.status(400).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // POST /api/races/:id/results/:resultId/review - Organizer approves or rejects a held result
+  fastify.post('/:id/results/:resultId/review', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = reviewSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId, resultId } = request.params as any;
+      
+      const result = await disputes.reviewResult(raceId, resultId, user.id, value.decision, value.reason);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: result.data
+        });
+      } else {
+        reply.status(disputeErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // POST /api/races/:id/disputes - Contest a result with telemetry or photo evidence
+  fastify.post('/:id/disputes', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = disputeSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      
+      const result = await disputes.fileDispute(raceId, user.id, value);
+      
+      if (result.success) {
+        reply.status(201).send({ 
+          success: true, 
+          data: { dispute: result.data }
+        });
+      } else {
+        reply.status(disputeErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/disputes - Disputes filed for a race
+  fastify.get('/:id/disputes', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      
+      const result = await disputes.getDisputes(raceId, user.id);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { disputes: result.data || [] }
+        });
+      } else {
+        reply.status(disputeErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // POST /api/races/:id/disputes/:disputeId/resolve - Organizer accepts (with a ruling) or rejects a dispute
+  fastify.post('/:id/disputes/:disputeId/resolve', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = resolveDisputeSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId, disputeId } = request.params as any;
+      
+      const result = await disputes.resolveDispute(
+        raceId, disputeId, user.id, value.decision, value.ruling, value.resolution
+      );
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: result.data
+        });
+      } else {
+        reply.status(disputeErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/nearby - Get nearby races (keeping legacy endpoint)
+  fastify.get('/nearby', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { lat, lng, radius } = request.query as any;
+      
+      if (!lat || !lng) {
+        reply.status(400).send({ 
+          success: false, 
+          error: 'lat and lng query parameters required' 
+        });
+        return;
+      }
+      
+      const result = await dbService.getNearbyRaces(
+        parseFloat(lat), 
+        parseFloat(lng), 
+        radius ? parseFloat(radius) : 50,
+        user.id
+      );
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { races: result.data || [] }
+        });
+      } else {
+        reply.status(500).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/my-races - Get user's races
+  fastify.get('/my-races', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const result = await dbService.getUserRaces(user.id);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { races: result.data || [] }
+        });
+      } else {
+        reply.status(500).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/my-invitations - Invitations waiting for the current user's answer
+  fastify.get('/my-invitations', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const result = await raceAccess.getUserInvitations(user.id);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { invitations: result.data || [] }
+        });
+      } else {
+        reply.status(500).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // POST /api/races/:id/invite - Invite user to race
+  fastify.post('/:id/invite', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = inviteSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      
+      const result = await raceAccess.invite(raceId, user, value.username);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          message: 'Race invitation sent',
+          data: {
+            invitedUser: value.username,
+            invitation: result.data
+          }
+        });
+      } else {
+        reply.status(accessErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      console.error('Race invite error:', error);
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Failed to send race invitation' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/invitations - Organizer's view of who was invited and how they answered
+  fastify.get('/:id/invitations', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      
+      const result = await raceAccess.getRaceInvitations(raceId, user.id);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { invitations: result.data || [] }
+        });
+      } else {
+        reply.status(accessErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // POST /api/races/:id/invitation - Accept (and join) or decline an invitation
+  fastify.post('/:id/invitation', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = invitationResponseSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      
+      const result = await raceAccess.respondToInvitation(raceId, user.id, value.decision === 'accept');
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: result.data
+        });
+      } else {
+        reply.status(accessErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // GET /api/races/:id/join-requests - Organizer's approval queue
+  fastify.get('/:id/join-requests', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id: raceId } = request.params as any;
+      const { status } = request.query as any;
+      
+      const result = await raceAccess.getJoinRequests(raceId, user.id, status || 'pending');
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { joinRequests: result.data || [] }
+        });
+      } else {
+        reply.status(accessErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // POST /api/races/:id/join-requests/:userId - Organizer approves or rejects a join request
+  fastify.post('/:id/join-requests/:userId', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = joinDecisionSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({ 
+          success: false, 
+          error: validationError.details[0].message 
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id: raceId, userId } = request.params as any;
+      
+      const result = await raceAccess.decideJoinRequest(
+        raceId, userId, user.id, value.decision === 'approve', value.reason
+      );
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: result.data
+        });
+      } else {
+        reply.status(accessErrorStatus(result.error)).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
       });
     }
   });
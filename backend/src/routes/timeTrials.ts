@@ -0,0 +1,358 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import Joi from 'joi';
+import { authenticateUser } from '../middleware/auth';
+import { TimeTrialService, MAX_RUN_SAMPLES } from '../services/timeTrials';
+import { GhostRaceService } from '../services/ghostRaces';
+import { VEHICLE_CLASSES } from '../services/vehicleClasses';
+
+const pointSchema = Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required(),
+});
+
+const gateSchema = Joi.alternatives().try(
+  Joi.object({
+    type: Joi.string().valid('line').required(),
+    name: Joi.string().max(50).optional(),
+    a: pointSchema.required(),
+    b: pointSchema.required(),
+  }),
+  Joi.object({
+    type: Joi.string().valid('radius').required(),
+    name: Joi.string().max(50).optional(),
+    center: pointSchema.required(),
+    radius: Joi.number().min(3).max(500).required(),
+  })
+);
+
+const routeSchema = Joi.object({
+  name: Joi.string().max(100).required(),
+  description: Joi.string().max(1000).optional(),
+  route: Joi.object({
+    waypoints: Joi.array().items(pointSchema).max(1000).default([]),
+    start: gateSchema.required(),
+    checkpoints: Joi.array().items(gateSchema).max(50).default([]),
+    finish: gateSchema.required(),
+  }).required(),
+});
+
+const runSchema = Joi.object({
+  samples: Joi.array().items(Joi.object({
+    lat: Joi.number().min(-90).max(90).required(),
+    lng: Joi.number().min(-180).max(180).required(),
+    speed: Joi.number().min(0).optional(),
+    heading: Joi.number().min(0).max(360).optional(),
+    accuracy: Joi.number().min(0).optional(),
+    timestamp: Joi.number().integer().min(0).required(),
+  })).min(2).max(MAX_RUN_SAMPLES).required(),
+});
+
+const leaderboardSchema = Joi.object({
+  view: Joi.string().valid('overall', 'weekly', 'class', 'friends').default('overall'),
+  vehicleClass: Joi.string().valid(...VEHICLE_CLASSES).when('view', { is: 'class', then: Joi.required() }),
+  limit: Joi.number().integer().min(1).max(200).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+const errorStatus = (error?: string): number =>
+  error?.includes('not found') ? 404 :
+  error?.includes('Only') ? 403 :
+  error?.includes('Incomplete') ? 422 :
+  error?.includes('Invalid') || error?.includes('No vehicle') ? 400 : 500;
+
+async function timeTrialRoutes(fastify: FastifyInstance): Promise<void> {
+  const timeTrials: TimeTrialService = (fastify as any).timeTrials;
+  const ghostRaces: GhostRaceService = (fastify as any).ghostRaces;
+
+  // GET /api/routes - Saved routes, newest first
+  fastify.get('/', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const result = await timeTrials.listRoutes();
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: { routes: result.data || [] }
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/routes - Save a route with its start gate, checkpoints and finish gate
+  fastify.post('/', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = routeSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({
+          success: false,
+          error: validationError.details[0].message
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+
+      const result = await timeTrials.createRoute(user.id, value);
+
+      if (result.success) {
+        reply.status(201).send({
+          success: true,
+          data: { route: result.data }
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /api/routes/:id - Route and its current record
+  fastify.get('/:id', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as any;
+
+      const result = await timeTrials.getRoute(id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /api/routes/:id/leaderboard?view=overall|weekly|class|friends&vehicleClass=&limit=&offset=
+  fastify.get('/:id/leaderboard', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = leaderboardSchema.validate(request.query);
+      if (validationError) {
+        reply.status(400).send({
+          success: false,
+          error: validationError.details[0].message
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await timeTrials.getLeaderboard(id, value.view, {
+        userId: user.id,
+        vehicleClass: value.vehicleClass,
+        limit: value.limit,
+        offset: value.offset,
+      });
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/routes/:id/runs - Upload a recorded run; it's timed gate to gate from the trace
+  fastify.post('/:id/runs', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = runSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({
+          success: false,
+          error: validationError.details[0].message
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await timeTrials.submitRun(id, user.id, value.samples);
+
+      if (result.success) {
+        reply.status(201).send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /api/routes/:id/runs/mine - Your runs on this route, including any held for review
+  fastify.get('/:id/runs/mine', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await timeTrials.getUserRuns(id, user.id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: { runs: result.data || [] }
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /api/routes/:id/runs/:runId/telemetry - A run's trace, e.g. the record run to compare against
+  fastify.get('/:id/runs/:runId/telemetry', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id, runId } = request.params as any;
+
+      const result = await timeTrials.getRunTelemetry(id, runId, user.id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /api/routes/:id/runs/:runId/compare?against= - Split-by-split against another run, the record by default
+  fastify.get('/:id/runs/:runId/compare', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id, runId } = request.params as any;
+      const { against } = request.query as any;
+
+      const result = await timeTrials.compare(id, runId, user.id, against);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /api/routes/:id/head-to-head?opponent= - Your ghost race record on this route, per ghost driver
+  fastify.get('/:id/head-to-head', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id } = request.params as any;
+      const { opponent } = request.query as any;
+
+      const result = await ghostRaces.getHeadToHead(user.id, { routeId: id, opponentId: opponent });
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+}
+
+export default timeTrialRoutes;
@@ -0,0 +1,239 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import Joi from 'joi';
+import { authenticateUser } from '../middleware/auth';
+import { TournamentService } from '../services/tournaments';
+
+const locationSchema = Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required(),
+  address: Joi.string().max(200).optional(),
+});
+
+const tournamentSchema = Joi.object({
+  name: Joi.string().max(100).required(),
+  description: Joi.string().max(1000).optional(),
+  format: Joi.string().valid('single_elimination', 'double_elimination').default('single_elimination'),
+  seeding: Joi.string().valid('quarter_mile', 'rating').default('quarter_mile'),
+  maxEntrants: Joi.number().integer().min(2).max(64).default(16),
+  startLocation: locationSchema.required(),
+  endLocation: locationSchema.required(),
+});
+
+const errorStatus = (error?: string): number =>
+  error?.includes('not found') ? 404 :
+  error?.includes('Only') ? 403 :
+  error?.includes('Illegal') || error?.includes('already') || error?.includes('full') ? 409 :
+  error?.includes('Invalid') || error?.includes('No vehicle') ? 400 : 500;
+
+async function tournamentRoutes(fastify: FastifyInstance): Promise<void> {
+  const tournaments: TournamentService = (fastify as any).tournaments;
+
+  // GET /api/tournaments - Tournaments open for registration or under way
+  fastify.get('/', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const result = await tournaments.listTournaments();
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: { tournaments: result.data || [] }
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/tournaments - Create a tournament; registration opens immediately
+  fastify.post('/', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { error: validationError, value } = tournamentSchema.validate(request.body);
+      if (validationError) {
+        reply.status(400).send({
+          success: false,
+          error: validationError.details[0].message
+        });
+        return;
+      }
+
+      const user = (request as any).user;
+
+      const result = await tournaments.createTournament(user.id, value);
+
+      if (result.success) {
+        reply.status(201).send({
+          success: true,
+          data: { tournament: result.data }
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /api/tournaments/:id - Tournament, seeded entrants and the bracket tree
+  fastify.get('/:id', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as any;
+
+      const result = await tournaments.getBracket(id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/tournaments/:id/register - Enter with the currently selected vehicle
+  fastify.post('/:id/register', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await tournaments.register(id, user.id);
+
+      if (result.success) {
+        reply.status(201).send({
+          success: true,
+          data: { entrant: result.data }
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // DELETE /api/tournaments/:id/register - Withdraw before the bracket is drawn
+  fastify.delete('/:id/register', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await tournaments.withdraw(id, user.id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          message: 'Withdrawn from tournament'
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/tournaments/:id/start - Seed the field, draw the bracket and open the first matches
+  fastify.post('/:id/start', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await tournaments.start(id, user.id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: result.data
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api/tournaments/:id/cancel - Call off the tournament and any open match races
+  fastify.post('/:id/cancel', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = (request as any).user;
+      const { id } = request.params as any;
+
+      const result = await tournaments.cancel(id, user.id);
+
+      if (result.success) {
+        reply.send({
+          success: true,
+          data: { tournament: result.data }
+        });
+      } else {
+        reply.status(errorStatus(result.error)).send({
+          success: false,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+}
+
+export default tournamentRoutes;
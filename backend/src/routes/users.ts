@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import Joi from 'joi';
 import { SupabaseService } from '../services/database';
+import { RatingService } from '../services/ratings';
 import { User } from '../types';
 
 interface UpdateUserBody {
@@ -21,8 +22,14 @@ const updateUserSchema = Joi.object({
   }),
 });
 
+const ratingHistorySchema = Joi.object({
+  raceType: Joi.string().valid('drag', 'circuit', 'drift', 'time-trial').optional(),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+});
+
 async function userRoutes(fastify: FastifyInstance): Promise<void> {
   const dbService = new SupabaseService();
+  const ratings: RatingService = (fastify as any).ratings;
 
   // Get current user profile
   fastify.get('/profile', {
@@ -101,12 +108,15 @@ async function userRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      const ratingsResult = await ratings.getRatings(userId);
+
       // Return public profile only
       const publicProfile = {
         id: userResult.data!.id,
         username: userResult.data!.username,
         avatar: userResult.data!.avatar,
         stats: userResult.data!.stats,
+        ratings: ratingsResult.data || null,
         isPro: userResult.data!.isPro,
         createdAt: userResult.data!.createdAt,
       };
@@ -124,6 +134,39 @@ async function userRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  // Rating changes race by race, newest first
+  fastify.get('/:userId/ratings/history', async (request: FastifyRequest<{ Params: { userId: string } }>, reply: FastifyReply) => {
+    try {
+      const { error, value } = ratingHistorySchema.validate(request.query);
+      if (error) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.details[0].message,
+        });
+      }
+
+      const historyResult = await ratings.getHistory(request.params.userId, value.raceType, value.limit);
+
+      if (!historyResult.success) {
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to fetch rating history',
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: historyResult.data,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch rating history',
+      });
+    }
+  });
+
   // Delete user account
   fastify.delete('/account', {
     preHandler: [fastify.authenticate],
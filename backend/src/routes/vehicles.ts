@@ -2,6 +2,7 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import Joi from 'joi';
 import { SupabaseService } from '../services/database';
 import { authenticateUser } from '../middleware/auth';
+import { VehicleClassService } from '../services/vehicleClasses';
 
 interface VehicleBody {
   name: string;
@@ -25,6 +26,7 @@ const vehicleSchema = Joi.object({
 
 async function vehicleRoutes(fastify: FastifyInstance): Promise<void> {
   const dbService = new SupabaseService();
+  const vehicleClasses: VehicleClassService = (fastify as any).vehicleClasses;
 
   // GET /api/vehicles - Get user vehicles
   fastify.get('/', {
@@ -108,6 +110,34 @@ async function vehicleRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  // GET /api/vehicles/:id/class - Performance class with installed modifications
+  fastify.get('/:id/class', {
+    preHandler: [authenticateUser],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as any;
+      
+      const result = await vehicleClasses.classify(id);
+      
+      if (result.success) {
+        reply.send({ 
+          success: true, 
+          data: { classification: result.data }
+        });
+      } else {
+        reply.status(result.error?.includes('not found') ? 404 : 500).send({ 
+          success: false, 
+          error: result.error 
+        });
+      }
+    } catch (error) {
+      reply.status(500).send({ 
+        success: false, 
+        error: 'Internal server error' 
+      });
+    }
+  });
+
   // POST /api/vehicles - Create vehicle
   fastify.post('/', {
     preHandler: [authenticateUser],
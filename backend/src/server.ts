@@ -19,6 +19,11 @@ import meetupRoutes from './routes/meetups';
 import friendRoutes from './routes/friends';
 import uploadRoutes from './routes/uploads';
 import aiRoutes from './routes/ai';
+import adminRoutes from './routes/admin';
+import tournamentRoutes from './routes/tournaments';
+import championshipRoutes from './routes/championships';
+import matchmakingRoutes from './routes/matchmaking';
+import timeTrialRoutes from './routes/timeTrials';
 
 // Import middleware
 import { authenticateUser } from './middleware/auth';
@@ -29,6 +34,33 @@ import { requestLogger } from './middleware/logger';
 // Import services
 import { SupabaseService } from './services/database';
 import { WebSocketService } from './services/websocket';
+import { RaceLifecycleService } from './services/raceLifecycle';
+import { RaceStartService } from './services/raceStart';
+import { TelemetryService } from './services/telemetry';
+import { DragTimingService } from './services/dragTiming';
+import { LapTimingService } from './services/lapTiming';
+import { StandingsService } from './services/standings';
+import { RaceSupervisorService } from './services/raceSupervisor';
+import { ResultValidationService } from './services/resultValidation';
+import { NotificationService } from './services/notifications';
+import { DisputeService } from './services/disputes';
+import { JobSchedulerService } from './services/jobScheduler';
+import { RaceJobsService } from './services/raceJobs';
+import { RaceAccessService } from './services/raceAccess';
+import { WaitlistService } from './services/waitlist';
+import { RaceManagementService } from './services/raceManagement';
+import { TournamentService } from './services/tournaments';
+import { ChampionshipService } from './services/championships';
+import { MatchmakingService } from './services/matchmaking';
+import { VehicleClassService } from './services/vehicleClasses';
+import { BracketRacingService } from './services/bracketRacing';
+import { DriftScoringService } from './services/driftScoring';
+import { RaceExportService } from './services/raceExport';
+import { RaceChatService } from './services/raceChat';
+import { TimeTrialService } from './services/timeTrials';
+import { GhostRaceService } from './services/ghostRaces';
+import { SpectatorService } from './services/spectators';
+import { RatingService } from './services/ratings';
 
 // Import types
 import { User } from './types';
@@ -50,6 +82,33 @@ class DashRacingServer {
   private fastify: FastifyInstance;
   private supabaseService: SupabaseService;
   private wsService: WebSocketService;
+  private raceLifecycle: RaceLifecycleService;
+  private raceStart: RaceStartService;
+  private telemetry: TelemetryService;
+  private dragTiming: DragTimingService;
+  private lapTiming: LapTimingService;
+  private standings: StandingsService;
+  private raceSupervisor: RaceSupervisorService;
+  private resultValidation: ResultValidationService;
+  private notifications: NotificationService;
+  private disputes: DisputeService;
+  private jobScheduler: JobSchedulerService;
+  private raceJobs: RaceJobsService;
+  private raceAccess: RaceAccessService;
+  private waitlist: WaitlistService;
+  private raceManagement: RaceManagementService;
+  private tournaments: TournamentService;
+  private championships: ChampionshipService;
+  private matchmaking: MatchmakingService;
+  private vehicleClasses: VehicleClassService;
+  private bracketRacing: BracketRacingService;
+  private driftScoring: DriftScoringService;
+  private raceExport: RaceExportService;
+  private raceChat: RaceChatService;
+  private timeTrials: TimeTrialService;
+  private ghostRaces: GhostRaceService;
+  private spectators: SpectatorService;
+  private ratings: RatingService;
 
   constructor() {
     this.fastify = Fastify({
@@ -71,6 +130,55 @@ class DashRacingServer {
 
     this.supabaseService = new SupabaseService();
     this.wsService = new WebSocketService();
+    this.notifications = new NotificationService(this.supabaseService, this.wsService);
+    this.raceLifecycle = new RaceLifecycleService(this.supabaseService, this.wsService);
+    this.telemetry = new TelemetryService(this.supabaseService, this.wsService, this.raceLifecycle);
+    this.jobScheduler = new JobSchedulerService(this.supabaseService);
+    this.raceStart = new RaceStartService(this.supabaseService, this.wsService, this.raceLifecycle, this.telemetry, this.jobScheduler);
+    this.dragTiming = new DragTimingService(this.supabaseService, this.telemetry);
+    this.lapTiming = new LapTimingService(this.supabaseService, this.wsService, this.raceLifecycle, this.telemetry);
+    this.standings = new StandingsService(this.supabaseService, this.wsService, this.raceLifecycle, this.telemetry, this.lapTiming);
+    this.raceSupervisor = new RaceSupervisorService(this.supabaseService, this.wsService, this.raceLifecycle, this.telemetry, this.standings);
+    // Race rooms admit participants only; public races can be watched, delayed, from a spectator room
+    this.spectators = new SpectatorService(this.supabaseService, this.wsService, this.standings);
+
+    // Drag and circuit results come from the GPS trace, not the client's stopwatch
+    this.raceLifecycle.useFinishTiming('drag', (race, userId, finishData) =>
+      this.dragTiming.timeFinish(race, userId, finishData));
+    this.raceLifecycle.useFinishTiming('circuit', (race, userId) =>
+      this.lapTiming.timeFinish(race, userId));
+
+    // Every result is cross-checked against its telemetry before it counts
+    this.resultValidation = new ResultValidationService(this.supabaseService, this.telemetry);
+    this.raceLifecycle.useResultValidation((race, userId, finishData, reported, serverTimed) =>
+      this.resultValidation.review(race, userId, finishData, reported, serverTimed));
+
+    this.disputes = new DisputeService(this.supabaseService, this.wsService, this.notifications, this.raceLifecycle);
+    this.raceAccess = new RaceAccessService(this.supabaseService, this.raceLifecycle, this.notifications);
+    this.raceExport = new RaceExportService(this.supabaseService, this.telemetry, this.raceAccess, this.lapTiming);
+    this.raceChat = new RaceChatService(this.supabaseService, this.wsService, this.raceLifecycle, this.raceAccess);
+
+    // Class limits are checked on join; handicap drag races get their lane delays at the countdown
+    this.vehicleClasses = new VehicleClassService(this.supabaseService, this.wsService, this.raceLifecycle);
+    // Registered before ratings and tournaments so a finished bracket or drift race is re-ranked before they read it
+    this.bracketRacing = new BracketRacingService(this.supabaseService, this.wsService, this.raceLifecycle);
+    this.driftScoring = new DriftScoringService(this.supabaseService, this.wsService, this.raceLifecycle, this.telemetry);
+
+    this.raceJobs = new RaceJobsService(this.supabaseService, this.raceLifecycle, this.jobScheduler, this.notifications);
+    this.waitlist = new WaitlistService(this.supabaseService, this.raceLifecycle, this.jobScheduler, this.notifications, this.raceAccess);
+    this.raceManagement = new RaceManagementService(
+      this.supabaseService, this.wsService, this.raceLifecycle, this.raceJobs, this.waitlist, this.notifications
+    );
+    this.ratings = new RatingService(this.supabaseService, this.raceLifecycle, this.disputes);
+    this.tournaments = new TournamentService(
+      this.supabaseService, this.raceLifecycle, this.raceJobs, this.notifications, this.ratings
+    );
+    this.championships = new ChampionshipService(this.supabaseService, this.wsService, this.raceLifecycle, this.disputes);
+    this.matchmaking = new MatchmakingService(this.supabaseService, this.wsService, this.ratings, this.raceJobs);
+    this.timeTrials = new TimeTrialService(this.supabaseService, this.resultValidation, this.vehicleClasses);
+    this.ghostRaces = new GhostRaceService(
+      this.supabaseService, this.wsService, this.timeTrials, this.telemetry, this.raceAccess
+    );
   }
 
   private async registerPlugins(): Promise<void> {
@@ -142,10 +250,92 @@ class DashRacingServer {
     // Database service decorator
     this.fastify.decorate('supabaseService', this.supabaseService);
 
+    // Race lifecycle decorators
+    this.fastify.decorate('raceLifecycle', this.raceLifecycle);
+    this.fastify.decorate('raceStart', this.raceStart);
+    this.fastify.decorate('telemetry', this.telemetry);
+    this.fastify.decorate('dragTiming', this.dragTiming);
+    this.fastify.decorate('lapTiming', this.lapTiming);
+    this.fastify.decorate('standings', this.standings);
+    this.fastify.decorate('disputes', this.disputes);
+    this.fastify.decorate('raceJobs', this.raceJobs);
+    this.fastify.decorate('raceAccess', this.raceAccess);
+    this.fastify.decorate('waitlist', this.waitlist);
+    this.fastify.decorate('raceManagement', this.raceManagement);
+    this.fastify.decorate('tournaments', this.tournaments);
+    this.fastify.decorate('championships', this.championships);
+    this.fastify.decorate('matchmaking', this.matchmaking);
+    this.fastify.decorate('vehicleClasses', this.vehicleClasses);
+    this.fastify.decorate('bracketRacing', this.bracketRacing);
+    this.fastify.decorate('driftScoring', this.driftScoring);
+    this.fastify.decorate('raceExport', this.raceExport);
+    this.fastify.decorate('raceChat', this.raceChat);
+    this.fastify.decorate('timeTrials', this.timeTrials);
+    this.fastify.decorate('ghostRaces', this.ghostRaces);
+    this.fastify.decorate('ratings', this.ratings);
+
+    // Background job decorators
+    this.fastify.decorate('jobScheduler', this.jobScheduler);
+
+    // Notification service decorator
+    this.fastify.decorate('notifications', this.notifications);
+
+    // Race socket messages handled outside the WebSocket service
+    this.registerRaceMessageHandlers();
+
     // Error handler
     this.fastify.setErrorHandler(errorHandler);
   }
 
+  private registerRaceMessageHandlers(): void {
+    this.wsService.onRaceMessage('ready', ({ userId, raceId }, message) =>
+      this.raceStart.setReady(raceId, userId, message.data?.ready !== false));
+
+    this.wsService.onRaceMessage('start_countdown', ({ userId, raceId }) =>
+      this.raceStart.beginCountdown(raceId, userId));
+
+    this.wsService.onRaceMessage('abort_countdown', ({ userId, raceId }, message) =>
+      this.raceStart.abortCountdown(raceId, userId, message.data?.reason));
+
+    this.wsService.onRaceMessage('telemetry', async ({ connectionId, userId, raceId }, message) => {
+      const result = await this.telemetry.ingest(raceId, userId, message.data?.samples);
+      if (result.success) {
+        this.wsService.sendToConnection(connectionId, {
+          type: 'telemetry_ack',
+          raceId,
+          data: result.data,
+          timestamp: new Date(),
+        });
+      }
+      return result;
+    });
+
+    this.wsService.onRaceMessage('spectate_race', ({ connectionId, raceId }) =>
+      this.spectators.spectate(connectionId, raceId));
+
+    this.wsService.onRaceMessage('stop_spectating', ({ connectionId, raceId }) =>
+      this.spectators.stopSpectating(connectionId, raceId));
+
+    this.wsService.onRaceMessage('chat_send', ({ connectionId, userId, raceId }, message) =>
+      this.raceChat.send(connectionId, userId, raceId, message.data?.content));
+
+    this.wsService.onRaceMessage('chat_edit', ({ connectionId, userId, raceId }, message) =>
+      this.raceChat.edit(connectionId, userId, raceId, message.data?.messageId, message.data?.content));
+
+    this.wsService.onRaceMessage('chat_delete', ({ userId, raceId }, message) =>
+      this.raceChat.remove(userId, raceId, message.data?.messageId));
+
+    // Ghost races aren't run in a race room: these messages carry a routeId or the raceId of a finished race
+    this.wsService.onRaceMessage('ghost_start', ({ connectionId, userId }, message) =>
+      this.ghostRaces.start(connectionId, userId, message.data));
+
+    this.wsService.onRaceMessage('ghost_telemetry', ({ connectionId }, message) =>
+      this.ghostRaces.ingest(connectionId, message.data?.samples));
+
+    this.wsService.onRaceMessage('ghost_stop', ({ connectionId }) =>
+      this.ghostRaces.leave(connectionId));
+  }
+
   private async registerRoutes(): Promise<void> {
     // Health check
     this.fastify.get('/health', async () => ({
@@ -172,6 +362,11 @@ class DashRacingServer {
     await this.fastify.register(friendRoutes, { prefix: '/api/friends' });
     await this.fastify.register(uploadRoutes, { prefix: '/api/uploads' });
     await this.fastify.register(aiRoutes, { prefix: '/api/ai' });
+    await this.fastify.register(adminRoutes, { prefix: '/api/admin' });
+    await this.fastify.register(tournamentRoutes, { prefix: '/api/tournaments' });
+    await this.fastify.register(championshipRoutes, { prefix: '/api/championships' });
+    await this.fastify.register(matchmakingRoutes, { prefix: '/api/matchmaking' });
+    await this.fastify.register(timeTrialRoutes, { prefix: '/api/routes' });
 
     // WebSocket routes
     this.fastify.register(async (fastify) => {
@@ -242,6 +437,16 @@ class DashRacingServer {
       
       // Initialize WebSocket service
       this.wsService.initialize();
+
+      // Resume DNF detection and auto-close for races that were running before a restart
+      await this.raceSupervisor.recover();
+
+      // Start background jobs, scheduling any upcoming races that are missing theirs
+      await this.raceJobs.recover();
+      await this.jobScheduler.start();
+
+      // Expire stale proposals and keep matching the queue
+      this.matchmaking.start();
       
     } catch (error) {
       this.fastify.log.error(error);
@@ -251,6 +456,10 @@ class DashRacingServer {
 
   public async stop(): Promise<void> {
     try {
+      this.raceSupervisor.stop();
+      this.jobScheduler.stop();
+      this.matchmaking.stop();
+      this.ghostRaces.stop();
       await this.fastify.close();
       console.log('🛑 DASH RACING API Server stopped');
     } catch (error) {
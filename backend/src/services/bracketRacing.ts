@@ -0,0 +1,233 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { ApiResponse, RecordedResult } from '../types';
+
+// Dial-ins outside this range aren't a real quarter mile
+export const MIN_DIAL_IN = 4;
+export const MAX_DIAL_IN = 30;
+
+// One lane's run in a drag race. Times are seconds; `delay` is how long after the race's green
+// this lane's own light turned.
+export interface DragRun {
+  userId: string;
+  resultId?: string;
+  elapsedTime: number | null; // null without a valid run (no result, or rejected)
+  reactionTime: number | null;
+  dialIn: number | null;
+  delay: number;
+}
+
+export interface RankedRun extends DragRun {
+  redLight: boolean;
+  breakout: boolean;
+  margin: number | null; // ET minus dial-in; negative is a breakout
+  package: number | null; // reaction time plus margin, the bracket racer's measure of a perfect run
+  crossing: number | null; // at the finish line, seconds after the race's green
+}
+
+// Worse faults rank lower: a red light loses to a breakout, which loses to a clean run
+const FAULT_ORDER = (run: RankedRun): number =>
+  run.elapsedTime === null ? 3 : run.redLight ? 2 : run.breakout ? 1 : 0;
+
+const compareRuns = (a: RankedRun, b: RankedRun): number => {
+  const fault = FAULT_ORDER(a) - FAULT_ORDER(b);
+  if (fault !== 0) return fault;
+
+  switch (FAULT_ORDER(a)) {
+    // Clean runs: first to the stripe, then the better package, then the better light
+    case 0:
+      return a.crossing! - b.crossing!
+        || (a.package ?? 0) - (b.package ?? 0)
+        || (a.reactionTime ?? 0) - (b.reactionTime ?? 0);
+    // Both broke out: the smaller breakout wins
+    case 1:
+      return b.margin! - a.margin! || a.crossing! - b.crossing!;
+    // Both red-lit: the first to foul loses
+    case 2:
+      return b.reactionTime! - a.reactionTime! || a.crossing! - b.crossing!;
+    default:
+      return 0;
+  }
+};
+
+// Finishing order under drag racing rules. Without dial-ins nobody can break out, so this is
+// simply first to the finish line with red lights last.
+export const rankDragRuns = (runs: DragRun[]): RankedRun[] => runs
+  .map(run => {
+    const reactionTime = run.reactionTime ?? 0;
+    const valid = run.elapsedTime !== null;
+    const margin = valid && run.dialIn !== null ? run.elapsedTime! - run.dialIn : null;
+
+    return {
+      ...run,
+      redLight: valid && reactionTime < 0,
+      breakout: margin !== null && margin < 0,
+      margin: margin === null ? null : Number(margin.toFixed(3)),
+      package: margin === null ? null : Number((reactionTime + margin).toFixed(3)),
+      crossing: valid ? Number((run.delay + reactionTime + run.elapsedTime!).toFixed(3)) : null,
+    };
+  })
+  .sort(compareRuns);
+
+// Runs for every starter in a race, from the participant timing columns and the recorded results
+export const dragRunsFor = (race: any, results: RecordedResult[]): DragRun[] => race.participants
+  .filter((p: any) => p.status !== 'withdrawn')
+  .map((participant: any): DragRun => {
+    const result = results.find(r => r.userId === participant.user_id);
+    const valid = !!result && result.reviewStatus !== 'rejected';
+    const reaction = participant.reaction_time ?? result?.splits?.reactionTime;
+
+    return {
+      userId: participant.user_id,
+      resultId: result?.id,
+      elapsedTime: valid ? result!.timeResult : null,
+      reactionTime: reaction === null || reaction === undefined ? null : Number(reaction),
+      dialIn: participant.dial_in === null || participant.dial_in === undefined ? null : Number(participant.dial_in),
+      delay: Number(participant.handicap_delay || 0),
+    };
+  });
+
+// Results in bracket racing order; a result without a starter to match it goes last
+export const bracketOrder = (race: any, results: RecordedResult[]): RecordedResult[] => {
+  const order = rankDragRuns(dragRunsFor(race, results))
+    .map(run => results.find(r => r.id === run.resultId))
+    .filter((result): result is RecordedResult => !!result);
+  return [...order, ...results.filter(r => !order.includes(r))];
+};
+
+// Bracket racing: every driver declares the ET they expect to run. The slower dial-in leaves
+// first, the quicker lanes wait out the difference, and whoever gets to the stripe first without
+// running quicker than their dial-in wins.
+export class BracketRacingService {
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService
+  ) {
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+    this.lifecycle.useResultRanking('drag', (race, results) => (race.bracketRacing ? bracketOrder(race, results) : null));
+  }
+
+  // Dial-ins can change until the driver reports ready (staged)
+  async setDialIn(raceId: string, userId: string, dialIn: number): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (!race.bracketRacing) {
+      return { success: false, error: 'Invalid dial-in: race is not a bracket race' };
+    }
+    if (!['scheduled', 'staging'].includes(race.status)) {
+      return { success: false, error: `Illegal dial-in: race is ${race.status}` };
+    }
+
+    const participant = race.participants.find((p: any) => p.user_id === userId);
+    if (!participant || participant.status === 'withdrawn') {
+      return { success: false, error: 'Participant not found' };
+    }
+    if (participant.status !== 'registered') {
+      return { success: false, error: 'Illegal dial-in: already staged' };
+    }
+
+    const result = await this.dbService.updateParticipant(raceId, userId, { dial_in: dialIn });
+    if (!result.success) return result;
+
+    this.wsService.broadcastToRace(raceId, {
+      type: 'dial_in_updated',
+      raceId,
+      data: { raceId, userId, dialIn },
+      timestamp: new Date(),
+    });
+
+    return { success: true, data: { userId, dialIn } };
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (event.userId) return;
+
+    if (event.to === 'countdown') {
+      await this.assignDelays(event.raceId);
+    } else if (event.to === 'finished') {
+      await this.rankResults(event.raceId);
+    }
+  }
+
+  private async assignDelays(raceId: string): Promise<void> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success || !raceResult.data.bracketRacing) return;
+
+    // Everyone on the tree has dialed in: readying without one is refused
+    const runs = dragRunsFor(raceResult.data, []);
+    const slowest = Math.max(0, ...runs.map(run => run.dialIn ?? 0));
+
+    const delays = runs.map(run => ({
+      userId: run.userId,
+      dialIn: run.dialIn,
+      handicapDelay: run.dialIn === null ? 0 : Number((slowest - run.dialIn).toFixed(3)),
+    }));
+    for (const delay of delays) {
+      const result = await this.dbService.updateParticipant(raceId, delay.userId, { handicap_delay: delay.handicapDelay });
+      if (!result.success) {
+        console.error('Failed to set dial-in delay:', result.error);
+      }
+    }
+
+    this.wsService.broadcastToRace(raceId, {
+      type: 'race_handicaps',
+      raceId,
+      data: { raceId, basis: 'dial_in', handicaps: delays },
+      timestamp: new Date(),
+    });
+  }
+
+  // Re-ranks a finished bracket race by the bracket rules and records each run's verdict in its splits
+  private async rankResults(raceId: string): Promise<void> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success || !raceResult.data.bracketRacing) return;
+
+    const race = raceResult.data;
+    const resultsResult = await this.dbService.getRaceResults(raceId);
+    if (!resultsResult.success) return;
+
+    const results = resultsResult.data || [];
+    const ranked = rankDragRuns(dragRunsFor(race, results));
+
+    for (const run of ranked) {
+      const result = results.find(r => r.id === run.resultId);
+      if (!result) continue;
+
+      const updated = await this.dbService.updateRaceResult(result.id, {
+        splits: {
+          ...result.splits,
+          dialIn: run.dialIn,
+          margin: run.margin,
+          package: run.package,
+          crossing: run.crossing,
+          breakout: run.breakout,
+          redLight: run.redLight,
+        },
+      });
+      if (!updated.success) {
+        console.error('Failed to record bracket verdict:', updated.error);
+      }
+    }
+
+    const order = this.lifecycle.rankResults(race, results).map(result => result.id);
+    const reranked = await this.dbService.rerankRaceResults(raceId, order, race.createdBy, 'Bracket racing rules');
+    if (!reranked.success) {
+      console.error(`Failed to rank bracket race ${raceId}:`, reranked.error);
+      return;
+    }
+
+    const after = await this.dbService.getRaceResults(raceId);
+    this.wsService.broadcastToRace(raceId, {
+      type: 'results_updated',
+      raceId,
+      data: { raceId, results: after.data || [], runs: ranked },
+      timestamp: new Date(),
+    });
+  }
+}
@@ -0,0 +1,303 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { DisputeService } from './disputes';
+import {
+  ApiResponse, Championship, ChampionshipDivision, ChampionshipRound, ChampionshipStanding, PointsScheme,
+  RoundScore, Vehicle,
+} from '../types';
+
+// Only rounds that have been raced (or are being raced) score; future rounds aren't zeros to drop
+const SCORING_STATUSES = ['active', 'finished'];
+
+export const TIE_BREAKERS = [
+  'Most points after dropped rounds',
+  'Countback: most wins, then most second places, and so on',
+  'Best finish in the most recent round, working backwards',
+];
+
+const OVERALL: ChampionshipDivision = { key: 'overall', name: 'Overall' };
+
+export interface ScoredRound {
+  roundNumber: number;
+  raceId: string;
+  finishers: { userId: string; bestLap: number | null }[]; // classified finishers in finishing order
+}
+
+// Points, drops and tie-breaks for one division. Every driver gets an entry for every round,
+// so a missed round is a zero that can be dropped.
+export const scoreRounds = (scheme: PointsScheme, rounds: ScoredRound[]): ChampionshipStanding[] => {
+  const scores = new Map<string, Map<number, RoundScore>>();
+
+  for (const round of rounds) {
+    const laps = round.finishers.filter(f => f.bestLap !== null);
+    const fastest = scheme.fastestLap > 0 && laps.length
+      ? laps.reduce((best, f) => (f.bestLap! < best.bestLap! ? f : best)).userId
+      : null;
+
+    round.finishers.forEach((finisher, i) => {
+      if (!scores.has(finisher.userId)) scores.set(finisher.userId, new Map());
+      scores.get(finisher.userId)!.set(round.roundNumber, {
+        roundNumber: round.roundNumber,
+        raceId: round.raceId,
+        position: i + 1,
+        points: (scheme.positions[i] ?? 0) + (finisher.userId === fastest ? scheme.fastestLap : 0),
+        fastestLap: finisher.userId === fastest,
+        dropped: false,
+      });
+    });
+  }
+
+  // At least one round always counts
+  const drops = Math.min(scheme.dropWorst, Math.max(0, rounds.length - 1));
+  const longest = Math.max(0, ...rounds.map(round => round.finishers.length));
+
+  const standings = [...scores.entries()].map(([userId, scored]) => {
+    const perRound = rounds.map(round => scored.get(round.roundNumber) || {
+      roundNumber: round.roundNumber,
+      raceId: round.raceId,
+      position: null,
+      points: 0,
+      fastestLap: false,
+      dropped: false,
+    });
+
+    // Worst first; between equal scores the earlier round goes
+    [...perRound]
+      .sort((a, b) => a.points - b.points || a.roundNumber - b.roundNumber)
+      .slice(0, drops)
+      .forEach(score => { score.dropped = true; });
+
+    const countback = Array.from({ length: longest }, () => 0);
+    perRound.forEach(score => { if (score.position !== null) countback[score.position - 1]++; });
+
+    return {
+      rank: 0,
+      userId,
+      points: perRound.filter(score => !score.dropped).reduce((sum, score) => sum + score.points, 0),
+      grossPoints: perRound.reduce((sum, score) => sum + score.points, 0),
+      countback,
+      rounds: perRound,
+    };
+  });
+
+  standings.sort(compareStandings);
+  standings.forEach((standing, i) => {
+    standing.rank = i > 0 && compareStandings(standings[i - 1], standing) === 0 ? standings[i - 1].rank : i + 1;
+  });
+
+  return standings;
+};
+
+const compareStandings = (a: ChampionshipStanding, b: ChampionshipStanding): number => {
+  if (a.points !== b.points) return b.points - a.points;
+
+  for (let i = 0; i < a.countback.length; i++) {
+    if (a.countback[i] !== b.countback[i]) return b.countback[i] - a.countback[i];
+  }
+
+  for (let i = a.rounds.length - 1; i >= 0; i--) {
+    const pa = a.rounds[i].position ?? Infinity;
+    const pb = b.rounds[i].position ?? Infinity;
+    if (pa !== pb) return pa - pb;
+  }
+  return 0;
+};
+
+const fitsDivision = (division: ChampionshipDivision, vehicle: Vehicle | undefined): boolean => {
+  const restricted = division.minHorsepower !== undefined || division.maxHorsepower !== undefined || !!division.drivetrains?.length;
+  if (!vehicle) return !restricted;
+
+  const { horsepower, drivetrain } = vehicle.specs;
+  if (division.minHorsepower !== undefined && horsepower < division.minHorsepower) return false;
+  if (division.maxHorsepower !== undefined && horsepower > division.maxHorsepower) return false;
+  if (division.drivetrains?.length && !division.drivetrains.some(d => d.toLowerCase() === drivetrain.toLowerCase())) return false;
+  return true;
+};
+
+// Season-long points tables across a set of races. Standings are always computed from the
+// current race_results, so re-ranks and dispute rulings show up on the next read.
+export class ChampionshipService {
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService,
+    private disputes: DisputeService
+  ) {
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+    this.disputes.onResultsChanged(raceId => this.publishStandings(raceId));
+  }
+
+  async createChampionship(
+    userId: string,
+    input: Pick<Championship, 'name' | 'description' | 'pointsScheme' | 'divisions'>
+  ): Promise<ApiResponse<Championship>> {
+    return this.dbService.createChampionship({ ...input, createdBy: userId });
+  }
+
+  async listChampionships(): Promise<ApiResponse<Championship[]>> {
+    return this.dbService.getChampionships();
+  }
+
+  async getChampionship(championshipId: string): Promise<ApiResponse<{ championship: Championship; rounds: ChampionshipRound[] }>> {
+    const championshipResult = await this.dbService.getChampionship(championshipId);
+    if (!championshipResult.success) {
+      return { success: false, error: 'Championship not found' };
+    }
+
+    const roundsResult = await this.dbService.getChampionshipRounds(championshipId);
+    if (!roundsResult.success) return roundsResult as ApiResponse<any>;
+
+    return { success: true, data: { championship: championshipResult.data!, rounds: roundsResult.data || [] } };
+  }
+
+  // Without a round number the race is added as the next round
+  async addRound(championshipId: string, userId: string, raceId: string, roundNumber?: number): Promise<ApiResponse<ChampionshipRound>> {
+    const existing = await this.getChampionship(championshipId);
+    if (!existing.success) return existing as ApiResponse<any>;
+
+    const { championship, rounds } = existing.data!;
+    if (championship.createdBy !== userId) {
+      return { success: false, error: 'Only the championship organizer can change its rounds' };
+    }
+
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+    if (raceResult.data.createdBy !== userId) {
+      return { success: false, error: 'Only races you organize can be added to your championship' };
+    }
+    if (raceResult.data.status === 'cancelled') {
+      return { success: false, error: 'Illegal round: race is cancelled' };
+    }
+
+    if (rounds.some(round => round.raceId === raceId)) {
+      return { success: false, error: 'Race already in championship' };
+    }
+
+    const number = roundNumber ?? Math.max(0, ...rounds.map(round => round.roundNumber)) + 1;
+    if (rounds.some(round => round.roundNumber === number)) {
+      return { success: false, error: `Illegal round: round ${number} already exists` };
+    }
+
+    const added = await this.dbService.addChampionshipRound(championshipId, raceId, number);
+    if (added.success) await this.publishStandings(raceId);
+    return added;
+  }
+
+  async removeRound(championshipId: string, userId: string, raceId: string): Promise<ApiResponse<boolean>> {
+    const championshipResult = await this.dbService.getChampionship(championshipId);
+    if (!championshipResult.success) {
+      return { success: false, error: 'Championship not found' };
+    }
+    if (championshipResult.data!.createdBy !== userId) {
+      return { success: false, error: 'Only the championship organizer can change its rounds' };
+    }
+
+    const result = await this.dbService.removeChampionshipRound(championshipId, raceId);
+    if (result.success && !result.data) {
+      return { success: false, error: 'Round not found' };
+    }
+    return result;
+  }
+
+  // Standings per division (or one overall table), with the per-round breakdown behind every total
+  async getStandings(championshipId: string): Promise<ApiResponse<any>> {
+    const existing = await this.getChampionship(championshipId);
+    if (!existing.success) return existing;
+
+    const { championship, rounds } = existing.data!;
+    const divisions = championship.divisions.length ? championship.divisions : [OVERALL];
+    const vehicles = new Map<string, Vehicle | undefined>();
+    const usernames = new Map<string, string | undefined>();
+
+    const raced: { round: ChampionshipRound; race: any; results: any[] }[] = [];
+    const schedule = [];
+    for (const round of rounds) {
+      const raceResult = await this.dbService.getRace(round.raceId);
+      if (!raceResult.success) return raceResult;
+
+      const race = raceResult.data;
+      schedule.push({ roundNumber: round.roundNumber, raceId: race.id, name: race.name, status: race.status, startTime: race.startTime });
+      if (!SCORING_STATUSES.includes(race.status)) continue;
+
+      const resultsResult = await this.dbService.getRaceResults(round.raceId);
+      if (!resultsResult.success) return resultsResult;
+
+      const results = (resultsResult.data || [])
+        .filter(result => result.reviewStatus !== 'rejected')
+        .sort((a, b) => a.position - b.position);
+      raced.push({ round, race, results });
+
+      for (const participant of race.participants) {
+        if (participant.vehicle_id && !vehicles.has(participant.vehicle_id)) {
+          const vehicleResult = await this.dbService.getVehicle(participant.vehicle_id);
+          vehicles.set(participant.vehicle_id, vehicleResult.data);
+        }
+      }
+    }
+
+    const tables = [];
+    for (const division of divisions) {
+      const scored: ScoredRound[] = raced.map(({ round, race, results }) => ({
+        roundNumber: round.roundNumber,
+        raceId: race.id,
+        finishers: results
+          .filter(result => {
+            const participant = race.participants.find((p: any) => p.user_id === result.userId);
+            return fitsDivision(division, vehicles.get(participant?.vehicle_id));
+          })
+          .map(result => ({ userId: result.userId, bestLap: result.splits?.bestLap ?? null })),
+      }));
+
+      const standings = scoreRounds(championship.pointsScheme, scored);
+      for (const standing of standings) {
+        if (!usernames.has(standing.userId)) {
+          const userResult = await this.dbService.getUserById(standing.userId);
+          usernames.set(standing.userId, userResult.data?.username);
+        }
+        standing.username = usernames.get(standing.userId);
+      }
+
+      tables.push({ key: division.key, name: division.name, standings });
+    }
+
+    return {
+      success: true,
+      data: {
+        championship,
+        rounds: schedule,
+        tieBreakers: TIE_BREAKERS,
+        divisions: tables,
+      },
+    };
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    // A participant finishing records a result; the race finishing settles the DNFs
+    if (event.to !== 'finished') return;
+    await this.publishStandings(event.raceId);
+  }
+
+  // Pushes fresh standings to everyone in the race room of a championship round
+  private async publishStandings(raceId: string): Promise<void> {
+    const idsResult = await this.dbService.getRaceChampionshipIds(raceId);
+    if (!idsResult.success) return;
+
+    for (const championshipId of idsResult.data || []) {
+      const standings = await this.getStandings(championshipId);
+      if (!standings.success) {
+        console.error(`Failed to recalculate championship ${championshipId}:`, standings.error);
+        continue;
+      }
+
+      this.wsService.broadcastToRace(raceId, {
+        type: 'championship_standings',
+        raceId,
+        data: { championshipId, divisions: standings.data.divisions },
+        timestamp: new Date(),
+      });
+    }
+  }
+}
@@ -1,6 +1,20 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { User, Vehicle, Race, Meetup, Friendship, ApiResponse } from '../types';
+import {
+  User, Vehicle, Race, Meetup, Friendship, ApiResponse,
+  RaceStatus, ParticipantStatus, RaceStatusTransition, TelemetrySample, FinishData, RaceRoute, ResultReview,
+  RecordedResult, ResultDispute, DisputeStatus, DisputeRuling, ResultHistoryEntry, Notification, NotificationInput,
+  JobInput, JobStatus, ScheduledJob, RaceInvitation, InvitationStatus, JoinRequest, JoinRequestStatus,
+  WaitlistEntry, WaitlistStatus, Tournament, TournamentStatus, TournamentEntrant, TournamentMatch,
+  Championship, ChampionshipRound, RatedRaceType, SkillRating, RatingHistoryEntry,
+  MatchmakingTicket, TicketStatus, MatchProposal, ProposalStatus, VehicleModification, SavedRoute, RouteRun,
+  VehicleClass, GhostRaceRecord, ChatMessage, ResultChange, LeaderboardEntry,
+} from '../types';
 import { randomUUID } from 'crypto';
+import { PROVISIONAL_DEVIATION } from '../utils/glicko';
+import { haversineDistance } from '../utils/geo';
+
+// Everything but the stored trace, which is only loaded when a run is compared
+const ROUTE_RUN_COLUMNS = 'id, route_id, user_id, vehicle_id, vehicle_class, elapsed_time, splits, started_at, review_status, review_reasons, created_at';
 
 export class SupabaseService {
   public supabase: SupabaseClient;
@@ -534,6 +548,36 @@ export class SupabaseService {
     }
   }
 
+  async getVehicleModifications(vehicleId: string): Promise<ApiResponse<VehicleModification[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('vehicle_modifications')
+        .select('*')
+        .eq('vehicle_id', vehicleId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => ({
+          id: row.id,
+          vehicleId: row.vehicle_id,
+          category: row.category,
+          name: row.name,
+          horsepowerGain: row.horsepower_gain || 0,
+          torqueGain: row.torque_gain || 0,
+          weightChange: row.weight_change || 0,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get vehicle modifications: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
   async deleteVehicle(vehicleId: string): Promise<ApiResponse<boolean>> {
     try {
       const { error } = await this.supabase
@@ -572,8 +616,16 @@ export class SupabaseService {
         start_location: JSON.stringify(raceData.startLocation),
         end_location: JSON.stringify(raceData.endLocation),
         
+        route: raceData.route ? JSON.stringify(raceData.route) : null,
+        
         max_participants: raceData.maxParticipants,
         entry_fee: raceData.entryFee || 0,
+        is_private: raceData.isPrivate || false,
+        requires_approval: raceData.requiresApproval || false,
+        allowed_classes: raceData.allowedClasses?.length ? raceData.allowedClasses : null,
+        handicap: raceData.handicap || false,
+        bracket_racing: raceData.bracketRacing || false,
+        drift_tandem: raceData.driftTandem || false,
         scheduled_start: raceData.startTime instanceof Date ? raceData.startTime.toISOString() : raceData.startTime,
       };
 
@@ -605,7 +657,8 @@ export class SupabaseService {
     }
   }
 
-  async getAllRaces(): Promise<ApiResponse<any[]>> {
+  // Private races are only listed for their creator and invitees
+  async getAllRaces(viewerId?: string): Promise<ApiResponse<any[]>> {
     try {
       console.log('📋 Getting all races...');
       
@@ -613,6 +666,7 @@ export class SupabaseService {
         .from('races')
         .select('*')
         .in('status', ['scheduled', 'active']) // Use correct status values
+        .or(await this.visibleRacesFilter(viewerId))
         .order('scheduled_start', { ascending: true }); // Fixed column name
 
       if (error) {
@@ -657,6 +711,60 @@ export class SupabaseService {
     }
   }
 
+  // Guarded on the race still being in one of `statuses`; resolves with data: null otherwise
+  async updateRace(raceId: string, fields: Record<string, any>, statuses: RaceStatus[]): Promise<ApiResponse<any>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('races')
+        .update({
+          ...fields,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', raceId)
+        .in('status', statuses)
+        .select('*, race_participants(*)')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapRaceFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update race: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async updateRaceRoute(raceId: string, route: RaceRoute): Promise<ApiResponse<any>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('races')
+        .update({
+          route: JSON.stringify(route),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', raceId)
+        .select('*, race_participants(*)')
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapRaceFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update race route: ${error}`,
+      };
+    }
+  }
+
   async joinRace(raceId: string, userId: string): Promise<ApiResponse<any>> {
     try {
       console.log('🚗 Joining race:', { raceId, userId });
@@ -675,8 +783,9 @@ export class SupabaseService {
         currentParticipants: race.participants?.length || 0 
       });
 
-      // Check if race is full
-      if (race.participants.length >= race.maxParticipants) {
+      // Check if race is full; withdrawn entrants no longer hold a spot
+      const entrants = race.participants.filter((p: any) => p.status !== 'withdrawn');
+      if (entrants.length >= race.maxParticipants) {
         console.log('❌ Race is full');
         return { success: false, error: 'Race is full' };
       }
@@ -749,208 +858,2698 @@ export class SupabaseService {
     }
   }
 
-  async startRace(raceId: string, userId: string): Promise<ApiResponse<any>> {
+  // Claims the finish and ranks the race by time in one transaction (see finish_race_participant in
+  // complete-schema.sql). Resolves with null when the participant was no longer racing.
+  async finishRace(raceId: string, userId: string, finishData: FinishData, review: ResultReview): Promise<ApiResponse<any>> {
     try {
-      // Get current race data
-      const raceResult = await this.getRace(raceId);
-      if (!raceResult.success) {
-        return { success: false, error: 'Race not found' };
-      }
+      const { data, error } = await this.supabase.rpc('finish_race_participant', {
+        p_race_id: raceId,
+        p_user_id: userId,
+        p_time_result: finishData.totalTime,
+        p_speed_result: finishData.averageSpeed,
+        p_splits: finishData.splits || null,
+        p_review_status: review.status,
+        p_review_reasons: review.reasons,
+      });
 
-      const race = raceResult.data;
+      if (error) throw error;
 
-      // Check if user is race creator
-      if (race.createdBy !== userId) {
-        return { success: false, error: 'Only race creator can start the race' };
+      const rows: any[] = data || [];
+      if (rows.length === 0) {
+        return { success: true, data: null };
       }
 
-      // Update race status to active
+      const { data: participant, error: participantError } = await this.supabase
+        .from('race_participants')
+        .select('id')
+        .eq('race_id', raceId)
+        .eq('user_id', userId)
+        .single();
+
+      if (participantError) throw participantError;
+
+      const row = rows.find(r => r.participant_id === participant.id);
+      return {
+        success: true,
+        data: {
+          userId,
+          position: row.position,
+          totalTime: finishData.totalTime,
+          averageSpeed: finishData.averageSpeed,
+          finishTime: finishData.finishTime,
+          splits: finishData.splits,
+          reviewStatus: review.status,
+          reviewReasons: review.reasons,
+          // Everyone's position after this finish; an earlier finisher can be pushed down by a quicker time
+          positions: rows.map(r => ({ resultId: r.id, participantId: r.participant_id, position: r.position })),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to finish race: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getNearbyRaces(lat: number, lng: number, radius: number = 50, viewerId?: string): Promise<ApiResponse<Race[]>> {
+    try {
+      // Filtered by great-circle distance here; in production, use PostGIS for geo queries
+      const { data, error } = await this.supabase
+        .from('races')
+        .select('*')
+        .eq('status', 'scheduled')
+        .or(await this.visibleRacesFilter(viewerId))
+        .order('scheduled_start', { ascending: true });
+
+      if (error) throw error;
+
+      const origin = { lat, lng };
+      return {
+        success: true,
+        data: data
+          .map(race => this.mapRaceFromDb(race))
+          .map(race => ({
+            ...race,
+            distanceKm: race.startLocation ? haversineDistance(origin, race.startLocation) / 1000 : null,
+          }))
+          .filter(race => race.distanceKm !== null && race.distanceKm <= radius),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get nearby races: ${error}`,
+      };
+    }
+  }
+
+  // Every race the user created or entered, whatever its status, so cancelled races stay in history
+  async getUserRaces(userId: string): Promise<ApiResponse<Race[]>> {
+    try {
+      const { data: entries, error: entriesError } = await this.supabase
+        .from('race_participants')
+        .select('race_id')
+        .eq('user_id', userId);
+
+      if (entriesError) throw entriesError;
+
+      const raceIds = (entries || []).map(entry => entry.race_id);
+      const { data, error } = await this.supabase
+        .from('races')
+        .select('*, race_participants(*)')
+        .or([`created_by.eq.${userId}`, ...(raceIds.length ? [`id.in.(${raceIds.join(',')})`] : [])].join(','))
+        .order('scheduled_start', { ascending: false });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data.map(race => this.mapRaceFromDb(race)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get user races: ${error}`,
+      };
+    }
+  }
+
+  // Race Lifecycle
+  async getRacesByStatus(statuses: RaceStatus[]): Promise<ApiResponse<any[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('races')
+        .select('*, race_participants(*)')
+        .in('status', statuses);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(race => this.mapRaceFromDb(race)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get races by status: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Status writes are guarded on the current status so concurrent transitions cannot both succeed.
+  // A guarded write that matched no row resolves with data: null.
+  async updateRaceStatus(raceId: string, from: RaceStatus, to: RaceStatus, extra: Record<string, any> = {}): Promise<ApiResponse<any>> {
+    try {
       const { data, error } = await this.supabase
         .from('races')
-        .update({ 
-          status: 'active',
-          updated_at: new Date().toISOString()
+        .update({
+          ...extra,
+          status: to,
+          updated_at: new Date().toISOString(),
         })
         .eq('id', raceId)
+        .eq('status', from)
         .select()
-        .single();
+        .maybeSingle();
 
       if (error) throw error;
 
       return {
         success: true,
-        data: this.mapRaceFromDb(data),
+        data: data ? this.mapRaceFromDb(data) : null,
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to start race: ${error}`,
+        error: `Failed to update race status: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
       };
     }
   }
 
-  async updateRaceLocation(raceId: string, userId: string, locationData: any): Promise<ApiResponse<any>> {
+  async updateParticipantStatus(
+    raceId: string,
+    from: ParticipantStatus[],
+    to: ParticipantStatus,
+    userId?: string,
+    extra: Record<string, any> = {}
+  ): Promise<ApiResponse<any[]>> {
     try {
-      // Get current race data
-      const raceResult = await this.getRace(raceId);
-      if (!raceResult.success) {
-        return { success: false, error: 'Race not found' };
-      }
+      let query = this.supabase
+        .from('race_participants')
+        .update({ ...extra, status: to })
+        .eq('race_id', raceId)
+        .in('status', from);
 
-      const race = raceResult.data;
+      if (userId) query = query.eq('user_id', userId);
 
-      // Check if user is participant
-      if (!race.participants.some((p: any) => p.user_id === userId)) {
-        return { success: false, error: 'User not in race' };
-      }
+      const { data, error } = await query.select();
+
+      if (error) throw error;
 
-      // For now, just return success (WebSocket would handle real-time updates)
       return {
         success: true,
-        data: {
-          raceId,
-          userId,
-          location: locationData,
-          timestamp: new Date().toISOString(),
-        },
+        data: data || [],
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to update location: ${error}`,
+        error: `Failed to update participant status: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
       };
     }
   }
 
-  async finishRace(raceId: string, userId: string, finishData: any): Promise<ApiResponse<any>> {
+  async updateParticipant(raceId: string, userId: string, fields: Record<string, any>): Promise<ApiResponse<any>> {
     try {
-      // Get current race data
-      const raceResult = await this.getRace(raceId);
-      if (!raceResult.success) {
-        return { success: false, error: 'Race not found' };
-      }
+      const { data, error } = await this.supabase
+        .from('race_participants')
+        .update(fields)
+        .eq('race_id', raceId)
+        .eq('user_id', userId)
+        .select()
+        .single();
 
-      const race = raceResult.data;
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update participant: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
 
-      // Check if user is participant
-      const participant = race.participants.find((p: any) => p.user_id === userId);
-      if (!participant) {
-        return { success: false, error: 'User not in race' };
+  async recordStatusTransitions(transitions: Omit<RaceStatusTransition, 'createdAt'>[]): Promise<ApiResponse<boolean>> {
+    try {
+      if (transitions.length === 0) {
+        return { success: true, data: true };
       }
 
-      // Calculate position (simplified - count existing finishers + 1)
-      const { data: existingResults, error: countError } = await this.supabase
-        .from('race_results')
+      const { error } = await this.supabase
+        .from('race_status_history')
+        .insert(transitions.map(t => ({
+          race_id: t.raceId,
+          user_id: t.userId || null,
+          from_status: t.from,
+          to_status: t.to,
+          changed_by: t.changedBy || null,
+          reason: t.reason || null,
+          created_at: new Date().toISOString(),
+        })));
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to record status transition: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getRaceStatusHistory(raceId: string): Promise<ApiResponse<RaceStatusTransition[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_status_history')
         .select('*')
-        .eq('race_id', raceId);
+        .eq('race_id', raceId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
 
-      if (countError) throw countError;
+      return {
+        success: true,
+        data: data.map(row => ({
+          raceId: row.race_id,
+          userId: row.user_id || undefined,
+          from: row.from_status,
+          to: row.to_status,
+          changedBy: row.changed_by || undefined,
+          reason: row.reason || undefined,
+          createdAt: new Date(row.created_at),
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get race status history: ${error}`,
+      };
+    }
+  }
 
-      const position = existingResults.length + 1;
+  // Race Telemetry
+  // Returns only the newly stored samples; rows whose (race, user, seq) already exist are skipped.
+  async insertTelemetry(raceId: string, userId: string, samples: TelemetrySample[]): Promise<ApiResponse<TelemetrySample[]>> {
+    try {
+      if (samples.length === 0) {
+        return { success: true, data: [] };
+      }
 
-      // Insert race result
       const { data, error } = await this.supabase
-        .from('race_results')
-        .insert([{
+        .from('race_telemetry')
+        .upsert(samples.map(sample => ({
           race_id: raceId,
           user_id: userId,
-          vehicle_id: participant.vehicle_id,
-          final_position: position,
-          finish_time: finishData.finishTime,
-          total_race_time: finishData.totalTime,
-          average_speed: finishData.averageSpeed,
-          created_at: new Date().toISOString(),
-        }])
-        .select()
-        .single();
+          seq: sample.seq,
+          recorded_at: new Date(sample.timestamp).toISOString(),
+          lat: sample.lat,
+          lng: sample.lng,
+          speed: sample.speed ?? null,
+          heading: sample.heading ?? null,
+          accuracy: sample.accuracy ?? null,
+        })), { onConflict: 'race_id,user_id,seq', ignoreDuplicates: true })
+        .select();
 
       if (error) throw error;
 
-      // Update participant status
-      await this.supabase
-        .from('race_participants')
-        .update({ 
-          status: 'finished',
-          position: position,
-          finish_time: finishData.finishTime,
-          average_speed: finishData.averageSpeed,
-          updated_at: new Date().toISOString()
-        })
-        .eq('race_id', raceId)
-        .eq('user_id', userId);
-
       return {
         success: true,
-        data: {
-          position,
-          totalTime: finishData.totalTime,
-          averageSpeed: finishData.averageSpeed,
-          finishTime: finishData.finishTime,
-        },
+        data: (data || []).map(row => this.mapTelemetryFromDb(row)),
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to finish race: ${error}`,
+        error: `Failed to store telemetry: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
       };
     }
   }
 
-  async getNearbyRaces(lat: number, lng: number, radius: number = 50): Promise<ApiResponse<Race[]>> {
+  async getTelemetry(raceId: string, userId: string, fromSeq: number = 0, limit: number = 1000): Promise<ApiResponse<TelemetrySample[]>> {
     try {
-      // For now, get all races and filter client-side
-      // In production, use PostGIS for geo queries
       const { data, error } = await this.supabase
-        .from('races')
+        .from('race_telemetry')
         .select('*')
-        .eq('status', 'scheduled')
-        .order('start_time', { ascending: true });
+        .eq('race_id', raceId)
+        .eq('user_id', userId)
+        .gte('seq', fromSeq)
+        .order('seq', { ascending: true })
+        .limit(limit);
 
       if (error) throw error;
 
       return {
         success: true,
-        data: data.map(this.mapRaceFromDb),
+        data: data.map(row => this.mapTelemetryFromDb(row)),
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to get nearby races: ${error}`,
+        error: `Failed to get telemetry: ${error}`,
       };
     }
   }
 
-  async getUserRaces(userId: string): Promise<ApiResponse<Race[]>> {
+  // Latest stored sample for a participant, used to resume sequence and rate tracking
+  async getLastTelemetrySample(raceId: string, userId: string): Promise<ApiResponse<TelemetrySample | null>> {
     try {
       const { data, error } = await this.supabase
-        .from('races')
+        .from('race_telemetry')
         .select('*')
-        .or(`creator_id.eq.${userId},participants.cs.[{"userId":"${userId}"}]`)
-        .order('start_time', { ascending: false });
+        .eq('race_id', raceId)
+        .eq('user_id', userId)
+        .order('seq', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
       if (error) throw error;
 
       return {
         success: true,
-        data: data.map(this.mapRaceFromDb),
+        data: data ? this.mapTelemetryFromDb(data) : null,
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to get user races: ${error}`,
+        error: `Failed to get telemetry: ${error}`,
       };
     }
   }
 
-  // Data mapping helpers
-  private mapUserFromDb(dbUser: any): User {
-    return {
-      id: dbUser.id,
-      username: dbUser.username,
-      email: dbUser.email,
-      avatar: dbUser.avatar_url,
-      location: dbUser.location ? JSON.parse(dbUser.location) : undefined,
-      preferences: {
+  async countRaceTelemetry(raceId: string): Promise<ApiResponse<number>> {
+    try {
+      const { count, error } = await this.supabase
+        .from('race_telemetry')
+        .select('id', { count: 'exact', head: true })
+        .eq('race_id', raceId);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: count || 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to count telemetry: ${error}`,
+      };
+    }
+  }
+
+  // Race Invitations & Join Requests
+  // Re-inviting someone who declined puts the invitation back to pending
+  async upsertInvitation(raceId: string, userId: string, invitedBy: string): Promise<ApiResponse<RaceInvitation>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_invitations')
+        .upsert({
+          race_id: raceId,
+          user_id: userId,
+          invited_by: invitedBy,
+          status: 'pending',
+          responded_at: null,
+          created_at: new Date().toISOString(),
+        }, { onConflict: 'race_id,user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapInvitationFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to save invitation: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getInvitation(raceId: string, userId: string): Promise<ApiResponse<RaceInvitation | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_invitations')
+        .select('*')
+        .eq('race_id', raceId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapInvitationFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get invitation: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getRaceInvitations(raceId: string): Promise<ApiResponse<RaceInvitation[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_invitations')
+        .select('*')
+        .eq('race_id', raceId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapInvitationFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get race invitations: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getUserInvitations(userId: string, status?: InvitationStatus): Promise<ApiResponse<RaceInvitation[]>> {
+    try {
+      let query = this.supabase
+        .from('race_invitations')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (status) query = query.eq('status', status);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapInvitationFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get user invitations: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Guarded on pending, so an invitation is answered once; resolves with data: null otherwise
+  async respondToInvitation(invitationId: string, status: InvitationStatus): Promise<ApiResponse<RaceInvitation | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_invitations')
+        .update({ status, responded_at: new Date().toISOString() })
+        .eq('id', invitationId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapInvitationFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to respond to invitation: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // A rejected user may ask again, which re-opens their request
+  async upsertJoinRequest(raceId: string, userId: string, message?: string): Promise<ApiResponse<JoinRequest>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_join_requests')
+        .upsert({
+          race_id: raceId,
+          user_id: userId,
+          message: message || null,
+          status: 'pending',
+          decided_by: null,
+          decided_at: null,
+          reason: null,
+          created_at: new Date().toISOString(),
+        }, { onConflict: 'race_id,user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapJoinRequestFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to save join request: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getJoinRequest(raceId: string, userId: string): Promise<ApiResponse<JoinRequest | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_join_requests')
+        .select('*')
+        .eq('race_id', raceId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapJoinRequestFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get join request: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getRaceJoinRequests(raceId: string, status?: JoinRequestStatus): Promise<ApiResponse<JoinRequest[]>> {
+    try {
+      let query = this.supabase
+        .from('race_join_requests')
+        .select('*')
+        .eq('race_id', raceId)
+        .order('created_at', { ascending: true });
+
+      if (status) query = query.eq('status', status);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapJoinRequestFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get join requests: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Guarded on pending like respondToInvitation
+  async decideJoinRequest(
+    requestId: string,
+    status: JoinRequestStatus,
+    decidedBy: string,
+    reason?: string
+  ): Promise<ApiResponse<JoinRequest | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_join_requests')
+        .update({
+          status,
+          decided_by: decidedBy,
+          decided_at: new Date().toISOString(),
+          reason: reason || null,
+        })
+        .eq('id', requestId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapJoinRequestFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to decide join request: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Race Waitlist
+  // Joining again after leaving or missing an offer goes to the back of the queue
+  async addToWaitlist(raceId: string, userId: string): Promise<ApiResponse<WaitlistEntry>> {
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from('race_waitlist')
+        .upsert({
+          race_id: raceId,
+          user_id: userId,
+          status: 'waiting',
+          offered_at: null,
+          offer_expires_at: null,
+          created_at: now,
+          updated_at: now,
+        }, { onConflict: 'race_id,user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapWaitlistEntryFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to join waitlist: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Entries still in the queue (waiting or holding an offer), in FIFO order
+  async getWaitlist(raceId: string): Promise<ApiResponse<WaitlistEntry[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_waitlist')
+        .select('*')
+        .eq('race_id', raceId)
+        .in('status', ['waiting', 'offered'])
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapWaitlistEntryFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get waitlist: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getWaitlistEntry(raceId: string, userId: string): Promise<ApiResponse<WaitlistEntry | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_waitlist')
+        .select('*')
+        .eq('race_id', raceId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapWaitlistEntryFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get waitlist entry: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Guarded on the current status like the race status writes; resolves with data: null if it moved on
+  async updateWaitlistEntry(
+    entryId: string,
+    from: WaitlistStatus,
+    to: WaitlistStatus,
+    extra: Record<string, any> = {}
+  ): Promise<ApiResponse<WaitlistEntry | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_waitlist')
+        .update({ ...extra, status: to, updated_at: new Date().toISOString() })
+        .eq('id', entryId)
+        .eq('status', from)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapWaitlistEntryFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update waitlist entry: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Tournaments
+  async createTournament(tournament: Omit<Tournament, 'id' | 'status' | 'createdAt'>): Promise<ApiResponse<Tournament>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournaments')
+        .insert([{
+          created_by: tournament.createdBy,
+          name: tournament.name,
+          description: tournament.description || null,
+          format: tournament.format,
+          seeding: tournament.seeding,
+          max_entrants: tournament.maxEntrants,
+          start_location: tournament.startLocation,
+          end_location: tournament.endLocation,
+          status: 'registration',
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapTournamentFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create tournament: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getTournament(tournamentId: string): Promise<ApiResponse<Tournament>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournaments')
+        .select('*')
+        .eq('id', tournamentId)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapTournamentFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get tournament: ${error}`,
+      };
+    }
+  }
+
+  async getTournaments(statuses: TournamentStatus[]): Promise<ApiResponse<Tournament[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournaments')
+        .select('*')
+        .in('status', statuses)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapTournamentFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get tournaments: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Guarded on the current status; resolves with data: null if the tournament already moved on
+  async updateTournament(
+    tournamentId: string,
+    from: TournamentStatus,
+    fields: Record<string, any>
+  ): Promise<ApiResponse<Tournament | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournaments')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', tournamentId)
+        .eq('status', from)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapTournamentFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update tournament: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async addTournamentEntrant(tournamentId: string, userId: string, vehicleId: string): Promise<ApiResponse<TournamentEntrant>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournament_entrants')
+        .insert([{
+          tournament_id: tournamentId,
+          user_id: userId,
+          vehicle_id: vehicleId,
+          status: 'registered',
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapTournamentEntrantFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to register for tournament: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async removeTournamentEntrant(tournamentId: string, userId: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournament_entrants')
+        .delete()
+        .eq('tournament_id', tournamentId)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).length > 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to withdraw from tournament: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Seeded entrants first, then the rest in registration order
+  async getTournamentEntrants(tournamentId: string): Promise<ApiResponse<TournamentEntrant[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournament_entrants')
+        .select('*')
+        .eq('tournament_id', tournamentId)
+        .order('seed', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapTournamentEntrantFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get tournament entrants: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async updateTournamentEntrant(tournamentId: string, userId: string, fields: Record<string, any>): Promise<ApiResponse<TournamentEntrant>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournament_entrants')
+        .update(fields)
+        .eq('tournament_id', tournamentId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapTournamentEntrantFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update tournament entrant: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Match ids are generated by the caller so the whole bracket, links included, goes in as one insert
+  async createTournamentMatches(matches: TournamentMatch[]): Promise<ApiResponse<TournamentMatch[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournament_matches')
+        .insert(matches.map(match => ({
+          id: match.id,
+          tournament_id: match.tournamentId,
+          bracket: match.bracket,
+          round: match.round,
+          match_number: match.matchNumber,
+          entrant_a: match.entrantA,
+          entrant_b: match.entrantB,
+          a_settled: match.aSettled,
+          b_settled: match.bSettled,
+          status: match.status,
+          winner_next_match: match.winnerNext?.matchId || null,
+          winner_next_slot: match.winnerNext?.slot || null,
+          loser_next_match: match.loserNext?.matchId || null,
+          loser_next_slot: match.loserNext?.slot || null,
+        })))
+        .select();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapTournamentMatchFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create tournament matches: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getTournamentMatches(tournamentId: string): Promise<ApiResponse<TournamentMatch[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournament_matches')
+        .select('*')
+        .eq('tournament_id', tournamentId)
+        .order('round', { ascending: true })
+        .order('match_number', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapTournamentMatchFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get tournament matches: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getTournamentMatchByRace(raceId: string): Promise<ApiResponse<TournamentMatch | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournament_matches')
+        .select('*')
+        .eq('race_id', raceId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapTournamentMatchFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get tournament match: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async updateTournamentMatch(matchId: string, fields: Record<string, any>): Promise<ApiResponse<TournamentMatch>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('tournament_matches')
+        .update(fields)
+        .eq('id', matchId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapTournamentMatchFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update tournament match: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Best recorded quarter mile per user, from their timed drag runs
+  async getBestQuarterMiles(userIds: string[]): Promise<ApiResponse<Record<string, number>>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_participants')
+        .select('user_id, quarter_mile_time')
+        .in('user_id', userIds)
+        .not('quarter_mile_time', 'is', null);
+
+      if (error) throw error;
+
+      const best: Record<string, number> = {};
+      for (const row of data || []) {
+        const time = Number(row.quarter_mile_time);
+        if (best[row.user_id] === undefined || time < best[row.user_id]) {
+          best[row.user_id] = time;
+        }
+      }
+
+      return { success: true, data: best };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get quarter mile times: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Enters a pre-arranged field directly, bypassing the join checks (bracket matches, matchmaking)
+  async addRaceParticipants(
+    raceId: string,
+    entries: { userId: string; vehicleId?: string; laneNumber?: number }[]
+  ): Promise<ApiResponse<any>> {
+    try {
+      const now = new Date().toISOString();
+      const { error } = await this.supabase
+        .from('race_participants')
+        .insert(entries.map(entry => ({
+          race_id: raceId,
+          user_id: entry.userId,
+          vehicle_id: entry.vehicleId || null,
+          lane_number: entry.laneNumber ?? null,
+          status: 'registered',
+          joined_at: now,
+        })));
+
+      if (error) throw error;
+
+      return await this.getRace(raceId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to add race participants: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Championships
+  async createChampionship(championship: Omit<Championship, 'id' | 'createdAt'>): Promise<ApiResponse<Championship>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('championships')
+        .insert([{
+          created_by: championship.createdBy,
+          name: championship.name,
+          description: championship.description || null,
+          points_scheme: championship.pointsScheme,
+          divisions: championship.divisions,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapChampionshipFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create championship: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getChampionship(championshipId: string): Promise<ApiResponse<Championship>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('championships')
+        .select('*')
+        .eq('id', championshipId)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapChampionshipFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get championship: ${error}`,
+      };
+    }
+  }
+
+  async getChampionships(limit: number = 50): Promise<ApiResponse<Championship[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('championships')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapChampionshipFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get championships: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async addChampionshipRound(championshipId: string, raceId: string, roundNumber: number): Promise<ApiResponse<ChampionshipRound>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('championship_rounds')
+        .insert([{
+          championship_id: championshipId,
+          race_id: raceId,
+          round_number: roundNumber,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapChampionshipRoundFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to add championship round: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async removeChampionshipRound(championshipId: string, raceId: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('championship_rounds')
+        .delete()
+        .eq('championship_id', championshipId)
+        .eq('race_id', raceId)
+        .select('id');
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).length > 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to remove championship round: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getChampionshipRounds(championshipId: string): Promise<ApiResponse<ChampionshipRound[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('championship_rounds')
+        .select('*')
+        .eq('championship_id', championshipId)
+        .order('round_number', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapChampionshipRoundFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get championship rounds: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getRaceChampionshipIds(raceId: string): Promise<ApiResponse<string[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('championship_rounds')
+        .select('championship_id')
+        .eq('race_id', raceId);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => row.championship_id),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get race championships: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Skill Ratings
+  async getUserRatings(userIds: string[], raceType?: RatedRaceType): Promise<ApiResponse<SkillRating[]>> {
+    try {
+      let query = this.supabase
+        .from('user_ratings')
+        .select('*')
+        .in('user_id', userIds);
+
+      if (raceType) query = query.eq('race_type', raceType);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapRatingFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get ratings: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async upsertUserRatings(ratings: SkillRating[]): Promise<ApiResponse<boolean>> {
+    try {
+      const now = new Date().toISOString();
+      const { error } = await this.supabase
+        .from('user_ratings')
+        .upsert(ratings.map(rating => ({
+          user_id: rating.userId,
+          race_type: rating.raceType,
+          rating: Number(rating.rating.toFixed(2)),
+          rating_deviation: Number(rating.deviation.toFixed(2)),
+          volatility: Number(rating.volatility.toFixed(6)),
+          races_rated: rating.racesRated,
+          last_rated_at: rating.lastRatedAt ? rating.lastRatedAt.toISOString() : null,
+          updated_at: now,
+        })), { onConflict: 'user_id,race_type' });
+
+      if (error) throw error;
+
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to save ratings: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Inserts, so UNIQUE(user_id, race_id) stops a race being rated twice; `replace` rewrites a re-rated race's rows
+  async recordRatingHistory(
+    entries: Omit<RatingHistoryEntry, 'id' | 'createdAt'>[],
+    replace: boolean = false
+  ): Promise<ApiResponse<boolean>> {
+    try {
+      const rows = entries.map(entry => ({
+        user_id: entry.userId,
+        race_id: entry.raceId,
+        race_type: entry.raceType,
+        rating_before: Number(entry.ratingBefore.toFixed(2)),
+        rating_after: Number(entry.ratingAfter.toFixed(2)),
+        deviation_before: Number(entry.deviationBefore.toFixed(2)),
+        deviation_after: Number(entry.deviationAfter.toFixed(2)),
+        volatility_before: entry.volatilityBefore === undefined ? null : Number(entry.volatilityBefore.toFixed(6)),
+        position: entry.position,
+        field_size: entry.fieldSize,
+      }));
+      const { error } = replace
+        ? await this.supabase.from('rating_history').upsert(rows, { onConflict: 'user_id,race_id' })
+        : await this.supabase.from('rating_history').insert(rows);
+
+      if (error) throw error;
+
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to record rating history: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getRatingHistory(userId: string, raceType?: RatedRaceType, limit: number = 50): Promise<ApiResponse<RatingHistoryEntry[]>> {
+    try {
+      let query = this.supabase
+        .from('rating_history')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (raceType) query = query.eq('race_type', raceType);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapRatingHistoryFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get rating history: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Empty until the race has been rated
+  async getRaceRatingHistory(raceId: string): Promise<ApiResponse<RatingHistoryEntry[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('rating_history')
+        .select('*')
+        .eq('race_id', raceId);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapRatingHistoryFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get race rating history: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Matchmaking
+  async createTicket(ticket: Omit<MatchmakingTicket, 'id' | 'status' | 'createdAt'>): Promise<ApiResponse<MatchmakingTicket>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_tickets')
+        .insert([{
+          user_id: ticket.userId,
+          vehicle_id: ticket.vehicleId || null,
+          race_type: ticket.raceType,
+          location: ticket.location,
+          radius_km: ticket.radiusKm,
+          window_start: ticket.windowStart.toISOString(),
+          window_end: ticket.windowEnd.toISOString(),
+          rating: Number(ticket.rating.toFixed(2)),
+          power_to_weight: ticket.powerToWeight === null ? null : Number(ticket.powerToWeight.toFixed(4)),
+          status: 'searching',
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapTicketFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to join matchmaking: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // The user's ticket that is still searching or holding a proposal, if any
+  async getActiveTicket(userId: string): Promise<ApiResponse<MatchmakingTicket | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_tickets')
+        .select('*')
+        .eq('user_id', userId)
+        .in('status', ['searching', 'proposed'])
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapTicketFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get matchmaking ticket: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Longest waiting first
+  async getSearchingTickets(): Promise<ApiResponse<MatchmakingTicket[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_tickets')
+        .select('*')
+        .eq('status', 'searching')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapTicketFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get matchmaking queue: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getProposalTickets(proposalId: string): Promise<ApiResponse<MatchmakingTicket[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_tickets')
+        .select('*')
+        .eq('proposal_id', proposalId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapTicketFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get proposal tickets: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Guarded on the tickets still being `from`; resolves with only the tickets that were updated
+  async updateTickets(ticketIds: string[], from: TicketStatus, fields: Record<string, any>): Promise<ApiResponse<MatchmakingTicket[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_tickets')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .in('id', ticketIds)
+        .eq('status', from)
+        .select();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapTicketFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update matchmaking tickets: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Searching tickets whose time window has closed
+  async expireTickets(now: Date): Promise<ApiResponse<MatchmakingTicket[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_tickets')
+        .update({ status: 'expired', updated_at: now.toISOString() })
+        .eq('status', 'searching')
+        .lt('window_end', now.toISOString())
+        .select();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapTicketFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to expire matchmaking tickets: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async createProposal(proposal: Omit<MatchProposal, 'id' | 'status' | 'createdAt'>): Promise<ApiResponse<MatchProposal>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_proposals')
+        .insert([{
+          race_type: proposal.raceType,
+          meeting_point: proposal.meetingPoint,
+          start_time: proposal.startTime.toISOString(),
+          expires_at: proposal.expiresAt.toISOString(),
+          status: 'pending',
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapProposalFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create match proposal: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getProposal(proposalId: string): Promise<ApiResponse<MatchProposal>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_proposals')
+        .select('*')
+        .eq('id', proposalId)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapProposalFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get match proposal: ${error}`,
+      };
+    }
+  }
+
+  // Guarded on the current status; resolves with data: null if the proposal already moved on
+  async updateProposal(
+    proposalId: string,
+    from: ProposalStatus,
+    fields: Record<string, any>
+  ): Promise<ApiResponse<MatchProposal | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_proposals')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', proposalId)
+        .eq('status', from)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapProposalFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update match proposal: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getExpiredProposals(now: Date): Promise<ApiResponse<MatchProposal[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('matchmaking_proposals')
+        .select('*')
+        .eq('status', 'pending')
+        .lt('expires_at', now.toISOString());
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapProposalFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get expired proposals: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Time trials
+  async createSavedRoute(route: Omit<SavedRoute, 'id' | 'createdAt'>): Promise<ApiResponse<SavedRoute>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('saved_routes')
+        .insert([{
+          created_by: route.createdBy,
+          name: route.name,
+          description: route.description || null,
+          route: route.route,
+          distance: route.distance,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapSavedRouteFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create route: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getSavedRoute(routeId: string): Promise<ApiResponse<SavedRoute>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('saved_routes')
+        .select('*')
+        .eq('id', routeId)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapSavedRouteFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get route: ${error}`,
+      };
+    }
+  }
+
+  async getSavedRoutes(limit: number = 50): Promise<ApiResponse<SavedRoute[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('saved_routes')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapSavedRouteFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get routes: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async createRouteRun(run: Omit<RouteRun, 'id' | 'createdAt'>, telemetry: TelemetrySample[]): Promise<ApiResponse<RouteRun>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('route_runs')
+        .insert([{
+          route_id: run.routeId,
+          user_id: run.userId,
+          vehicle_id: run.vehicleId || null,
+          vehicle_class: run.vehicleClass,
+          elapsed_time: run.elapsedTime,
+          splits: run.splits,
+          started_at: run.startedAt.toISOString(),
+          telemetry,
+          review_status: run.reviewStatus,
+          review_reasons: run.reviewReasons,
+        }])
+        .select(ROUTE_RUN_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapRouteRunFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to record run: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getRouteRun(runId: string): Promise<ApiResponse<RouteRun>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('route_runs')
+        .select(ROUTE_RUN_COLUMNS)
+        .eq('id', runId)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapRouteRunFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get run: ${error}`,
+      };
+    }
+  }
+
+  async getRouteRunTelemetry(runId: string): Promise<ApiResponse<TelemetrySample[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('route_runs')
+        .select('telemetry')
+        .eq('id', runId)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data.telemetry || [],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get run telemetry: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // One page of a route's leaderboard, best approved run per driver (see route_leaderboard in
+  // complete-schema.sql). `you` is userId's own entry, wherever it ranks.
+  async getRouteLeaderboard(
+    routeId: string,
+    filter: { since?: Date; vehicleClass?: VehicleClass; userIds?: string[] },
+    page: { limit: number; offset: number },
+    userId?: string
+  ): Promise<ApiResponse<{ entries: LeaderboardEntry[]; you: LeaderboardEntry | null }>> {
+    try {
+      const { data, error } = await this.supabase.rpc('route_leaderboard', {
+        p_route_id: routeId,
+        p_since: filter.since ? filter.since.toISOString() : null,
+        p_vehicle_class: filter.vehicleClass || null,
+        p_user_ids: filter.userIds || null,
+        p_limit: page.limit,
+        p_offset: page.offset,
+        p_user_id: userId || null,
+      });
+
+      if (error) throw error;
+
+      const rows: any[] = data || [];
+      const onPage = (row: any) => Number(row.place) > page.offset && Number(row.place) <= page.offset + page.limit;
+      const you = rows.find(row => row.user_id === userId);
+
+      return {
+        success: true,
+        data: {
+          entries: rows.filter(onPage).map(row => this.mapLeaderboardEntryFromDb(row)),
+          you: you ? this.mapLeaderboardEntryFromDb(you) : null,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get leaderboard: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Every run a user has submitted on a route, whatever its review status, newest first
+  async getUserRouteRuns(routeId: string, userId: string, limit: number = 50): Promise<ApiResponse<RouteRun[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('route_runs')
+        .select(ROUTE_RUN_COLUMNS)
+        .eq('route_id', routeId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapRouteRunFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get user runs: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Users with an accepted friendship in either direction
+  async getFriendIds(userId: string): Promise<ApiResponse<string[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('friendships')
+        .select('requester_id, addressee_id')
+        .eq('status', 'accepted')
+        .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => (row.requester_id === userId ? row.addressee_id : row.requester_id)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get friends: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async createGhostRace(record: Omit<GhostRaceRecord, 'id' | 'createdAt'>): Promise<ApiResponse<GhostRaceRecord>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('ghost_races')
+        .insert([{
+          route_id: record.routeId,
+          race_id: record.raceId,
+          user_id: record.userId,
+          run_id: record.runId,
+          ghost_run_id: record.ghostRunId,
+          ghost_result_id: record.ghostResultId,
+          ghost_user_id: record.ghostUserId,
+          elapsed_time: record.elapsedTime,
+          ghost_time: record.ghostTime,
+          margin: record.margin,
+          split_deltas: record.splitDeltas,
+          outcome: record.outcome,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapGhostRaceFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to record ghost race: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // A user's ghost races, newest first
+  async getGhostRaces(
+    userId: string,
+    filter: { routeId?: string; ghostUserId?: string } = {},
+    limit: number = 500
+  ): Promise<ApiResponse<GhostRaceRecord[]>> {
+    try {
+      let query = this.supabase
+        .from('ghost_races')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (filter.routeId) query = query.eq('route_id', filter.routeId);
+      if (filter.ghostUserId) query = query.eq('ghost_user_id', filter.ghostUserId);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapGhostRaceFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get ghost races: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async createChatMessage(message: Pick<ChatMessage, 'raceId' | 'senderId' | 'content' | 'messageType' | 'metadata'>): Promise<ApiResponse<ChatMessage>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('messages')
+        .insert([{
+          race_id: message.raceId,
+          sender_id: message.senderId,
+          content: message.content,
+          message_type: message.messageType,
+          metadata: message.metadata || null,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapChatMessageFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to send message: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getChatMessage(messageId: string): Promise<ApiResponse<ChatMessage>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('messages')
+        .select('*')
+        .eq('id', messageId)
+        .not('race_id', 'is', null)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapChatMessageFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get message: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Deleting keeps the row so history pages stay stable; the content is blanked
+  async updateChatMessage(messageId: string, update: { content?: string; isDeleted?: boolean }): Promise<ApiResponse<ChatMessage>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('messages')
+        .update(update.isDeleted
+          ? { is_deleted: true, content: '' }
+          : { content: update.content, is_edited: true, edited_at: new Date().toISOString() })
+        .eq('id', messageId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapChatMessageFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update message: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Newest first, strictly older than the (createdAt, id) cursor when one is given
+  async getChatMessages(
+    raceId: string,
+    before: { createdAt: string; id: string } | null,
+    limit: number
+  ): Promise<ApiResponse<ChatMessage[]>> {
+    try {
+      let query = this.supabase
+        .from('messages')
+        .select('*')
+        .eq('race_id', raceId);
+
+      if (before) {
+        query = query.or(`created_at.lt.${before.createdAt},and(created_at.eq.${before.createdAt},id.lt.${before.id})`);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapChatMessageFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get messages: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // PostgREST `or` filter matching public races plus private ones the viewer created or was invited to
+  private async visibleRacesFilter(viewerId?: string): Promise<string> {
+    if (!viewerId) return 'is_private.eq.false';
+
+    const { data, error } = await this.supabase
+      .from('race_invitations')
+      .select('race_id')
+      .eq('user_id', viewerId);
+
+    if (error) throw error;
+
+    const invited = (data || []).map(row => row.race_id);
+    return [
+      'is_private.eq.false',
+      `created_by.eq.${viewerId}`,
+      ...(invited.length ? [`id.in.(${invited.join(',')})`] : []),
+    ].join(',');
+  }
+
+  // Race Results & Disputes
+
+  async getRaceResults(raceId: string): Promise<ApiResponse<RecordedResult[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_results')
+        .select('*, race_participants(user_id)')
+        .eq('race_id', raceId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data.map(row => this.mapResultFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get race results: ${error}`,
+      };
+    }
+  }
+
+  async updateRaceResult(resultId: string, fields: Record<string, any>): Promise<ApiResponse<RecordedResult>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('race_results')
+        .update(fields)
+        .eq('id', resultId)
+        .select('*, race_participants(user_id)')
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapResultFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update race result: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Atomic re-rank (see rerank_race_results in complete-schema.sql); records a history row per moved result.
+  // `change` corrects a result's time or review status in the same transaction, and `ruling` accepts the
+  // dispute with it. Resolves to false, with nothing changed, when that dispute is no longer open.
+  async rerankRaceResults(
+    raceId: string,
+    orderedResultIds: string[],
+    changedBy: string,
+    reason: string,
+    disputeId?: string,
+    change?: ResultChange,
+    ruling?: DisputeRuling,
+    resolution?: string
+  ): Promise<ApiResponse<boolean>> {
+    try {
+      const { data, error } = await this.supabase.rpc('rerank_race_results', {
+        p_race_id: raceId,
+        p_result_ids: orderedResultIds,
+        p_changed_by: changedBy,
+        p_reason: reason,
+        p_dispute_id: disputeId || null,
+        p_change: change ? {
+          result_id: change.resultId,
+          action: change.action,
+          previous: change.previous ?? null,
+          current: change.current ?? null,
+          time_result: change.timeResult ?? null,
+          review_status: change.reviewStatus ?? null,
+        } : null,
+        p_ruling: ruling || null,
+        p_resolution: resolution || null,
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).length > 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to re-rank race results: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async recordResultHistory(entries: Omit<ResultHistoryEntry, 'createdAt'>[]): Promise<ApiResponse<boolean>> {
+    try {
+      if (entries.length === 0) {
+        return { success: true, data: true };
+      }
+
+      const { error } = await this.supabase
+        .from('result_history')
+        .insert(entries.map(e => ({
+          race_id: e.raceId,
+          result_id: e.resultId,
+          dispute_id: e.disputeId || null,
+          changed_by: e.changedBy || null,
+          action: e.action,
+          previous: e.previous ?? null,
+          current: e.current ?? null,
+          reason: e.reason || null,
+          created_at: new Date().toISOString(),
+        })));
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to record result history: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getResultHistory(raceId: string): Promise<ApiResponse<ResultHistoryEntry[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('result_history')
+        .select('*')
+        .eq('race_id', raceId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data.map(row => ({
+          raceId: row.race_id,
+          resultId: row.result_id,
+          disputeId: row.dispute_id || undefined,
+          changedBy: row.changed_by || undefined,
+          action: row.action,
+          previous: row.previous || undefined,
+          current: row.current || undefined,
+          reason: row.reason || undefined,
+          createdAt: new Date(row.created_at),
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get result history: ${error}`,
+      };
+    }
+  }
+
+  async createDispute(dispute: Omit<ResultDispute, 'id' | 'status' | 'createdAt'>): Promise<ApiResponse<ResultDispute>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('result_disputes')
+        .insert([{
+          race_id: dispute.raceId,
+          result_id: dispute.resultId,
+          filed_by: dispute.filedBy,
+          reason: dispute.reason,
+          evidence: dispute.evidence,
+          requested_position: dispute.requestedPosition ?? null,
+          status: 'open',
+          created_at: new Date().toISOString(),
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapDisputeFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create dispute: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getDispute(disputeId: string): Promise<ApiResponse<ResultDispute>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('result_disputes')
+        .select('*')
+        .eq('id', disputeId)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapDisputeFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get dispute: ${error}`,
+      };
+    }
+  }
+
+  async getRaceDisputes(raceId: string, status?: DisputeStatus): Promise<ApiResponse<ResultDispute[]>> {
+    try {
+      let query = this.supabase
+        .from('result_disputes')
+        .select('*')
+        .eq('race_id', raceId);
+
+      if (status) query = query.eq('status', status);
+
+      const { data, error } = await query.order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data.map(row => this.mapDisputeFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get disputes: ${error}`,
+      };
+    }
+  }
+
+  // Guarded on the current status so two organizers can't resolve the same dispute; data is null if it lost the race
+  async resolveDispute(
+    disputeId: string,
+    status: DisputeStatus,
+    resolvedBy: string,
+    resolution?: string,
+    ruling?: DisputeRuling
+  ): Promise<ApiResponse<ResultDispute | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('result_disputes')
+        .update({
+          status,
+          ruling: ruling || null,
+          resolution: resolution || null,
+          resolved_by: resolvedBy,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq('id', disputeId)
+        .eq('status', 'open')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapDisputeFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to resolve dispute: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Notifications
+
+  async createNotifications(notifications: NotificationInput[]): Promise<ApiResponse<Notification[]>> {
+    try {
+      if (notifications.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const { data, error } = await this.supabase
+        .from('notifications')
+        .insert(notifications.map(n => ({
+          user_id: n.userId,
+          type: n.type,
+          title: n.title,
+          message: n.message,
+          related_user_id: n.relatedUserId || null,
+          related_race_id: n.relatedRaceId || null,
+          action_url: n.actionUrl || null,
+          metadata: n.data ?? null,
+          expires_at: n.expiresAt ? n.expiresAt.toISOString() : null,
+          created_at: new Date().toISOString(),
+        })))
+        .select();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data.map(row => this.mapNotificationFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create notifications: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async deleteExpiredNotifications(now: Date): Promise<ApiResponse<number>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('notifications')
+        .delete()
+        .lt('expires_at', now.toISOString())
+        .select('id');
+
+      if (error) throw error;
+
+      return { success: true, data: data?.length || 0 };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete expired notifications: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Scheduled Jobs
+  // A job with a key that already exists is not scheduled again; that case resolves with data: null.
+  async createJob(job: JobInput): Promise<ApiResponse<ScheduledJob | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduled_jobs')
+        .upsert({
+          job_type: job.type,
+          job_key: job.key || null,
+          payload: job.payload,
+          run_at: job.runAt.toISOString(),
+          max_attempts: job.maxAttempts ?? 5,
+        }, { onConflict: 'job_key', ignoreDuplicates: true })
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapJobFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create job: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getDueJobs(now: Date, limit: number): Promise<ApiResponse<ScheduledJob[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduled_jobs')
+        .select('*')
+        .eq('status', 'pending')
+        .lte('run_at', now.toISOString())
+        .order('run_at', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapJobFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get due jobs: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Guarded on status and attempt count, so only one worker can claim a given attempt.
+  // Resolves with data: null when another worker got there first.
+  async claimJob(job: ScheduledJob, workerId: string, leaseUntil: Date): Promise<ApiResponse<ScheduledJob | null>> {
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from('scheduled_jobs')
+        .update({
+          status: 'running',
+          attempts: job.attempts + 1,
+          worker_id: workerId,
+          lease_expires_at: leaseUntil.toISOString(),
+          started_at: now,
+          updated_at: now,
+        })
+        .eq('id', job.id)
+        .eq('status', 'pending')
+        .eq('attempts', job.attempts)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data ? this.mapJobFromDb(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to claim job: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async updateJob(jobId: string, fields: Record<string, any>): Promise<ApiResponse<ScheduledJob>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduled_jobs')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapJobFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update job: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async renewJobLease(jobId: string, workerId: string, leaseUntil: Date): Promise<ApiResponse<boolean>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduled_jobs')
+        .update({ lease_expires_at: leaseUntil.toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .eq('status', 'running')
+        .eq('worker_id', workerId)
+        .select('id');
+
+      if (error) throw error;
+
+      return { success: true, data: (data?.length || 0) > 0 };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to renew job lease: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Fails running jobs that belong to this worker's previous process or whose lease has run out.
+  // Jobs another live instance is running keep their lease and are left alone.
+  async failInterruptedJobs(workerId: string, now: Date): Promise<ApiResponse<number>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduled_jobs')
+        .update({
+          status: 'failed',
+          last_error: 'Interrupted: the worker running it stopped',
+          completed_at: now.toISOString(),
+          updated_at: now.toISOString(),
+        })
+        .eq('status', 'running')
+        .or(`worker_id.eq."${workerId}",lease_expires_at.is.null,lease_expires_at.lt.${now.toISOString()}`)
+        .select('id');
+
+      if (error) throw error;
+
+      return { success: true, data: data?.length || 0 };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fail interrupted jobs: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async cancelJobs(keyPrefix: string): Promise<ApiResponse<number>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduled_jobs')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('status', 'pending')
+        .like('job_key', `${keyPrefix}%`)
+        .select('id');
+
+      if (error) throw error;
+
+      return { success: true, data: data?.length || 0 };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to cancel jobs: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getJobs(filters: { status?: JobStatus; type?: string; limit?: number } = {}): Promise<ApiResponse<ScheduledJob[]>> {
+    try {
+      let query = this.supabase
+        .from('scheduled_jobs')
+        .select('*')
+        .order('run_at', { ascending: false })
+        .limit(filters.limit || 100);
+
+      if (filters.status) query = query.eq('status', filters.status);
+      if (filters.type) query = query.eq('job_type', filters.type);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []).map(row => this.mapJobFromDb(row)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get jobs: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async getJob(jobId: string): Promise<ApiResponse<ScheduledJob>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduled_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: this.mapJobFromDb(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get job: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  async deleteFinishedJobs(before: Date): Promise<ApiResponse<number>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheduled_jobs')
+        .delete()
+        .in('status', ['completed', 'failed', 'cancelled'])
+        .lt('updated_at', before.toISOString())
+        .select('id');
+
+      if (error) throw error;
+
+      return { success: true, data: data?.length || 0 };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete finished jobs: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      };
+    }
+  }
+
+  // Data mapping helpers
+  private mapUserFromDb(dbUser: any): User {
+    return {
+      id: dbUser.id,
+      username: dbUser.username,
+      email: dbUser.email,
+      avatar: dbUser.avatar_url,
+      location: dbUser.location ? JSON.parse(dbUser.location) : undefined,
+      preferences: {
         notifications: dbUser.notifications_enabled ?? true,
         location: dbUser.location_sharing_enabled ?? true,
         units: dbUser.units || 'imperial',
@@ -1018,6 +3617,349 @@ export class SupabaseService {
     };
   }
 
+  private mapTelemetryFromDb(row: any): TelemetrySample {
+    return {
+      seq: row.seq,
+      timestamp: new Date(row.recorded_at).getTime(),
+      lat: Number(row.lat),
+      lng: Number(row.lng),
+      speed: row.speed != null ? Number(row.speed) : undefined,
+      heading: row.heading != null ? Number(row.heading) : undefined,
+      accuracy: row.accuracy != null ? Number(row.accuracy) : undefined,
+    };
+  }
+
+  private mapResultFromDb(row: any): RecordedResult {
+    return {
+      id: row.id,
+      raceId: row.race_id,
+      participantId: row.participant_id,
+      userId: row.race_participants?.user_id,
+      position: row.position,
+      timeResult: Number(row.time_result),
+      speedResult: row.speed_result === null ? null : Number(row.speed_result),
+      splits: row.splits,
+      isWinner: row.is_winner,
+      reviewStatus: row.review_status || 'approved',
+      reviewReasons: row.review_reasons || [],
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapDisputeFromDb(row: any): ResultDispute {
+    return {
+      id: row.id,
+      raceId: row.race_id,
+      resultId: row.result_id,
+      filedBy: row.filed_by,
+      reason: row.reason,
+      evidence: row.evidence || {},
+      requestedPosition: row.requested_position ?? undefined,
+      status: row.status,
+      ruling: row.ruling || undefined,
+      resolution: row.resolution || undefined,
+      resolvedBy: row.resolved_by || undefined,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapInvitationFromDb(row: any): RaceInvitation {
+    return {
+      id: row.id,
+      raceId: row.race_id,
+      userId: row.user_id,
+      invitedBy: row.invited_by || undefined,
+      status: row.status,
+      respondedAt: row.responded_at ? new Date(row.responded_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapJoinRequestFromDb(row: any): JoinRequest {
+    return {
+      id: row.id,
+      raceId: row.race_id,
+      userId: row.user_id,
+      message: row.message || undefined,
+      status: row.status,
+      decidedBy: row.decided_by || undefined,
+      decidedAt: row.decided_at ? new Date(row.decided_at) : undefined,
+      reason: row.reason || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapWaitlistEntryFromDb(row: any): WaitlistEntry {
+    return {
+      id: row.id,
+      raceId: row.race_id,
+      userId: row.user_id,
+      status: row.status,
+      offeredAt: row.offered_at ? new Date(row.offered_at) : undefined,
+      offerExpiresAt: row.offer_expires_at ? new Date(row.offer_expires_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapJobFromDb(row: any): ScheduledJob {
+    return {
+      id: row.id,
+      type: row.job_type,
+      key: row.job_key || undefined,
+      payload: row.payload || {},
+      runAt: new Date(row.run_at),
+      status: row.status,
+      attempts: row.attempts ?? 0,
+      maxAttempts: row.max_attempts ?? 5,
+      lastError: row.last_error || undefined,
+      workerId: row.worker_id || undefined,
+      leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at) : undefined,
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapTournamentFromDb(row: any): Tournament {
+    return {
+      id: row.id,
+      createdBy: row.created_by,
+      name: row.name,
+      description: row.description || undefined,
+      format: row.format,
+      seeding: row.seeding,
+      maxEntrants: row.max_entrants,
+      startLocation: typeof row.start_location === 'string' ? JSON.parse(row.start_location) : row.start_location,
+      endLocation: typeof row.end_location === 'string' ? JSON.parse(row.end_location) : row.end_location,
+      status: row.status,
+      championId: row.champion_id || undefined,
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapTournamentEntrantFromDb(row: any): TournamentEntrant {
+    return {
+      id: row.id,
+      tournamentId: row.tournament_id,
+      userId: row.user_id,
+      vehicleId: row.vehicle_id || undefined,
+      seed: row.seed ?? undefined,
+      seedValue: row.seed_value === null || row.seed_value === undefined ? undefined : Number(row.seed_value),
+      status: row.status,
+      losses: row.losses ?? 0,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapTournamentMatchFromDb(row: any): TournamentMatch {
+    return {
+      id: row.id,
+      tournamentId: row.tournament_id,
+      bracket: row.bracket,
+      round: row.round,
+      matchNumber: row.match_number,
+      entrantA: row.entrant_a,
+      entrantB: row.entrant_b,
+      aSettled: row.a_settled,
+      bSettled: row.b_settled,
+      raceId: row.race_id,
+      attempts: row.attempts ?? 0,
+      winnerId: row.winner_id,
+      loserId: row.loser_id,
+      status: row.status,
+      winnerNext: row.winner_next_match ? { matchId: row.winner_next_match, slot: row.winner_next_slot } : null,
+      loserNext: row.loser_next_match ? { matchId: row.loser_next_match, slot: row.loser_next_slot } : null,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    };
+  }
+
+  private mapChampionshipFromDb(row: any): Championship {
+    return {
+      id: row.id,
+      createdBy: row.created_by,
+      name: row.name,
+      description: row.description || undefined,
+      pointsScheme: row.points_scheme,
+      divisions: row.divisions || [],
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapChampionshipRoundFromDb(row: any): ChampionshipRound {
+    return {
+      id: row.id,
+      championshipId: row.championship_id,
+      raceId: row.race_id,
+      roundNumber: row.round_number,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapRatingFromDb(row: any): SkillRating {
+    const deviation = Number(row.rating_deviation);
+    return {
+      userId: row.user_id,
+      raceType: row.race_type,
+      rating: Number(row.rating),
+      deviation,
+      volatility: Number(row.volatility),
+      racesRated: row.races_rated ?? 0,
+      provisional: deviation > PROVISIONAL_DEVIATION,
+      lastRatedAt: row.last_rated_at ? new Date(row.last_rated_at) : undefined,
+    };
+  }
+
+  private mapRatingHistoryFromDb(row: any): RatingHistoryEntry {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      raceId: row.race_id,
+      raceType: row.race_type,
+      ratingBefore: Number(row.rating_before),
+      ratingAfter: Number(row.rating_after),
+      deviationBefore: Number(row.deviation_before),
+      deviationAfter: Number(row.deviation_after),
+      volatilityBefore: row.volatility_before === null || row.volatility_before === undefined ? undefined : Number(row.volatility_before),
+      position: row.position,
+      fieldSize: row.field_size,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapTicketFromDb(row: any): MatchmakingTicket {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      vehicleId: row.vehicle_id || undefined,
+      raceType: row.race_type,
+      location: row.location,
+      radiusKm: Number(row.radius_km),
+      windowStart: new Date(row.window_start),
+      windowEnd: new Date(row.window_end),
+      rating: Number(row.rating),
+      powerToWeight: row.power_to_weight === null ? null : Number(row.power_to_weight),
+      status: row.status,
+      proposalId: row.proposal_id || undefined,
+      acceptedAt: row.accepted_at ? new Date(row.accepted_at) : undefined,
+      raceId: row.race_id || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapProposalFromDb(row: any): MatchProposal {
+    return {
+      id: row.id,
+      raceType: row.race_type,
+      meetingPoint: row.meeting_point,
+      startTime: new Date(row.start_time),
+      status: row.status,
+      raceId: row.race_id || undefined,
+      expiresAt: new Date(row.expires_at),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapSavedRouteFromDb(row: any): SavedRoute {
+    return {
+      id: row.id,
+      createdBy: row.created_by,
+      name: row.name,
+      description: row.description || undefined,
+      route: row.route,
+      distance: row.distance === null ? null : Number(row.distance),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapLeaderboardEntryFromDb(row: any): LeaderboardEntry {
+    return {
+      rank: Number(row.rank),
+      userId: row.user_id,
+      runId: row.run_id,
+      vehicleClass: row.vehicle_class,
+      elapsedTime: Number(row.elapsed_time),
+      gapToLeader: Number(Number(row.gap_to_leader).toFixed(3)),
+      startedAt: new Date(row.started_at),
+    };
+  }
+
+  private mapRouteRunFromDb(row: any): RouteRun {
+    return {
+      id: row.id,
+      routeId: row.route_id,
+      userId: row.user_id,
+      vehicleId: row.vehicle_id || undefined,
+      vehicleClass: row.vehicle_class || null,
+      elapsedTime: Number(row.elapsed_time),
+      splits: (row.splits || []).map(Number),
+      startedAt: new Date(row.started_at),
+      reviewStatus: row.review_status,
+      reviewReasons: row.review_reasons || [],
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapGhostRaceFromDb(row: any): GhostRaceRecord {
+    return {
+      id: row.id,
+      routeId: row.route_id,
+      raceId: row.race_id,
+      userId: row.user_id,
+      runId: row.run_id,
+      ghostRunId: row.ghost_run_id,
+      ghostResultId: row.ghost_result_id,
+      ghostUserId: row.ghost_user_id,
+      elapsedTime: Number(row.elapsed_time),
+      ghostTime: Number(row.ghost_time),
+      margin: Number(row.margin),
+      splitDeltas: (row.split_deltas || []).map(Number),
+      outcome: row.outcome,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapChatMessageFromDb(row: any): ChatMessage {
+    return {
+      id: row.id,
+      raceId: row.race_id,
+      senderId: row.sender_id,
+      content: row.is_deleted ? '' : row.content,
+      messageType: row.message_type,
+      metadata: row.metadata || undefined,
+      isEdited: row.is_edited,
+      editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+      isDeleted: row.is_deleted,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapNotificationFromDb(row: any): Notification {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      data: row.metadata || undefined,
+      relatedUserId: row.related_user_id || undefined,
+      relatedRaceId: row.related_race_id || undefined,
+      actionUrl: row.action_url || undefined,
+      read: row.is_read,
+      createdAt: new Date(row.created_at),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    };
+  }
+
+  private mapRouteFromDb(dbRoute: any): RaceRoute | null {
+    const route = typeof dbRoute === 'string' ? JSON.parse(dbRoute) : dbRoute;
+    if (!route) return null;
+
+    return Array.isArray(route) ? { waypoints: route } : { waypoints: [], ...route };
+  }
+
   private mapRaceFromDb(dbRace: any): any {
     return {
       id: dbRace.id,
@@ -1034,7 +3976,16 @@ export class SupabaseService {
       entryFee: dbRace.entry_fee || 0,
       prizePool: dbRace.prize_pool || 0,
       startTime: new Date(dbRace.scheduled_start || dbRace.start_time),
+      actualStart: dbRace.actual_start ? new Date(dbRace.actual_start) : null,
+      finishTime: dbRace.finish_time ? new Date(dbRace.finish_time) : null,
       raceType: dbRace.race_type || 'street',
+      route: this.mapRouteFromDb(dbRace.route),
+      isPrivate: dbRace.is_private ?? false,
+      requiresApproval: dbRace.requires_approval ?? false,
+      allowedClasses: dbRace.allowed_classes || [],
+      handicap: dbRace.handicap ?? false,
+      bracketRacing: dbRace.bracket_racing ?? false,
+      driftTandem: dbRace.drift_tandem ?? false,
       status: dbRace.status || 'scheduled', // Use 'scheduled' as default to match database constraint
       participants: dbRace.race_participants || dbRace.participants || [], // Try both field names
       results: dbRace.results || [],
@@ -0,0 +1,387 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { NotificationService } from './notifications';
+import { RaceLifecycleService } from './raceLifecycle';
+import {
+  ApiResponse, DisputeRuling, NotificationInput, RecordedResult, ResultChange, ResultDispute, ResultHistoryEntry,
+} from '../types';
+
+const DISPUTE_WINDOW_MS = parseInt(process.env.DISPUTE_WINDOW_HOURS || '48') * 60 * 60 * 1000;
+
+export interface DisputeInput {
+  resultId: string;
+  reason: string;
+  evidence?: ResultDispute['evidence'];
+  requestedPosition?: number;
+}
+
+// Rejected results drop to the bottom; everything else keeps its relative order
+const withRejectedLast = (results: RecordedResult[]): RecordedResult[] => [
+  ...results.filter(r => r.reviewStatus !== 'rejected'),
+  ...results.filter(r => r.reviewStatus === 'rejected'),
+];
+
+type ResultsListener = (raceId: string) => void | Promise<void>;
+
+export class DisputeService {
+  private listeners: ResultsListener[] = [];
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private notifications: NotificationService,
+    private lifecycle: RaceLifecycleService
+  ) {}
+
+  // Fires after a ruling or review has changed a race's recorded results
+  onResultsChanged(listener: ResultsListener): void {
+    this.listeners.push(listener);
+  }
+
+  async fileDispute(raceId: string, userId: string, input: DisputeInput): Promise<ApiResponse<ResultDispute>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    const participantIds = race.participants.map((p: any) => p.user_id);
+    if (!participantIds.includes(userId)) {
+      return { success: false, error: 'Only race participants can file disputes' };
+    }
+
+    if (race.finishTime && Date.now() - race.finishTime.getTime() > DISPUTE_WINDOW_MS) {
+      return { success: false, error: 'Illegal dispute: the dispute window for this race has closed' };
+    }
+
+    const range = input.evidence?.telemetryRange;
+    if (range && !participantIds.includes(range.userId)) {
+      return { success: false, error: 'Evidence telemetry must belong to a race participant' };
+    }
+
+    const resultsResult = await this.dbService.getRaceResults(raceId);
+    if (!resultsResult.success) return resultsResult as ApiResponse<any>;
+
+    const contested = resultsResult.data!.find(r => r.id === input.resultId);
+    if (!contested) {
+      return { success: false, error: 'Result not found' };
+    }
+
+    if (input.requestedPosition && input.requestedPosition > resultsResult.data!.length) {
+      return { success: false, error: `Requested position must be between 1 and ${resultsResult.data!.length}` };
+    }
+
+    const openResult = await this.dbService.getRaceDisputes(raceId, 'open');
+    if (!openResult.success) return openResult as ApiResponse<any>;
+    if (openResult.data!.some(d => d.resultId === input.resultId && d.filedBy === userId)) {
+      return { success: false, error: 'You already have an open dispute against this result' };
+    }
+
+    const created = await this.dbService.createDispute({
+      raceId,
+      resultId: input.resultId,
+      filedBy: userId,
+      reason: input.reason,
+      evidence: input.evidence || {},
+      requestedPosition: input.requestedPosition,
+    });
+    if (!created.success) return created;
+
+    const dispute = created.data!;
+    await this.dbService.recordResultHistory([{
+      raceId,
+      resultId: contested.id,
+      disputeId: dispute.id,
+      changedBy: userId,
+      action: 'dispute_filed',
+      reason: input.reason,
+    }]);
+
+    await this.notifications.notify(this.recipients([race.createdBy, contested.userId], userId).map(recipient => ({
+      userId: recipient,
+      type: 'race_dispute',
+      title: 'Result disputed',
+      message: recipient === race.createdBy
+        ? `A result in ${race.name} has been disputed and needs your decision`
+        : `Your result in ${race.name} has been disputed`,
+      relatedUserId: userId,
+      relatedRaceId: raceId,
+      data: { disputeId: dispute.id, resultId: contested.id },
+    })));
+
+    return { success: true, data: dispute };
+  }
+
+  async getDisputes(raceId: string, userId: string): Promise<ApiResponse<ResultDispute[]>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    const involved = race.createdBy === userId || race.participants.some((p: any) => p.user_id === userId);
+    if (!involved) {
+      return { success: false, error: 'Only the organizer and participants can view disputes' };
+    }
+
+    return this.dbService.getRaceDisputes(raceId);
+  }
+
+  // Organizer decision. Accepting applies the ruling to the contested result and re-ranks the race.
+  async resolveDispute(
+    raceId: string,
+    disputeId: string,
+    organizerId: string,
+    decision: 'accept' | 'reject',
+    ruling?: DisputeRuling,
+    resolution?: string
+  ): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.createdBy !== organizerId) {
+      return { success: false, error: 'Only race organizer can resolve disputes' };
+    }
+
+    const disputeResult = await this.dbService.getDispute(disputeId);
+    if (!disputeResult.success || disputeResult.data!.raceId !== raceId) {
+      return { success: false, error: 'Dispute not found' };
+    }
+
+    const dispute = disputeResult.data!;
+    if (dispute.status !== 'open') {
+      return { success: false, error: `Illegal resolution: dispute is already ${dispute.status}` };
+    }
+
+    if (decision === 'accept' && !ruling) {
+      return { success: false, error: 'Accepting a dispute requires a ruling' };
+    }
+
+    const before = await this.dbService.getRaceResults(raceId);
+    if (!before.success) return before;
+
+    // Accepting claims the dispute in the same transaction as the ruling and its re-rank, so of two
+    // concurrent resolutions only one changes the results
+    const resolved = decision === 'accept'
+      ? await this.acceptDispute(race, dispute, ruling!, organizerId, before.data!, resolution)
+      : await this.rejectDispute(dispute, organizerId, resolution);
+    if (!resolved.success) return resolved;
+
+    if (!resolved.data) {
+      return { success: false, error: 'Illegal resolution: dispute is no longer open' };
+    }
+
+    const after = await this.publishResults(raceId, before.data!);
+    const contested = before.data!.find(r => r.id === dispute.resultId);
+
+    await this.notifications.notify(this.recipients([dispute.filedBy, contested?.userId], organizerId).map(recipient => ({
+      userId: recipient,
+      type: 'race_dispute',
+      title: decision === 'accept' ? 'Dispute accepted' : 'Dispute rejected',
+      message: `The dispute over a result in ${race.name} was ${decision === 'accept' ? 'accepted' : 'rejected'}`
+        + (resolution ? `: ${resolution}` : ''),
+      relatedUserId: organizerId,
+      relatedRaceId: raceId,
+      data: { disputeId, resultId: dispute.resultId, ruling },
+    })));
+
+    return { success: true, data: { dispute: resolved.data, results: after } };
+  }
+
+  // Organizer approves or rejects a result the plausibility checks held for review
+  async reviewResult(
+    raceId: string,
+    resultId: string,
+    organizerId: string,
+    decision: 'approve' | 'reject',
+    reason?: string
+  ): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    if (raceResult.data.createdBy !== organizerId) {
+      return { success: false, error: 'Only race organizer can review results' };
+    }
+
+    const before = await this.dbService.getRaceResults(raceId);
+    if (!before.success) return before;
+
+    const result = before.data!.find(r => r.id === resultId);
+    if (!result) {
+      return { success: false, error: 'Result not found' };
+    }
+
+    if (result.reviewStatus !== 'pending_review') {
+      return { success: false, error: `Illegal review: result is ${result.reviewStatus}` };
+    }
+
+    // Approving keeps the order but can still make the result the winner, so both ways go through the re-rank
+    const status = decision === 'approve' ? 'approved' : 'rejected';
+    const change: ResultChange = {
+      resultId,
+      action: decision === 'approve' ? 'review_approved' : 'review_rejected',
+      previous: { reviewStatus: result.reviewStatus, reasons: result.reviewReasons },
+      current: { reviewStatus: status },
+      reviewStatus: status,
+    };
+    const order = decision === 'approve'
+      ? before.data!
+      : withRejectedLast(before.data!.map(r => (r.id === resultId ? { ...r, reviewStatus: 'rejected' as const } : r)));
+    const reranked = await this.dbService.rerankRaceResults(
+      raceId,
+      order.map(r => r.id),
+      organizerId,
+      reason || (decision === 'approve' ? 'Result approved on review' : 'Result rejected on review'),
+      undefined,
+      change
+    );
+    if (!reranked.success) return reranked;
+
+    const after = await this.publishResults(raceId, before.data!);
+
+    await this.notifications.notify([{
+      userId: result.userId,
+      type: 'race_result',
+      title: decision === 'approve' ? 'Result approved' : 'Result rejected',
+      message: `Your result in ${raceResult.data.name} was ${decision === 'approve' ? 'approved' : 'rejected'} by the organizer`
+        + (reason ? `: ${reason}` : ''),
+      relatedUserId: organizerId,
+      relatedRaceId: raceId,
+      data: { resultId },
+    }]);
+
+    return { success: true, data: { results: after } };
+  }
+
+  async getHistory(raceId: string): Promise<ApiResponse<ResultHistoryEntry[]>> {
+    return this.dbService.getResultHistory(raceId);
+  }
+
+  // The dispute's acceptance, the correction, their history and the re-rank go to the database as one call.
+  // Resolves to null when the dispute was no longer open.
+  private async acceptDispute(
+    race: any,
+    dispute: ResultDispute,
+    ruling: DisputeRuling,
+    organizerId: string,
+    results: RecordedResult[],
+    resolution?: string
+  ): Promise<ApiResponse<ResultDispute | null>> {
+    const contested = results.find(r => r.id === dispute.resultId);
+    if (!contested) {
+      return { success: false, error: 'Result not found' };
+    }
+
+    const reason = resolution || `Dispute ruling: ${ruling.action}`;
+    let order: RecordedResult[];
+    let change: ResultChange | undefined;
+
+    switch (ruling.action) {
+      case 'reposition': {
+        if (ruling.position < 1 || ruling.position > results.length) {
+          return { success: false, error: `Position must be between 1 and ${results.length}` };
+        }
+        order = results.filter(r => r.id !== contested.id);
+        order.splice(ruling.position - 1, 0, contested);
+        break;
+      }
+      case 'adjust_time': {
+        change = {
+          resultId: contested.id,
+          action: 'time_adjusted',
+          previous: { timeResult: contested.timeResult },
+          current: { timeResult: ruling.timeResult },
+          timeResult: ruling.timeResult,
+        };
+        // A new time only moves the result as far as the race type's own rules say it does
+        const retimed = results.map(r => (r.id === contested.id ? { ...r, timeResult: ruling.timeResult } : r));
+        order = this.lifecycle.rankResults(race, retimed);
+        break;
+      }
+      case 'disqualify': {
+        change = {
+          resultId: contested.id,
+          action: 'disqualified',
+          previous: { reviewStatus: contested.reviewStatus },
+          current: { reviewStatus: 'rejected' },
+          reviewStatus: 'rejected',
+        };
+        order = withRejectedLast(results.map(r => (r.id === contested.id ? { ...r, reviewStatus: 'rejected' as const } : r)));
+        break;
+      }
+    }
+
+    const reranked = await this.dbService.rerankRaceResults(
+      race.id, order.map(r => r.id), organizerId, reason, dispute.id, change, ruling, resolution
+    );
+    if (!reranked.success) return reranked as ApiResponse<any>;
+    if (!reranked.data) return { success: true, data: null };
+
+    return this.dbService.getDispute(dispute.id);
+  }
+
+  private async rejectDispute(
+    dispute: ResultDispute,
+    organizerId: string,
+    resolution?: string
+  ): Promise<ApiResponse<ResultDispute | null>> {
+    const resolved = await this.dbService.resolveDispute(dispute.id, 'rejected', organizerId, resolution);
+    if (!resolved.success || !resolved.data) return resolved;
+
+    await this.dbService.recordResultHistory([{
+      raceId: dispute.raceId,
+      resultId: dispute.resultId,
+      disputeId: dispute.id,
+      changedBy: organizerId,
+      action: 'dispute_rejected',
+      reason: resolution,
+    }]);
+
+    return resolved;
+  }
+
+  // Broadcasts the new order and tells everyone whose position moved
+  private async publishResults(raceId: string, before: RecordedResult[]): Promise<RecordedResult[]> {
+    const afterResult = await this.dbService.getRaceResults(raceId);
+    const after = afterResult.data || [];
+
+    this.wsService.broadcastToRace(raceId, {
+      type: 'results_updated',
+      raceId,
+      data: { raceId, results: after },
+      timestamp: new Date(),
+    });
+
+    const moved: NotificationInput[] = after
+      .map(result => ({ result, previous: before.find(r => r.id === result.id) }))
+      .filter(({ result, previous }) => previous && previous.position !== result.position)
+      .map(({ result, previous }) => ({
+        userId: result.userId,
+        type: 'race_result',
+        title: 'Race result updated',
+        message: `Your finishing position changed from P${previous!.position} to P${result.position}`,
+        relatedRaceId: raceId,
+        data: { resultId: result.id, previousPosition: previous!.position, position: result.position },
+      }));
+    await this.notifications.notify(moved);
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(raceId);
+      } catch (error) {
+        console.error('Results listener failed:', error);
+      }
+    }
+
+    return after;
+  }
+
+  private recipients(userIds: (string | undefined)[], exclude: string): string[] {
+    return [...new Set(userIds.filter((id): id is string => !!id && id !== exclude))];
+  }
+}
@@ -0,0 +1,154 @@
+import { SupabaseService } from './database';
+import { TelemetryService } from './telemetry';
+import { ApiResponse, FinishData, TelemetrySample, TimingSlip } from '../types';
+import { haversineDistance, LatLng } from '../utils/geo';
+
+const FOOT = 0.3048;
+
+// Timing markers in meters from the start line
+const MARKERS = {
+  sixtyFoot: 60 * FOOT,
+  threeThirtyFoot: 330 * FOOT,
+  eighthMile: 660 * FOOT,
+  thousandFoot: 1000 * FOOT,
+  quarterMile: 1320 * FOOT,
+};
+
+// Trap speed is averaged over the last 66 ft before the eighth and quarter mile marks
+const TRAP_LENGTH = 66 * FOOT;
+
+interface Crossing {
+  distance: number;
+  at: number; // server epoch ms
+}
+
+// Interpolates when the car first got `distance` meters away from the start line
+const crossingTime = (trace: Crossing[], distance: number): number | null => {
+  for (let i = 1; i < trace.length; i++) {
+    const prev = trace[i - 1];
+    const next = trace[i];
+    if (next.distance >= distance && prev.distance < distance) {
+      const fraction = (distance - prev.distance) / (next.distance - prev.distance);
+      return prev.at + fraction * (next.at - prev.at);
+    }
+  }
+  return null;
+};
+
+const round = (value: number | null, digits: number): number | null =>
+  value === null ? null : Number(value.toFixed(digits));
+
+// Drag strips are straight, so distance is measured as displacement from the staged position.
+// That keeps GPS jitter at the line from adding up the way a path length would.
+export const computeTimingSlip = (
+  samples: TelemetrySample[],
+  startAt: number,
+  reactionTime: number | null
+): TimingSlip => {
+  const ordered = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  const staged = ordered.filter(s => s.timestamp <= startAt).pop() || ordered[0];
+
+  // ETs run from launch (green plus reaction time); without a recorded reaction they run from green
+  const launchAt = startAt + (reactionTime ?? 0) * 1000;
+  const origin: LatLng | undefined = staged && { lat: staged.lat, lng: staged.lng };
+  const trace: Crossing[] = origin
+    ? ordered.filter(s => s.timestamp >= staged.timestamp).map(s => ({ distance: haversineDistance(origin, s), at: s.timestamp }))
+    : [];
+
+  const elapsed = (distance: number): number | null => {
+    const at = crossingTime(trace, distance);
+    return at === null ? null : (at - launchAt) / 1000;
+  };
+
+  const trap = (end: number): number | null => {
+    const enter = crossingTime(trace, end - TRAP_LENGTH);
+    const exit = crossingTime(trace, end);
+    return enter === null || exit === null || exit <= enter ? null : TRAP_LENGTH / ((exit - enter) / 1000);
+  };
+
+  const quarterMile = elapsed(MARKERS.quarterMile);
+
+  return {
+    reactionTime: round(reactionTime, 3),
+    sixtyFoot: round(elapsed(MARKERS.sixtyFoot), 3),
+    threeThirtyFoot: round(elapsed(MARKERS.threeThirtyFoot), 3),
+    eighthMile: round(elapsed(MARKERS.eighthMile), 3),
+    eighthMileSpeed: round(trap(MARKERS.eighthMile), 2),
+    thousandFoot: round(elapsed(MARKERS.thousandFoot), 3),
+    quarterMile: round(quarterMile, 3),
+    trapSpeed: round(trap(MARKERS.quarterMile), 2),
+    complete: quarterMile !== null,
+  };
+};
+
+export class DragTimingService {
+  constructor(
+    private dbService: SupabaseService,
+    private telemetry: TelemetryService
+  ) {}
+
+  // Builds the slip from the stored trace. Works mid-run too; markers not reached yet are null.
+  async getSlip(raceId: string, userId: string): Promise<ApiResponse<TimingSlip>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.raceType !== 'drag') {
+      return { success: false, error: 'Timing slips are only available for drag races' };
+    }
+
+    const participant = race.participants.find((p: any) => p.user_id === userId);
+    if (!participant) {
+      return { success: false, error: 'User not in race' };
+    }
+
+    if (!race.actualStart) {
+      return { success: false, error: 'Race has not started' };
+    }
+
+    const telemetryResult = await this.telemetry.getTrace(raceId, userId);
+    if (!telemetryResult.success) return telemetryResult as ApiResponse<any>;
+
+    const reactionTime = participant.reaction_time === null || participant.reaction_time === undefined
+      ? null
+      : Number(participant.reaction_time);
+
+    // In a handicap race the slip runs from this lane's own green
+    const greenAt = race.actualStart.getTime() + Number(participant.handicap_delay || 0) * 1000;
+
+    return {
+      success: true,
+      data: computeTimingSlip(telemetryResult.data || [], greenAt, reactionTime),
+    };
+  }
+
+  // Replaces the client-reported time with the slip and stores the per-participant timing columns
+  async timeFinish(race: any, userId: string, finishData: FinishData): Promise<ApiResponse<FinishData>> {
+    const slipResult = await this.getSlip(race.id, userId);
+    if (!slipResult.success) return slipResult as ApiResponse<any>;
+
+    const slip = slipResult.data!;
+    if (!slip.complete || slip.quarterMile === null) {
+      return { success: false, error: 'Incomplete timing slip: telemetry does not reach the quarter mile' };
+    }
+
+    const updateResult = await this.dbService.updateParticipant(race.id, userId, {
+      sixty_foot_time: slip.sixtyFoot,
+      quarter_mile_time: slip.quarterMile,
+      trap_speed: slip.trapSpeed,
+    });
+    if (!updateResult.success) return updateResult;
+
+    return {
+      success: true,
+      data: {
+        ...finishData,
+        totalTime: slip.quarterMile,
+        averageSpeed: Number((MARKERS.quarterMile / slip.quarterMile).toFixed(2)),
+        splits: slip,
+      },
+    };
+  }
+}
@@ -0,0 +1,371 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { TelemetryService, sampleIndexAt } from './telemetry';
+import { gateCrossing } from './lapTiming';
+import { ApiResponse, DriftScore, DriftZone, DriftZoneScore, RecordedResult, TelemetrySample } from '../types';
+import { angleBetween, bearing, buildPath, haversineDistance, projectOntoPath } from '../utils/geo';
+
+const DEFAULT_TARGET_ANGLE = 45; // degrees
+const DEFAULT_TARGET_SPEED = parseFloat(process.env.DRIFT_TARGET_SPEED || '15'); // m/s
+// Below this the course over ground is mostly GPS noise, so no yaw is read
+const MIN_YAW_SPEED = 3; // m/s
+// Yaw from which the car counts as sideways, and past which it has spun
+const MIN_DRIFT_ANGLE = 15;
+const SPIN_ANGLE = 110;
+// Yaw changing by this much between readings on average is a scrappy, unsettled drift
+const ROUGH_YAW_CHANGE = 15;
+// Line marks are full within LINE_FULL_M of the ideal line and gone beyond LINE_ZERO_M
+const LINE_FULL_M = 1.5;
+const LINE_ZERO_M = 8;
+// Chase proximity marks are full within PROXIMITY_FULL_M of the lead and gone beyond PROXIMITY_ZERO_M
+const PROXIMITY_FULL_M = 3;
+const PROXIMITY_ZERO_M = 20;
+// Chase angle marks are gone once it's this far off the lead's angle on average
+const MIMIC_ZERO_ANGLE = 30;
+
+const ZONE_WEIGHTS = { angle: 0.35, speed: 0.25, line: 0.25, style: 0.15 };
+// A chase run is half its own driving, half how well it followed the lead
+const CHASE_WEIGHTS = { solo: 0.5, proximity: 0.3, mimic: 0.2 };
+
+interface ZoneWindow {
+  from: number; // index of the first sample inside the zone
+  to: number; // index of the last
+  enteredAt: number; // epoch ms
+}
+
+interface JudgedRun {
+  trace: TelemetrySample[];
+  yaw: (number | null)[];
+  windows: (ZoneWindow | null)[];
+  score: DriftScore;
+}
+
+const clampScore = (value: number): number => Number(Math.max(0, Math.min(100, value)).toFixed(1));
+
+const mean = (values: number[]): number => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+const round = (value: number, digits = 1): number => Number(value.toFixed(digits));
+
+// Yaw at each sample: the car's heading (compass, from the sample) against where it is actually
+// travelling (course over ground, from the previous position). Null where it can't be read.
+const yawAngles = (trace: TelemetrySample[]): (number | null)[] =>
+  trace.map((sample, i) => {
+    if (i === 0 || sample.heading === undefined || sample.heading === null) return null;
+
+    const previous = trace[i - 1];
+    const dt = (sample.timestamp - previous.timestamp) / 1000;
+    const moved = haversineDistance(previous, sample);
+    const speed = sample.speed ?? (dt > 0 ? moved / dt : 0);
+    if (speed < MIN_YAW_SPEED || moved === 0) return null;
+
+    return angleBetween(sample.heading, bearing(previous, sample));
+  });
+
+const speedAt = (trace: TelemetrySample[], i: number): number => {
+  if (trace[i].speed !== undefined && trace[i].speed !== null) return trace[i].speed!;
+  if (i === 0) return 0;
+  const dt = (trace[i].timestamp - trace[i - 1].timestamp) / 1000;
+  return dt > 0 ? haversineDistance(trace[i - 1], trace[i]) / dt : 0;
+};
+
+// Entry and exit of each zone in driving order. Each zone is looked for after the previous one's
+// entry, so zones may overlap but can't be run out of order. A zone entered but never left scores
+// nothing, and the zones after it are still looked for.
+const zoneWindows = (zones: DriftZone[], trace: TelemetrySample[]): (ZoneWindow | null)[] => {
+  let cursor = 1;
+  return zones.map(zone => {
+    for (let i = cursor; i < trace.length; i++) {
+      const enteredAt = gateCrossing(zone.entry, trace[i - 1], trace[i]);
+      if (enteredAt === null) continue;
+
+      cursor = i + 1;
+      for (let j = i + 1; j < trace.length; j++) {
+        if (gateCrossing(zone.exit, trace[j - 1], trace[j]) !== null) {
+          return { from: i, to: j - 1, enteredAt };
+        }
+      }
+      return null;
+    }
+    return null;
+  });
+};
+
+const emptyZone = (zone: DriftZone, index: number): DriftZoneScore => ({
+  zone: index,
+  name: zone.name,
+  completed: false,
+  spun: false,
+  angle: 0,
+  speed: 0,
+  line: 0,
+  style: 0,
+  total: 0,
+  averageAngle: 0,
+  maxAngle: 0,
+  averageSpeed: 0,
+  lineDeviation: 0,
+  driftShare: 0,
+});
+
+const scoreZone = (
+  zone: DriftZone,
+  index: number,
+  trace: TelemetrySample[],
+  yaw: (number | null)[],
+  window: ZoneWindow | null
+): DriftZoneScore => {
+  if (!window) return emptyZone(zone, index);
+
+  const indices = [...Array(window.to - window.from + 1).keys()].map(k => window.from + k);
+  const angles = indices.map(i => yaw[i]).filter((angle): angle is number => angle !== null);
+  const speeds = indices.map(i => speedAt(trace, i));
+
+  const path = buildPath(zone.line);
+  let segment: number | undefined;
+  const deviations = indices.map(i => {
+    const projection = projectOntoPath(path, trace[i], segment);
+    segment = projection?.segment;
+    return projection ? projection.offset : LINE_ZERO_M;
+  });
+
+  const averageAngle = mean(angles);
+  const maxAngle = angles.length ? Math.max(...angles) : 0;
+  const averageSpeed = mean(speeds);
+  const lineDeviation = mean(deviations);
+  const driftShare = angles.length ? angles.filter(angle => angle >= MIN_DRIFT_ANGLE).length / angles.length : 0;
+  const roughness = mean(angles.slice(1).map((angle, k) => Math.abs(angle - angles[k])));
+
+  // Speed and line only earn marks while the car is sideways; driving the zone straight is not a drift
+  const sideways = indices
+    .map((i, k) => ({ i, k }))
+    .filter(({ i }) => yaw[i] !== null && yaw[i]! >= MIN_DRIFT_ANGLE);
+  const driftSpeed = mean(sideways.map(({ k }) => speeds[k]));
+  const driftDeviation = sideways.length ? mean(sideways.map(({ k }) => deviations[k])) : LINE_ZERO_M;
+
+  const angle = clampScore((averageAngle / (zone.targetAngle || DEFAULT_TARGET_ANGLE)) * 100);
+  const speed = clampScore((driftSpeed / (zone.targetSpeed || DEFAULT_TARGET_SPEED)) * 100);
+  const line = clampScore(((LINE_ZERO_M - driftDeviation) / (LINE_ZERO_M - LINE_FULL_M)) * 100);
+  // Style is commitment (sideways for the whole zone) and control (a settled angle, not sawing at the wheel)
+  const style = clampScore((0.6 * driftShare + 0.4 * Math.max(0, 1 - roughness / ROUGH_YAW_CHANGE)) * 100);
+  const spun = maxAngle >= SPIN_ANGLE;
+
+  return {
+    zone: index,
+    name: zone.name,
+    completed: true,
+    spun,
+    angle,
+    speed,
+    line,
+    style,
+    // A spin scores nothing for the zone, whatever came before it
+    total: spun ? 0 : clampScore(
+      angle * ZONE_WEIGHTS.angle + speed * ZONE_WEIGHTS.speed + line * ZONE_WEIGHTS.line + style * ZONE_WEIGHTS.style
+    ),
+    averageAngle: round(averageAngle),
+    maxAngle: round(maxAngle),
+    averageSpeed: round(averageSpeed, 2),
+    lineDeviation: round(lineDeviation, 2),
+    driftShare: round(driftShare, 3),
+  };
+};
+
+// Zone weights apply to every sub-score alike
+const combine = (zones: DriftZone[], scores: DriftZoneScore[], field: 'angle' | 'speed' | 'line' | 'style' | 'total'): number => {
+  const weights = zones.map(zone => zone.weight ?? 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  return totalWeight > 0 ? clampScore(scores.reduce((sum, score, i) => sum + score[field] * weights[i], 0) / totalWeight) : 0;
+};
+
+// Judges one car's run through every zone on its own
+export const judgeDriftRun = (userId: string, zones: DriftZone[], trace: TelemetrySample[]): JudgedRun => {
+  const yaw = yawAngles(trace);
+  const windows = zoneWindows(zones, trace);
+  const scores = zones.map((zone, i) => scoreZone(zone, i, trace, yaw, windows[i]));
+
+  return {
+    trace,
+    yaw,
+    windows,
+    score: {
+      userId,
+      total: combine(zones, scores, 'total'),
+      angle: combine(zones, scores, 'angle'),
+      speed: combine(zones, scores, 'speed'),
+      line: combine(zones, scores, 'line'),
+      style: combine(zones, scores, 'style'),
+      zones: scores,
+    },
+  };
+};
+
+// Whether two runs were on course together: in some zone both cars were inside it at the same time
+export const ranTogether = (a: JudgedRun, b: JudgedRun): boolean => a.windows.some((window, z) => {
+  const other = b.windows[z];
+  return !!window && !!other
+    && a.trace[window.from].timestamp <= b.trace[other.to].timestamp
+    && b.trace[other.from].timestamp <= a.trace[window.to].timestamp;
+});
+
+// Two-car run. The lead is whoever entered the first zone first and is judged on its own run;
+// the chase is judged on its own run plus how close it stayed and how well it matched the lead's
+// angle through each zone. A chase that passes the lead forfeits its tandem marks.
+export const judgeTandem = (zones: DriftZone[], a: JudgedRun, b: JudgedRun): DriftScore[] => {
+  const firstZone = (run: JudgedRun) => run.windows.find(window => window !== null)?.enteredAt ?? Infinity;
+  const [lead, chase] = firstZone(a) <= firstZone(b) ? [a, b] : [b, a];
+
+  const proximities: number[] = [];
+  const mimics: number[] = [];
+  let passed = false;
+
+  chase.windows.forEach((window, z) => {
+    if (!window || !lead.windows[z]) return;
+
+    const path = buildPath(zones[z].line);
+    const distances: number[] = [];
+    for (let i = window.from; i <= window.to; i++) {
+      const sample = chase.trace[i];
+      const l = sampleIndexAt(lead.trace, sample.timestamp);
+      distances.push(haversineDistance(sample, lead.trace[l]));
+
+      const chaseAlong = projectOntoPath(path, sample)?.along ?? 0;
+      const leadAlong = projectOntoPath(path, lead.trace[l])?.along ?? 0;
+      if (chaseAlong > leadAlong + PROXIMITY_FULL_M) passed = true;
+
+      if (chase.yaw[i] !== null && lead.yaw[l] !== null) {
+        mimics.push(Math.abs(chase.yaw[i]! - lead.yaw[l]!));
+      }
+    }
+
+    const proximity = mean(distances);
+    chase.score.zones[z].proximity = round(proximity, 2);
+    proximities.push(proximity);
+  });
+
+  const proximity = proximities.length
+    ? clampScore(((PROXIMITY_ZERO_M - mean(proximities)) / (PROXIMITY_ZERO_M - PROXIMITY_FULL_M)) * 100)
+    : 0;
+  const mimic = mimics.length ? clampScore((1 - mean(mimics) / MIMIC_ZERO_ANGLE) * 100) : 0;
+
+  const chaseSolo = chase.score.total;
+  const chaseTotal = passed
+    ? clampScore(chaseSolo * CHASE_WEIGHTS.solo)
+    : clampScore(chaseSolo * CHASE_WEIGHTS.solo + proximity * CHASE_WEIGHTS.proximity + mimic * CHASE_WEIGHTS.mimic);
+
+  return [
+    {
+      ...lead.score,
+      tandem: { role: 'lead', partnerId: chase.score.userId, soloTotal: lead.score.total, proximity: null, mimic: null, passed: false },
+    },
+    {
+      ...chase.score,
+      total: chaseTotal,
+      tandem: { role: 'chase', partnerId: lead.score.userId, soloTotal: chaseSolo, proximity, mimic, passed },
+    },
+  ];
+};
+
+// Best score sheet first; rejected results and runs without a score sheet go last
+export const rankDriftResults = (results: RecordedResult[]): RecordedResult[] => [...results]
+  .sort((a, b) => Number(a.reviewStatus === 'rejected') - Number(b.reviewStatus === 'rejected')
+    || (b.splits?.drift?.total ?? -1) - (a.splits?.drift?.total ?? -1));
+
+// Drift races are judged, not timed: every run is scored through the organizer's zones on the
+// route (lead and chase when the race is a tandem battle), and once the race finishes the results are re-ranked by score with the zone breakdown
+// stored in each result's splits.
+export class DriftScoringService {
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService,
+    private telemetry: TelemetryService
+  ) {
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+    this.lifecycle.useResultRanking('drift', (race, results) => rankDriftResults(results));
+  }
+
+  // Scores from the telemetry so far, best first; final once the race has finished
+  async getScores(raceId: string): Promise<ApiResponse<DriftScore[]>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.raceType !== 'drift') {
+      return { success: false, error: 'Invalid request: race is not a drift race' };
+    }
+    if (!race.route?.driftZones?.length) {
+      return { success: false, error: 'Invalid request: race has no drift zones' };
+    }
+
+    return { success: true, data: await this.scoreRace(race) };
+  }
+
+  private async scoreRace(race: any): Promise<DriftScore[]> {
+    const zones: DriftZone[] = race.route.driftZones;
+    const startAt = race.actualStart ? race.actualStart.getTime() : 0;
+
+    const runs: JudgedRun[] = [];
+    for (const participant of race.participants.filter((p: any) => p.status !== 'withdrawn')) {
+      const traceResult = await this.telemetry.getTrace(race.id, participant.user_id);
+      const trace = (traceResult.data || []).filter(sample => sample.timestamp >= startAt);
+      if (trace.length < 2) continue;
+
+      runs.push(judgeDriftRun(participant.user_id, zones, trace));
+    }
+
+    // Tandem judging is the organizer's call, and only for two cars that actually ran the zones together
+    const tandem = race.driftTandem && runs.length === 2 && ranTogether(runs[0], runs[1]);
+    const scores = tandem ? judgeTandem(zones, runs[0], runs[1]) : runs.map(run => run.score);
+    return scores.sort((a, b) => b.total - a.total);
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (!event.userId && event.to === 'finished') {
+      await this.recordScores(event.raceId);
+    }
+  }
+
+  // Stores each run's score sheet in its result and re-ranks the race by score
+  private async recordScores(raceId: string): Promise<void> {
+    const raceResult = await this.dbService.getRace(raceId);
+    const race = raceResult.data;
+    if (!raceResult.success || race.raceType !== 'drift' || !race.route?.driftZones?.length) return;
+
+    const resultsResult = await this.dbService.getRaceResults(raceId);
+    if (!resultsResult.success) return;
+
+    const scores = await this.scoreRace(race);
+    const results = (resultsResult.data || []).map(result => {
+      const score = scores.find(s => s.userId === result.userId);
+      return score ? { ...result, splits: { ...result.splits, drift: score } } : result;
+    });
+
+    for (const result of results) {
+      if (!result.splits?.drift) continue;
+
+      const updated = await this.dbService.updateRaceResult(result.id, { splits: result.splits });
+      if (!updated.success) {
+        console.error('Failed to record drift score:', updated.error);
+      }
+    }
+
+    const order = this.lifecycle.rankResults(race, results).map(result => result.id);
+
+    const reranked = await this.dbService.rerankRaceResults(raceId, order, race.createdBy, 'Drift judging');
+    if (!reranked.success) {
+      console.error(`Failed to rank drift race ${raceId}:`, reranked.error);
+      return;
+    }
+
+    const after = await this.dbService.getRaceResults(raceId);
+    this.wsService.broadcastToRace(raceId, {
+      type: 'results_updated',
+      raceId,
+      data: { raceId, results: after.data || [], drift: scores },
+      timestamp: new Date(),
+    });
+  }
+}
@@ -0,0 +1,544 @@
+import Joi from 'joi';
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceAccessService } from './raceAccess';
+import { TelemetryService, MAX_BATCH_SIZE, sampleIndexAt, seconds } from './telemetry';
+import { TimeTrialService, RunProgress, MAX_RUN_SAMPLES, newRunProgress, stepRun, timeRun } from './timeTrials';
+import { ApiResponse, GhostOutcome, GhostRaceRecord, TelemetrySample, TrialRoute, VehicleClass } from '../types';
+import { buildPath, LatLng, Path, projectOntoPath } from '../utils/geo';
+
+const GHOST_TICK_MS = parseInt(process.env.GHOST_TICK_MS || '200');
+// A ghost race with no telemetry from the driver for this long is abandoned
+const GHOST_IDLE_MS = parseInt(process.env.GHOST_IDLE_MS || '120000');
+// Further than this from the ghost's line, the driver can't be placed against it and no gap is sent
+const MAX_GAP_OFFSET_M = 100;
+
+// Race ghosts are timed on gates laid along the ghost's own line: circles this wide across the road,
+// the start this far from where the ghost staged, then a checkpoint every so often
+const RACE_GATE_RADIUS_M = 25;
+const RACE_START_GATE_M = 40;
+const RACE_CHECKPOINT_SPACING_M = 500;
+
+// A saved-route run (by id, or the route's record or your personal best), or a result from a finished
+// race (by id, or the winner or your own)
+const startSchema = Joi.object({
+  routeId: Joi.string().uuid(),
+  runId: Joi.when('routeId', { is: Joi.exist(), then: Joi.string().uuid().optional(), otherwise: Joi.forbidden() }),
+  raceId: Joi.string().uuid(),
+  resultId: Joi.when('raceId', { is: Joi.exist(), then: Joi.string().uuid().optional(), otherwise: Joi.forbidden() }),
+  ghost: Joi.string().valid('record', 'personal_best').default('record'),
+}).xor('routeId', 'raceId');
+
+// Timestamps are required: the ghost is aligned on them, so they should be server time (see clock_sync)
+const samplesSchema = Joi.array().items(Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required(),
+  speed: Joi.number().min(0).max(150).optional(),
+  heading: Joi.number().min(0).max(360).optional(),
+  accuracy: Joi.number().min(0).optional(),
+  timestamp: Joi.number().integer().min(0).required(),
+})).min(1).max(MAX_BATCH_SIZE).required();
+
+type GhostSource = { routeId: string } | { raceId: string };
+
+// The recorded run being raced, timed over the same course as the attempt
+interface Ghost {
+  runId?: string; // saved-route ghosts
+  resultId?: string; // race ghosts
+  userId: string;
+  vehicleClass: VehicleClass | null;
+  elapsedTime: number; // seconds
+  splits: number[]; // seconds from the start gate at each checkpoint
+  startedAt: number; // epoch ms at the start gate
+}
+
+interface LoadedGhost {
+  source: GhostSource;
+  course: TrialRoute;
+  ghost: Ghost;
+  trace: TelemetrySample[];
+}
+
+interface GhostSession {
+  connectionId: string;
+  userId: string;
+  source: GhostSource;
+  course: TrialRoute; // gates the attempt is timed on
+  ghost: Ghost;
+  trace: TelemetrySample[]; // the ghost's samples, oldest first
+  path: Path; // the ghost's line, to place the driver against it
+  ghostStartAt: number; // when the ghost crossed its start gate, epoch ms
+  samples: TelemetrySample[]; // the driver's attempt so far
+  progress: RunProgress;
+  segment?: number; // driver's last segment on the ghost's line
+  lastSampleAt: number;
+  ticker: NodeJS.Timeout;
+  finishing: boolean;
+}
+
+interface GhostGap {
+  elapsed: number; // seconds since the driver's start
+  gap: number; // seconds behind the ghost at the driver's position; negative is ahead
+  distance: number; // meters the ghost is ahead on the road right now
+}
+
+// The ghost's position at `time`, interpolated between its recorded samples
+const ghostPosition = (trace: TelemetrySample[], time: number) => {
+  const i = sampleIndexAt(trace, time);
+  const from = trace[i];
+  const to = trace[Math.min(i + 1, trace.length - 1)];
+  const span = to.timestamp - from.timestamp;
+  const t = span > 0 ? Math.max(0, Math.min(1, (time - from.timestamp) / span)) : 0;
+
+  return {
+    index: i,
+    fraction: t,
+    lat: from.lat + (to.lat - from.lat) * t,
+    lng: from.lng + (to.lng - from.lng) * t,
+    speed: from.speed,
+    heading: from.heading,
+  };
+};
+
+const outcomeOf = (margin: number): GhostOutcome => (margin < 0 ? 'won' : margin > 0 ? 'lost' : 'tied');
+
+// The point `along` meters down a path
+const pointAlong = (path: Path, along: number): LatLng => {
+  const { points, cumulative } = path;
+  let i = 0;
+  while (i < points.length - 2 && cumulative[i + 1] < along) i++;
+  const length = cumulative[i + 1] - cumulative[i];
+  const t = length > 0 ? Math.max(0, Math.min(1, (along - cumulative[i]) / length)) : 0;
+
+  return {
+    lat: points[i].lat + (points[i + 1].lat - points[i].lat) * t,
+    lng: points[i].lng + (points[i + 1].lng - points[i].lng) * t,
+  };
+};
+
+// Races have no saved route's gates to time an attempt on, so a race ghost gets a course laid along
+// its own line from the grid to where it finished. The ghost is timed over it too, so both sides
+// start and stop on the same gates; on a circuit the checkpoints follow the ghost lap after lap.
+const raceCourse = (trace: TelemetrySample[], finishAt: number): TrialRoute | null => {
+  const line: LatLng[] = trace.filter(sample => sample.timestamp < finishAt).map(({ lat, lng }) => ({ lat, lng }));
+  const finish = ghostPosition(trace, finishAt);
+  line.push({ lat: finish.lat, lng: finish.lng });
+
+  const path = buildPath(line);
+  // Start and finish gates mustn't overlap
+  if (path.length < RACE_START_GATE_M + 4 * RACE_GATE_RADIUS_M) return null;
+
+  const gate = (center: LatLng) => ({ type: 'radius' as const, center, radius: RACE_GATE_RADIUS_M });
+  const checkpoints = [];
+  const lastCheckpoint = path.length - RACE_CHECKPOINT_SPACING_M / 2;
+  for (let along = RACE_START_GATE_M + RACE_CHECKPOINT_SPACING_M; along < lastCheckpoint; along += RACE_CHECKPOINT_SPACING_M) {
+    checkpoints.push(gate(pointAlong(path, along)));
+  }
+
+  return {
+    waypoints: line,
+    start: gate(pointAlong(path, RACE_START_GATE_M)),
+    checkpoints,
+    finish: gate(line[line.length - 1]),
+  };
+};
+
+// Live runs against a recorded one: a saved-route run, or a participant's run in a finished race.
+// The ghost's trace is streamed over the race socket, time-aligned to the moment the driver crosses
+// the start gate; the driver's own samples come in over the same socket, are timed like any other
+// run and placed against the ghost's line for a live gap. A finished route attempt is submitted as a
+// normal route run; a race attempt, with no leaderboard to count on, is only timed and reviewed.
+// Once approved, either is saved as a head-to-head result against the ghost's driver.
+export class GhostRaceService {
+  private sessions: Map<string, GhostSession> = new Map();
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private timeTrials: TimeTrialService,
+    private telemetry: TelemetryService,
+    private raceAccess: RaceAccessService
+  ) {
+    this.wsService.onDisconnect(connectionId => this.end(connectionId));
+  }
+
+  stop(): void {
+    for (const connectionId of [...this.sessions.keys()]) {
+      this.end(connectionId);
+    }
+  }
+
+  // One ghost per connection; starting another replaces it
+  async start(connectionId: string, userId: string, input: any): Promise<ApiResponse<any>> {
+    const { error: validationError, value } = startSchema.validate(input || {});
+    if (validationError) {
+      return { success: false, error: `Invalid ghost race: ${validationError.details[0].message}` };
+    }
+
+    const loaded = value.raceId ? await this.loadRaceGhost(userId, value) : await this.loadRouteGhost(userId, value);
+    if (!loaded.success) return loaded;
+
+    const { source, course, ghost, trace } = loaded.data!;
+    this.end(connectionId);
+    const session: GhostSession = {
+      connectionId,
+      userId,
+      source,
+      course,
+      ghost,
+      trace,
+      path: buildPath(trace),
+      ghostStartAt: ghost.startedAt,
+      samples: [],
+      progress: newRunProgress(),
+      lastSampleAt: Date.now(),
+      ticker: setInterval(() => this.tick(connectionId), GHOST_TICK_MS),
+      finishing: false,
+    };
+    this.sessions.set(connectionId, session);
+
+    const start = ghostPosition(trace, session.ghostStartAt);
+    this.send(session, 'ghost_ready', {
+      ghost: {
+        runId: ghost.runId,
+        resultId: ghost.resultId,
+        userId: ghost.userId,
+        vehicleClass: ghost.vehicleClass,
+        elapsedTime: ghost.elapsedTime,
+        splits: ghost.splits,
+      },
+      // Race ghosts bring their own gates; a route's are on the route
+      course: 'raceId' in source ? course : undefined,
+      position: { lat: start.lat, lng: start.lng, heading: start.heading },
+    });
+
+    return { success: true };
+  }
+
+  async ingest(connectionId: string, input: any): Promise<ApiResponse<any>> {
+    const session = this.sessions.get(connectionId);
+    if (!session) {
+      return { success: false, error: 'Ghost race not found' };
+    }
+    if (session.finishing) return { success: true };
+
+    const { error: validationError, value } = samplesSchema.validate(input);
+    if (validationError) {
+      return { success: false, error: `Invalid telemetry: ${validationError.details[0].message}` };
+    }
+
+    session.lastSampleAt = Date.now();
+
+    // Only samples newer than the last one move the attempt on
+    const fresh = (value as TelemetrySample[])
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .filter((sample, i, all) =>
+        sample.timestamp > (session.samples[session.samples.length - 1]?.timestamp ?? -1)
+        && (i === 0 || sample.timestamp > all[i - 1].timestamp));
+
+    if (session.samples.length + fresh.length > MAX_RUN_SAMPLES) {
+      this.end(connectionId, 'too_long');
+      return { success: false, error: 'Invalid ghost race: the attempt is longer than any run can be' };
+    }
+
+    let gap: GhostGap | null = null;
+    for (const sample of fresh) {
+      session.samples.push({ ...sample, seq: session.samples.length });
+      const i = session.samples.length - 1;
+      if (i === 0) continue;
+
+      const crossed = stepRun(session.course, session.progress, session.samples[i - 1], sample, i);
+      if (crossed === 'start') {
+        session.segment = undefined;
+        this.send(session, 'ghost_started', { startAt: Math.round(session.progress.startAt!) });
+      } else if (crossed === 'checkpoint') {
+        const checkpoint = session.progress.splits.length - 1;
+        const split = seconds(session.progress.splits[checkpoint]);
+        const ghostSplit = session.ghost.splits[checkpoint] ?? null;
+        this.send(session, 'ghost_split', {
+          checkpoint,
+          split,
+          ghostSplit,
+          delta: ghostSplit === null ? null : Number((split - ghostSplit).toFixed(3)),
+        });
+      } else if (crossed === 'finish') {
+        return this.finish(session);
+      }
+
+      // Every sample moves the driver along the ghost's line; only the latest gap is sent
+      if (session.progress.startAt !== null) gap = this.gapAt(session, sample);
+    }
+
+    if (gap) this.send(session, 'ghost_gap', gap);
+    return { success: true };
+  }
+
+  private async loadRouteGhost(userId: string, value: any): Promise<ApiResponse<LoadedGhost>> {
+    const routeResult = await this.dbService.getSavedRoute(value.routeId);
+    if (!routeResult.success) {
+      return { success: false, error: 'Route not found' };
+    }
+
+    let runId: string | undefined = value.runId;
+    if (!runId) {
+      const board = await this.timeTrials.getLeaderboard(value.routeId, 'overall', { userId, limit: 1 });
+      if (!board.success) return board as ApiResponse<any>;
+      runId = value.ghost === 'personal_best' ? board.data!.you?.runId : board.data!.entries[0]?.runId;
+      if (!runId) {
+        return { success: false, error: 'Ghost run not found' };
+      }
+    }
+
+    // Same visibility as pulling the telemetry directly: approved runs, or your own
+    const ghostResult = await this.timeTrials.getRunTelemetry(value.routeId, runId, userId);
+    if (!ghostResult.success) return ghostResult as ApiResponse<any>;
+
+    const { run, telemetry } = ghostResult.data!;
+    const trace = [...telemetry].sort((a, b) => a.timestamp - b.timestamp);
+    if (trace.length < 2) {
+      return { success: false, error: 'Ghost run not found' };
+    }
+
+    return {
+      success: true,
+      data: {
+        source: { routeId: value.routeId },
+        course: routeResult.data!.route,
+        ghost: {
+          runId: run.id,
+          userId: run.userId,
+          vehicleClass: run.vehicleClass,
+          elapsedTime: run.elapsedTime,
+          splits: run.splits,
+          startedAt: run.startedAt.getTime(),
+        },
+        trace,
+      },
+    };
+  }
+
+  private async loadRaceGhost(userId: string, value: any): Promise<ApiResponse<LoadedGhost>> {
+    // Same visibility as pulling the race's telemetry directly: the field and the organizer
+    const raceResult = await this.dbService.getRace(value.raceId);
+    const race = raceResult.success ? raceResult.data : null;
+    const inRace = race && (race.createdBy === userId || race.participants.some((p: any) => p.user_id === userId));
+    if (!race || !inRace || !(await this.raceAccess.canView(race, userId))) {
+      return { success: false, error: 'Race not found' };
+    }
+    if (race.status !== 'finished') {
+      return { success: false, error: `Illegal ghost: race is ${race.status}` };
+    }
+
+    const resultsResult = await this.dbService.getRaceResults(race.id);
+    if (!resultsResult.success) return resultsResult as ApiResponse<any>;
+
+    const results = resultsResult.data || [];
+    const result = value.resultId
+      ? results.find(r => r.id === value.resultId)
+      : value.ghost === 'personal_best'
+        ? results.find(r => r.userId === userId)
+        : results.find(r => r.reviewStatus === 'approved');
+    if (!result || !race.actualStart) {
+      return { success: false, error: 'Ghost run not found' };
+    }
+    if (result.reviewStatus !== 'approved' && result.userId !== userId) {
+      return { success: false, error: 'Only approved results can be raced by other drivers' };
+    }
+
+    const traceResult = await this.telemetry.getTrace(race.id, result.userId);
+    if (!traceResult.success) return traceResult as ApiResponse<any>;
+
+    const trace = [...traceResult.data!].sort((a, b) => a.timestamp - b.timestamp);
+    const course = trace.length >= 2 ? raceCourse(trace, race.actualStart.getTime() + result.timeResult * 1000) : null;
+    const timed = course ? timeRun(course, trace) : null;
+    if (!course || !timed?.success) {
+      return { success: false, error: 'Invalid ghost: the run has no telemetry from the grid to the finish' };
+    }
+
+    const participant = race.participants.find((p: any) => p.user_id === result.userId);
+    return {
+      success: true,
+      data: {
+        source: { raceId: race.id },
+        course,
+        ghost: {
+          resultId: result.id,
+          userId: result.userId,
+          vehicleClass: participant?.vehicle_class || null,
+          elapsedTime: timed.data!.elapsedTime,
+          splits: timed.data!.splits,
+          startedAt: timed.data!.startedAt,
+        },
+        trace,
+      },
+    };
+  }
+
+  async leave(connectionId: string): Promise<ApiResponse<any>> {
+    if (!this.sessions.has(connectionId)) {
+      return { success: false, error: 'Ghost race not found' };
+    }
+    this.end(connectionId, 'stopped');
+    return { success: true };
+  }
+
+  // Win/loss/tie against each ghost driver, with the most recent races
+  async getHeadToHead(userId: string, filter: { routeId?: string; opponentId?: string } = {}): Promise<ApiResponse<any>> {
+    const racesResult = await this.dbService.getGhostRaces(userId, { routeId: filter.routeId, ghostUserId: filter.opponentId });
+    if (!racesResult.success) return racesResult;
+
+    const races = racesResult.data || [];
+    const opponents = new Map<string, { userId: string; username?: string; won: number; lost: number; tied: number; bestMargin: number }>();
+    for (const race of races) {
+      const tally = opponents.get(race.ghostUserId)
+        || { userId: race.ghostUserId, won: 0, lost: 0, tied: 0, bestMargin: race.margin };
+      tally[race.outcome] += 1;
+      tally.bestMargin = Math.min(tally.bestMargin, race.margin);
+      opponents.set(race.ghostUserId, tally);
+    }
+
+    for (const tally of opponents.values()) {
+      const userResult = await this.dbService.getUserById(tally.userId);
+      tally.username = userResult.data?.username;
+    }
+
+    return {
+      success: true,
+      data: {
+        opponents: [...opponents.values()].sort((a, b) => (b.won + b.lost + b.tied) - (a.won + a.lost + a.tied)),
+        races: races.slice(0, 50),
+      },
+    };
+  }
+
+  // Time gap to the ghost at the driver's latest position: how much later the driver got there than
+  // the ghost did (positive is behind), plus how far ahead on the road the ghost is right now
+  private gapAt(session: GhostSession, sample: TelemetrySample): GhostGap | null {
+    const projection = projectOntoPath(session.path, sample, session.segment);
+    if (!projection || projection.offset > MAX_GAP_OFFSET_M) return null;
+    session.segment = projection.segment;
+
+    const { cumulative } = session.path;
+    const i = projection.segment;
+    const length = cumulative[i + 1] - cumulative[i];
+    const t = length > 0 ? (projection.along - cumulative[i]) / length : 0;
+    const ghostTimeThere = session.trace[i].timestamp + t * (session.trace[i + 1].timestamp - session.trace[i].timestamp);
+
+    const elapsed = sample.timestamp - session.progress.startAt!;
+    const ghostNow = ghostPosition(session.trace, session.ghostStartAt + elapsed);
+    const ghostAlong = cumulative[ghostNow.index]
+      + ghostNow.fraction * ((cumulative[ghostNow.index + 1] ?? cumulative[ghostNow.index]) - cumulative[ghostNow.index]);
+
+    return {
+      elapsed: seconds(elapsed),
+      gap: seconds(elapsed - (ghostTimeThere - session.ghostStartAt)),
+      distance: Number((ghostAlong - projection.along).toFixed(1)),
+    };
+  }
+
+  // Streams the ghost once the driver is under way; before the start it waits at its start gate
+  private tick(connectionId: string): void {
+    const session = this.sessions.get(connectionId);
+    if (!session) return;
+
+    if (Date.now() - session.lastSampleAt > GHOST_IDLE_MS) {
+      this.end(connectionId, 'idle');
+      return;
+    }
+    if (session.progress.startAt === null || session.finishing) return;
+
+    const elapsed = Date.now() - session.progress.startAt;
+    const position = ghostPosition(session.trace, session.ghostStartAt + elapsed);
+    this.send(session, 'ghost_position', {
+      elapsed: seconds(elapsed),
+      position: { lat: position.lat, lng: position.lng, speed: position.speed, heading: position.heading },
+      finished: elapsed >= session.ghost.elapsedTime * 1000,
+    });
+  }
+
+  private async finish(session: GhostSession): Promise<ApiResponse<any>> {
+    session.finishing = true;
+    clearInterval(session.ticker);
+
+    try {
+      const submitted = await this.submitAttempt(session);
+      if (!submitted.success) return submitted;
+
+      const { run, rank, personalBest } = submitted.data;
+      const { ghost, source } = session;
+      const margin = Number((run.elapsedTime - ghost.elapsedTime).toFixed(3));
+      const splitDeltas = (run.splits as number[]).map((split, i) => Number((split - (ghost.splits[i] ?? split)).toFixed(3)));
+
+      // Only approved attempts go on the head-to-head record
+      let record: GhostRaceRecord | null = null;
+      if (run.reviewStatus === 'approved') {
+        const recordResult = await this.dbService.createGhostRace({
+          routeId: 'routeId' in source ? source.routeId : null,
+          raceId: 'raceId' in source ? source.raceId : null,
+          userId: session.userId,
+          runId: run.id ?? null,
+          ghostRunId: ghost.runId ?? null,
+          ghostResultId: ghost.resultId ?? null,
+          ghostUserId: ghost.userId,
+          elapsedTime: run.elapsedTime,
+          ghostTime: ghost.elapsedTime,
+          margin,
+          splitDeltas,
+          outcome: outcomeOf(margin),
+        });
+        if (!recordResult.success) {
+          console.error('Failed to record ghost race:', recordResult.error);
+        }
+        record = recordResult.data || null;
+      }
+
+      this.send(session, 'ghost_result', {
+        run,
+        rank,
+        personalBest: personalBest || false,
+        ghost: { runId: ghost.runId, resultId: ghost.resultId, userId: ghost.userId, elapsedTime: ghost.elapsedTime },
+        margin,
+        splitDeltas,
+        outcome: outcomeOf(margin),
+        record,
+      });
+      return { success: true };
+    } finally {
+      // Unless the driver has already started another ghost on this connection
+      if (this.sessions.get(session.connectionId) === session) {
+        this.sessions.delete(session.connectionId);
+      }
+    }
+  }
+
+  // A route attempt is timed and reviewed like any uploaded run, so it also counts on the leaderboards.
+  // A race attempt has no leaderboard: it's timed over the ghost's course and reviewed, but not saved as a run.
+  private async submitAttempt(session: GhostSession): Promise<ApiResponse<any>> {
+    if ('routeId' in session.source) {
+      return this.timeTrials.submitRun(session.source.routeId, session.userId, session.samples);
+    }
+
+    const reviewed = await this.timeTrials.reviewRun(session.course, session.userId, session.samples);
+    if (!reviewed.success) return reviewed;
+
+    const { trace, ...run } = reviewed.data!;
+    return { success: true, data: { run, rank: null } };
+  }
+
+  private end(connectionId: string, reason?: string): void {
+    const session = this.sessions.get(connectionId);
+    if (!session) return;
+
+    clearInterval(session.ticker);
+    this.sessions.delete(connectionId);
+    if (reason) this.send(session, 'ghost_ended', { reason });
+  }
+
+  private send(session: GhostSession, type: string, data: any): void {
+    this.wsService.sendToConnection(session.connectionId, {
+      type,
+      data: { ...session.source, ...data },
+      timestamp: new Date(),
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import { hostname } from 'os';
+import { SupabaseService } from './database';
+import { ApiResponse, JobInput, JobStatus, ScheduledJob } from '../types';
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000');
+const BATCH_SIZE = 20;
+// Failed attempts are retried after base * 2^(attempt - 1), capped
+const RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || '30000');
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// A claimed job is leased to its worker, which renews the lease while the handler runs.
+// A running job whose lease has lapsed belongs to a worker that died.
+const LEASE_MS = parseInt(process.env.JOB_LEASE_MS || '120000');
+// Must differ between instances sharing a database; a stable id lets a restarted instance
+// give up its own interrupted jobs straight away instead of waiting for their leases
+const WORKER_ID = process.env.INSTANCE_ID || `${hostname()}:${process.pid}`;
+
+// A handler that resolves unsuccessfully (or throws) is retried until the job runs out of attempts
+export type JobHandler = (job: ScheduledJob) => Promise<ApiResponse<any>>;
+
+export class JobSchedulerService {
+  private handlers: Map<string, JobHandler> = new Map();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(private dbService: SupabaseService) {}
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  // Scheduling the same key twice is a no-op, so callers can safely re-schedule on every start
+  async schedule(job: JobInput): Promise<ApiResponse<ScheduledJob | null>> {
+    if (!this.handlers.has(job.type)) {
+      return { success: false, error: `Invalid job type: ${job.type}` };
+    }
+
+    return this.dbService.createJob(job);
+  }
+
+  async cancel(keyPrefix: string): Promise<ApiResponse<number>> {
+    return this.dbService.cancelJobs(keyPrefix);
+  }
+
+  async listJobs(filters: { status?: JobStatus; type?: string; limit?: number } = {}): Promise<ApiResponse<ScheduledJob[]>> {
+    return this.dbService.getJobs(filters);
+  }
+
+  async getJob(jobId: string): Promise<ApiResponse<ScheduledJob>> {
+    const result = await this.dbService.getJob(jobId);
+    return result.success ? result : { success: false, error: 'Job not found' };
+  }
+
+  async start(): Promise<void> {
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    await this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+
+    this.polling = true;
+    try {
+      // Jobs left running by a previous process are never retried, to keep execution at most once
+      const interrupted = await this.dbService.failInterruptedJobs(WORKER_ID, new Date());
+      if (!interrupted.success) {
+        console.error('Failed to fail interrupted jobs:', interrupted.error);
+      } else if (interrupted.data) {
+        console.warn(`Marked ${interrupted.data} interrupted job(s) as failed`);
+      }
+
+      const due = await this.dbService.getDueJobs(new Date(), BATCH_SIZE);
+      if (!due.success) {
+        console.error('Failed to fetch due jobs:', due.error);
+        return;
+      }
+
+      for (const job of due.data || []) {
+        await this.run(job);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(pending: ScheduledJob): Promise<void> {
+    const claimed = await this.dbService.claimJob(pending, WORKER_ID, new Date(Date.now() + LEASE_MS));
+    if (!claimed.success || !claimed.data) return;
+
+    const job = claimed.data;
+    const handler = this.handlers.get(job.type);
+    const lease = setInterval(async () => {
+      const renewed = await this.dbService.renewJobLease(job.id, WORKER_ID, new Date(Date.now() + LEASE_MS));
+      if (!renewed.success) console.error(`Failed to renew lease on job ${job.id}:`, renewed.error);
+    }, LEASE_MS / 3);
+
+    let result: ApiResponse<any>;
+    try {
+      result = handler
+        ? await handler(job)
+        : { success: false, error: `No handler registered for job type ${job.type}` };
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearInterval(lease);
+    }
+
+    if (result.success) {
+      await this.dbService.updateJob(job.id, {
+        status: 'completed',
+        last_error: null,
+        completed_at: new Date().toISOString(),
+      });
+      return;
+    }
+
+    console.error(`Job ${job.type} (${job.id}) attempt ${job.attempts} failed:`, result.error);
+
+    if (job.attempts >= job.maxAttempts) {
+      await this.dbService.updateJob(job.id, {
+        status: 'failed',
+        last_error: result.error,
+        completed_at: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const backoff = Math.min(RETRY_BASE_MS * 2 ** (job.attempts - 1), RETRY_MAX_MS);
+    await this.dbService.updateJob(job.id, {
+      status: 'pending',
+      last_error: result.error,
+      run_at: new Date(Date.now() + backoff).toISOString(),
+    });
+  }
+}
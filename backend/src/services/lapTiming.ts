@@ -0,0 +1,402 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService } from './raceLifecycle';
+import { TelemetryService, TELEMETRY_PAGE_SIZE, seconds } from './telemetry';
+import { ApiResponse, FinishData, LapRecord, RaceRoute, RouteGate, TelemetrySample } from '../types';
+import { haversineDistance, segmentIntersection } from '../utils/geo';
+
+// Start/finish crossings closer together than this are GPS jitter (or leaving the grid), not laps
+const MIN_LAP_MS = parseInt(process.env.MIN_LAP_MS || '10000');
+const EDITABLE_ROUTE_STATUSES = ['scheduled', 'staging'];
+
+interface Circuit {
+  startFinish: RouteGate;
+  checkpoints: RouteGate[];
+  laps: number;
+  startAt: number; // green light, server epoch ms
+}
+
+interface LapProgress {
+  lastSeq: number;
+  previous?: TelemetrySample;
+  lapStartedAt: number;
+  sectorStartedAt: number;
+  nextCheckpoint: number;
+  sectors: number[];
+  skipped: number[]; // checkpoints missed on the current lap
+  laps: LapRecord[];
+  rejectedLaps: number;
+  distance: number; // meters driven since green
+  finished: boolean;
+}
+
+interface Crossing {
+  gate: number; // checkpoint index, or -1 for the start/finish line
+  at: number;
+}
+
+// When the path between two samples crossed a gate, interpolated between the sample times
+export const gateCrossing = (gate: RouteGate, from: TelemetrySample, to: TelemetrySample): number | null => {
+  let fraction: number | null = null;
+
+  if (gate.type === 'line') {
+    fraction = segmentIntersection(from, to, gate.a, gate.b);
+  } else {
+    const before = haversineDistance(gate.center, from);
+    const after = haversineDistance(gate.center, to);
+    if (before > gate.radius && after <= gate.radius) {
+      fraction = (before - gate.radius) / (before - after);
+    }
+  }
+
+  return fraction === null ? null : from.timestamp + fraction * (to.timestamp - from.timestamp);
+};
+
+export class LapTimingService {
+  private circuits: Map<string, Circuit | null> = new Map();
+  private progress: Map<string, LapProgress> = new Map();
+  private loading: Map<string, Promise<LapProgress>> = new Map();
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService,
+    private telemetry: TelemetryService
+  ) {
+    this.telemetry.onSamples((raceId, userId, samples) => this.handleSamples(raceId, userId, samples));
+    this.lifecycle.onTransition(event => {
+      if (!event.userId && (event.to === 'finished' || event.to === 'cancelled')) {
+        this.release(event.raceId);
+      }
+    });
+  }
+
+  // Organizer sets the gates and lap count; only before the race goes to countdown
+  async updateRoute(raceId: string, userId: string, route: RaceRoute): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.createdBy !== userId) {
+      return { success: false, error: 'Only race creator can change the route' };
+    }
+
+    if (!EDITABLE_ROUTE_STATUSES.includes(race.status)) {
+      return { success: false, error: `Illegal route change: race is ${race.status}` };
+    }
+
+    const result = await this.dbService.updateRaceRoute(raceId, route);
+    if (result.success) this.circuits.delete(raceId);
+
+    return result;
+  }
+
+  async getLaps(raceId: string, userId: string): Promise<ApiResponse<any>> {
+    const circuit = await this.getCircuit(raceId);
+    if (!circuit) {
+      return { success: false, error: 'Race has no lap timing' };
+    }
+
+    const progress = await this.getProgress(raceId, userId, circuit);
+
+    return {
+      success: true,
+      data: {
+        laps: progress.laps,
+        totalLaps: circuit.laps,
+        bestLap: this.bestLap(progress),
+        rejectedLaps: progress.rejectedLaps,
+      },
+    };
+  }
+
+  // Laps counted so far for a participant in a running race (0 when unknown)
+  getCompletedLaps(raceId: string, userId: string): number {
+    return this.progress.get(`${raceId}:${userId}`)?.laps.length ?? 0;
+  }
+
+  // Finish timer for circuit races: the result comes from the detected laps, not the client.
+  // A circuit without gates can't be lap timed, so its reported result stands.
+  async timeFinish(race: any, userId: string): Promise<ApiResponse<FinishData | null>> {
+    const circuit = await this.getCircuit(race.id);
+    if (!circuit) {
+      return { success: true, data: null };
+    }
+
+    const progress = await this.getProgress(race.id, userId, circuit);
+    if (progress.laps.length < circuit.laps) {
+      return { success: false, error: `Incomplete race: ${progress.laps.length} of ${circuit.laps} laps completed` };
+    }
+
+    const lastLap = progress.laps[circuit.laps - 1];
+    const totalMs = lastLap.completedAt - circuit.startAt;
+
+    return {
+      success: true,
+      data: {
+        finishTime: new Date(lastLap.completedAt).toISOString(),
+        totalTime: seconds(totalMs),
+        averageSpeed: Number((progress.distance / (totalMs / 1000)).toFixed(2)),
+        splits: {
+          laps: progress.laps.slice(0, circuit.laps),
+          bestLap: this.bestLap(progress),
+          rejectedLaps: progress.rejectedLaps,
+        },
+      },
+    };
+  }
+
+  private async handleSamples(raceId: string, userId: string, samples: TelemetrySample[]): Promise<void> {
+    const circuit = await this.getCircuit(raceId);
+    if (!circuit) return;
+
+    // A fresh progress record replays stored telemetry, which already includes these samples
+    const progress = await this.getProgress(raceId, userId, circuit);
+    for (const sample of samples) {
+      if (sample.seq > progress.lastSeq) {
+        this.advance(raceId, userId, circuit, progress, sample, false);
+      }
+    }
+
+    if (!progress.finished && progress.laps.length >= circuit.laps) {
+      await this.finish(raceId, userId, progress);
+    }
+  }
+
+  private advance(raceId: string, userId: string, circuit: Circuit, progress: LapProgress, sample: TelemetrySample, replaying: boolean): void {
+    const previous = progress.previous;
+    progress.previous = sample;
+    progress.lastSeq = sample.seq;
+
+    if (!previous || sample.timestamp <= circuit.startAt || progress.laps.length >= circuit.laps) return;
+
+    progress.distance += haversineDistance(previous, sample);
+
+    const crossings: Crossing[] = [];
+    const gates = [circuit.startFinish, ...circuit.checkpoints];
+    gates.forEach((gate, index) => {
+      const at = gateCrossing(gate, previous, sample);
+      if (at !== null && at >= circuit.startAt) {
+        crossings.push({ gate: index - 1, at });
+      }
+    });
+
+    for (const crossing of crossings.sort((a, b) => a.at - b.at)) {
+      if (crossing.gate === -1) {
+        this.crossLine(raceId, userId, circuit, progress, crossing.at, replaying);
+      } else {
+        this.passCheckpoint(raceId, userId, progress, crossing.gate, crossing.at, replaying);
+      }
+    }
+  }
+
+  private passCheckpoint(raceId: string, userId: string, progress: LapProgress, checkpoint: number, at: number, replaying: boolean): void {
+    // Re-crossing a gate already passed this lap doesn't count
+    if (checkpoint < progress.nextCheckpoint) return;
+
+    for (let missed = progress.nextCheckpoint; missed < checkpoint; missed++) {
+      progress.skipped.push(missed);
+    }
+
+    const sectorTime = seconds(at - progress.sectorStartedAt);
+    progress.sectors.push(sectorTime);
+    progress.sectorStartedAt = at;
+    progress.nextCheckpoint = checkpoint + 1;
+
+    if (!replaying) {
+      this.broadcast(raceId, 'checkpoint_passed', {
+        raceId,
+        userId,
+        lap: progress.laps.length + 1,
+        checkpoint,
+        sectorTime,
+      });
+    }
+  }
+
+  private crossLine(raceId: string, userId: string, circuit: Circuit, progress: LapProgress, at: number, replaying: boolean): void {
+    if (at - progress.lapStartedAt < MIN_LAP_MS) return;
+
+    const missed = [...progress.skipped];
+    for (let checkpoint = progress.nextCheckpoint; checkpoint < circuit.checkpoints.length; checkpoint++) {
+      missed.push(checkpoint);
+    }
+
+    if (missed.length === 0) {
+      const lap: LapRecord = {
+        lap: progress.laps.length + 1,
+        lapTime: seconds(at - progress.lapStartedAt),
+        sectors: [...progress.sectors, seconds(at - progress.sectorStartedAt)],
+        completedAt: at,
+      };
+      progress.laps.push(lap);
+
+      if (!replaying) {
+        this.broadcast(raceId, 'lap_completed', {
+          raceId,
+          userId,
+          ...lap,
+          totalLaps: circuit.laps,
+          bestLap: this.bestLap(progress),
+        });
+        this.broadcastPositions(raceId);
+      }
+    } else {
+      // The lap doesn't count; timing restarts from this crossing
+      progress.rejectedLaps++;
+      if (!replaying) {
+        this.broadcast(raceId, 'lap_rejected', {
+          raceId,
+          userId,
+          lap: progress.laps.length + 1,
+          missedCheckpoints: missed,
+          reason: 'Skipped checkpoints',
+        });
+      }
+    }
+
+    progress.lapStartedAt = at;
+    progress.sectorStartedAt = at;
+    progress.nextCheckpoint = 0;
+    progress.sectors = [];
+    progress.skipped = [];
+  }
+
+  // Running order: most laps first, then whoever completed their last lap earliest
+  private broadcastPositions(raceId: string): void {
+    const entries = [...this.progress.entries()]
+      .filter(([key]) => key.startsWith(`${raceId}:`))
+      .map(([key, progress]) => ({
+        userId: key.slice(raceId.length + 1),
+        laps: progress.laps.length,
+        // Not Infinity: two drivers without a lap would compare as Infinity - Infinity = NaN
+        lastCrossing: progress.laps[progress.laps.length - 1]?.completedAt ?? Number.MAX_SAFE_INTEGER,
+        bestLap: this.bestLap(progress),
+      }))
+      .sort((a, b) => b.laps - a.laps || a.lastCrossing - b.lastCrossing);
+
+    this.broadcast(raceId, 'race_positions', {
+      raceId,
+      positions: entries.map((entry, index) => ({
+        position: index + 1,
+        userId: entry.userId,
+        laps: entry.laps,
+        bestLap: entry.bestLap,
+      })),
+    });
+  }
+
+  private async finish(raceId: string, userId: string, progress: LapProgress): Promise<void> {
+    progress.finished = true;
+
+    const lastLap = progress.laps[progress.laps.length - 1];
+    const result = await this.lifecycle.finishParticipant(raceId, userId, {
+      finishTime: new Date(lastLap.completedAt).toISOString(),
+      totalTime: 0,
+      averageSpeed: 0,
+    }, false);
+
+    if (!result.success) {
+      console.error(`Failed to finish ${userId} in race ${raceId}:`, result.error);
+    }
+  }
+
+  private async getCircuit(raceId: string): Promise<Circuit | null> {
+    if (this.circuits.has(raceId)) {
+      return this.circuits.get(raceId)!;
+    }
+
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) return null;
+
+    // Gates can still change until green, so nothing (not even "no lap timing") is cached before then
+    const race = raceResult.data;
+    if (!race.actualStart) return null;
+
+    const route: RaceRoute | null = race.route;
+    if (race.raceType !== 'circuit' || !route?.startFinish) {
+      this.circuits.set(raceId, null);
+      return null;
+    }
+
+    const circuit: Circuit = {
+      startFinish: route.startFinish,
+      checkpoints: route.checkpoints || [],
+      laps: route.laps || 1,
+      startAt: race.actualStart.getTime(),
+    };
+    this.circuits.set(raceId, circuit);
+
+    return circuit;
+  }
+
+  private async getProgress(raceId: string, userId: string, circuit: Circuit): Promise<LapProgress> {
+    const key = `${raceId}:${userId}`;
+    const existing = this.progress.get(key);
+    if (existing) return existing;
+
+    let load = this.loading.get(key);
+    if (!load) {
+      load = this.loadProgress(raceId, userId, circuit);
+      this.loading.set(key, load);
+    }
+
+    try {
+      const progress = await load;
+      this.progress.set(key, progress);
+      return progress;
+    } finally {
+      this.loading.delete(key);
+    }
+  }
+
+  // Rebuilds a participant's laps from the stored trace, e.g. after a restart mid-race
+  private async loadProgress(raceId: string, userId: string, circuit: Circuit): Promise<LapProgress> {
+    const progress: LapProgress = {
+      lastSeq: -1,
+      lapStartedAt: circuit.startAt,
+      sectorStartedAt: circuit.startAt,
+      nextCheckpoint: 0,
+      sectors: [],
+      skipped: [],
+      laps: [],
+      rejectedLaps: 0,
+      distance: 0,
+      finished: false,
+    };
+
+    for (;;) {
+      const page = await this.dbService.getTelemetry(raceId, userId, progress.lastSeq + 1, TELEMETRY_PAGE_SIZE);
+      if (!page.success || !page.data?.length) break;
+
+      for (const sample of page.data) {
+        this.advance(raceId, userId, circuit, progress, sample, true);
+      }
+    }
+
+    const raceResult = await this.dbService.getRace(raceId);
+    const participant = raceResult.data?.participants.find((p: any) => p.user_id === userId);
+    progress.finished = participant?.status !== 'racing';
+
+    return progress;
+  }
+
+  private bestLap(progress: LapProgress): number | null {
+    return progress.laps.length ? Math.min(...progress.laps.map(lap => lap.lapTime)) : null;
+  }
+
+  private broadcast(raceId: string, type: 'checkpoint_passed' | 'lap_completed' | 'lap_rejected' | 'race_positions', data: any): void {
+    this.wsService.broadcastToRace(raceId, { type, raceId, data, timestamp: new Date() });
+  }
+
+  private release(raceId: string): void {
+    this.circuits.delete(raceId);
+    for (const key of this.progress.keys()) {
+      if (key.startsWith(`${raceId}:`)) {
+        this.progress.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,482 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RatingService } from './ratings';
+import { RaceJobsService } from './raceJobs';
+import { ApiResponse, Location, MatchmakingTicket, MatchProposal, RatedRaceType } from '../types';
+import { haversineDistance } from '../utils/geo';
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.MATCHMAKING_SWEEP_SECONDS || '15') * 1000;
+// Everyone in a proposal has this long to accept before it lapses
+const ACCEPT_WINDOW_MS = parseInt(process.env.MATCH_ACCEPT_SECONDS || '120') * 1000;
+// Drivers need time to get to the meeting point, so races never start sooner than this
+const MIN_LEAD_MS = 15 * 60 * 1000;
+const START_ROUNDING_MS = 5 * 60 * 1000;
+
+// Tolerances start tight and widen the longer a ticket waits
+const RATING_GAP = { base: 150, perMinute: 50, max: 500 };
+const POWER_TO_WEIGHT_GAP = { base: 0.15, perMinute: 0.05, max: 0.4 };
+
+// Drag races are head-to-head; everything else runs a small pack
+const GROUP_SIZE: Record<RatedRaceType, number> = { drag: 2, circuit: 4, drift: 4, 'time-trial': 4 };
+
+export interface QueueRequest {
+  raceType: RatedRaceType;
+  location: Location;
+  radiusKm: number;
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+const waitedMinutes = (ticket: MatchmakingTicket, now: number): number =>
+  Math.max(0, (now - ticket.createdAt.getTime()) / 60000);
+
+const tolerance = (gap: { base: number; perMinute: number; max: number }, minutes: number): number =>
+  Math.min(gap.max, gap.base + gap.perMinute * minutes);
+
+// Pairs drivers of similar skill and power-to-weight who can meet somewhere within everyone's
+// travel radius during a time window they share, then creates the race once all of them accept.
+export class MatchmakingService {
+  private timer?: NodeJS.Timeout;
+  private matching = false;
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private ratings: RatingService,
+    private raceJobs: RaceJobsService
+  ) {}
+
+  start(): void {
+    this.timer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async enqueue(userId: string, request: QueueRequest): Promise<ApiResponse<MatchmakingTicket>> {
+    if (request.windowEnd <= request.windowStart) {
+      return { success: false, error: 'Invalid time window: end must be after start' };
+    }
+    if (request.windowEnd.getTime() < Date.now() + MIN_LEAD_MS) {
+      return { success: false, error: 'Invalid time window: it closes before a race could start' };
+    }
+
+    const activeResult = await this.dbService.getActiveTicket(userId);
+    if (!activeResult.success) return activeResult as ApiResponse<any>;
+    if (activeResult.data) {
+      return { success: false, error: 'User is already in the matchmaking queue' };
+    }
+
+    const vehiclesResult = await this.dbService.getUserVehicles(userId);
+    if (!vehiclesResult.success || !vehiclesResult.data?.length) {
+      return { success: false, error: 'No vehicle found' };
+    }
+    const vehicle = vehiclesResult.data.find(v => v.isSelected) || vehiclesResult.data[0];
+
+    const ratingResult = await this.ratings.getFieldRatings([userId], request.raceType);
+    if (!ratingResult.success) return ratingResult as ApiResponse<any>;
+
+    // Horsepower per 1000 lb; unknown specs match anyone
+    const { horsepower, weight } = vehicle.specs || ({} as any);
+    const powerToWeight = horsepower > 0 && weight > 0 ? (horsepower / weight) * 1000 : null;
+
+    const ticketResult = await this.dbService.createTicket({
+      userId,
+      vehicleId: vehicle.id,
+      raceType: request.raceType,
+      location: request.location,
+      radiusKm: request.radiusKm,
+      windowStart: request.windowStart,
+      windowEnd: request.windowEnd,
+      rating: ratingResult.data!.get(userId)!.rating,
+      powerToWeight,
+    });
+    if (!ticketResult.success) return ticketResult;
+
+    this.publish(ticketResult.data!);
+    await this.match();
+
+    const current = await this.dbService.getActiveTicket(userId);
+    return { success: true, data: current.data || ticketResult.data };
+  }
+
+  async leave(userId: string): Promise<ApiResponse<MatchmakingTicket>> {
+    const activeResult = await this.dbService.getActiveTicket(userId);
+    if (!activeResult.success) return activeResult as ApiResponse<any>;
+
+    const ticket = activeResult.data;
+    if (!ticket) {
+      return { success: false, error: 'Matchmaking ticket not found' };
+    }
+
+    // Leaving while holding a proposal declines it for the rest of the group
+    if (ticket.status === 'proposed' && ticket.proposalId) {
+      return this.respond(ticket.proposalId, userId, false);
+    }
+
+    const cancelled = await this.dbService.updateTickets([ticket.id], 'searching', { status: 'cancelled' });
+    if (!cancelled.success) return cancelled as ApiResponse<any>;
+    if (!cancelled.data!.length) {
+      return { success: false, error: 'Illegal transition: ticket already left the queue' };
+    }
+
+    this.publish(cancelled.data![0]);
+    return { success: true, data: cancelled.data![0] };
+  }
+
+  async getStatus(userId: string): Promise<ApiResponse<{ ticket: MatchmakingTicket | null; proposal: any }>> {
+    const activeResult = await this.dbService.getActiveTicket(userId);
+    if (!activeResult.success) return activeResult as ApiResponse<any>;
+
+    const ticket = activeResult.data || null;
+    if (!ticket?.proposalId) {
+      return { success: true, data: { ticket, proposal: null } };
+    }
+
+    const proposal = await this.describeProposal(ticket.proposalId);
+    return { success: true, data: { ticket, proposal: proposal.data || null } };
+  }
+
+  async respond(proposalId: string, userId: string, accept: boolean): Promise<ApiResponse<any>> {
+    const proposalResult = await this.dbService.getProposal(proposalId);
+    if (!proposalResult.success) {
+      return { success: false, error: 'Proposal not found' };
+    }
+
+    const proposal = proposalResult.data!;
+    if (proposal.status !== 'pending') {
+      return { success: false, error: `Illegal response: proposal is ${proposal.status}` };
+    }
+
+    const ticketsResult = await this.dbService.getProposalTickets(proposalId);
+    if (!ticketsResult.success) return ticketsResult;
+
+    const tickets = ticketsResult.data || [];
+    const ticket = tickets.find(t => t.userId === userId && t.status === 'proposed');
+    if (!ticket) {
+      return { success: false, error: 'Only drivers in the proposal can respond to it' };
+    }
+
+    if (!accept) {
+      return this.dissolve(proposal, tickets, ticket.id);
+    }
+
+    if (!ticket.acceptedAt) {
+      const accepted = await this.dbService.updateTickets([ticket.id], 'proposed', { accepted_at: new Date().toISOString() });
+      if (!accepted.success) return accepted;
+    }
+
+    // Re-read so two drivers accepting at once still see each other's acceptance
+    const latest = await this.dbService.getProposalTickets(proposalId);
+    if (!latest.success) return latest;
+
+    if (latest.data!.some(t => !t.acceptedAt)) {
+      await this.publishProposal(proposalId);
+      return this.describeProposal(proposalId);
+    }
+
+    return this.createMatchRace(proposal, latest.data!);
+  }
+
+  // Expires stale proposals and tickets, then tries to match whoever is still searching
+  private async sweep(): Promise<void> {
+    if (this.matching) return;
+
+    try {
+      const now = new Date();
+      const expiredProposals = await this.dbService.getExpiredProposals(now);
+      for (const proposal of expiredProposals.data || []) {
+        const ticketsResult = await this.dbService.getProposalTickets(proposal.id);
+        if (!ticketsResult.success) continue;
+
+        const tickets = ticketsResult.data || [];
+        // Whoever didn't answer in time is dropped; those who accepted go back to searching
+        const lapsed = tickets.filter(t => t.status === 'proposed' && !t.acceptedAt).map(t => t.id);
+        await this.dissolve(proposal, tickets, undefined, lapsed);
+      }
+
+      const expiredTickets = await this.dbService.expireTickets(now);
+      for (const ticket of expiredTickets.data || []) {
+        this.publish(ticket);
+      }
+
+      await this.match();
+    } catch (error) {
+      console.error('Matchmaking sweep failed:', error);
+    }
+  }
+
+  private async match(): Promise<void> {
+    if (this.matching) return;
+    this.matching = true;
+
+    try {
+      const queueResult = await this.dbService.getSearchingTickets();
+      if (!queueResult.success) return;
+
+      const now = Date.now();
+      const waiting = (queueResult.data || []).filter(ticket => ticket.windowEnd.getTime() >= now + MIN_LEAD_MS);
+      const taken = new Set<string>();
+
+      // The longest-waiting ticket anchors each group, so nobody is starved by newer arrivals
+      for (const anchor of waiting) {
+        if (taken.has(anchor.id)) continue;
+
+        const group = [anchor];
+        const candidates = waiting
+          .filter(ticket => !taken.has(ticket.id) && ticket.id !== anchor.id && ticket.userId !== anchor.userId)
+          .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating));
+
+        for (const candidate of candidates) {
+          if (group.length >= GROUP_SIZE[anchor.raceType]) break;
+          if (group.every(member => this.compatible(member, candidate, now)) && this.plan([...group, candidate], now)) {
+            group.push(candidate);
+          }
+        }
+
+        if (group.length < 2) continue;
+
+        const plan = this.plan(group, now)!;
+        const proposed = await this.propose(group, plan);
+        if (proposed) group.forEach(ticket => taken.add(ticket.id));
+      }
+
+      // Whoever is still searching hears how long they've waited and how wide the search now is
+      for (const ticket of waiting) {
+        if (!taken.has(ticket.id)) this.publish(ticket);
+      }
+    } finally {
+      this.matching = false;
+    }
+  }
+
+  private compatible(a: MatchmakingTicket, b: MatchmakingTicket, now: number): boolean {
+    if (a.raceType !== b.raceType) return false;
+
+    // Each side tolerates as wide a gap as the longer waiter of the two would
+    const minutes = Math.max(waitedMinutes(a, now), waitedMinutes(b, now));
+    if (Math.abs(a.rating - b.rating) > tolerance(RATING_GAP, minutes)) return false;
+
+    if (a.powerToWeight !== null && b.powerToWeight !== null) {
+      const ratio = Math.abs(a.powerToWeight - b.powerToWeight) / Math.max(a.powerToWeight, b.powerToWeight);
+      if (ratio > tolerance(POWER_TO_WEIGHT_GAP, minutes)) return false;
+    }
+
+    return haversineDistance(a.location, b.location) / 1000 <= a.radiusKm + b.radiusKm;
+  }
+
+  // Meeting point and start time for a group, or null if there's no place and time that suits everyone
+  private plan(group: MatchmakingTicket[], now: number): { meetingPoint: Location; startTime: Date } | null {
+    const meetingPoint: Location = {
+      lat: group.reduce((sum, t) => sum + t.location.lat, 0) / group.length,
+      lng: group.reduce((sum, t) => sum + t.location.lng, 0) / group.length,
+    };
+    if (group.some(t => haversineDistance(t.location, meetingPoint) / 1000 > t.radiusKm)) return null;
+
+    const earliest = Math.max(now + MIN_LEAD_MS, ...group.map(t => t.windowStart.getTime()));
+    const start = Math.ceil(earliest / START_ROUNDING_MS) * START_ROUNDING_MS;
+    if (group.some(t => t.windowEnd.getTime() < start)) return null;
+
+    return { meetingPoint, startTime: new Date(start) };
+  }
+
+  private async propose(group: MatchmakingTicket[], plan: { meetingPoint: Location; startTime: Date }): Promise<boolean> {
+    const proposalResult = await this.dbService.createProposal({
+      raceType: group[0].raceType,
+      meetingPoint: plan.meetingPoint,
+      startTime: plan.startTime,
+      expiresAt: new Date(Date.now() + ACCEPT_WINDOW_MS),
+    });
+    if (!proposalResult.success) {
+      console.error('Failed to create match proposal:', proposalResult.error);
+      return false;
+    }
+
+    const proposal = proposalResult.data!;
+    const claimed = await this.dbService.updateTickets(group.map(t => t.id), 'searching', {
+      status: 'proposed',
+      proposal_id: proposal.id,
+      accepted_at: null,
+    });
+
+    // Someone left the queue in the meantime: put the rest back and drop the proposal
+    if (!claimed.success || claimed.data!.length !== group.length) {
+      const ids = (claimed.data || []).map(t => t.id);
+      if (ids.length) {
+        await this.dbService.updateTickets(ids, 'proposed', { status: 'searching', proposal_id: null });
+      }
+      await this.dbService.updateProposal(proposal.id, 'pending', { status: 'expired' });
+      return false;
+    }
+
+    await this.publishProposal(proposal.id);
+    return true;
+  }
+
+  // Ends a proposal without a race. The decliner's ticket is cancelled and lapsed tickets expire;
+  // everyone else goes back to searching with their original place in the queue.
+  private async dissolve(
+    proposal: MatchProposal,
+    tickets: MatchmakingTicket[],
+    declinedTicketId?: string,
+    lapsedTicketIds: string[] = []
+  ): Promise<ApiResponse<MatchProposal>> {
+    const ended = await this.dbService.updateProposal(proposal.id, 'pending', {
+      status: declinedTicketId ? 'declined' : 'expired',
+    });
+    if (!ended.success) return ended as ApiResponse<any>;
+    if (!ended.data) {
+      return { success: false, error: 'Illegal response: proposal already settled' };
+    }
+
+    const open = tickets.filter(t => t.status === 'proposed');
+    const dropped = open.filter(t => t.id === declinedTicketId || lapsedTicketIds.includes(t.id));
+    const requeued = open.filter(t => !dropped.includes(t));
+
+    if (declinedTicketId) {
+      await this.dbService.updateTickets([declinedTicketId], 'proposed', { status: 'cancelled' });
+    }
+    if (lapsedTicketIds.length) {
+      await this.dbService.updateTickets(lapsedTicketIds, 'proposed', { status: 'expired' });
+    }
+    if (requeued.length) {
+      await this.dbService.updateTickets(requeued.map(t => t.id), 'proposed', {
+        status: 'searching',
+        proposal_id: null,
+        accepted_at: null,
+      });
+    }
+
+    for (const ticket of dropped) {
+      this.publish({ ...ticket, status: ticket.id === declinedTicketId ? 'cancelled' : 'expired' }, ended.data);
+    }
+
+    await this.match();
+    for (const ticket of requeued) {
+      const current = await this.dbService.getActiveTicket(ticket.userId);
+      if (current.data && current.data.status === 'searching') this.publish(current.data, ended.data);
+    }
+
+    return { success: true, data: ended.data };
+  }
+
+  private async createMatchRace(proposal: MatchProposal, tickets: MatchmakingTicket[]): Promise<ApiResponse<any>> {
+    // Only the last acceptance gets to create the race
+    const claimed = await this.dbService.updateProposal(proposal.id, 'pending', { status: 'accepted' });
+    if (!claimed.success) return claimed;
+    if (!claimed.data) {
+      return this.describeProposal(proposal.id);
+    }
+
+    const raceResult = await this.dbService.createRace({
+      name: `Matched ${proposal.raceType} race`,
+      description: `Matchmaking race for ${tickets.length} drivers`,
+      createdBy: tickets[0].userId,
+      raceType: proposal.raceType,
+      startLocation: proposal.meetingPoint,
+      endLocation: proposal.meetingPoint,
+      maxParticipants: tickets.length,
+      isPrivate: true,
+      startTime: proposal.startTime,
+    });
+    if (!raceResult.success) {
+      await this.abandonMatch(proposal, tickets);
+      return raceResult;
+    }
+
+    const race = raceResult.data;
+    const participantsResult = await this.dbService.addRaceParticipants(race.id, tickets.map(ticket => ({
+      userId: ticket.userId,
+      vehicleId: ticket.vehicleId,
+    })));
+    if (!participantsResult.success) {
+      await this.dbService.updateRaceStatus(race.id, 'scheduled', 'cancelled');
+      await this.abandonMatch(proposal, tickets);
+      return participantsResult;
+    }
+
+    await this.dbService.updateProposal(proposal.id, 'accepted', { race_id: race.id });
+    await this.dbService.updateTickets(tickets.map(t => t.id), 'proposed', { status: 'matched', race_id: race.id });
+    await this.raceJobs.scheduleRace(race);
+
+    await this.publishProposal(proposal.id);
+    return this.describeProposal(proposal.id);
+  }
+
+  // The race could not be set up after everyone accepted: the proposal lapses and the whole group goes
+  // back to searching, so nobody is left holding a ticket they can neither leave nor answer
+  private async abandonMatch(proposal: MatchProposal, tickets: MatchmakingTicket[]): Promise<void> {
+    const ended = await this.dbService.updateProposal(proposal.id, 'accepted', { status: 'expired' });
+    const requeued = await this.dbService.updateTickets(tickets.map(t => t.id), 'proposed', {
+      status: 'searching',
+      proposal_id: null,
+      accepted_at: null,
+    });
+    if (!ended.success || !requeued.success) {
+      console.error('Failed to release match proposal:', ended.error || requeued.error);
+    }
+
+    await this.match();
+    for (const ticket of requeued.data || []) {
+      const current = await this.dbService.getActiveTicket(ticket.userId);
+      if (current.data) this.publish(current.data, ended.data);
+    }
+  }
+
+  private async describeProposal(proposalId: string): Promise<ApiResponse<any>> {
+    const proposalResult = await this.dbService.getProposal(proposalId);
+    if (!proposalResult.success) return proposalResult;
+
+    const ticketsResult = await this.dbService.getProposalTickets(proposalId);
+    if (!ticketsResult.success) return ticketsResult;
+
+    const tickets = ticketsResult.data || [];
+    return {
+      success: true,
+      data: {
+        ...proposalResult.data,
+        drivers: tickets.map(ticket => ({
+          userId: ticket.userId,
+          vehicleId: ticket.vehicleId,
+          rating: ticket.rating,
+          powerToWeight: ticket.powerToWeight,
+          distanceKm: haversineDistance(ticket.location, proposalResult.data!.meetingPoint) / 1000,
+          accepted: !!ticket.acceptedAt,
+        })),
+      },
+    };
+  }
+
+  private async publishProposal(proposalId: string): Promise<void> {
+    const proposal = await this.describeProposal(proposalId);
+    if (!proposal.success) return;
+
+    const ticketsResult = await this.dbService.getProposalTickets(proposalId);
+    for (const ticket of ticketsResult.data || []) {
+      this.publish(ticket, proposal.data);
+    }
+  }
+
+  // Streams queue status over the user's main WebSocket connection
+  private publish(ticket: MatchmakingTicket, proposal: any = null): void {
+    const minutes = waitedMinutes(ticket, Date.now());
+    this.wsService.sendNotificationToUser(ticket.userId, {
+      type: 'matchmaking_status',
+      userId: ticket.userId,
+      data: {
+        ticket,
+        proposal,
+        search: ticket.status === 'searching'
+          ? {
+              waitedSeconds: Math.round(minutes * 60),
+              ratingRange: tolerance(RATING_GAP, minutes),
+              powerToWeightRange: tolerance(POWER_TO_WEIGHT_GAP, minutes),
+            }
+          : null,
+      },
+      timestamp: new Date(),
+    });
+  }
+}
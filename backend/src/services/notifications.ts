@@ -0,0 +1,30 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { ApiResponse, Notification, NotificationInput } from '../types';
+
+// Stores notifications so they survive being offline, then pushes them to anyone connected
+export class NotificationService {
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService
+  ) {}
+
+  async notify(notifications: NotificationInput[]): Promise<ApiResponse<Notification[]>> {
+    const result = await this.dbService.createNotifications(notifications);
+    if (!result.success) {
+      console.error('Failed to store notifications:', result.error);
+      return result;
+    }
+
+    for (const notification of result.data || []) {
+      this.wsService.sendNotificationToUser(notification.userId, {
+        type: 'notification',
+        userId: notification.userId,
+        data: notification,
+        timestamp: new Date(),
+      });
+    }
+
+    return result;
+  }
+}
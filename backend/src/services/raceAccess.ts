@@ -0,0 +1,279 @@
+import { SupabaseService } from './database';
+import { RaceLifecycleService } from './raceLifecycle';
+import { NotificationService } from './notifications';
+import { ApiResponse, JoinRequest, JoinRequestStatus, RaceInvitation } from '../types';
+
+// Who may see and enter a race: private races are invite-only, and races that
+// require approval queue join requests for the creator
+export class RaceAccessService {
+  constructor(
+    private dbService: SupabaseService,
+    private lifecycle: RaceLifecycleService,
+    private notifications: NotificationService
+  ) {}
+
+  async canView(race: any, userId: string): Promise<boolean> {
+    if (!race.isPrivate || race.createdBy === userId) return true;
+    if (race.participants.some((p: any) => p.user_id === userId)) return true;
+
+    // A declined invitation no longer lets you in
+    const invitation = await this.dbService.getInvitation(race.id, userId);
+    return invitation.data?.status === 'pending' || invitation.data?.status === 'accepted';
+  }
+
+  // Resolves with the updated race, or with { joinRequest } when the join was queued for approval
+  async join(raceId: string, userId: string, message?: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.createdBy === userId) {
+      return this.lifecycle.joinRace(raceId, userId);
+    }
+
+    const invitationResult = await this.dbService.getInvitation(raceId, userId);
+    if (!invitationResult.success) return invitationResult;
+
+    const invitation = invitationResult.data;
+    if (invitation?.status === 'declined' && race.isPrivate) {
+      return { success: false, error: 'Race is invite-only and the invitation was declined' };
+    }
+
+    // An invitation from the organizer is their approval; one from another participant only gets you in
+    // where no approval is needed. A declined invitation counts for nothing.
+    if (invitation && invitation.status !== 'declined' && this.isApproval(race, invitation)) {
+      return invitation.status === 'pending'
+        ? this.acceptInvitation(race, invitation)
+        : this.lifecycle.joinRace(raceId, userId);
+    }
+
+    if (race.isPrivate) {
+      return { success: false, error: 'Race is invite-only' };
+    }
+
+    if (!race.requiresApproval) {
+      return this.lifecycle.joinRace(raceId, userId);
+    }
+
+    if (race.participants.some((p: any) => p.user_id === userId)) {
+      return { success: false, error: 'User already in race' };
+    }
+
+    const existing = await this.dbService.getJoinRequest(raceId, userId);
+    if (!existing.success) return existing;
+    if (existing.data?.status === 'pending') {
+      return { success: false, error: 'Join request already pending' };
+    }
+
+    const requestResult = await this.dbService.upsertJoinRequest(raceId, userId, message);
+    if (!requestResult.success) return requestResult;
+
+    await this.notifications.notify([{
+      userId: race.createdBy,
+      type: 'race_join_request',
+      title: 'New join request',
+      message: `Someone asked to join ${race.name}`,
+      relatedUserId: userId,
+      relatedRaceId: raceId,
+      data: { requestId: requestResult.data!.id, message },
+    }]);
+
+    return { success: true, data: { joinRequest: requestResult.data } };
+  }
+
+  async invite(raceId: string, inviter: { id: string; username: string }, username: string): Promise<ApiResponse<RaceInvitation>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    // Anyone in an open public race can bring friends; private races and races that need approval
+    // are invited by the organizer alone
+    const race = raceResult.data;
+    const isParticipant = race.participants.some((p: any) => p.user_id === inviter.id);
+    if (race.createdBy !== inviter.id && (race.isPrivate || race.requiresApproval || !isParticipant)) {
+      return { success: false, error: 'Only the race organizer can invite to this race' };
+    }
+
+    if (!['scheduled', 'staging'].includes(race.status)) {
+      return { success: false, error: `Illegal invitation: race is ${race.status}` };
+    }
+
+    const userResult = await this.dbService.getUserByUsername(username);
+    if (!userResult.success || !userResult.data) {
+      return { success: false, error: 'User not found' };
+    }
+
+    const invitee = userResult.data;
+    if (race.participants.some((p: any) => p.user_id === invitee.id)) {
+      return { success: false, error: 'User already in race' };
+    }
+
+    const invitationResult = await this.dbService.upsertInvitation(raceId, invitee.id, inviter.id);
+    if (!invitationResult.success) return invitationResult;
+
+    await this.notifications.notify([{
+      userId: invitee.id,
+      type: 'race_invite',
+      title: 'Race invitation',
+      message: `${inviter.username} invited you to ${race.name}`,
+      relatedUserId: inviter.id,
+      relatedRaceId: raceId,
+      data: { invitationId: invitationResult.data!.id },
+    }]);
+
+    return invitationResult;
+  }
+
+  async respondToInvitation(raceId: string, userId: string, accept: boolean): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const invitationResult = await this.dbService.getInvitation(raceId, userId);
+    if (!invitationResult.success) return invitationResult;
+
+    const invitation = invitationResult.data;
+    if (!invitation) {
+      return { success: false, error: 'Invitation not found' };
+    }
+    if (invitation.status !== 'pending') {
+      return { success: false, error: `Invitation already ${invitation.status}` };
+    }
+
+    if (accept) {
+      // A friend's invitation to a race that needs approval still goes through the organizer
+      return this.isApproval(raceResult.data, invitation)
+        ? this.acceptInvitation(raceResult.data, invitation)
+        : this.join(raceId, userId);
+    }
+
+    const declined = await this.dbService.respondToInvitation(invitation.id, 'declined');
+    if (!declined.success) return declined;
+    if (!declined.data) {
+      return { success: false, error: 'Invitation already answered' };
+    }
+
+    await this.notifyInviter(raceResult.data, invitation, 'declined');
+
+    return { success: true, data: { invitation: declined.data } };
+  }
+
+  async getUserInvitations(userId: string): Promise<ApiResponse<RaceInvitation[]>> {
+    return this.dbService.getUserInvitations(userId, 'pending');
+  }
+
+  async getRaceInvitations(raceId: string, organizerId: string): Promise<ApiResponse<RaceInvitation[]>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    if (raceResult.data.createdBy !== organizerId) {
+      return { success: false, error: 'Only race organizer can view invitations' };
+    }
+
+    return this.dbService.getRaceInvitations(raceId);
+  }
+
+  async getJoinRequests(raceId: string, organizerId: string, status?: JoinRequestStatus): Promise<ApiResponse<JoinRequest[]>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    if (raceResult.data.createdBy !== organizerId) {
+      return { success: false, error: 'Only race organizer can view join requests' };
+    }
+
+    return this.dbService.getRaceJoinRequests(raceId, status);
+  }
+
+  async decideJoinRequest(
+    raceId: string,
+    userId: string,
+    organizerId: string,
+    approve: boolean,
+    reason?: string
+  ): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.createdBy !== organizerId) {
+      return { success: false, error: 'Only race organizer can decide join requests' };
+    }
+
+    const requestResult = await this.dbService.getJoinRequest(raceId, userId);
+    if (!requestResult.success) return requestResult;
+
+    const request = requestResult.data;
+    if (!request) {
+      return { success: false, error: 'Join request not found' };
+    }
+    if (request.status !== 'pending') {
+      return { success: false, error: `Join request already ${request.status}` };
+    }
+
+    // Join first so a full or started race leaves the request pending
+    let joined: any;
+    if (approve) {
+      const joinResult = await this.lifecycle.joinRace(raceId, userId);
+      if (!joinResult.success) return joinResult;
+      joined = joinResult.data;
+    }
+
+    const decided = await this.dbService.decideJoinRequest(request.id, approve ? 'approved' : 'rejected', organizerId, reason);
+    if (!decided.success) return decided;
+    if (!decided.data) {
+      return { success: false, error: 'Join request already decided' };
+    }
+
+    await this.notifications.notify([{
+      userId,
+      type: 'race_join_request',
+      title: approve ? 'Join request approved' : 'Join request rejected',
+      message: `Your request to join ${race.name} was ${approve ? 'approved' : 'rejected'}` + (reason ? `: ${reason}` : ''),
+      relatedUserId: organizerId,
+      relatedRaceId: raceId,
+      data: { requestId: request.id },
+    }]);
+
+    return { success: true, data: { joinRequest: decided.data, race: joined } };
+  }
+
+  private isApproval(race: any, invitation: RaceInvitation): boolean {
+    return !race.requiresApproval || invitation.invitedBy === race.createdBy;
+  }
+
+  private async acceptInvitation(race: any, invitation: RaceInvitation): Promise<ApiResponse<any>> {
+    const joinResult = await this.lifecycle.joinRace(race.id, invitation.userId);
+    if (!joinResult.success) return joinResult;
+
+    const accepted = await this.dbService.respondToInvitation(invitation.id, 'accepted');
+    if (!accepted.success) return accepted;
+
+    await this.notifyInviter(race, invitation, 'accepted');
+
+    return joinResult;
+  }
+
+  private async notifyInviter(race: any, invitation: RaceInvitation, response: 'accepted' | 'declined'): Promise<void> {
+    const recipients = [...new Set([race.createdBy, invitation.invitedBy].filter(Boolean))] as string[];
+
+    await this.notifications.notify(recipients.map(recipient => ({
+      userId: recipient,
+      type: 'race_invite' as const,
+      title: response === 'accepted' ? 'Invitation accepted' : 'Invitation declined',
+      message: `An invitation to ${race.name} was ${response}`,
+      relatedUserId: invitation.userId,
+      relatedRaceId: race.id,
+      data: { invitationId: invitation.id },
+    })));
+  }
+}
@@ -0,0 +1,251 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { RaceAccessService } from './raceAccess';
+import { ApiResponse, ChatMessage } from '../types';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+export const MAX_CHAT_PAGE_SIZE = 100;
+// Messages a connection can post in any ten-second window
+const MAX_CHAT_MESSAGES_PER_WINDOW = parseInt(process.env.CHAT_MAX_MESSAGES || '5');
+const CHAT_WINDOW_MS = 10000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ChatMessageView extends ChatMessage {
+  username?: string;
+}
+
+export interface ChatPage {
+  messages: ChatMessageView[];
+  nextCursor: string | null;
+}
+
+// History pages are keyed on (createdAt, id) so messages sent in the same millisecond aren't skipped
+const encodeCursor = (message: ChatMessage): string =>
+  Buffer.from(`${message.createdAt.toISOString()}|${message.id}`).toString('base64url');
+
+const decodeCursor = (cursor: string): { createdAt: string; id: string } | null => {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  if (!createdAt || !id || !UUID_PATTERN.test(id) || isNaN(Date.parse(createdAt))) return null;
+  return { createdAt: new Date(createdAt).toISOString(), id };
+};
+
+// Race-room chat. Participants post from the race room and spectators from the spectator room,
+// so whoever the room guard and spectator checks let in can talk; everyone else can only read history.
+export class RaceChatService {
+  private sent: Map<string, number[]> = new Map();
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService,
+    private raceAccess: RaceAccessService
+  ) {
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+    this.wsService.onDisconnect(connectionId => this.sent.delete(connectionId));
+  }
+
+  async send(connectionId: string, userId: string, raceId: string, content: unknown): Promise<ApiResponse<ChatMessageView>> {
+    const text = this.validContent(content);
+    if (!text.success) return text as ApiResponse<any>;
+
+    if (!this.canPost(connectionId, raceId)) {
+      return { success: false, error: 'Only race participants and spectators can chat; join or spectate the race first' };
+    }
+    if (!this.allowMessage(connectionId)) {
+      return { success: false, error: 'Too many messages, slow down' };
+    }
+
+    const result = await this.dbService.createChatMessage({
+      raceId,
+      senderId: userId,
+      content: text.data!,
+      messageType: 'text',
+    });
+    if (!result.success) return result;
+
+    return this.publish('chat_message', result.data!);
+  }
+
+  async edit(connectionId: string, userId: string, raceId: string, messageId: unknown, content: unknown): Promise<ApiResponse<ChatMessageView>> {
+    const text = this.validContent(content);
+    if (!text.success) return text as ApiResponse<any>;
+
+    const found = await this.findMessage(raceId, messageId);
+    if (!found.success) return found;
+
+    const message = found.data!;
+    if (message.senderId !== userId || message.messageType === 'system') {
+      return { success: false, error: 'Only the sender can edit a message' };
+    }
+    if (message.isDeleted) {
+      return { success: false, error: 'Illegal edit: message was deleted' };
+    }
+    if (!this.canPost(connectionId, raceId)) {
+      return { success: false, error: 'Only race participants and spectators can chat; join or spectate the race first' };
+    }
+
+    const result = await this.dbService.updateChatMessage(message.id, { content: text.data! });
+    if (!result.success) return result;
+
+    return this.publish('chat_message_edited', result.data!);
+  }
+
+  // Senders can delete their own messages; the organizer can delete anyone's
+  async remove(userId: string, raceId: string, messageId: unknown): Promise<ApiResponse<ChatMessageView>> {
+    const found = await this.findMessage(raceId, messageId);
+    if (!found.success) return found;
+
+    const message = found.data!;
+    if (message.isDeleted) {
+      return { success: false, error: 'Message already deleted' };
+    }
+
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const isSender = message.senderId === userId && message.messageType !== 'system';
+    if (!isSender && raceResult.data.createdBy !== userId) {
+      return { success: false, error: 'Only the sender or the race organizer can delete a message' };
+    }
+
+    const result = await this.dbService.updateChatMessage(message.id, { isDeleted: true });
+    if (!result.success) return result;
+
+    return this.publish('chat_message_deleted', result.data!);
+  }
+
+  // Newest first; pass the returned cursor back as `before` for the next (older) page
+  async getHistory(raceId: string, userId: string, before?: string, limit: number = 50): Promise<ApiResponse<ChatPage>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success || !(await this.raceAccess.canView(raceResult.data, userId))) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const cursor = before ? decodeCursor(before) : null;
+    if (before && !cursor) {
+      return { success: false, error: 'Invalid cursor' };
+    }
+
+    const pageSize = Math.min(Math.max(1, limit), MAX_CHAT_PAGE_SIZE);
+    // One extra row tells us whether there is an older page
+    const result = await this.dbService.getChatMessages(raceId, cursor, pageSize + 1);
+    if (!result.success) return result as ApiResponse<any>;
+
+    const messages = result.data!.slice(0, pageSize);
+    return {
+      success: true,
+      data: {
+        messages: await this.withUsernames(messages),
+        nextCursor: result.data!.length > pageSize ? encodeCursor(messages[messages.length - 1]) : null,
+      },
+    };
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (event.userId) {
+      const text = event.from === null && event.to === 'registered' ? 'joined the race'
+        : event.to === 'ready' ? 'is ready'
+        : event.to === 'finished' ? 'finished'
+        : null;
+      if (!text) return;
+
+      const userResult = await this.dbService.getUserById(event.userId);
+      await this.postSystemMessage(event.raceId, event.userId, `${userResult.data?.username || 'A driver'} ${text}`, {
+        event: event.to === 'registered' ? 'joined' : event.to,
+        userId: event.userId,
+      });
+      return;
+    }
+
+    if (event.to !== 'active' && event.to !== 'finished') return;
+
+    const raceResult = await this.dbService.getRace(event.raceId);
+    if (!raceResult.success) return;
+
+    // Race-wide messages need a sender too; they go out under the organizer
+    await this.postSystemMessage(
+      event.raceId,
+      raceResult.data.createdBy,
+      event.to === 'active' ? 'Race started' : 'Race finished',
+      { event: event.to === 'active' ? 'started' : 'finished' }
+    );
+  }
+
+  private async postSystemMessage(raceId: string, senderId: string, content: string, metadata: Record<string, any>): Promise<void> {
+    const result = await this.dbService.createChatMessage({ raceId, senderId, content, messageType: 'system', metadata });
+    if (!result.success) {
+      console.error(`Failed to post system message for race ${raceId}:`, result.error);
+      return;
+    }
+
+    await this.publish('chat_message', result.data!);
+  }
+
+  private async publish(
+    type: 'chat_message' | 'chat_message_edited' | 'chat_message_deleted',
+    message: ChatMessage
+  ): Promise<ApiResponse<ChatMessageView>> {
+    const [view] = await this.withUsernames([message]);
+    this.wsService.broadcastToRace(message.raceId, {
+      type,
+      raceId: message.raceId,
+      data: view,
+      timestamp: new Date(),
+    });
+    return { success: true, data: view };
+  }
+
+  private async findMessage(raceId: string, messageId: unknown): Promise<ApiResponse<ChatMessage>> {
+    if (typeof messageId !== 'string' || !UUID_PATTERN.test(messageId)) {
+      return { success: false, error: 'Invalid message id' };
+    }
+
+    const result = await this.dbService.getChatMessage(messageId);
+    if (!result.success || result.data!.raceId !== raceId) {
+      return { success: false, error: 'Message not found' };
+    }
+    return result;
+  }
+
+  private validContent(content: unknown): ApiResponse<string> {
+    const text = typeof content === 'string' ? content.trim() : '';
+    if (!text) {
+      return { success: false, error: 'Invalid message: content is required' };
+    }
+    if (text.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return { success: false, error: `Invalid message: at most ${MAX_CHAT_MESSAGE_LENGTH} characters` };
+    }
+    return { success: true, data: text };
+  }
+
+  private canPost(connectionId: string, raceId: string): boolean {
+    return this.wsService.isInRaceRoom(connectionId, raceId) || this.wsService.isSpectating(connectionId, raceId);
+  }
+
+  private async withUsernames(messages: ChatMessage[]): Promise<ChatMessageView[]> {
+    const usernames = new Map<string, string | undefined>();
+    for (const senderId of new Set(messages.map(m => m.senderId))) {
+      const userResult = await this.dbService.getUserById(senderId);
+      usernames.set(senderId, userResult.data?.username);
+    }
+    return messages.map(message => ({ ...message, username: usernames.get(message.senderId) }));
+  }
+
+  // Sliding window per connection
+  private allowMessage(connectionId: string): boolean {
+    const now = Date.now();
+    const recent = (this.sent.get(connectionId) || []).filter(at => now - at < CHAT_WINDOW_MS);
+    if (recent.length >= MAX_CHAT_MESSAGES_PER_WINDOW) {
+      this.sent.set(connectionId, recent);
+      return false;
+    }
+
+    recent.push(now);
+    this.sent.set(connectionId, recent);
+    return true;
+  }
+}
@@ -0,0 +1,406 @@
+import { SupabaseService } from './database';
+import { TelemetryService } from './telemetry';
+import { RaceAccessService } from './raceAccess';
+import { LapTimingService } from './lapTiming';
+import { ApiResponse, RaceRoute, RouteGate, TelemetrySample } from '../types';
+
+export type ExportFormat = 'gpx' | 'kml' | 'csv' | 'geojson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['gpx', 'kml', 'csv', 'geojson'];
+
+// Replays are only exported once the race is over, so nobody can pull a live position out of one
+const EXPORTABLE_STATUSES = ['finished'];
+// Across every participant's track; a bigger export is refused rather than truncated
+const MAX_EXPORT_POINTS = parseInt(process.env.EXPORT_MAX_POINTS || '250000');
+export const MAX_GPX_IMPORT_BYTES = parseInt(process.env.GPX_IMPORT_MAX_BYTES || '2097152');
+const MAX_GPX_POINTS = 50000;
+// Matches the route schema's waypoint limit; longer tracks are thinned evenly to fit
+const MAX_ROUTE_WAYPOINTS = 1000;
+const MAX_ROUTE_CHECKPOINTS = 50;
+// Gate radius when a GPX waypoint marks a gate without saying how big it is
+const DEFAULT_GATE_RADIUS = 25;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv: 'text/csv',
+  geojson: 'application/geo+json',
+};
+
+export interface ExportTrack {
+  userId: string;
+  username?: string;
+  samples: TelemetrySample[];
+}
+
+export interface ExportGate {
+  role: 'start_finish' | 'checkpoint';
+  name: string;
+  gate: RouteGate;
+}
+
+export interface RaceExport {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const escapeCsv = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  // Names are user-chosen; a leading = + - @ would run as a formula in a spreadsheet
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoTime = (timestamp: number): string => new Date(timestamp).toISOString();
+
+const gateCenter = (gate: RouteGate): { lat: number; lng: number } => gate.type === 'line'
+  ? { lat: (gate.a.lat + gate.b.lat) / 2, lng: (gate.a.lng + gate.b.lng) / 2 }
+  : gate.center;
+
+export const routeGates = (route: RaceRoute | null): ExportGate[] => [
+  ...(route?.startFinish ? [{ role: 'start_finish' as const, name: route.startFinish.name || 'Start/Finish', gate: route.startFinish }] : []),
+  ...(route?.checkpoints || []).map((gate, i) => ({ role: 'checkpoint' as const, name: gate.name || `Checkpoint ${i + 1}`, gate })),
+];
+
+// GPX 1.1 with Garmin's TrackPointExtension for speed (m/s) and course (degrees). Gates are
+// waypoints; line gates carry their two ends in a dash:gate extension so they import back as lines.
+export const toGpx = (race: any, tracks: ExportTrack[]): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="DASH RACING" xmlns="http://www.topografix.com/GPX/1/1"'
+      + ' xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"'
+      + ' xmlns:dash="https://dashracing.app/xmlschemas/gpx/1">',
+    `  <metadata><name>${escapeXml(race.name)}</name>${race.actualStart ? `<time>${race.actualStart.toISOString()}</time>` : ''}</metadata>`,
+  ];
+
+  for (const { role, name, gate } of routeGates(race.route)) {
+    const center = gateCenter(gate);
+    const extension = gate.type === 'line'
+      ? `<dash:gate type="line" aLat="${gate.a.lat}" aLon="${gate.a.lng}" bLat="${gate.b.lat}" bLon="${gate.b.lng}"/>`
+      : `<dash:gate type="radius" radius="${gate.radius}"/>`;
+    lines.push(`  <wpt lat="${center.lat}" lon="${center.lng}"><name>${escapeXml(name)}</name><type>${role}</type><extensions>${extension}</extensions></wpt>`);
+  }
+
+  if (race.route?.waypoints?.length) {
+    lines.push(`  <rte><name>${escapeXml(race.name)}</name>`);
+    for (const point of race.route.waypoints) {
+      lines.push(`    <rtept lat="${point.lat}" lon="${point.lng}"/>`);
+    }
+    lines.push('  </rte>');
+  }
+
+  for (const track of tracks) {
+    lines.push(`  <trk><name>${escapeXml(track.username || track.userId)}</name><trkseg>`);
+    for (const sample of track.samples) {
+      const extension = sample.speed !== undefined || sample.heading !== undefined
+        ? '<extensions><gpxtpx:TrackPointExtension>'
+          + (sample.speed !== undefined ? `<gpxtpx:speed>${sample.speed}</gpxtpx:speed>` : '')
+          + (sample.heading !== undefined ? `<gpxtpx:course>${sample.heading}</gpxtpx:course>` : '')
+          + '</gpxtpx:TrackPointExtension></extensions>'
+        : '';
+      lines.push(`    <trkpt lat="${sample.lat}" lon="${sample.lng}"><time>${isoTime(sample.timestamp)}</time>${extension}</trkpt>`);
+    }
+    lines.push('  </trkseg></trk>');
+  }
+
+  lines.push('</gpx>');
+  return lines.join('\n');
+};
+
+// KML 2.2 with gx:Track, so tools that play tracks back get the timing; speed and heading ride along as ExtendedData arrays
+export const toKml = (race: any, tracks: ExportTrack[]): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    `<Document><name>${escapeXml(race.name)}</name>`,
+    '  <Schema id="telemetry"><gx:SimpleArrayField name="speed" type="float"/><gx:SimpleArrayField name="heading" type="float"/></Schema>',
+  ];
+
+  if (race.route?.waypoints?.length) {
+    const coordinates = race.route.waypoints.map((p: any) => `${p.lng},${p.lat}`).join(' ');
+    lines.push(`  <Placemark><name>Route</name><LineString><coordinates>${coordinates}</coordinates></LineString></Placemark>`);
+  }
+
+  for (const { role, name, gate } of routeGates(race.route)) {
+    const geometry = gate.type === 'line'
+      ? `<LineString><coordinates>${gate.a.lng},${gate.a.lat} ${gate.b.lng},${gate.b.lat}</coordinates></LineString>`
+      : `<Point><coordinates>${gate.center.lng},${gate.center.lat}</coordinates></Point>`;
+    const radius = gate.type === 'radius' ? `<Data name="radius"><value>${gate.radius}</value></Data>` : '';
+    lines.push(`  <Placemark><name>${escapeXml(name)}</name><ExtendedData><Data name="role"><value>${role}</value></Data>${radius}</ExtendedData>${geometry}</Placemark>`);
+  }
+
+  for (const track of tracks) {
+    lines.push(`  <Placemark><name>${escapeXml(track.username || track.userId)}</name><gx:Track>`);
+    for (const sample of track.samples) lines.push(`    <when>${isoTime(sample.timestamp)}</when>`);
+    for (const sample of track.samples) lines.push(`    <gx:coord>${sample.lng} ${sample.lat} 0</gx:coord>`);
+    lines.push('    <ExtendedData><SchemaData schemaUrl="#telemetry">');
+    for (const field of ['speed', 'heading'] as const) {
+      lines.push(`      <gx:SimpleArrayData name="${field}">${track.samples.map(s => `<gx:value>${s[field] ?? ''}</gx:value>`).join('')}</gx:SimpleArrayData>`);
+    }
+    lines.push('    </SchemaData></ExtendedData>');
+    lines.push('  </gx:Track></Placemark>');
+  }
+
+  lines.push('</Document>', '</kml>');
+  return lines.join('\n');
+};
+
+// One row per point; `kind` tells route waypoints, gate ends and track samples apart
+export const toCsv = (race: any, tracks: ExportTrack[]): string => {
+  const rows: unknown[][] = [['kind', 'name', 'user_id', 'seq', 'time', 'lat', 'lng', 'speed', 'heading', 'accuracy']];
+
+  (race.route?.waypoints || []).forEach((point: any, i: number) => rows.push(['route', race.name, '', i, '', point.lat, point.lng]));
+  for (const { name, gate } of routeGates(race.route)) {
+    if (gate.type === 'line') {
+      rows.push(['gate', `${name} (a)`, '', '', '', gate.a.lat, gate.a.lng]);
+      rows.push(['gate', `${name} (b)`, '', '', '', gate.b.lat, gate.b.lng]);
+    } else {
+      rows.push(['gate', `${name} (radius ${gate.radius}m)`, '', '', '', gate.center.lat, gate.center.lng]);
+    }
+  }
+  for (const track of tracks) {
+    for (const s of track.samples) {
+      rows.push(['track', track.username || '', track.userId, s.seq, isoTime(s.timestamp), s.lat, s.lng, s.speed, s.heading, s.accuracy]);
+    }
+  }
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+};
+
+// Tracks are LineStrings with per-point times, speeds and headings in coordinateProperties
+export const toGeoJson = (race: any, tracks: ExportTrack[]): string => {
+  const features: any[] = [];
+
+  if (race.route?.waypoints?.length) {
+    features.push({
+      type: 'Feature',
+      properties: { kind: 'route', name: race.name },
+      geometry: { type: 'LineString', coordinates: race.route.waypoints.map((p: any) => [p.lng, p.lat]) },
+    });
+  }
+
+  for (const { role, name, gate } of routeGates(race.route)) {
+    features.push({
+      type: 'Feature',
+      properties: { kind: 'gate', role, name, ...(gate.type === 'radius' ? { radius: gate.radius } : {}) },
+      geometry: gate.type === 'line'
+        ? { type: 'LineString', coordinates: [[gate.a.lng, gate.a.lat], [gate.b.lng, gate.b.lat]] }
+        : { type: 'Point', coordinates: [gate.center.lng, gate.center.lat] },
+    });
+  }
+
+  for (const track of tracks) {
+    features.push({
+      type: 'Feature',
+      properties: {
+        kind: 'track',
+        userId: track.userId,
+        name: track.username || track.userId,
+        coordinateProperties: {
+          times: track.samples.map(s => isoTime(s.timestamp)),
+          speeds: track.samples.map(s => s.speed ?? null),
+          headings: track.samples.map(s => s.heading ?? null),
+        },
+      },
+      geometry: { type: 'LineString', coordinates: track.samples.map(s => [s.lng, s.lat]) },
+    });
+  }
+
+  return JSON.stringify({ type: 'FeatureCollection', name: race.name, features });
+};
+
+const WRITERS: Record<ExportFormat, (race: any, tracks: ExportTrack[]) => string> = {
+  gpx: toGpx,
+  kml: toKml,
+  csv: toCsv,
+  geojson: toGeoJson,
+};
+
+const attribute = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? (match[2] ?? match[3]) : null;
+};
+
+const coordinate = (value: string | null, limit: number): number | null => {
+  if (value === null || !/^\s*-?\d+(\.\d+)?\s*$/.test(value)) return null;
+  const number = parseFloat(value);
+  return Math.abs(number) <= limit ? number : null;
+};
+
+const childText = (body: string, tag: string): string | null => {
+  const match = body.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? match[1].trim() : null;
+};
+
+// Keeps both ends and spreads the rest evenly
+const thin = <T>(points: T[], max: number): T[] => {
+  if (points.length <= max) return points;
+  const step = (points.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => points[Math.round(i * step)]);
+};
+
+// Reads a GPX file into a race route: its route (or failing that, its track) becomes the waypoints, and
+// waypoints typed or named start/finish or checkpoint become gates. Only the handful of GPX
+// elements needed are read; anything that doesn't look like GPX is refused.
+export const parseGpxRoute = (xml: string): ApiResponse<RaceRoute> => {
+  if (Buffer.byteLength(xml, 'utf8') > MAX_GPX_IMPORT_BYTES) {
+    return { success: false, error: `Invalid GPX: file is larger than ${MAX_GPX_IMPORT_BYTES} bytes` };
+  }
+  // No DTDs: nothing in a GPX file needs one, and entity expansion is how XML bombs work
+  if (/<!DOCTYPE|<!ENTITY/i.test(xml)) {
+    return { success: false, error: 'Invalid GPX: document type declarations are not allowed' };
+  }
+  if (!/<gpx[\s>]/.test(xml) || !/<\/gpx>\s*$/.test(xml)) {
+    return { success: false, error: 'Invalid GPX: not a GPX document' };
+  }
+
+  const readPoints = (tag: string): ApiResponse<{ lat: number; lng: number; body: string }[]> => {
+    const points: { lat: number; lng: number; body: string }[] = [];
+    const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+    for (const match of xml.matchAll(pattern)) {
+      if (points.length >= MAX_GPX_POINTS) {
+        return { success: false, error: `Invalid GPX: more than ${MAX_GPX_POINTS} points` };
+      }
+      const lat = coordinate(attribute(match[1], 'lat'), 90);
+      const lng = coordinate(attribute(match[1], 'lon'), 180);
+      if (lat === null || lng === null) {
+        return { success: false, error: `Invalid GPX: ${tag} ${points.length + 1} has no valid lat/lon` };
+      }
+      points.push({ lat, lng, body: match[2] || '' });
+    }
+    return { success: true, data: points };
+  };
+
+  const trackResult = readPoints('trkpt');
+  if (!trackResult.success) return trackResult as ApiResponse<any>;
+  const routeResult = readPoints('rtept');
+  if (!routeResult.success) return routeResult as ApiResponse<any>;
+  const markerResult = readPoints('wpt');
+  if (!markerResult.success) return markerResult as ApiResponse<any>;
+
+  // A planned route wins over a recorded track, so a file exported from a race imports back as that race's route
+  const path = routeResult.data!.length >= 2 ? routeResult.data! : trackResult.data!;
+  if (path.length < 2) {
+    return { success: false, error: 'Invalid GPX: needs a track or route with at least 2 points' };
+  }
+
+  const route: RaceRoute = { waypoints: thin(path, MAX_ROUTE_WAYPOINTS).map(({ lat, lng }) => ({ lat, lng })) };
+  const checkpoints: RouteGate[] = [];
+
+  for (const marker of markerResult.data!) {
+    const name = childText(marker.body, 'name') || undefined;
+    const role = (childText(marker.body, 'type') || name || '').toLowerCase();
+    const isStartFinish = /^(start|finish|start[\s/_-]*finish)$/.test(role);
+    if (!isStartFinish && !role.includes('checkpoint')) continue;
+
+    const gateTag = marker.body.match(/<dash:gate\b[^>]*>/)?.[0];
+    let gate: RouteGate;
+    if (gateTag && attribute(gateTag, 'type') === 'line') {
+      const a = { lat: coordinate(attribute(gateTag, 'aLat'), 90), lng: coordinate(attribute(gateTag, 'aLon'), 180) };
+      const b = { lat: coordinate(attribute(gateTag, 'bLat'), 90), lng: coordinate(attribute(gateTag, 'bLon'), 180) };
+      if (a.lat === null || a.lng === null || b.lat === null || b.lng === null) {
+        return { success: false, error: `Invalid GPX: gate ${name || 'without a name'} has invalid ends` };
+      }
+      gate = { type: 'line', name, a: { lat: a.lat, lng: a.lng }, b: { lat: b.lat, lng: b.lng } };
+    } else {
+      const radius = gateTag ? Number(attribute(gateTag, 'radius')) : DEFAULT_GATE_RADIUS;
+      gate = {
+        type: 'radius',
+        name,
+        center: { lat: marker.lat, lng: marker.lng },
+        radius: Number.isFinite(radius) ? Math.min(500, Math.max(3, radius)) : DEFAULT_GATE_RADIUS,
+      };
+    }
+
+    if (isStartFinish) {
+      route.startFinish = gate;
+    } else {
+      checkpoints.push(gate);
+    }
+  }
+
+  if (checkpoints.length > MAX_ROUTE_CHECKPOINTS) {
+    return { success: false, error: `Invalid GPX: more than ${MAX_ROUTE_CHECKPOINTS} checkpoints` };
+  }
+  // Checkpoints are only timed against a start/finish line, same as the route schema requires
+  if (checkpoints.length && !route.startFinish) {
+    return { success: false, error: 'Invalid GPX: checkpoints need a start/finish waypoint' };
+  }
+  if (checkpoints.length) route.checkpoints = checkpoints;
+
+  return { success: true, data: route };
+};
+
+export class RaceExportService {
+  constructor(
+    private dbService: SupabaseService,
+    private telemetry: TelemetryService,
+    private raceAccess: RaceAccessService,
+    private lapTiming: LapTimingService
+  ) {}
+
+  async exportRace(raceId: string, userId: string, format: ExportFormat): Promise<ApiResponse<RaceExport>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success || !(await this.raceAccess.canView(raceResult.data, userId))) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (!EXPORTABLE_STATUSES.includes(race.status)) {
+      return { success: false, error: `Illegal export: race is ${race.status}` };
+    }
+
+    const tracks: ExportTrack[] = [];
+    let points = 0;
+    for (const participant of race.participants.filter((p: any) => p.status !== 'withdrawn')) {
+      const traceResult = await this.telemetry.getTrace(raceId, participant.user_id);
+      if (!traceResult.success) return traceResult as ApiResponse<any>;
+
+      points += (traceResult.data || []).length;
+      if (points > MAX_EXPORT_POINTS) {
+        return { success: false, error: `Invalid export: more than ${MAX_EXPORT_POINTS} track points` };
+      }
+
+      const userResult = await this.dbService.getUserById(participant.user_id);
+      tracks.push({ userId: participant.user_id, username: userResult.data?.username, samples: traceResult.data || [] });
+    }
+
+    return {
+      success: true,
+      data: {
+        filename: `race-${raceId}.${format}`,
+        contentType: CONTENT_TYPES[format],
+        body: WRITERS[format](race, tracks),
+      },
+    };
+  }
+
+  // Replaces the race's route with one read from a GPX file; same rules as setting it by hand
+  async importGpxRoute(raceId: string, userId: string, xml: string): Promise<ApiResponse<any>> {
+    const parsed = parseGpxRoute(xml);
+    if (!parsed.success) return parsed;
+
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    // Laps and drift zones aren't in GPX, so an import keeps the ones already set
+    const current: RaceRoute | null = raceResult.data.route;
+    const route: RaceRoute = {
+      ...parsed.data!,
+      ...(current?.laps && parsed.data!.startFinish ? { laps: current.laps } : {}),
+      ...(current?.driftZones ? { driftZones: current.driftZones } : {}),
+    };
+
+    return this.lapTiming.updateRoute(raceId, userId, route);
+  }
+}
@@ -0,0 +1,187 @@
+import { SupabaseService } from './database';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { JobSchedulerService } from './jobScheduler';
+import { NotificationService } from './notifications';
+import { ApiResponse, RaceStatus, ScheduledJob } from '../types';
+
+const MINUTE = 60 * 1000;
+
+const REMINDER_LEAD_MS = parseInt(process.env.RACE_REMINDER_MINUTES || '30') * MINUTE;
+// Under-subscribed races are called off this long before the start, so nobody drives out for nothing
+const AUTO_CANCEL_LEAD_MS = parseInt(process.env.RACE_AUTO_CANCEL_MINUTES || '15') * MINUTE;
+const MIN_PARTICIPANTS = parseInt(process.env.RACE_MIN_PARTICIPANTS || '2');
+// Races that still haven't gone green this long after their scheduled start are abandoned
+const STALE_AFTER_MS = parseInt(process.env.RACE_STALE_HOURS || '6') * 60 * MINUTE;
+const CLEANUP_INTERVAL_MS = 60 * MINUTE;
+const JOB_RETENTION_MS = parseInt(process.env.JOB_RETENTION_DAYS || '7') * 24 * 60 * MINUTE;
+
+const PRE_START_STATUSES: RaceStatus[] = ['scheduled', 'staging', 'countdown'];
+
+const raceJobKey = (raceId: string, job: string, runAt: Date): string => `race:${raceId}:${job}:${runAt.getTime()}`;
+
+// Time-based race events, run through the persistent job scheduler
+export class RaceJobsService {
+  constructor(
+    private dbService: SupabaseService,
+    private lifecycle: RaceLifecycleService,
+    private scheduler: JobSchedulerService,
+    private notifications: NotificationService
+  ) {
+    this.scheduler.register('race_reminder', job => this.sendReminder(job));
+    this.scheduler.register('race_auto_cancel', job => this.cancelIfUndersubscribed(job));
+    this.scheduler.register('race_auto_stage', job => this.stageAtScheduledStart(job));
+    this.scheduler.register('race_stale_cancel', job => this.cancelIfStale(job));
+    this.scheduler.register('cleanup', job => this.cleanup(job));
+
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+  }
+
+  async scheduleRace(race: any): Promise<void> {
+    const start: Date = race.startTime;
+    const now = Date.now();
+
+    const jobs = [
+      { type: 'race_reminder', runAt: new Date(start.getTime() - REMINDER_LEAD_MS) },
+      { type: 'race_auto_cancel', runAt: new Date(start.getTime() - AUTO_CANCEL_LEAD_MS) },
+      { type: 'race_auto_stage', runAt: start },
+      { type: 'race_stale_cancel', runAt: new Date(start.getTime() + STALE_AFTER_MS) },
+    ];
+
+    for (const job of jobs) {
+      // A race created at short notice still gets its start-time jobs, just not the advance warnings
+      if (job.runAt.getTime() < now && job.type !== 'race_auto_stage') continue;
+
+      const result = await this.scheduler.schedule({
+        type: job.type,
+        key: raceJobKey(race.id, job.type, job.runAt),
+        payload: { raceId: race.id },
+        runAt: job.runAt,
+      });
+      if (!result.success) {
+        console.error(`Failed to schedule ${job.type} for race ${race.id}:`, result.error);
+      }
+    }
+  }
+
+  // Backfills jobs for upcoming races; existing keys make this a no-op for races already scheduled
+  async recover(): Promise<void> {
+    const result = await this.dbService.getRacesByStatus(PRE_START_STATUSES);
+    if (!result.success) {
+      console.error('Failed to load upcoming races for scheduling:', result.error);
+      return;
+    }
+
+    for (const race of result.data || []) {
+      await this.scheduleRace(race);
+    }
+    await this.scheduleCleanup();
+  }
+
+  async unscheduleRace(raceId: string): Promise<void> {
+    await this.scheduler.cancel(`race:${raceId}:`);
+  }
+
+  // Keyed by the hour, so every instance and restart converges on one cleanup per interval
+  async scheduleCleanup(after: number = Date.now()): Promise<void> {
+    const runAt = new Date(Math.ceil((after + 1) / CLEANUP_INTERVAL_MS) * CLEANUP_INTERVAL_MS);
+    await this.scheduler.schedule({
+      type: 'cleanup',
+      key: `cleanup:${runAt.getTime()}`,
+      payload: {},
+      runAt,
+    });
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (!event.userId && (event.to === 'cancelled' || event.to === 'finished')) {
+      await this.unscheduleRace(event.raceId);
+    }
+  }
+
+  private async sendReminder(job: ScheduledJob): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(job.payload.raceId);
+    if (!raceResult.success) return raceResult;
+
+    const race = raceResult.data;
+    if (!PRE_START_STATUSES.includes(race.status)) {
+      return { success: true, data: { skipped: `race is ${race.status}` } };
+    }
+
+    const minutes = Math.max(0, Math.round((race.startTime.getTime() - Date.now()) / MINUTE));
+    return this.notifications.notify(race.participants
+      .filter((p: any) => p.status !== 'withdrawn')
+      .map((p: any) => ({
+        userId: p.user_id,
+        type: 'race_reminder' as const,
+        title: 'Race starting soon',
+        message: `${race.name} starts in ${minutes} minutes`,
+        relatedRaceId: race.id,
+        expiresAt: new Date(race.startTime.getTime() + 60 * MINUTE),
+      })));
+  }
+
+  private async cancelIfUndersubscribed(job: ScheduledJob): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(job.payload.raceId);
+    if (!raceResult.success) return raceResult;
+
+    const race = raceResult.data;
+    const entrants = race.participants.filter((p: any) => p.status !== 'withdrawn');
+    if (race.status !== 'scheduled' || entrants.length >= MIN_PARTICIPANTS) {
+      return { success: true, data: { skipped: true } };
+    }
+
+    return this.cancel(race, `Only ${entrants.length} of the ${MIN_PARTICIPANTS} required participants signed up`);
+  }
+
+  private async stageAtScheduledStart(job: ScheduledJob): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(job.payload.raceId);
+    if (!raceResult.success) return raceResult;
+
+    if (raceResult.data.status !== 'scheduled') {
+      return { success: true, data: { skipped: `race is ${raceResult.data.status}` } };
+    }
+
+    return this.lifecycle.transitionRace(raceResult.data.id, 'staging', undefined, 'Scheduled start reached');
+  }
+
+  private async cancelIfStale(job: ScheduledJob): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(job.payload.raceId);
+    if (!raceResult.success) return raceResult;
+
+    const race = raceResult.data;
+    if (!PRE_START_STATUSES.includes(race.status)) {
+      return { success: true, data: { skipped: `race is ${race.status}` } };
+    }
+
+    return this.cancel(race, 'Race never started');
+  }
+
+  private async cancel(race: any, reason: string): Promise<ApiResponse<any>> {
+    const result = await this.lifecycle.transitionRace(race.id, 'cancelled', undefined, reason);
+    if (!result.success) return result;
+
+    await this.notifications.notify(race.participants
+      .filter((p: any) => p.status !== 'withdrawn')
+      .map((p: any) => ({
+        userId: p.user_id,
+        type: 'race_update' as const,
+        title: 'Race cancelled',
+        message: `${race.name} was cancelled: ${reason}`,
+        relatedRaceId: race.id,
+      })));
+
+    return result;
+  }
+
+  private async cleanup(job: ScheduledJob): Promise<ApiResponse<any>> {
+    const notifications = await this.dbService.deleteExpiredNotifications(new Date());
+    if (!notifications.success) return notifications;
+
+    const jobs = await this.dbService.deleteFinishedJobs(new Date(Date.now() - JOB_RETENTION_MS));
+    if (!jobs.success) return jobs;
+
+    await this.scheduleCleanup(job.runAt.getTime());
+
+    return { success: true, data: { expiredNotifications: notifications.data, finishedJobs: jobs.data } };
+  }
+}
@@ -0,0 +1,402 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { ApiResponse, RaceStatus, ParticipantStatus, FinishData, RecordedResult, ResultReview } from '../types';
+
+// Allowed status changes. Anything not listed here is rejected as an illegal transition (409).
+export const RACE_TRANSITIONS: Record<RaceStatus, RaceStatus[]> = {
+  scheduled: ['staging', 'cancelled'],
+  staging: ['scheduled', 'countdown', 'cancelled'],
+  countdown: ['staging', 'active', 'cancelled'],
+  active: ['finished', 'cancelled'],
+  finished: [],
+  cancelled: [],
+};
+
+export const PARTICIPANT_TRANSITIONS: Record<ParticipantStatus, ParticipantStatus[]> = {
+  registered: ['ready', 'racing', 'withdrawn'],
+  ready: ['registered', 'racing', 'withdrawn'],
+  racing: ['finished', 'dnf'],
+  finished: [],
+  dnf: [],
+  withdrawn: [],
+};
+
+const JOINABLE_STATUSES: RaceStatus[] = ['scheduled', 'staging'];
+const TERMINAL_PARTICIPANT_STATUSES: ParticipantStatus[] = ['finished', 'dnf', 'withdrawn'];
+
+export interface LifecycleEvent {
+  raceId: string;
+  userId?: string; // set for participant transitions
+  from: RaceStatus | ParticipantStatus | null;
+  to: RaceStatus | ParticipantStatus;
+  changedBy?: string;
+  reason?: string;
+}
+
+type LifecycleListener = (event: LifecycleEvent) => void | Promise<void>;
+
+// Computes a participant's official result server-side for a race type, overriding what the client reported.
+// Resolves with null when it has nothing to time the race by, which leaves the reported result.
+export type FinishTimer = (race: any, userId: string, finishData: FinishData) => Promise<ApiResponse<FinishData | null>>;
+
+// Vetoes a join by resolving unsuccessfully, e.g. when the last spot is held for someone else
+export type JoinGuard = (race: any, userId: string) => Promise<ApiResponse<any>>;
+
+// Cross-checks a result before it is recorded; `reported` is null when the server detected the finish itself,
+// and `serverTimed` says a finish timer computed `finishData` rather than taking the reported result
+export type ResultValidator = (
+  race: any,
+  userId: string,
+  finishData: FinishData,
+  reported: FinishData | null,
+  serverTimed: boolean
+) => Promise<ResultReview>;
+
+// Orders a race's recorded results best first under a race type's rules; null leaves them to the default
+export type ResultRanker = (race: any, results: RecordedResult[]) => RecordedResult[] | null;
+
+export class RaceLifecycleService {
+  private listeners: LifecycleListener[] = [];
+  private finishTimers: Map<string, FinishTimer> = new Map();
+  private resultValidator?: ResultValidator;
+  private joinGuards: JoinGuard[] = [];
+  private resultRankers: Map<string, ResultRanker> = new Map();
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService
+  ) {}
+
+  // Other services hook in here to react to race and participant transitions
+  onTransition(listener: LifecycleListener): void {
+    this.listeners.push(listener);
+  }
+
+  useFinishTiming(raceType: string, timer: FinishTimer): void {
+    this.finishTimers.set(raceType, timer);
+  }
+
+  useResultValidation(validator: ResultValidator): void {
+    this.resultValidator = validator;
+  }
+
+  useJoinGuard(guard: JoinGuard): void {
+    this.joinGuards.push(guard);
+  }
+
+  useResultRanking(raceType: string, ranker: ResultRanker): void {
+    this.resultRankers.set(raceType, ranker);
+  }
+
+  // Finishing order for a race. Unless its type ranks results its own way that is the quickest time
+  // first with rejected results last, the order finish_race_participant keeps as finishes come in.
+  rankResults(race: any, results: RecordedResult[]): RecordedResult[] {
+    const ranked = this.resultRankers.get(race.raceType)?.(race, results);
+    if (ranked) return ranked;
+
+    return [...results].sort((a, b) => Number(a.reviewStatus === 'rejected') - Number(b.reviewStatus === 'rejected')
+      || a.timeResult - b.timeResult
+      || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  canTransitionRace(from: RaceStatus, to: RaceStatus): boolean {
+    return RACE_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  canTransitionParticipant(from: ParticipantStatus, to: ParticipantStatus): boolean {
+    return PARTICIPANT_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  // `at` overrides the recorded timestamp, e.g. the scheduled green light instead of the moment the timer fired
+  async transitionRace(raceId: string, to: RaceStatus, changedBy?: string, reason?: string, at?: Date): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    return this.applyRaceTransition(raceResult.data, to, changedBy, reason, at);
+  }
+
+  async transitionParticipant(
+    raceId: string,
+    userId: string,
+    to: ParticipantStatus,
+    changedBy?: string,
+    reason?: string
+  ): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const participant = raceResult.data.participants.find((p: any) => p.user_id === userId);
+    if (!participant) {
+      return { success: false, error: 'User not in race' };
+    }
+
+    const from = participant.status as ParticipantStatus;
+    if (!this.canTransitionParticipant(from, to)) {
+      return { success: false, error: `Illegal participant transition: ${from} -> ${to}` };
+    }
+
+    const moved = await this.moveParticipants(raceId, [from], to, userId, changedBy, reason);
+    if (!moved.success) return moved;
+
+    if (!moved.data?.length) {
+      return { success: false, error: `Illegal participant transition: participant is no longer ${from}` };
+    }
+
+    return { success: true, data: moved.data[0] };
+  }
+
+  // Creator moves the race into staging so participants can gather at the start line
+  async stageRace(raceId: string, userId: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    if (raceResult.data.createdBy !== userId) {
+      return { success: false, error: 'Only race creator can stage the race' };
+    }
+
+    return this.applyRaceTransition(raceResult.data, 'staging', userId);
+  }
+
+  async joinRace(raceId: string, userId: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const status = raceResult.data.status as RaceStatus;
+    if (!JOINABLE_STATUSES.includes(status)) {
+      return { success: false, error: `Illegal join: race is ${status}` };
+    }
+
+    for (const guard of this.joinGuards) {
+      const allowed = await guard(raceResult.data, userId);
+      if (!allowed.success) return allowed;
+    }
+
+    const result = await this.dbService.joinRace(raceId, userId);
+    if (!result.success) return result;
+
+    await this.recordAndBroadcastParticipant(raceId, userId, null, 'registered', userId);
+
+    return result;
+  }
+
+  async leaveRace(raceId: string, userId: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    const participant = race.participants.find((p: any) => p.user_id === userId);
+    if (!participant) {
+      return { success: false, error: 'User not in race' };
+    }
+
+    switch (race.status as RaceStatus) {
+      case 'scheduled': {
+        // Nothing has happened yet, so free the slot entirely
+        const result = await this.dbService.leaveRace(raceId, userId);
+        if (!result.success) return result;
+        await this.recordAndBroadcastParticipant(raceId, userId, participant.status, 'withdrawn', userId);
+        return result;
+      }
+      case 'staging':
+      case 'countdown': {
+        const result = await this.transitionParticipant(raceId, userId, 'withdrawn', userId, 'Left before start');
+        if (!result.success) return result;
+        return this.dbService.getRace(raceId);
+      }
+      case 'active': {
+        const result = await this.transitionParticipant(raceId, userId, 'dnf', userId, 'Left during race');
+        if (!result.success) return result;
+        await this.completeIfAllDone(raceId);
+        return this.dbService.getRace(raceId);
+      }
+      default:
+        return { success: false, error: `Illegal leave: race is ${race.status}` };
+    }
+  }
+
+  async finishParticipant(raceId: string, userId: string, finishData: FinishData, reportedByClient = true): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.status !== 'active') {
+      return { success: false, error: `Illegal finish: race is ${race.status}` };
+    }
+
+    const participant = race.participants.find((p: any) => p.user_id === userId);
+    if (!participant) {
+      return { success: false, error: 'User not in race' };
+    }
+
+    if (!this.canTransitionParticipant(participant.status, 'finished')) {
+      return { success: false, error: `Illegal participant transition: ${participant.status} -> finished` };
+    }
+
+    const reported = reportedByClient ? finishData : null;
+    const timer = this.finishTimers.get(race.raceType);
+    let serverTimed = false;
+    if (timer) {
+      const timed = await timer(race, userId, finishData);
+      if (!timed.success) return timed;
+      if (timed.data) {
+        finishData = timed.data;
+        serverTimed = true;
+      }
+    }
+
+    // Suspicious results are still recorded, but held for review instead of counting
+    const review: ResultReview = this.resultValidator
+      ? await this.resultValidator(race, userId, finishData, reported, serverTimed)
+      : { status: 'approved', reasons: [] };
+
+    // The transition and the result are recorded together, so of two concurrent finishes only one counts
+    const result = await this.dbService.finishRace(raceId, userId, finishData, review);
+    if (!result.success) return result;
+    if (!result.data) {
+      return { success: false, error: `Illegal participant transition: participant is no longer ${participant.status}` };
+    }
+
+    await this.recordAndBroadcastParticipant(raceId, userId, participant.status, 'finished', userId);
+
+    this.wsService.broadcastToRace(raceId, {
+      type: 'race_finish',
+      raceId,
+      data: { raceId, userId, result: result.data },
+      timestamp: new Date(),
+    });
+
+    await this.completeIfAllDone(raceId);
+
+    return result;
+  }
+
+  // Closes an active race once every participant has finished, DNF'd or withdrawn. The supervisor
+  // announces race_completed with final standings when the race moves to finished.
+  async completeIfAllDone(raceId: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    const allDone = race.participants.every((p: any) => TERMINAL_PARTICIPANT_STATUSES.includes(p.status));
+    if (race.status !== 'active' || !allDone) {
+      return { success: true, data: race };
+    }
+
+    return this.applyRaceTransition(race, 'finished', undefined, 'All participants done');
+  }
+
+  async getHistory(raceId: string): Promise<ApiResponse<any>> {
+    return this.dbService.getRaceStatusHistory(raceId);
+  }
+
+  private async applyRaceTransition(race: any, to: RaceStatus, changedBy?: string, reason?: string, at?: Date): Promise<ApiResponse<any>> {
+    const from = race.status as RaceStatus;
+    if (!this.canTransitionRace(from, to)) {
+      return { success: false, error: `Illegal race transition: ${from} -> ${to}` };
+    }
+
+    const timestamp = (at || new Date()).toISOString();
+    const extra: Record<string, any> = {};
+    if (to === 'active') extra.actual_start = timestamp;
+    if (to === 'finished') extra.finish_time = timestamp;
+
+    const updateResult = await this.dbService.updateRaceStatus(race.id, from, to, extra);
+    if (!updateResult.success) return updateResult;
+
+    if (!updateResult.data) {
+      return { success: false, error: `Illegal race transition: race is no longer ${from}` };
+    }
+
+    await this.dbService.recordStatusTransitions([{ raceId: race.id, from, to, changedBy, reason }]);
+
+    const updated = updateResult.data;
+    this.wsService.broadcastToRace(race.id, {
+      type: 'race_status_changed',
+      raceId: race.id,
+      data: {
+        raceId: race.id,
+        from,
+        to,
+        actualStart: updated.actualStart,
+        finishTime: updated.finishTime,
+        reason,
+      },
+      timestamp: new Date(),
+    });
+
+    if (to === 'active') {
+      await this.moveParticipants(race.id, ['registered', 'ready'], 'racing', undefined, changedBy, 'Race started');
+    }
+
+    await this.notifyListeners({ raceId: race.id, from, to, changedBy, reason });
+
+    return { success: true, data: updated };
+  }
+
+  private async moveParticipants(
+    raceId: string,
+    from: ParticipantStatus[],
+    to: ParticipantStatus,
+    userId?: string,
+    changedBy?: string,
+    reason?: string
+  ): Promise<ApiResponse<any[]>> {
+    // Each source status is updated separately so the audit trail keeps the exact `from`
+    const moved: any[] = [];
+    for (const status of from.filter(s => this.canTransitionParticipant(s, to))) {
+      const result = await this.dbService.updateParticipantStatus(raceId, [status], to, userId);
+      if (!result.success) return result;
+
+      for (const row of result.data || []) {
+        await this.recordAndBroadcastParticipant(raceId, row.user_id, status, to, changedBy, reason);
+        moved.push(row);
+      }
+    }
+
+    return { success: true, data: moved };
+  }
+
+  private async recordAndBroadcastParticipant(
+    raceId: string,
+    userId: string,
+    from: ParticipantStatus | null,
+    to: ParticipantStatus,
+    changedBy?: string,
+    reason?: string
+  ): Promise<void> {
+    await this.dbService.recordStatusTransitions([{ raceId, userId, from, to, changedBy, reason }]);
+
+    this.wsService.broadcastToRace(raceId, {
+      type: 'participant_status_changed',
+      raceId,
+      data: { raceId, userId, from, to, reason },
+      timestamp: new Date(),
+    });
+
+    await this.notifyListeners({ raceId, userId, from, to, changedBy, reason });
+  }
+
+  private async notifyListeners(event: LifecycleEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.error('Race lifecycle listener failed:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService } from './raceLifecycle';
+import { RaceJobsService } from './raceJobs';
+import { WaitlistService } from './waitlist';
+import { NotificationService } from './notifications';
+import { ApiResponse, RaceStatus } from '../types';
+import { LatLng } from '../utils/geo';
+
+// Details can change until the countdown begins
+const EDITABLE_STATUSES: RaceStatus[] = ['scheduled', 'staging'];
+
+export interface RaceChanges {
+  name?: string;
+  description?: string;
+  startTime?: string;
+  startLocation?: LatLng;
+  endLocation?: LatLng;
+  maxParticipants?: number;
+}
+
+const sameLocation = (a?: LatLng, b?: LatLng): boolean =>
+  !!a && !!b && a.lat === b.lat && a.lng === b.lng;
+
+// Organizer edits and cancellation, keeping participants, jobs and the waitlist in step
+export class RaceManagementService {
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService,
+    private raceJobs: RaceJobsService,
+    private waitlist: WaitlistService,
+    private notifications: NotificationService
+  ) {}
+
+  async updateRace(raceId: string, userId: string, changes: RaceChanges): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.createdBy !== userId) {
+      return { success: false, error: 'Only race creator can edit the race' };
+    }
+
+    if (!EDITABLE_STATUSES.includes(race.status)) {
+      return { success: false, error: `Illegal edit: race is ${race.status}` };
+    }
+
+    const entrants = race.participants.filter((p: any) => p.status !== 'withdrawn').length;
+    if (changes.maxParticipants !== undefined && changes.maxParticipants < entrants) {
+      return { success: false, error: `Invalid participant limit: ${entrants} participants have already joined` };
+    }
+
+    const startTime = changes.startTime ? new Date(changes.startTime) : undefined;
+    const timeChanged = !!startTime && startTime.getTime() !== race.startTime.getTime();
+    if (timeChanged && startTime!.getTime() <= Date.now()) {
+      return { success: false, error: 'Invalid start time: must be in the future' };
+    }
+
+    const fields: Record<string, any> = {};
+    if (changes.name !== undefined) fields.name = changes.name;
+    if (changes.description !== undefined) fields.description = changes.description;
+    if (changes.maxParticipants !== undefined) fields.max_participants = changes.maxParticipants;
+    if (timeChanged) fields.scheduled_start = startTime!.toISOString();
+
+    const moved: string[] = [];
+    if (timeChanged) moved.push('start time');
+    if (changes.startLocation && !sameLocation(changes.startLocation, race.startLocation)) {
+      fields.start_location = JSON.stringify(changes.startLocation);
+      moved.push('start location');
+    }
+    if (changes.endLocation && !sameLocation(changes.endLocation, race.endLocation)) {
+      fields.end_location = JSON.stringify(changes.endLocation);
+      moved.push('finish location');
+    }
+
+    const updateResult = await this.dbService.updateRace(raceId, fields, EDITABLE_STATUSES);
+    if (!updateResult.success) return updateResult;
+    if (!updateResult.data) {
+      return { success: false, error: 'Illegal edit: race is no longer editable' };
+    }
+
+    if (timeChanged) {
+      await this.raceJobs.unscheduleRace(raceId);
+      await this.raceJobs.scheduleRace(updateResult.data);
+
+      // Staged early for a start that has now moved back
+      if (race.status === 'staging') {
+        await this.lifecycle.transitionRace(raceId, 'scheduled', userId, 'Start time moved');
+      }
+    }
+
+    if (moved.length > 0) {
+      await this.requireReconfirmation(race, userId, moved);
+    }
+
+    if (changes.maxParticipants !== undefined && changes.maxParticipants > race.maxParticipants) {
+      await this.waitlist.promote(raceId);
+    }
+
+    const updated = await this.dbService.getRace(raceId);
+    this.wsService.broadcastToRace(raceId, {
+      type: 'race_updated',
+      raceId,
+      data: { raceId, race: updated.data, changed: moved },
+      timestamp: new Date(),
+    });
+
+    return updated;
+  }
+
+  async cancelRace(raceId: string, userId: string, reason: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.createdBy !== userId) {
+      return { success: false, error: 'Only race creator can cancel the race' };
+    }
+
+    const result = await this.lifecycle.transitionRace(raceId, 'cancelled', userId, reason);
+    if (!result.success) return result;
+
+    const queue = await this.dbService.getWaitlist(raceId);
+    const recipients = new Set<string>([
+      ...race.participants.filter((p: any) => p.status !== 'withdrawn').map((p: any) => p.user_id),
+      ...(queue.data || []).map(entry => entry.userId),
+    ]);
+    recipients.delete(userId);
+
+    await this.notifications.notify([...recipients].map(recipient => ({
+      userId: recipient,
+      type: 'race_update' as const,
+      title: 'Race cancelled',
+      message: `${race.name} was cancelled by the organizer: ${reason}`,
+      relatedUserId: userId,
+      relatedRaceId: raceId,
+    })));
+
+    return result;
+  }
+
+  // Everyone is told what moved; anyone who had already readied up has to do so again
+  private async requireReconfirmation(race: any, changedBy: string, moved: string[]): Promise<void> {
+    const reason = `Race ${moved.join(' and ')} changed`;
+
+    for (const participant of race.participants.filter((p: any) => p.status === 'ready')) {
+      const result = await this.lifecycle.transitionParticipant(race.id, participant.user_id, 'registered', changedBy, reason);
+      if (!result.success) {
+        console.error(`Failed to reset ${participant.user_id} to registered:`, result.error);
+      }
+    }
+
+    await this.notifications.notify(race.participants
+      .filter((p: any) => ['registered', 'ready'].includes(p.status) && p.user_id !== changedBy)
+      .map((p: any) => ({
+        userId: p.user_id,
+        type: 'race_update' as const,
+        title: 'Race details changed',
+        message: `The ${moved.join(' and ')} of ${race.name} changed. Please check the details and confirm you can still make it.`,
+        relatedUserId: changedBy,
+        relatedRaceId: race.id,
+      })));
+  }
+}
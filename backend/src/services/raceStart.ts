@@ -0,0 +1,265 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { TelemetryService } from './telemetry';
+import { JobSchedulerService } from './jobScheduler';
+import { ApiResponse, ScheduledJob, TelemetrySample } from '../types';
+import { haversineDistance, LatLng } from '../utils/geo';
+
+const COUNTDOWN_MS = parseInt(process.env.RACE_COUNTDOWN_MS || '5000');
+
+// A car counts as launched once it exceeds this speed (m/s) or moves this far (m) from where it staged
+const LAUNCH_SPEED_MPS = 1.5;
+const LAUNCH_DISTANCE_M = 3;
+
+const greenJobPrefix = (raceId: string): string => `race:${raceId}:race_green:`;
+
+interface StartState {
+  startAt?: number; // green light in server epoch ms
+  countdownTimer?: NodeJS.Timeout;
+  stagedAt: Map<string, LatLng>;
+  launched: Set<string>;
+  delays: Map<string, number>; // handicap ms after green before a lane's own light turns
+}
+
+export class RaceStartService {
+  private states: Map<string, StartState> = new Map();
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService,
+    private telemetry: TelemetryService,
+    private scheduler: JobSchedulerService
+  ) {
+    this.scheduler.register('race_green', job => this.greenFromJob(job));
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+    this.telemetry.onSamples(async (raceId, userId, samples) => {
+      for (const sample of samples) {
+        await this.trackLaunch(raceId, userId, sample);
+      }
+    });
+  }
+
+  async setReady(raceId: string, userId: string, ready: boolean): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    if (raceResult.data.status !== 'staging') {
+      return { success: false, error: `Illegal ready check: race is ${raceResult.data.status}` };
+    }
+
+    // Bracket racers stage with a dial-in; the tree is staggered from them
+    const participant = raceResult.data.participants.find((p: any) => p.user_id === userId);
+    if (ready && raceResult.data.bracketRacing && participant && participant.dial_in == null) {
+      return { success: false, error: 'Illegal ready check: declare a dial-in first' };
+    }
+
+    return this.lifecycle.transitionParticipant(raceId, userId, ready ? 'ready' : 'registered', userId);
+  }
+
+  // Creator triggers the countdown once every entrant has reported ready
+  async beginCountdown(raceId: string, userId: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.createdBy !== userId) {
+      return { success: false, error: 'Only race creator can start the race' };
+    }
+
+    const entrants = race.participants.filter((p: any) => p.status !== 'withdrawn');
+    if (race.status === 'staging') {
+      if (entrants.length === 0) {
+        return { success: false, error: 'Illegal countdown: race has no participants' };
+      }
+
+      const notReady = entrants.filter((p: any) => p.status !== 'ready');
+      if (notReady.length > 0) {
+        return { success: false, error: `Illegal countdown: ${notReady.length} participant(s) not ready` };
+      }
+    }
+
+    const result = await this.lifecycle.transitionRace(raceId, 'countdown', userId);
+    if (!result.success) return result;
+
+    const startAt = Date.now() + COUNTDOWN_MS;
+    const state = this.getState(raceId);
+    state.startAt = startAt;
+    state.launched.clear();
+    state.delays = await this.loadDelays(raceId);
+    state.countdownTimer = setTimeout(async () => {
+      try {
+        const green = await this.goGreen(raceId, startAt);
+        if (!green.success) console.error(`Failed to start race ${raceId}:`, green.error);
+      } catch (error) {
+        console.error(`Failed to start race ${raceId}:`, error);
+      }
+    }, COUNTDOWN_MS);
+
+    // The timer gives a punctual green; the job turns it if this process dies mid-countdown
+    const job = await this.scheduler.schedule({
+      type: 'race_green',
+      key: `${greenJobPrefix(raceId)}${startAt}`,
+      payload: { raceId, startAt },
+      runAt: new Date(startAt),
+    });
+    if (!job.success) {
+      console.error(`Failed to schedule green light for race ${raceId}:`, job.error);
+    }
+
+    this.wsService.broadcastToRace(raceId, {
+      type: 'race_countdown',
+      raceId,
+      data: {
+        raceId,
+        startAt,
+        countdownMs: COUNTDOWN_MS,
+        serverTime: Date.now(),
+        greenAt: this.greenAt(state),
+      },
+      timestamp: new Date(),
+    });
+
+    return {
+      success: true,
+      data: { ...result.data, startAt, countdownMs: COUNTDOWN_MS, greenAt: this.greenAt(state) },
+    };
+  }
+
+  async abortCountdown(raceId: string, userId: string, reason?: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    if (raceResult.data.createdBy !== userId) {
+      return { success: false, error: 'Only race creator can abort the countdown' };
+    }
+
+    return this.lifecycle.transitionRace(raceId, 'staging', userId, reason || 'Countdown aborted');
+  }
+
+  // Watches telemetry around the green light to record reaction time and flag jump starts
+  private async trackLaunch(raceId: string, userId: string, sample: TelemetrySample): Promise<void> {
+    const state = this.states.get(raceId);
+    if (!state?.startAt || state.launched.has(userId)) return;
+
+    const staged = state.stagedAt.get(userId);
+    if (!staged) {
+      state.stagedAt.set(userId, { lat: sample.lat, lng: sample.lng });
+    }
+
+    const moved = (sample.speed ?? 0) >= LAUNCH_SPEED_MPS
+      || (!!staged && haversineDistance(staged, sample) >= LAUNCH_DISTANCE_M);
+    if (!moved) return;
+
+    state.launched.add(userId);
+
+    // Negative reaction time means the car left before its green (a red light)
+    const greenAt = state.startAt + (state.delays.get(userId) ?? 0);
+    const reactionTime = Math.round(sample.timestamp - greenAt) / 1000;
+
+    const result = await this.dbService.updateParticipant(raceId, userId, { reaction_time: reactionTime });
+    if (!result.success) {
+      console.error('Failed to record reaction time:', result.error);
+    }
+
+    if (reactionTime < 0) {
+      this.wsService.broadcastToRace(raceId, {
+        type: 'jump_start',
+        raceId,
+        data: { raceId, userId, reactionTime },
+        timestamp: new Date(),
+      });
+    }
+  }
+
+  private async goGreen(raceId: string, startAt: number): Promise<ApiResponse<any>> {
+    // Whichever of the timer and the job gets here first turns the light
+    const state = this.states.get(raceId);
+    if (state?.countdownTimer) clearTimeout(state.countdownTimer);
+    if (state) state.countdownTimer = undefined;
+
+    const result = await this.lifecycle.transitionRace(raceId, 'active', undefined, 'Green light', new Date(startAt));
+    if (!result.success) return result;
+
+    this.wsService.sendRaceStartedNotification(raceId, startAt);
+    return result;
+  }
+
+  // Backstop for the countdown timer. Usually the race has gone green already and this is a no-op;
+  // after a restart it turns the light and picks up launch tracking from the original green.
+  private async greenFromJob(job: ScheduledJob): Promise<ApiResponse<any>> {
+    const { raceId, startAt } = job.payload;
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) return raceResult;
+
+    if (raceResult.data.status !== 'countdown') {
+      return { success: true, data: { skipped: `race is ${raceResult.data.status}` } };
+    }
+
+    const state = this.getState(raceId);
+    if (state.startAt && state.startAt !== startAt) {
+      return { success: true, data: { skipped: 'superseded by a later countdown' } };
+    }
+    if (!state.startAt) {
+      state.startAt = startAt;
+      state.delays = await this.loadDelays(raceId);
+    }
+
+    return this.goGreen(raceId, startAt);
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (event.userId) return;
+
+    // Countdown aborted: its green job must not fire
+    if (event.from === 'countdown' && event.to !== 'active') {
+      const cancelled = await this.scheduler.cancel(greenJobPrefix(event.raceId));
+      if (!cancelled.success) {
+        console.error(`Failed to cancel green light for race ${event.raceId}:`, cancelled.error);
+      }
+    }
+
+    const state = this.states.get(event.raceId);
+    if (!state) return;
+
+    // Countdown aborted or race over: stop the timer and forget launch tracking
+    if (event.from === 'countdown' && event.to !== 'active' || event.to === 'finished' || event.to === 'cancelled') {
+      if (state.countdownTimer) clearTimeout(state.countdownTimer);
+      this.states.delete(event.raceId);
+    }
+  }
+
+  // Handicap races hold quicker lanes back; everyone else goes on the race's green
+  private async loadDelays(raceId: string): Promise<Map<string, number>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    const delays = new Map<string, number>();
+    for (const participant of raceResult.data?.participants || []) {
+      const delay = Number(participant.handicap_delay || 0);
+      if (delay > 0) delays.set(participant.user_id, delay * 1000);
+    }
+    return delays;
+  }
+
+  // Per-lane green light in server epoch ms, only for lanes that start after the race's green
+  private greenAt(state: StartState): Record<string, number> {
+    const greenAt: Record<string, number> = {};
+    state.delays.forEach((delay, userId) => { greenAt[userId] = state.startAt! + delay; });
+    return greenAt;
+  }
+
+  private getState(raceId: string): StartState {
+    let state = this.states.get(raceId);
+    if (!state) {
+      state = { stagedAt: new Map(), launched: new Set(), delays: new Map() };
+      this.states.set(raceId, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,204 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { TelemetryService } from './telemetry';
+import { StandingsService } from './standings';
+import { ParticipantStatus, TelemetrySample } from '../types';
+import { buildPath, Path, projectOntoPath } from '../utils/geo';
+
+// A participant whose phone has sent nothing for this long is out of the race
+const SILENCE_DNF_MS = parseInt(process.env.DNF_SILENCE_MS || '60000');
+// ...as is one who stays further than this from the route for longer than the grace period
+const OFF_ROUTE_DNF_M = parseInt(process.env.DNF_OFF_ROUTE_M || '300');
+const OFF_ROUTE_GRACE_MS = parseInt(process.env.DNF_OFF_ROUTE_GRACE_MS || '30000');
+// Races still running after this are closed, with anyone left on track marked DNF
+const TIME_LIMIT_MS = parseInt(process.env.RACE_TIME_LIMIT_MINUTES || '120') * 60 * 1000;
+const CHECK_INTERVAL_MS = 5000;
+
+const TERMINAL_STATUSES: ParticipantStatus[] = ['finished', 'dnf', 'withdrawn'];
+
+interface Watched {
+  lastSeenAt: number; // server clock when the last batch arrived
+  lastSampleAt?: number;
+  segment?: number;
+  offRouteSince?: number;
+}
+
+interface Supervision {
+  startAt: number;
+  path: Path | null;
+  watched: Map<string, Watched>;
+  timer: NodeJS.Timeout;
+  checking: boolean;
+}
+
+export class RaceSupervisorService {
+  private races: Map<string, Supervision> = new Map();
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService,
+    private telemetry: TelemetryService,
+    private standings: StandingsService
+  ) {
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+    this.telemetry.onSamples((raceId, userId, samples) => this.handleSamples(raceId, userId, samples));
+  }
+
+  // Picks up races that were already active when the server started
+  async recover(): Promise<void> {
+    const result = await this.dbService.getRacesByStatus(['active']);
+    if (!result.success) {
+      console.error('Failed to recover active races:', result.error);
+      return;
+    }
+
+    for (const race of result.data || []) {
+      this.supervise(race);
+    }
+  }
+
+  stop(): void {
+    for (const supervision of this.races.values()) {
+      clearInterval(supervision.timer);
+    }
+    this.races.clear();
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (event.userId) {
+      if (TERMINAL_STATUSES.includes(event.to as ParticipantStatus)) {
+        this.races.get(event.raceId)?.watched.delete(event.userId);
+      }
+      return;
+    }
+
+    if (event.to === 'active') {
+      const raceResult = await this.dbService.getRace(event.raceId);
+      if (raceResult.success) this.supervise(raceResult.data);
+      return;
+    }
+
+    if (event.to === 'finished' || event.to === 'cancelled') {
+      this.unsupervise(event.raceId);
+    }
+
+    // Results carry each run's splits, so the drag timing slips go out with the final standings
+    if (event.to === 'finished') {
+      const [standings, results] = await Promise.all([
+        this.standings.getStandings(event.raceId),
+        this.dbService.getRaceResults(event.raceId),
+      ]);
+      this.wsService.sendRaceCompletedNotification(event.raceId, {
+        standings: standings.data || [],
+        results: results.data || [],
+        reason: event.reason,
+      });
+    }
+  }
+
+  private supervise(race: any): void {
+    if (this.races.has(race.id)) return;
+
+    const waypoints = race.route?.waypoints || [];
+    let path: Path | null = null;
+    if (waypoints.length >= 2) {
+      path = buildPath(waypoints, race.raceType === 'circuit');
+    } else if (race.raceType === 'drag' && race.startLocation && race.endLocation) {
+      // Without waypoints only a drag strip has a known line; street racers pick their own roads
+      path = buildPath([race.startLocation, race.endLocation]);
+    }
+
+    // Everyone gets a full silence window from now, so a restart doesn't DNF the whole field
+    const now = Date.now();
+    const watched = new Map<string, Watched>();
+    for (const participant of race.participants) {
+      if (TERMINAL_STATUSES.includes(participant.status)) continue;
+      watched.set(participant.user_id, { lastSeenAt: now });
+    }
+
+    this.races.set(race.id, {
+      startAt: race.actualStart ? race.actualStart.getTime() : now,
+      path,
+      watched,
+      timer: setInterval(() => this.check(race.id), CHECK_INTERVAL_MS),
+      checking: false,
+    });
+  }
+
+  private unsupervise(raceId: string): void {
+    const supervision = this.races.get(raceId);
+    if (!supervision) return;
+
+    clearInterval(supervision.timer);
+    this.races.delete(raceId);
+  }
+
+  private handleSamples(raceId: string, userId: string, samples: TelemetrySample[]): void {
+    const supervision = this.races.get(raceId);
+    const watched = supervision?.watched.get(userId);
+    if (!supervision || !watched) return;
+
+    watched.lastSeenAt = Date.now();
+
+    for (const sample of samples) {
+      if (watched.lastSampleAt !== undefined && sample.timestamp <= watched.lastSampleAt) continue;
+      watched.lastSampleAt = sample.timestamp;
+      if (!supervision.path) continue;
+
+      const projection = projectOntoPath(supervision.path, sample, watched.segment, OFF_ROUTE_DNF_M);
+      if (projection && projection.offset <= OFF_ROUTE_DNF_M + (sample.accuracy || 0)) {
+        watched.segment = projection.segment;
+        watched.offRouteSince = undefined;
+      } else if (watched.offRouteSince === undefined) {
+        watched.offRouteSince = sample.timestamp;
+      }
+    }
+  }
+
+  private async check(raceId: string): Promise<void> {
+    const supervision = this.races.get(raceId);
+    if (!supervision || supervision.checking) return;
+
+    supervision.checking = true;
+    try {
+      const now = Date.now();
+      const timedOut = now - supervision.startAt >= TIME_LIMIT_MS;
+      let retired = false;
+
+      for (const [userId, watched] of [...supervision.watched]) {
+        let reason: string | null = null;
+        if (timedOut) {
+          reason = 'Race time limit reached';
+        } else if (now - watched.lastSeenAt >= SILENCE_DNF_MS) {
+          reason = `No telemetry for ${Math.round((now - watched.lastSeenAt) / 1000)}s`;
+        } else if (watched.offRouteSince !== undefined && watched.lastSampleAt! - watched.offRouteSince >= OFF_ROUTE_GRACE_MS) {
+          reason = `More than ${OFF_ROUTE_DNF_M}m off route for ${Math.round((watched.lastSampleAt! - watched.offRouteSince) / 1000)}s`;
+        }
+        if (!reason) continue;
+
+        const result = await this.lifecycle.transitionParticipant(raceId, userId, 'dnf', undefined, reason);
+        if (result.success) {
+          retired = true;
+        } else if (result.error?.includes('Illegal') || result.error === 'User not in race') {
+          // Already finished or gone; either way there is nothing left to watch
+          supervision.watched.delete(userId);
+        } else {
+          // Still on track as far as we know, so the next check tries again
+          console.error(`Failed to mark ${userId} DNF in race ${raceId}:`, result.error);
+        }
+      }
+
+      if (timedOut) {
+        await this.lifecycle.transitionRace(raceId, 'finished', undefined, 'Race time limit reached');
+      } else if (retired) {
+        await this.lifecycle.completeIfAllDone(raceId);
+      }
+    } catch (error) {
+      console.error('Race supervisor check failed:', error);
+    } finally {
+      supervision.checking = false;
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { SupabaseService } from './database';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { DisputeService } from './disputes';
+import { ApiResponse, RatedRaceType, RatingHistoryEntry, SkillRating } from '../types';
+import {
+  DEFAULT_DEVIATION, DEFAULT_RATING, DEFAULT_VOLATILITY, PROVISIONAL_DEVIATION, inflateDeviation, rateGlicko2,
+} from '../utils/glicko';
+
+export const RATED_RACE_TYPES: RatedRaceType[] = ['drag', 'circuit', 'drift', 'time-trial'];
+
+// A driver's deviation grows by one step for every period they go without a rated race
+const RATING_PERIOD_MS = parseInt(process.env.RATING_PERIOD_DAYS || '7') * 24 * 60 * 60 * 1000;
+
+const unrated = (userId: string, raceType: RatedRaceType): SkillRating => ({
+  userId,
+  raceType,
+  rating: DEFAULT_RATING,
+  deviation: DEFAULT_DEVIATION,
+  volatility: DEFAULT_VOLATILITY,
+  racesRated: 0,
+  provisional: true,
+});
+
+// Glicko-2 ratings per race type. A finished race is one rating period for everyone in it,
+// scored as a head-to-head result against every other starter: finishing ahead is a win,
+// a shared position a draw. Non-finishers share last place. Reviews and dispute rulings that
+// change the results afterwards are rated in too.
+export class RatingService {
+  constructor(
+    private dbService: SupabaseService,
+    private lifecycle: RaceLifecycleService,
+    private disputes: DisputeService
+  ) {
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+    this.disputes.onResultsChanged(raceId => this.rate(raceId));
+  }
+
+  // Every rated race type for one user, unrated ones at the defaults
+  async getRatings(userId: string): Promise<ApiResponse<Record<RatedRaceType, SkillRating>>> {
+    const result = await this.dbService.getUserRatings([userId]);
+    if (!result.success) return result as ApiResponse<any>;
+
+    const ratings = {} as Record<RatedRaceType, SkillRating>;
+    for (const raceType of RATED_RACE_TYPES) {
+      const stored = result.data!.find(rating => rating.raceType === raceType);
+      ratings[raceType] = stored ? this.current(stored) : unrated(userId, raceType);
+    }
+    return { success: true, data: ratings };
+  }
+
+  // Current ratings for a field of drivers, e.g. to seed a bracket or pair up a match
+  async getFieldRatings(userIds: string[], raceType: RatedRaceType): Promise<ApiResponse<Map<string, SkillRating>>> {
+    const result = await this.dbService.getUserRatings(userIds, raceType);
+    if (!result.success) return result as ApiResponse<any>;
+
+    const ratings = new Map<string, SkillRating>();
+    for (const userId of userIds) {
+      const stored = result.data!.find(rating => rating.userId === userId);
+      ratings.set(userId, stored ? this.current(stored) : unrated(userId, raceType));
+    }
+    return { success: true, data: ratings };
+  }
+
+  async getHistory(userId: string, raceType?: RatedRaceType, limit?: number): Promise<ApiResponse<RatingHistoryEntry[]>> {
+    return this.dbService.getRatingHistory(userId, raceType, limit);
+  }
+
+  // Rates a finished race once no result is waiting on review. If a ruling or review changes the
+  // order later, the race is rated again from the same starting ratings, unless one of its drivers
+  // has been rated in a newer race since, which was scored off the old ratings.
+  async rateRace(raceId: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (!RATED_RACE_TYPES.includes(race.raceType)) {
+      return { success: true, data: { skipped: `${race.raceType} races are not rated` } };
+    }
+    if (race.status !== 'finished') {
+      return { success: true, data: { skipped: `race is ${race.status}` } };
+    }
+
+    const starters: string[] = race.participants
+      .filter((p: any) => p.status !== 'withdrawn')
+      .map((p: any) => p.user_id);
+    if (starters.length < 2) {
+      return { success: true, data: { skipped: 'fewer than 2 starters' } };
+    }
+
+    const resultsResult = await this.dbService.getRaceResults(raceId);
+    if (!resultsResult.success) return resultsResult;
+
+    const results = resultsResult.data || [];
+    if (results.some(result => result.reviewStatus === 'pending_review')) {
+      return { success: true, data: { skipped: 'results pending review' } };
+    }
+
+    // Only approved results are finishes; a rejected one ranks with the non-finishers
+    const finishers = results
+      .filter(result => result.reviewStatus === 'approved' && starters.includes(result.userId))
+      .sort((a, b) => a.position - b.position)
+      .map(result => result.userId);
+    const place = (userId: string): number => {
+      const index = finishers.indexOf(userId);
+      return index === -1 ? finishers.length + 1 : index + 1;
+    };
+
+    const ratedResult = await this.dbService.getRaceRatingHistory(raceId);
+    if (!ratedResult.success) return ratedResult;
+
+    const previous = ratedResult.data!;
+    let before: Map<string, SkillRating>;
+    if (previous.length === 0) {
+      const fieldResult = await this.getFieldRatings(starters, race.raceType);
+      if (!fieldResult.success) return fieldResult;
+      before = fieldResult.data!;
+    } else {
+      if (previous.every(entry => entry.position === place(entry.userId))) {
+        return { success: true, data: { skipped: 'already rated' } };
+      }
+
+      const restored = await this.ratingsBefore(race.raceType, starters, previous);
+      if (!restored.success) return restored;
+      if (!restored.data) {
+        return { success: true, data: { skipped: 'drivers have been rated in newer races' } };
+      }
+      before = restored.data;
+    }
+
+    const ratedAt = race.finishTime || new Date();
+    const updated: SkillRating[] = [];
+    const history: Omit<RatingHistoryEntry, 'id' | 'createdAt'>[] = [];
+
+    for (const userId of starters) {
+      const player = before.get(userId)!;
+      const games = starters
+        .filter(opponent => opponent !== userId)
+        .map(opponent => ({
+          opponent: before.get(opponent)!,
+          score: place(userId) < place(opponent) ? 1 : place(userId) === place(opponent) ? 0.5 : 0,
+        }));
+
+      const next = rateGlicko2(player, games);
+      updated.push({
+        ...player,
+        ...next,
+        racesRated: player.racesRated + 1,
+        provisional: next.deviation > PROVISIONAL_DEVIATION,
+        lastRatedAt: ratedAt,
+      });
+      history.push({
+        userId,
+        raceId,
+        raceType: race.raceType,
+        ratingBefore: player.rating,
+        ratingAfter: next.rating,
+        deviationBefore: player.deviation,
+        deviationAfter: next.deviation,
+        volatilityBefore: player.volatility,
+        position: place(userId),
+        fieldSize: starters.length,
+      });
+    }
+
+    // History goes first: on a first rating its UNIQUE(user_id, race_id) stops a race being rated twice
+    const historyResult = await this.dbService.recordRatingHistory(history, previous.length > 0);
+    if (!historyResult.success) return historyResult;
+
+    const saved = await this.dbService.upsertUserRatings(updated);
+    if (!saved.success) return saved;
+
+    return { success: true, data: updated };
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (!event.userId && event.to === 'finished') {
+      await this.rate(event.raceId);
+    }
+  }
+
+  private async rate(raceId: string): Promise<void> {
+    const result = await this.rateRace(raceId);
+    if (!result.success) {
+      console.error(`Failed to rate race ${raceId}:`, result.error);
+    }
+  }
+
+  // The ratings a rated race started from, rebuilt from its history. Null when a driver's rating has
+  // moved on since, i.e. their latest rated race is a different one.
+  private async ratingsBefore(
+    raceType: RatedRaceType,
+    starters: string[],
+    previous: RatingHistoryEntry[]
+  ): Promise<ApiResponse<Map<string, SkillRating> | null>> {
+    const storedResult = await this.dbService.getUserRatings(starters, raceType);
+    if (!storedResult.success) return storedResult as ApiResponse<any>;
+
+    const before = new Map<string, SkillRating>();
+    for (const userId of starters) {
+      const entry = previous.find(e => e.userId === userId);
+      const stored = storedResult.data!.find(rating => rating.userId === userId);
+      if (!entry || !stored) return { success: true, data: null };
+
+      const latest = await this.dbService.getRatingHistory(userId, raceType, 1);
+      if (!latest.success) return latest as ApiResponse<any>;
+      if (latest.data![0]?.raceId !== entry.raceId) return { success: true, data: null };
+
+      before.set(userId, {
+        ...stored,
+        rating: entry.ratingBefore,
+        deviation: entry.deviationBefore,
+        volatility: entry.volatilityBefore ?? DEFAULT_VOLATILITY,
+        racesRated: stored.racesRated - 1,
+      });
+    }
+    return { success: true, data: before };
+  }
+
+  // Stored rating with the deviation grown for the rating periods since it was last updated
+  private current(stored: SkillRating): SkillRating {
+    const idle = stored.lastRatedAt ? Math.floor((Date.now() - stored.lastRatedAt.getTime()) / RATING_PERIOD_MS) : 0;
+    const inflated = inflateDeviation(stored, idle);
+    return { ...stored, deviation: inflated.deviation, provisional: inflated.deviation > PROVISIONAL_DEVIATION };
+  }
+}
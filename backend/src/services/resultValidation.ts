@@ -0,0 +1,235 @@
+import { SupabaseService } from './database';
+import { TelemetryService } from './telemetry';
+import { FinishData, ResultReview, TelemetrySample, Vehicle } from '../types';
+import { buildPath, haversineDistance, LatLng } from '../utils/geo';
+
+const G = 9.81;
+const MPH = 0.44704;
+
+// Nothing on street tyres pulls harder than this, whatever the spec sheet says
+const TRACTION_LIMIT = 1.5 * G;
+// Peak acceleration allowed relative to the vehicle's average 0-60 acceleration (launch peak plus GPS noise)
+const ACCELERATION_TOLERANCE = 2;
+// Allowed margin over the vehicle's listed top speed
+const TOP_SPEED_TOLERANCE = 1.15;
+// Absolute ceiling for implied speed between samples when the vehicle has no top speed listed (~360 km/h)
+const MAX_PLAUSIBLE_SPEED = 100;
+// Jumps shorter than this are treated as GPS noise rather than teleports
+const TELEPORT_MIN_JUMP_M = 30;
+
+const COVERAGE_SPACING_M = 25;
+const COVERAGE_RADIUS_M = 50;
+const MIN_ROUTE_COVERAGE = 0.8;
+const FINISH_RADIUS_M = 50;
+
+// Reported time may differ from the trace by this much before it is flagged
+const TIME_TOLERANCE_S = 2;
+const TIME_TOLERANCE_RATIO = 0.05;
+
+// Highest believable acceleration (m/s²) for the vehicle at a given speed
+const accelerationLimit = (vehicle: Vehicle | null, speed: number): number => {
+  let limit = TRACTION_LIMIT;
+  if (!vehicle) return limit;
+
+  const { acceleration: zeroToSixty, horsepower, weight } = vehicle.specs;
+  if (zeroToSixty > 0) {
+    limit = Math.min(limit, ((60 * MPH) / zeroToSixty) * ACCELERATION_TOLERANCE);
+  }
+
+  // Power limited above walking pace: a <= P / (m v)
+  if (horsepower > 0 && weight > 0 && speed > 5) {
+    const watts = horsepower * 745.7;
+    const kilograms = weight * 0.4536;
+    limit = Math.min(limit, (watts / (kilograms * speed)) * ACCELERATION_TOLERANCE);
+  }
+
+  return limit;
+};
+
+const speedLimit = (vehicle: Vehicle | null): number =>
+  vehicle?.specs.topSpeed ? vehicle.specs.topSpeed * MPH * TOP_SPEED_TOLERANCE : MAX_PLAUSIBLE_SPEED;
+
+// Device-reported speed where available, otherwise derived from consecutive positions
+const speeds = (trace: TelemetrySample[]): number[] =>
+  trace.map((sample, i) => {
+    if (sample.speed !== undefined) return sample.speed;
+    if (i === 0) return 0;
+
+    const previous = trace[i - 1];
+    const dt = (sample.timestamp - previous.timestamp) / 1000;
+    return dt > 0 ? haversineDistance(previous, sample) / dt : 0;
+  });
+
+export class ResultValidationService {
+  constructor(
+    private dbService: SupabaseService,
+    private telemetry: TelemetryService
+  ) {}
+
+  // `reported` is what the client claimed; null when the server detected the finish itself.
+  // `serverTimed` is set when a finish timer computed `finishData` from the trace.
+  async review(
+    race: any,
+    userId: string,
+    finishData: FinishData,
+    reported: FinishData | null,
+    serverTimed: boolean
+  ): Promise<ResultReview> {
+    const participant = race.participants.find((p: any) => p.user_id === userId);
+    const traceResult = await this.telemetry.getTrace(race.id, userId);
+    const trace = traceResult.data || [];
+
+    if (!traceResult.success || trace.length < 2) {
+      return { status: 'pending_review', reasons: ['No telemetry recorded for this run'] };
+    }
+
+    const vehicleResult = participant?.vehicle_id ? await this.dbService.getVehicle(participant.vehicle_id) : null;
+    const vehicle = vehicleResult?.success ? vehicleResult.data! : null;
+
+    // Handicap lanes are timed from their own green
+    const delay = Number(participant?.handicap_delay || 0) * 1000;
+    const startAt = race.actualStart ? race.actualStart.getTime() + delay : trace[0].timestamp;
+    const run = trace.filter(sample => sample.timestamp >= startAt);
+
+    const reasons = [
+      ...this.checkTeleports(run, vehicle),
+      ...this.checkAcceleration(run, vehicle),
+      ...this.checkCoverage(race, run),
+      ...this.checkTime(race, run, startAt, finishData, reported, serverTimed),
+    ];
+
+    return { status: reasons.length ? 'pending_review' : 'approved', reasons };
+  }
+
+  // The same physics and coverage checks for a run recorded outside a race, e.g. a time trial.
+  // `course` only needs the race fields the coverage check reads: route waypoints and end points.
+  reviewTrace(course: any, run: TelemetrySample[], vehicle: Vehicle | null): ResultReview {
+    const reasons = [
+      ...this.checkTeleports(run, vehicle),
+      ...this.checkAcceleration(run, vehicle),
+      ...this.checkCoverage(course, run),
+    ];
+
+    return { status: reasons.length ? 'pending_review' : 'approved', reasons };
+  }
+
+  private checkTeleports(run: TelemetrySample[], vehicle: Vehicle | null): string[] {
+    const limit = speedLimit(vehicle);
+    let jumps = 0;
+    let fastest = 0;
+
+    for (let i = 1; i < run.length; i++) {
+      const previous = run[i - 1];
+      const sample = run[i];
+      const distance = haversineDistance(previous, sample) - (previous.accuracy || 0) - (sample.accuracy || 0);
+      if (distance < TELEPORT_MIN_JUMP_M) continue;
+
+      const dt = (sample.timestamp - previous.timestamp) / 1000;
+      const implied = dt > 0 ? distance / dt : Infinity;
+      if (implied > limit) {
+        jumps++;
+        fastest = Math.max(fastest, implied);
+      }
+    }
+
+    const reasons: string[] = [];
+    if (jumps > 0) {
+      reasons.push(`Position jumped ${jumps} time(s), implying up to ${isFinite(fastest) ? `${Math.round(fastest)} m/s` : 'instant travel'}`);
+    }
+
+    const topSpeed = speeds(run).reduce((max, speed) => Math.max(max, speed), 0);
+    if (topSpeed > limit) {
+      reasons.push(`Speed of ${Math.round(topSpeed)} m/s exceeds what the vehicle can reach`);
+    }
+
+    return reasons;
+  }
+
+  private checkAcceleration(run: TelemetrySample[], vehicle: Vehicle | null): string[] {
+    const speed = speeds(run);
+    // Derived speeds are noisier, so they are averaged over a longer window
+    const windowMs = run.every(sample => sample.speed !== undefined) ? 1000 : 2000;
+
+    let worst = 0;
+    let worstLimit = 0;
+    for (let i = 0, j = 0; i < run.length; i++) {
+      while (j < run.length && run[j].timestamp - run[i].timestamp < windowMs) j++;
+      if (j >= run.length) break;
+
+      const acceleration = (speed[j] - speed[i]) / ((run[j].timestamp - run[i].timestamp) / 1000);
+      const limit = accelerationLimit(vehicle, speed[i]);
+      if (acceleration > limit && acceleration - limit > worst - worstLimit) {
+        worst = acceleration;
+        worstLimit = limit;
+      }
+    }
+
+    return worst > 0
+      ? [`Acceleration of ${(worst / G).toFixed(2)} g exceeds the vehicle's limit of ${(worstLimit / G).toFixed(2)} g`]
+      : [];
+  }
+
+  // Points spaced along the route must each have a sample nearby
+  private checkCoverage(race: any, run: TelemetrySample[]): string[] {
+    const waypoints: LatLng[] = race.route?.waypoints?.length >= 2
+      ? race.route.waypoints
+      : [race.startLocation, race.endLocation].filter(Boolean);
+
+    const path = buildPath(waypoints, race.raceType === 'circuit');
+    if (path.length < COVERAGE_SPACING_M) return [];
+
+    const checkpoints: LatLng[] = [];
+    for (let i = 0; i < path.points.length - 1; i++) {
+      const a = path.points[i];
+      const b = path.points[i + 1];
+      const steps = Math.max(1, Math.ceil((path.cumulative[i + 1] - path.cumulative[i]) / COVERAGE_SPACING_M));
+      for (let step = 0; step < steps; step++) {
+        checkpoints.push({ lat: a.lat + (b.lat - a.lat) * (step / steps), lng: a.lng + (b.lng - a.lng) * (step / steps) });
+      }
+    }
+    checkpoints.push(path.points[path.points.length - 1]);
+
+    // Thin the trace to roughly one point per spacing to keep this cheap on long runs
+    const thinned: TelemetrySample[] = [];
+    for (const sample of run) {
+      const last = thinned[thinned.length - 1];
+      if (!last || haversineDistance(last, sample) >= COVERAGE_SPACING_M / 2) thinned.push(sample);
+    }
+
+    const covered = checkpoints.filter(point =>
+      thinned.some(sample => haversineDistance(point, sample) <= COVERAGE_RADIUS_M + (sample.accuracy || 0))).length;
+    const coverage = covered / checkpoints.length;
+
+    return coverage < MIN_ROUTE_COVERAGE
+      ? [`Telemetry covers only ${Math.round(coverage * 100)}% of the route`]
+      : [];
+  }
+
+  private checkTime(
+    race: any,
+    run: TelemetrySample[],
+    startAt: number,
+    finishData: FinishData,
+    reported: FinishData | null,
+    serverTimed: boolean
+  ): string[] {
+    if (!reported) return [];
+
+    // Timed race types already computed the result from the trace; otherwise time it to the finish location
+    let computed: number | null = serverTimed ? finishData.totalTime : null;
+    if (computed === null && race.endLocation) {
+      // Ignore the finish area until the car has left it, so loops that end where they start still work
+      const departure = run.findIndex(sample => haversineDistance(race.endLocation, sample) > FINISH_RADIUS_M * 2);
+      const arrival = departure < 0 ? undefined : run.slice(departure)
+        .find(sample => haversineDistance(race.endLocation, sample) <= FINISH_RADIUS_M);
+      if (!arrival) return ['Telemetry never reaches the finish'];
+      computed = (arrival.timestamp - startAt) / 1000;
+    }
+    if (computed === null) return [];
+
+    const tolerance = Math.max(TIME_TOLERANCE_S, computed * TIME_TOLERANCE_RATIO);
+    return Math.abs(reported.totalTime - computed) > tolerance
+      ? [`Reported time ${reported.totalTime}s differs from the ${computed.toFixed(3)}s measured from telemetry`]
+      : [];
+  }
+}
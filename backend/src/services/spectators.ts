@@ -0,0 +1,150 @@
+import { SupabaseService } from './database';
+import { WebSocketService, SPECTATOR_DELAY_MS } from './websocket';
+import { StandingsService } from './standings';
+import { ApiResponse } from '../types';
+
+const SPECTATABLE_STATUSES = ['scheduled', 'staging', 'countdown', 'active'];
+// Races a single connection can watch at once
+const MAX_SPECTATED_RACES = parseInt(process.env.SPECTATOR_MAX_RACES || '3');
+// Spectate requests a connection can make per minute
+const MAX_SPECTATE_REQUESTS_PER_MINUTE = parseInt(process.env.SPECTATOR_REQUESTS_PER_MINUTE || '10');
+
+// Read-only viewers of public races. Race rooms are for participants only (and the organizer);
+// anyone else watches from a spectator room that gets the same broadcasts a few seconds late.
+export class SpectatorService {
+  private requests: Map<string, number[]> = new Map();
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private standings: StandingsService
+  ) {
+    this.wsService.useRoomGuard((userId, raceId) => this.checkParticipant(userId, raceId));
+    this.wsService.onDisconnect(connectionId => this.requests.delete(connectionId));
+  }
+
+  async spectate(connectionId: string, raceId: string): Promise<ApiResponse<any>> {
+    if (!this.allowRequest(connectionId)) {
+      return { success: false, error: 'Too many spectate requests, try again in a minute' };
+    }
+
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.isPrivate) {
+      return { success: false, error: 'Only public races can be spectated' };
+    }
+    if (!SPECTATABLE_STATUSES.includes(race.status)) {
+      return { success: false, error: `Illegal spectate: race is ${race.status}` };
+    }
+    if (this.wsService.isInRaceRoom(connectionId, raceId)) {
+      return { success: false, error: 'Illegal spectate: already in the race room' };
+    }
+
+    const watching = this.wsService.getSpectatedRaces(connectionId);
+    if (!watching.includes(raceId) && watching.length >= MAX_SPECTATED_RACES) {
+      return { success: false, error: `Illegal spectate: already watching ${MAX_SPECTATED_RACES} races` };
+    }
+
+    const snapshot = await this.snapshot(race);
+    const viewers = this.wsService.addSpectator(connectionId, raceId);
+
+    // Sent as late as the broadcasts that follow it, so the snapshot is no fresher than the live feed.
+    // A viewer who stopped watching (or disconnected) in the meantime doesn't get it.
+    setTimeout(() => {
+      if (!this.wsService.isSpectating(connectionId, raceId)) return;
+      this.wsService.sendToConnection(connectionId, {
+        type: 'spectating',
+        raceId,
+        data: { ...snapshot, viewers, delayMs: SPECTATOR_DELAY_MS },
+        timestamp: new Date(),
+      });
+    }, SPECTATOR_DELAY_MS);
+
+    return { success: true };
+  }
+
+  async stopSpectating(connectionId: string, raceId: string): Promise<ApiResponse<any>> {
+    this.wsService.removeSpectator(connectionId, raceId);
+    this.wsService.sendToConnection(connectionId, {
+      type: 'stopped_spectating',
+      raceId,
+      timestamp: new Date(),
+    });
+    return { success: true };
+  }
+
+  // The race as a newly arrived spectator needs it: field, vehicles and current standings
+  private async snapshot(race: any): Promise<any> {
+    const participants = [];
+    for (const participant of race.participants.filter((p: any) => p.status !== 'withdrawn')) {
+      const userResult = await this.dbService.getUserById(participant.user_id);
+      const vehicleResult = participant.vehicle_id ? await this.dbService.getVehicle(participant.vehicle_id) : null;
+      const vehicle = vehicleResult?.success ? vehicleResult.data! : null;
+
+      participants.push({
+        userId: participant.user_id,
+        username: userResult.data?.username,
+        status: participant.status,
+        vehicle: vehicle
+          ? { name: vehicle.name, make: vehicle.make, model: vehicle.model, year: vehicle.year, color: vehicle.color }
+          : null,
+        vehicleClass: participant.vehicle_class || null,
+      });
+    }
+
+    const standingsResult = ['countdown', 'active'].includes(race.status)
+      ? await this.standings.getStandings(race.id)
+      : null;
+
+    return {
+      race: {
+        id: race.id,
+        name: race.name,
+        raceType: race.raceType,
+        status: race.status,
+        startTime: race.startTime,
+        actualStart: race.actualStart,
+        route: race.route,
+      },
+      participants,
+      standings: standingsResult?.data || [],
+    };
+  }
+
+  private async checkParticipant(userId: string | undefined, raceId: string): Promise<ApiResponse> {
+    if (!userId) {
+      return { success: false, error: 'Only race participants can join the race room' };
+    }
+
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    const isParticipant = race.participants.some((p: any) => p.user_id === userId && p.status !== 'withdrawn');
+    if (race.createdBy !== userId && !isParticipant) {
+      return { success: false, error: 'Only race participants can join the race room; spectate it instead' };
+    }
+
+    return { success: true };
+  }
+
+  // Sliding one-minute window per connection
+  private allowRequest(connectionId: string): boolean {
+    const now = Date.now();
+    const recent = (this.requests.get(connectionId) || []).filter(at => now - at < 60000);
+    if (recent.length >= MAX_SPECTATE_REQUESTS_PER_MINUTE) {
+      this.requests.set(connectionId, recent);
+      return false;
+    }
+
+    recent.push(now);
+    this.requests.set(connectionId, recent);
+    return true;
+  }
+}
@@ -0,0 +1,294 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { TelemetryService } from './telemetry';
+import { LapTimingService } from './lapTiming';
+import { ApiResponse, ParticipantStatus, RaceGap, StandingEntry, TelemetrySample } from '../types';
+import { buildPath, haversineDistance, Path, projectOntoPath } from '../utils/geo';
+
+const STANDINGS_INTERVAL_MS = parseInt(process.env.STANDINGS_INTERVAL_MS || '1000');
+// How far back each runner's (distance, time) trail is kept for time gaps
+const HISTORY_MS = 10 * 60 * 1000;
+// Start and end closer than this are the same spot (a circuit), so they don't make a usable path
+const MIN_PATH_LENGTH_M = 20;
+
+const TERMINAL_STATUSES: ParticipantStatus[] = ['finished', 'dnf', 'withdrawn'];
+
+interface Runner {
+  status: ParticipantStatus;
+  distance: number;
+  odometer: number;
+  segment?: number;
+  last?: TelemetrySample;
+  history: { distance: number; at: number }[];
+  finishedAt?: number;
+}
+
+interface LiveRace {
+  path: Path | null;
+  circuit: boolean;
+  totalLaps: number;
+  startAt: number;
+  runners: Map<string, Runner>;
+  lastSentAt: number;
+  timer?: NodeJS.Timeout;
+}
+
+// When the runner was last at `distance`, interpolated along its trail
+const timeAtDistance = (runner: Runner, distance: number): number | null => {
+  const history = runner.history;
+  for (let i = 0; i < history.length; i++) {
+    if (history[i].distance < distance) continue;
+    if (i === 0) return history[0].distance === distance ? history[0].at : null;
+
+    const prev = history[i - 1];
+    const next = history[i];
+    const fraction = (distance - prev.distance) / (next.distance - prev.distance);
+    return prev.at + fraction * (next.at - prev.at);
+  }
+  return null;
+};
+
+const round = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+export class StandingsService {
+  private races: Map<string, LiveRace> = new Map();
+  private loading: Map<string, Promise<LiveRace | null>> = new Map();
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService,
+    private telemetry: TelemetryService,
+    private lapTiming: LapTimingService
+  ) {
+    this.telemetry.onSamples((raceId, userId, samples) => this.handleSamples(raceId, userId, samples));
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+  }
+
+  async getStandings(raceId: string): Promise<ApiResponse<StandingEntry[]>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.status === 'finished') {
+      return { success: true, data: this.finalStandings(race) };
+    }
+
+    const live = await this.getLiveRace(raceId);
+    return { success: true, data: live ? this.rank(raceId, live) : [] };
+  }
+
+  private async handleSamples(raceId: string, userId: string, samples: TelemetrySample[]): Promise<void> {
+    const live = await this.getLiveRace(raceId);
+    if (!live) return;
+
+    let runner = live.runners.get(userId);
+    if (!runner) {
+      runner = { status: 'racing', distance: 0, odometer: 0, history: [] };
+      live.runners.set(userId, runner);
+    }
+
+    if (TERMINAL_STATUSES.includes(runner.status)) return;
+
+    for (const sample of samples) {
+      if (sample.timestamp < live.startAt) continue;
+      this.advance(raceId, userId, live, runner, sample);
+    }
+
+    this.schedule(raceId, live);
+  }
+
+  private advance(raceId: string, userId: string, live: LiveRace, runner: Runner, sample: TelemetrySample): void {
+    if (runner.last) {
+      runner.odometer += haversineDistance(runner.last, sample);
+    }
+    runner.last = sample;
+
+    const projection = live.path ? projectOntoPath(live.path, sample, runner.segment) : null;
+    if (live.path && projection) {
+      runner.segment = projection.segment;
+      const laps = live.circuit ? this.lapTiming.getCompletedLaps(raceId, userId) : 0;
+      runner.distance = laps * live.path.length + projection.along;
+    } else {
+      runner.distance = runner.odometer;
+    }
+
+    runner.history.push({ distance: runner.distance, at: sample.timestamp });
+    while (runner.history.length && runner.history[0].at < sample.timestamp - HISTORY_MS) {
+      runner.history.shift();
+    }
+  }
+
+  private handleTransition(event: LifecycleEvent): void {
+    const live = this.races.get(event.raceId);
+    if (!live) return;
+
+    if (event.userId) {
+      const runner = live.runners.get(event.userId);
+      if (!runner) return;
+
+      runner.status = event.to as ParticipantStatus;
+      if (event.to === 'finished') runner.finishedAt = runner.last?.timestamp ?? Date.now();
+      this.schedule(event.raceId, live);
+      return;
+    }
+
+    if (event.to === 'finished' || event.to === 'cancelled') {
+      if (live.timer) clearTimeout(live.timer);
+      this.broadcast(event.raceId, live);
+      this.races.delete(event.raceId);
+    }
+  }
+
+  // Throttled so the room gets at most one update per interval however fast samples arrive
+  private schedule(raceId: string, live: LiveRace): void {
+    if (live.timer) return;
+
+    const wait = Math.max(0, live.lastSentAt + STANDINGS_INTERVAL_MS - Date.now());
+    live.timer = setTimeout(() => {
+      live.timer = undefined;
+      this.broadcast(raceId, live);
+    }, wait);
+  }
+
+  private broadcast(raceId: string, live: LiveRace): void {
+    live.lastSentAt = Date.now();
+    this.wsService.broadcastToRace(raceId, {
+      type: 'standings_update',
+      raceId,
+      data: {
+        raceId,
+        standings: this.rank(raceId, live),
+        routeLength: live.path ? round(live.path.length * (live.circuit ? live.totalLaps : 1), 1) : null,
+      },
+      timestamp: new Date(),
+    });
+  }
+
+  // Finishers in finishing order, then everyone still racing by distance, then DNFs and withdrawals
+  private rank(raceId: string, live: LiveRace): StandingEntry[] {
+    const group = (runner: Runner): number =>
+      runner.status === 'finished' ? 0 : TERMINAL_STATUSES.includes(runner.status) ? 2 : 1;
+
+    const ordered = [...live.runners.entries()].sort(([, a], [, b]) =>
+      group(a) - group(b)
+      || (group(a) === 0 ? (a.finishedAt ?? 0) - (b.finishedAt ?? 0) : b.distance - a.distance));
+
+    const leader = ordered[0]?.[1];
+
+    return ordered.map(([userId, runner], index) => {
+      const racing = group(runner) < 2;
+      const completedLaps = live.circuit ? this.lapTiming.getCompletedLaps(raceId, userId) : 0;
+
+      return {
+        position: index + 1,
+        userId,
+        status: runner.status,
+        distance: round(runner.distance, 1),
+        lap: live.circuit ? Math.min(completedLaps + 1, live.totalLaps) : undefined,
+        speed: runner.last?.speed,
+        gapToLeader: index > 0 && racing ? this.gap(leader, runner) : null,
+        gapToNext: index > 0 && racing ? this.gap(ordered[index - 1][1], runner) : null,
+      };
+    });
+  }
+
+  private gap(ahead: Runner, behind: Runner): RaceGap {
+    const distance = round(Math.max(0, ahead.distance - behind.distance), 1);
+
+    if (ahead.finishedAt !== undefined && behind.finishedAt !== undefined) {
+      return { distance, time: round((behind.finishedAt - ahead.finishedAt) / 1000, 3) };
+    }
+
+    // Time gap: how long ago the car ahead was where the car behind is now
+    const passedAt = behind.last ? timeAtDistance(ahead, behind.distance) : null;
+    return {
+      distance,
+      time: passedAt === null ? null : round(Math.max(0, behind.last!.timestamp - passedAt) / 1000, 3),
+    };
+  }
+
+  // After the race, order and time gaps come from the recorded results
+  private finalStandings(race: any): StandingEntry[] {
+    const finishers = race.participants
+      .filter((p: any) => p.status === 'finished' && p.position)
+      .sort((a: any, b: any) => a.position - b.position);
+    const ordered = [...finishers, ...race.participants.filter((p: any) => !finishers.includes(p))];
+
+    const timeGap = (ahead: any, behind: any): RaceGap | null =>
+      finishers.includes(ahead) && finishers.includes(behind)
+        ? { distance: 0, time: round(Number(behind.final_time) - Number(ahead.final_time), 3) }
+        : null;
+
+    return ordered.map((p: any, index: number): StandingEntry => ({
+      position: index + 1,
+      userId: p.user_id,
+      status: p.status,
+      distance: 0,
+      gapToLeader: index > 0 ? timeGap(ordered[0], p) : null,
+      gapToNext: index > 0 ? timeGap(ordered[index - 1], p) : null,
+    }));
+  }
+
+  private async getLiveRace(raceId: string): Promise<LiveRace | null> {
+    const existing = this.races.get(raceId);
+    if (existing) return existing;
+
+    let load = this.loading.get(raceId);
+    if (!load) {
+      load = this.loadLiveRace(raceId);
+      this.loading.set(raceId, load);
+    }
+
+    try {
+      return await load;
+    } finally {
+      this.loading.delete(raceId);
+    }
+  }
+
+  private async loadLiveRace(raceId: string): Promise<LiveRace | null> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) return null;
+
+    // Standings only exist once the green light has set the common start
+    const race = raceResult.data;
+    if (race.status !== 'active' || !race.actualStart) return null;
+
+    const circuit = race.raceType === 'circuit';
+    const waypoints = race.route?.waypoints || [];
+    let path: Path | null = null;
+    if (waypoints.length >= 2) {
+      path = buildPath(waypoints, circuit);
+    } else if (!circuit && race.startLocation && race.endLocation) {
+      // Point-to-point and drag strips: straight line from start to finish
+      path = buildPath([race.startLocation, race.endLocation]);
+    }
+    if (path && path.length < MIN_PATH_LENGTH_M) path = null;
+
+    const live: LiveRace = {
+      path,
+      circuit,
+      totalLaps: race.route?.laps || 1,
+      startAt: race.actualStart.getTime(),
+      runners: new Map(),
+      lastSentAt: 0,
+    };
+
+    for (const participant of race.participants) {
+      if (participant.status === 'withdrawn') continue;
+      live.runners.set(participant.user_id, {
+        status: participant.status,
+        distance: 0,
+        odometer: 0,
+        history: [],
+      });
+    }
+
+    this.races.set(raceId, live);
+    return live;
+  }
+}
@@ -0,0 +1,283 @@
+import Joi from 'joi';
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService } from './raceLifecycle';
+import { ApiResponse, TelemetrySample, TelemetryIngestResult } from '../types';
+
+const MAX_SAMPLE_HZ = parseInt(process.env.TELEMETRY_MAX_HZ || '10');
+const MAX_POINTS_PER_RACE = parseInt(process.env.TELEMETRY_MAX_POINTS_PER_RACE || '50000');
+export const MAX_BATCH_SIZE = 200;
+// PostgREST caps a response at its max-rows setting (1000 by default), so never ask for more per page
+export const TELEMETRY_PAGE_SIZE = parseInt(process.env.TELEMETRY_PAGE_SIZE || '1000');
+
+const MIN_SAMPLE_INTERVAL_MS = 1000 / MAX_SAMPLE_HZ;
+// Upload budget in seconds of samples, so a client can flush a backlog after losing signal but not flood
+const BURST_SECONDS = 60;
+// Samples stamped further ahead of the server clock than this are rejected
+const MAX_CLOCK_SKEW_MS = 5000;
+
+const RECORDING_RACE_STATUSES = ['countdown', 'active'];
+const RECORDING_PARTICIPANT_STATUSES = ['ready', 'racing', 'finished'];
+
+const sampleSchema = Joi.object({
+  seq: Joi.number().integer().min(0).optional(),
+  timestamp: Joi.number().integer().min(0).optional(),
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required(),
+  speed: Joi.number().min(0).max(150).optional(),
+  heading: Joi.number().min(0).max(360).optional(),
+  accuracy: Joi.number().min(0).optional(),
+});
+
+const batchSchema = Joi.array().items(sampleSchema).min(1).max(MAX_BATCH_SIZE).required();
+
+// Samples may omit seq (assigned server-side) and timestamp (defaults to arrival time)
+export type TelemetryInput = Omit<TelemetrySample, 'seq' | 'timestamp'> & { seq?: number; timestamp?: number };
+
+// Milliseconds to seconds, to the millisecond, the way timings are reported
+export const seconds = (ms: number): number => Number((ms / 1000).toFixed(3));
+
+// Index of the last sample at or before `time`, clamped to the trace
+export const sampleIndexAt = (trace: TelemetrySample[], time: number): number => {
+  let low = 0;
+  let high = trace.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (trace[mid].timestamp <= time) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+type TelemetryListener = (raceId: string, userId: string, samples: TelemetrySample[]) => void | Promise<void>;
+
+interface ParticipantStream {
+  lastSeq: number;
+  lastTimestamp: number;
+  tokens: number;
+  refilledAt: number;
+}
+
+export class TelemetryService {
+  private streams: Map<string, ParticipantStream> = new Map();
+  private raceCounts: Map<string, number> = new Map();
+  private queues: Map<string, Promise<unknown>> = new Map();
+  private listeners: TelemetryListener[] = [];
+
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService
+  ) {
+    this.lifecycle.onTransition(event => {
+      if (!event.userId && (event.to === 'finished' || event.to === 'cancelled')) {
+        this.release(event.raceId);
+      }
+    });
+  }
+
+  // Called with every batch of newly stored samples, in timestamp order
+  onSamples(listener: TelemetryListener): void {
+    this.listeners.push(listener);
+  }
+
+  async ingest(raceId: string, userId: string, samples: TelemetryInput[]): Promise<ApiResponse<TelemetryIngestResult>> {
+    const { error: validationError, value } = batchSchema.validate(samples);
+    if (validationError) {
+      return { success: false, error: `Invalid telemetry: ${validationError.details[0].message}` };
+    }
+
+    // One batch at a time per participant so sequence and rate tracking see a consistent stream
+    return this.serialize(`${raceId}:${userId}`, () => this.store(raceId, userId, value));
+  }
+
+  async getReplay(raceId: string, userId: string, fromSeq?: number, limit?: number): Promise<ApiResponse<TelemetrySample[]>> {
+    return this.dbService.getTelemetry(raceId, userId, fromSeq, limit);
+  }
+
+  // The participant's whole stored trace, fetched page by page. A short page doesn't mean the end:
+  // the server may return fewer rows than asked for, so only an empty page stops the loop.
+  async getTrace(raceId: string, userId: string): Promise<ApiResponse<TelemetrySample[]>> {
+    const trace: TelemetrySample[] = [];
+    for (;;) {
+      const page = await this.dbService.getTelemetry(raceId, userId, trace.length ? trace[trace.length - 1].seq + 1 : 0, TELEMETRY_PAGE_SIZE);
+      if (!page.success) return page;
+      if (!page.data?.length) break;
+
+      trace.push(...page.data);
+    }
+
+    return { success: true, data: trace };
+  }
+
+  private async store(raceId: string, userId: string, input: TelemetryInput[]): Promise<ApiResponse<TelemetryIngestResult>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    const participant = race.participants.find((p: any) => p.user_id === userId);
+    if (!participant) {
+      return { success: false, error: 'User not in race' };
+    }
+
+    if (!RECORDING_RACE_STATUSES.includes(race.status)) {
+      return { success: false, error: `Illegal telemetry: race is ${race.status}` };
+    }
+
+    if (!RECORDING_PARTICIPANT_STATUSES.includes(participant.status)) {
+      return { success: false, error: `Illegal telemetry: participant is ${participant.status}` };
+    }
+
+    const streamResult = await this.getStream(raceId, userId);
+    if (!streamResult.success) return streamResult as ApiResponse<any>;
+    const stream = streamResult.data!;
+
+    const countResult = await this.getRaceCount(raceId);
+    if (!countResult.success) return countResult as ApiResponse<any>;
+    const raceCount = countResult.data!;
+
+    const now = Date.now();
+    this.refill(stream, now);
+
+    const result: TelemetryIngestResult = { accepted: 0, duplicates: 0, throttled: 0, rejected: 0 };
+    const ordered = input
+      .map(sample => ({ ...sample, timestamp: sample.timestamp ?? now }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const batch: TelemetrySample[] = [];
+    let nextSeq = stream.lastSeq + 1;
+    let lastTimestamp = stream.lastTimestamp;
+    let capped = false;
+
+    for (const sample of ordered) {
+      if (sample.timestamp > now + MAX_CLOCK_SKEW_MS) {
+        result.rejected++;
+        continue;
+      }
+
+      if (sample.seq !== undefined && sample.seq < nextSeq) {
+        result.duplicates++;
+        continue;
+      }
+
+      if (sample.timestamp - lastTimestamp < MIN_SAMPLE_INTERVAL_MS || stream.tokens < 1) {
+        result.throttled++;
+        continue;
+      }
+
+      if (raceCount + batch.length >= MAX_POINTS_PER_RACE) {
+        capped = true;
+        result.throttled++;
+        continue;
+      }
+
+      const seq = sample.seq ?? nextSeq;
+      batch.push({ ...sample, seq });
+      stream.tokens -= 1;
+      nextSeq = seq + 1;
+      lastTimestamp = sample.timestamp;
+    }
+
+    if (capped && batch.length === 0) {
+      return { success: false, error: 'Telemetry limit reached for this race' };
+    }
+
+    const inserted = await this.dbService.insertTelemetry(raceId, userId, batch);
+    if (!inserted.success) return inserted as ApiResponse<any>;
+
+    const stored = (inserted.data || []).sort((a, b) => a.timestamp - b.timestamp);
+    result.accepted = stored.length;
+    result.duplicates += batch.length - stored.length;
+
+    if (batch.length > 0) {
+      stream.lastSeq = nextSeq - 1;
+      stream.lastTimestamp = lastTimestamp;
+    }
+    this.raceCounts.set(raceId, raceCount + stored.length);
+
+    if (stored.length > 0) {
+      const latest = stored[stored.length - 1];
+      this.wsService.sendLocationUpdate(raceId, userId, {
+        lat: latest.lat,
+        lng: latest.lng,
+        heading: latest.heading,
+        speed: latest.speed,
+      });
+
+      await this.notifyListeners(raceId, userId, stored);
+    }
+
+    return { success: true, data: result };
+  }
+
+  private async getStream(raceId: string, userId: string): Promise<ApiResponse<ParticipantStream>> {
+    const key = `${raceId}:${userId}`;
+    const existing = this.streams.get(key);
+    if (existing) {
+      return { success: true, data: existing };
+    }
+
+    // Resume after a restart from the last stored sample
+    const lastResult = await this.dbService.getLastTelemetrySample(raceId, userId);
+    if (!lastResult.success) return lastResult as ApiResponse<any>;
+
+    const stream: ParticipantStream = {
+      lastSeq: lastResult.data?.seq ?? -1,
+      lastTimestamp: lastResult.data?.timestamp ?? 0,
+      tokens: MAX_SAMPLE_HZ * BURST_SECONDS,
+      refilledAt: Date.now(),
+    };
+    this.streams.set(key, stream);
+
+    return { success: true, data: stream };
+  }
+
+  private async getRaceCount(raceId: string): Promise<ApiResponse<number>> {
+    const cached = this.raceCounts.get(raceId);
+    if (cached !== undefined) {
+      return { success: true, data: cached };
+    }
+
+    const countResult = await this.dbService.countRaceTelemetry(raceId);
+    if (countResult.success) {
+      this.raceCounts.set(raceId, countResult.data!);
+    }
+
+    return countResult;
+  }
+
+  private refill(stream: ParticipantStream, now: number): void {
+    const capacity = MAX_SAMPLE_HZ * BURST_SECONDS;
+    stream.tokens = Math.min(capacity, stream.tokens + ((now - stream.refilledAt) / 1000) * MAX_SAMPLE_HZ);
+    stream.refilledAt = now;
+  }
+
+  private serialize<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) || Promise.resolve();
+    const run = previous.then(task, task);
+    this.queues.set(key, run.catch(() => undefined));
+    return run;
+  }
+
+  private async notifyListeners(raceId: string, userId: string, samples: TelemetrySample[]): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(raceId, userId, samples);
+      } catch (error) {
+        console.error('Telemetry listener failed:', error);
+      }
+    }
+  }
+
+  private release(raceId: string): void {
+    this.raceCounts.delete(raceId);
+    for (const key of [...this.streams.keys(), ...this.queues.keys()]) {
+      if (key.startsWith(`${raceId}:`)) {
+        this.streams.delete(key);
+        this.queues.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,334 @@
+import { SupabaseService } from './database';
+import { ResultValidationService } from './resultValidation';
+import { VehicleClassService } from './vehicleClasses';
+import { gateCrossing } from './lapTiming';
+import { seconds } from './telemetry';
+import {
+  ApiResponse, LeaderboardEntry, LeaderboardView, ReviewStatus, RouteGate, RouteRun, SavedRoute, TelemetrySample,
+  TrialRoute, VehicleClass,
+} from '../types';
+import { buildPath, LatLng } from '../utils/geo';
+
+// On a loop the start and finish are the same gate; a crossing sooner than this after the start is jitter
+const MIN_RUN_MS = parseInt(process.env.MIN_LAP_MS || '10000');
+const DEFAULT_LEADERBOARD_SIZE = 50;
+// A run is uploaded in one go once the driver is done, so this caps a trace at roughly an hour at 5 Hz
+export const MAX_RUN_SAMPLES = 20000;
+
+export interface TimedRun {
+  startedAt: number; // epoch ms at the start gate
+  elapsedTime: number; // seconds
+  splits: number[]; // seconds from the start gate at each checkpoint
+  trace: TelemetrySample[]; // samples from just before the start gate to just after the finish
+}
+
+export interface ReviewedRun extends TimedRun {
+  vehicleId: string;
+  vehicleClass: VehicleClass | null;
+  reviewStatus: ReviewStatus;
+  reviewReasons: string[];
+}
+
+const gateLabel = (gate: RouteGate, fallback: string): string => gate.name || fallback;
+
+const gatePoint = (gate: RouteGate): LatLng => gate.type === 'line'
+  ? { lat: (gate.a.lat + gate.b.lat) / 2, lng: (gate.a.lng + gate.b.lng) / 2 }
+  : gate.center;
+
+// Monday 00:00 UTC of the current week
+const startOfWeek = (now: Date): Date => {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+};
+
+// Where a driver is along the route: start time, checkpoint splits so far (ms from the start),
+// and the index of the sample just before the start crossing
+export interface RunProgress {
+  startAt: number | null;
+  startIndex: number;
+  splits: number[];
+  finishAt: number | null;
+}
+
+export const newRunProgress = (): RunProgress => ({ startAt: null, startIndex: 0, splits: [], finishAt: null });
+
+// Advances timing over the segment between two consecutive samples (`index` is the later one's)
+// and returns the gate crossed, if any. Crossing the start again before the first checkpoint
+// restarts the run, so a driver can roll through the start as many times as they like before committing.
+export const stepRun = (
+  route: TrialRoute,
+  progress: RunProgress,
+  from: TelemetrySample,
+  to: TelemetrySample,
+  index: number
+): 'start' | 'checkpoint' | 'finish' | null => {
+  if (progress.finishAt !== null) return null;
+
+  if (progress.startAt !== null && progress.splits.length === route.checkpoints.length) {
+    const at = gateCrossing(route.finish, from, to);
+    if (at !== null && at - progress.startAt >= MIN_RUN_MS) {
+      progress.finishAt = at;
+      return 'finish';
+    }
+  }
+
+  if (progress.splits.length === 0) {
+    const at = gateCrossing(route.start, from, to);
+    if (at !== null) {
+      progress.startAt = at;
+      progress.startIndex = index - 1;
+      return 'start';
+    }
+  }
+
+  if (progress.startAt !== null && progress.splits.length < route.checkpoints.length) {
+    const at = gateCrossing(route.checkpoints[progress.splits.length], from, to);
+    if (at !== null) {
+      progress.splits.push(at - progress.startAt);
+      return 'checkpoint';
+    }
+  }
+
+  return null;
+};
+
+// Why a trace that never reached the finish doesn't count
+export const incompleteRun = (route: TrialRoute, progress: RunProgress): string => {
+  if (progress.startAt === null) {
+    return `Incomplete run: telemetry never crosses ${gateLabel(route.start, 'the start gate')}`;
+  }
+  if (progress.splits.length < route.checkpoints.length) {
+    const missed = route.checkpoints[progress.splits.length];
+    return `Incomplete run: telemetry misses ${gateLabel(missed, `checkpoint ${progress.splits.length + 1}`)}`;
+  }
+  return `Incomplete run: telemetry never crosses ${gateLabel(route.finish, 'the finish gate')}`;
+};
+
+// Times a recorded trace over the route: start gate, every checkpoint in order, then the finish
+export const timeRun = (route: TrialRoute, samples: TelemetrySample[]): ApiResponse<TimedRun> => {
+  const ordered = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  const progress = newRunProgress();
+
+  for (let i = 1; i < ordered.length; i++) {
+    if (stepRun(route, progress, ordered[i - 1], ordered[i], i) !== 'finish') continue;
+
+    const startAt = progress.startAt!;
+    return {
+      success: true,
+      data: {
+        startedAt: Math.round(startAt),
+        elapsedTime: seconds(progress.finishAt! - startAt),
+        splits: progress.splits.map(split => seconds(split)),
+        trace: ordered.slice(progress.startIndex, i + 1),
+      },
+    };
+  }
+
+  return { success: false, error: incompleteRun(route, progress) };
+};
+
+// Saved routes anyone can run whenever they like. A run is timed from its uploaded trace, goes
+// through the same plausibility checks as race results, and only approved runs are ranked.
+export class TimeTrialService {
+  constructor(
+    private dbService: SupabaseService,
+    private resultValidation: ResultValidationService,
+    private vehicleClasses: VehicleClassService
+  ) {}
+
+  async createRoute(
+    userId: string,
+    input: { name: string; description?: string; route: TrialRoute }
+  ): Promise<ApiResponse<SavedRoute>> {
+    const distance = input.route.waypoints.length >= 2 ? Number(buildPath(input.route.waypoints).length.toFixed(1)) : null;
+    return this.dbService.createSavedRoute({ ...input, createdBy: userId, distance });
+  }
+
+  async listRoutes(): Promise<ApiResponse<SavedRoute[]>> {
+    return this.dbService.getSavedRoutes();
+  }
+
+  async getRoute(routeId: string): Promise<ApiResponse<{ route: SavedRoute; record: LeaderboardEntry | null }>> {
+    const routeResult = await this.dbService.getSavedRoute(routeId);
+    if (!routeResult.success) {
+      return { success: false, error: 'Route not found' };
+    }
+
+    const board = await this.getLeaderboard(routeId, 'overall', { limit: 1 });
+    return { success: true, data: { route: routeResult.data!, record: board.data?.entries[0] || null } };
+  }
+
+  async submitRun(routeId: string, userId: string, samples: TelemetrySample[]): Promise<ApiResponse<any>> {
+    const routeResult = await this.dbService.getSavedRoute(routeId);
+    if (!routeResult.success) {
+      return { success: false, error: 'Route not found' };
+    }
+
+    const reviewed = await this.reviewRun(routeResult.data!.route, userId, samples);
+    if (!reviewed.success) return reviewed;
+
+    const { trace, startedAt, elapsedTime, splits, vehicleId, vehicleClass, reviewStatus, reviewReasons } = reviewed.data!;
+    const runResult = await this.dbService.createRouteRun({
+      routeId,
+      userId,
+      vehicleId,
+      vehicleClass,
+      elapsedTime,
+      splits,
+      startedAt: new Date(startedAt),
+      reviewStatus,
+      reviewReasons,
+    }, trace.map((sample, i) => ({ ...sample, seq: i })));
+    if (!runResult.success) return runResult;
+
+    const run = runResult.data!;
+    if (run.reviewStatus !== 'approved') {
+      return { success: true, data: { run, rank: null } };
+    }
+
+    const board = await this.getLeaderboard(routeId, 'overall', { userId, limit: 1 });
+    const mine = board.data?.you;
+    return {
+      success: true,
+      data: { run, rank: mine?.runId === run.id ? mine.rank : null, personalBest: mine?.runId === run.id },
+    };
+  }
+
+  // Times a trace over a course and puts it through the plausibility checks, in the driver's selected vehicle
+  async reviewRun(route: TrialRoute, userId: string, samples: TelemetrySample[]): Promise<ApiResponse<ReviewedRun>> {
+    const timed = timeRun(route, samples);
+    if (!timed.success) return timed as ApiResponse<any>;
+
+    const vehiclesResult = await this.dbService.getUserVehicles(userId);
+    if (!vehiclesResult.success || !vehiclesResult.data?.length) {
+      return { success: false, error: 'No vehicle found' };
+    }
+    const vehicle = vehiclesResult.data.find(v => v.isSelected) || vehiclesResult.data[0];
+
+    const classResult = await this.vehicleClasses.classify(vehicle.id);
+    const review = this.resultValidation.reviewTrace({
+      raceType: 'time-trial',
+      route: { waypoints: route.waypoints },
+      startLocation: gatePoint(route.start),
+      endLocation: gatePoint(route.finish),
+    }, timed.data!.trace, vehicle);
+
+    return {
+      success: true,
+      data: {
+        ...timed.data!,
+        vehicleId: vehicle.id,
+        vehicleClass: classResult.data?.vehicleClass ?? null,
+        reviewStatus: review.status,
+        reviewReasons: review.reasons,
+      },
+    };
+  }
+
+  // Best approved run per driver, a page at a time from `offset`. `you` is the requester's own entry,
+  // even when it's outside the page.
+  async getLeaderboard(
+    routeId: string,
+    view: LeaderboardView,
+    options: { userId?: string; vehicleClass?: VehicleClass; limit?: number; offset?: number } = {}
+  ): Promise<ApiResponse<{ view: LeaderboardView; since?: Date; vehicleClass?: VehicleClass; entries: LeaderboardEntry[]; you: LeaderboardEntry | null }>> {
+    const filter: { since?: Date; vehicleClass?: VehicleClass; userIds?: string[] } = {};
+
+    switch (view) {
+      case 'weekly':
+        filter.since = startOfWeek(new Date());
+        break;
+      case 'class':
+        if (!options.vehicleClass) {
+          return { success: false, error: 'Invalid leaderboard: the class view needs a vehicle class' };
+        }
+        filter.vehicleClass = options.vehicleClass;
+        break;
+      case 'friends': {
+        if (!options.userId) {
+          return { success: false, error: 'Invalid leaderboard: the friends view needs a user' };
+        }
+        const friendsResult = await this.dbService.getFriendIds(options.userId);
+        if (!friendsResult.success) return friendsResult as ApiResponse<any>;
+        filter.userIds = [options.userId, ...(friendsResult.data || [])];
+        break;
+      }
+    }
+
+    const boardResult = await this.dbService.getRouteLeaderboard(
+      routeId,
+      filter,
+      { limit: options.limit ?? DEFAULT_LEADERBOARD_SIZE, offset: options.offset ?? 0 },
+      options.userId
+    );
+    if (!boardResult.success) return boardResult as ApiResponse<any>;
+
+    const { entries, you } = boardResult.data!;
+    for (const entry of you ? [...entries, you] : entries) {
+      const userResult = await this.dbService.getUserById(entry.userId);
+      entry.username = userResult.data?.username;
+    }
+
+    return {
+      success: true,
+      data: { view, since: filter.since, vehicleClass: filter.vehicleClass, entries, you },
+    };
+  }
+
+  async getUserRuns(routeId: string, userId: string): Promise<ApiResponse<RouteRun[]>> {
+    return this.dbService.getUserRouteRuns(routeId, userId);
+  }
+
+  // Approved runs are public; drivers can always pull their own, whatever the review said
+  async getRunTelemetry(routeId: string, runId: string, userId: string): Promise<ApiResponse<{ run: RouteRun; telemetry: TelemetrySample[] }>> {
+    const runResult = await this.dbService.getRouteRun(runId);
+    if (!runResult.success || runResult.data!.routeId !== routeId) {
+      return { success: false, error: 'Run not found' };
+    }
+
+    const run = runResult.data!;
+    if (run.reviewStatus !== 'approved' && run.userId !== userId) {
+      return { success: false, error: 'Only approved runs can be viewed by other drivers' };
+    }
+
+    const telemetryResult = await this.dbService.getRouteRunTelemetry(runId);
+    if (!telemetryResult.success) return telemetryResult as ApiResponse<any>;
+
+    return { success: true, data: { run, telemetry: telemetryResult.data! } };
+  }
+
+  // Lines a run up against another one (by default the route record): both traces plus the
+  // time gained or lost at every checkpoint and at the finish. Negative deltas are time gained.
+  async compare(routeId: string, runId: string, userId: string, againstRunId?: string): Promise<ApiResponse<any>> {
+    const mine = await this.getRunTelemetry(routeId, runId, userId);
+    if (!mine.success) return mine;
+
+    let referenceId = againstRunId;
+    if (!referenceId) {
+      const board = await this.getLeaderboard(routeId, 'overall', { limit: 1 });
+      if (!board.success) return board;
+      referenceId = board.data!.entries[0]?.runId;
+      if (!referenceId) {
+        return { success: false, error: 'Reference run not found' };
+      }
+    }
+
+    const reference = await this.getRunTelemetry(routeId, referenceId, userId);
+    if (!reference.success) {
+      return { success: false, error: 'Reference run not found' };
+    }
+
+    const run = mine.data!.run;
+    const against = reference.data!.run;
+    return {
+      success: true,
+      data: {
+        run: mine.data,
+        reference: reference.data,
+        splitDeltas: run.splits.map((split, i) => Number((split - (against.splits[i] ?? split)).toFixed(3))),
+        finishDelta: Number((run.elapsedTime - against.elapsedTime).toFixed(3)),
+      },
+    };
+  }
+}
@@ -0,0 +1,688 @@
+import { randomUUID } from 'crypto';
+import { SupabaseService } from './database';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { RaceJobsService } from './raceJobs';
+import { NotificationService } from './notifications';
+import { RatingService } from './ratings';
+import { dragRunsFor, rankDragRuns } from './bracketRacing';
+import {
+  ApiResponse, BracketSide, MatchSlot, NotificationInput, Tournament, TournamentEntrant, TournamentFormat,
+  TournamentMatch, TournamentSeeding,
+} from '../types';
+
+// Head-to-head races are scheduled this far out, so both drivers have time to get to the strip
+const MATCH_START_DELAY_MS = parseInt(process.env.TOURNAMENT_MATCH_DELAY_MINUTES || '10') * 60 * 1000;
+// Races a match gets before a cancelled one is decided on seeding instead of rescheduled again
+const MAX_MATCH_ATTEMPTS = parseInt(process.env.TOURNAMENT_MATCH_ATTEMPTS || '3');
+
+// Bracket positions for seeds 1..size, arranged so the top seeds can only meet in the late rounds
+export const seedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const sum = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, sum - seed]);
+  }
+  return order;
+};
+
+// Lays out every match up front, with `entrants` in seed order. Seeds beyond the field are byes.
+// Double elimination adds the standard losers bracket (2 rounds per winners round after the first)
+// and a grand final, plus a reset match that is only raced if the losers' champion wins the first.
+export const buildBracket = (tournamentId: string, format: TournamentFormat, entrants: string[]): TournamentMatch[] => {
+  const size = Math.max(2, 2 ** Math.ceil(Math.log2(entrants.length)));
+  const rounds = Math.log2(size);
+  const matches: TournamentMatch[] = [];
+
+  const create = (bracket: BracketSide, round: number, matchNumber: number): TournamentMatch => {
+    const match: TournamentMatch = {
+      id: randomUUID(),
+      tournamentId,
+      bracket,
+      round,
+      matchNumber,
+      entrantA: null,
+      entrantB: null,
+      aSettled: false,
+      bSettled: false,
+      raceId: null,
+      attempts: 0,
+      winnerId: null,
+      loserId: null,
+      status: 'pending',
+      winnerNext: null,
+      loserNext: null,
+    };
+    matches.push(match);
+    return match;
+  };
+  const feed = (into: TournamentMatch, index: number) => ({ matchId: into.id, slot: (index % 2 === 0 ? 'a' : 'b') as MatchSlot });
+
+  const winners: TournamentMatch[][] = [];
+  for (let round = 1; round <= rounds; round++) {
+    winners.push(Array.from({ length: size / 2 ** round }, (_, i) => create('winners', round, i + 1)));
+  }
+
+  const order = seedOrder(size);
+  winners[0].forEach((match, i) => {
+    match.entrantA = entrants[order[2 * i] - 1] ?? null;
+    match.entrantB = entrants[order[2 * i + 1] - 1] ?? null;
+    match.aSettled = true;
+    match.bSettled = true;
+  });
+
+  for (let r = 0; r < rounds - 1; r++) {
+    winners[r].forEach((match, i) => { match.winnerNext = feed(winners[r + 1][Math.floor(i / 2)], i); });
+  }
+
+  if (format === 'single_elimination') return matches;
+
+  const losers: TournamentMatch[][] = [];
+  for (let round = 1; round <= 2 * (rounds - 1); round++) {
+    const count = size / 2 ** (Math.floor((round + 1) / 2) + 1);
+    losers.push(Array.from({ length: count }, (_, i) => create('losers', round, i + 1)));
+  }
+  const grandFinal = create('grand_final', 1, 1);
+  create('grand_final', 2, 1);
+
+  if (losers.length) {
+    winners[0].forEach((match, i) => { match.loserNext = feed(losers[0][Math.floor(i / 2)], i); });
+
+    // Later winners-bracket losers drop in against the losers-bracket survivors, in reverse
+    // order so the same pair doesn't meet again straight away
+    for (let r = 1; r < rounds; r++) {
+      const dropIn = losers[2 * r - 1];
+      winners[r].forEach((match, i) => { match.loserNext = { matchId: dropIn[dropIn.length - 1 - i].id, slot: 'b' }; });
+    }
+
+    for (let r = 0; r < losers.length - 1; r++) {
+      const next = losers[r + 1];
+      losers[r].forEach((match, i) => {
+        match.winnerNext = r % 2 === 0 ? { matchId: next[i].id, slot: 'a' } : feed(next[Math.floor(i / 2)], i);
+      });
+    }
+    losers[losers.length - 1][0].winnerNext = { matchId: grandFinal.id, slot: 'b' };
+  } else {
+    winners[0][0].loserNext = { matchId: grandFinal.id, slot: 'b' };
+  }
+  winners[rounds - 1][0].winnerNext = { matchId: grandFinal.id, slot: 'a' };
+
+  return matches;
+};
+
+interface Advancement {
+  matches: Map<string, TournamentMatch>;
+  dirty: Set<string>;
+  losers: string[];
+  eliminated: string[];
+  champion?: string;
+}
+
+// Elimination brackets of head-to-head drag races. Each match becomes a two-lane drag race;
+// when that race finishes the winner (and, in double elimination, the loser) moves on.
+export class TournamentService {
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private dbService: SupabaseService,
+    private lifecycle: RaceLifecycleService,
+    private raceJobs: RaceJobsService,
+    private notifications: NotificationService,
+    private ratings: RatingService
+  ) {
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+  }
+
+  async createTournament(
+    userId: string,
+    input: Pick<Tournament, 'name' | 'description' | 'format' | 'seeding' | 'maxEntrants' | 'startLocation' | 'endLocation'>
+  ): Promise<ApiResponse<Tournament>> {
+    return this.dbService.createTournament({ ...input, createdBy: userId });
+  }
+
+  async listTournaments(): Promise<ApiResponse<Tournament[]>> {
+    return this.dbService.getTournaments(['registration', 'in_progress']);
+  }
+
+  async register(tournamentId: string, userId: string): Promise<ApiResponse<TournamentEntrant>> {
+    const tournamentResult = await this.dbService.getTournament(tournamentId);
+    if (!tournamentResult.success) {
+      return { success: false, error: 'Tournament not found' };
+    }
+
+    const tournament = tournamentResult.data!;
+    if (tournament.status !== 'registration') {
+      return { success: false, error: `Illegal registration: tournament is ${tournament.status}` };
+    }
+
+    const entrantsResult = await this.dbService.getTournamentEntrants(tournamentId);
+    if (!entrantsResult.success) return entrantsResult as ApiResponse<any>;
+
+    const entrants = entrantsResult.data || [];
+    if (entrants.some(entrant => entrant.userId === userId)) {
+      return { success: false, error: 'User already registered' };
+    }
+    if (entrants.length >= tournament.maxEntrants) {
+      return { success: false, error: 'Tournament is full' };
+    }
+
+    const vehiclesResult = await this.dbService.getUserVehicles(userId);
+    if (!vehiclesResult.success || !vehiclesResult.data?.length) {
+      return { success: false, error: 'No vehicle found' };
+    }
+
+    const vehicle = vehiclesResult.data.find(v => v.isSelected) || vehiclesResult.data[0];
+    return this.dbService.addTournamentEntrant(tournamentId, userId, vehicle.id);
+  }
+
+  async withdraw(tournamentId: string, userId: string): Promise<ApiResponse<boolean>> {
+    const tournamentResult = await this.dbService.getTournament(tournamentId);
+    if (!tournamentResult.success) {
+      return { success: false, error: 'Tournament not found' };
+    }
+
+    if (tournamentResult.data!.status !== 'registration') {
+      return { success: false, error: `Illegal withdrawal: tournament is ${tournamentResult.data!.status}` };
+    }
+
+    const result = await this.dbService.removeTournamentEntrant(tournamentId, userId);
+    if (result.success && !result.data) {
+      return { success: false, error: 'Entrant not found' };
+    }
+    return result;
+  }
+
+  // Closes registration, seeds the field and draws the bracket, then opens the first races
+  async start(tournamentId: string, userId: string): Promise<ApiResponse<any>> {
+    const tournamentResult = await this.dbService.getTournament(tournamentId);
+    if (!tournamentResult.success) {
+      return { success: false, error: 'Tournament not found' };
+    }
+
+    const tournament = tournamentResult.data!;
+    if (tournament.createdBy !== userId) {
+      return { success: false, error: 'Only the tournament organizer can start it' };
+    }
+
+    const entrantsResult = await this.dbService.getTournamentEntrants(tournamentId);
+    if (!entrantsResult.success) return entrantsResult;
+
+    const entrants = entrantsResult.data || [];
+    if (entrants.length < 2) {
+      return { success: false, error: 'Invalid bracket: at least 2 entrants are needed' };
+    }
+
+    const claimed = await this.dbService.updateTournament(tournamentId, 'registration', {
+      status: 'in_progress',
+      started_at: new Date().toISOString(),
+    });
+    if (!claimed.success) return claimed;
+    if (!claimed.data) {
+      return { success: false, error: `Illegal start: tournament is ${tournament.status}` };
+    }
+
+    // The claim keeps a second start out while we draw; without a bracket the tournament reopens registration
+    const drawResult = await this.draw(tournament, entrants);
+    if (!drawResult.success) {
+      await this.dbService.updateTournament(tournamentId, 'in_progress', { status: 'registration', started_at: null });
+      return drawResult;
+    }
+
+    const advanceResult = await this.serialize(tournamentId, () => this.advance(claimed.data!, () => undefined));
+    if (!advanceResult.success) return advanceResult;
+
+    return this.getBracket(tournamentId);
+  }
+
+  async cancel(tournamentId: string, userId: string): Promise<ApiResponse<Tournament>> {
+    const tournamentResult = await this.dbService.getTournament(tournamentId);
+    if (!tournamentResult.success) {
+      return { success: false, error: 'Tournament not found' };
+    }
+
+    const tournament = tournamentResult.data!;
+    if (tournament.createdBy !== userId) {
+      return { success: false, error: 'Only the tournament organizer can cancel it' };
+    }
+    if (!['registration', 'in_progress'].includes(tournament.status)) {
+      return { success: false, error: `Illegal cancellation: tournament is ${tournament.status}` };
+    }
+
+    const cancelled = await this.dbService.updateTournament(tournamentId, tournament.status, { status: 'cancelled' });
+    if (!cancelled.success) return cancelled as ApiResponse<any>;
+    if (!cancelled.data) {
+      return { success: false, error: 'Illegal cancellation: tournament status changed' };
+    }
+
+    // Open match races go with it; the lifecycle listener ignores them once the tournament is cancelled
+    const matchesResult = await this.dbService.getTournamentMatches(tournamentId);
+    for (const match of matchesResult.data || []) {
+      if (match.raceId && match.status === 'ready') {
+        await this.lifecycle.transitionRace(match.raceId, 'cancelled', userId, 'Tournament cancelled');
+      }
+    }
+
+    this.queues.delete(tournamentId);
+    return { success: true, data: cancelled.data };
+  }
+
+  // The bracket tree: matches grouped by bracket and round, with each side's seed alongside
+  async getBracket(tournamentId: string): Promise<ApiResponse<any>> {
+    const [tournamentResult, entrantsResult, matchesResult] = await Promise.all([
+      this.dbService.getTournament(tournamentId),
+      this.dbService.getTournamentEntrants(tournamentId),
+      this.dbService.getTournamentMatches(tournamentId),
+    ]);
+    if (!tournamentResult.success) {
+      return { success: false, error: 'Tournament not found' };
+    }
+    if (!entrantsResult.success) return entrantsResult;
+    if (!matchesResult.success) return matchesResult;
+
+    const seeds = new Map((entrantsResult.data || []).map(entrant => [entrant.userId, entrant.seed]));
+    const rounds = (bracket: BracketSide) => {
+      const grouped = new Map<number, any[]>();
+      for (const match of matchesResult.data || []) {
+        if (match.bracket !== bracket) continue;
+        if (!grouped.has(match.round)) grouped.set(match.round, []);
+        grouped.get(match.round)!.push({
+          ...match,
+          seedA: match.entrantA ? seeds.get(match.entrantA) ?? null : null,
+          seedB: match.entrantB ? seeds.get(match.entrantB) ?? null : null,
+        });
+      }
+      return [...grouped.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([round, matches]) => ({ round, matches: matches.sort((a, b) => a.matchNumber - b.matchNumber) }));
+    };
+
+    return {
+      success: true,
+      data: {
+        tournament: tournamentResult.data,
+        entrants: entrantsResult.data,
+        bracket: {
+          winners: rounds('winners'),
+          losers: rounds('losers'),
+          grandFinal: rounds('grand_final'),
+        },
+      },
+    };
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (event.userId || (event.to !== 'finished' && event.to !== 'cancelled')) return;
+
+    const matchResult = await this.dbService.getTournamentMatchByRace(event.raceId);
+    if (!matchResult.success || !matchResult.data) return;
+
+    const match = matchResult.data;
+    const result = await this.serialize(match.tournamentId, async () => {
+      const tournamentResult = await this.dbService.getTournament(match.tournamentId);
+      if (!tournamentResult.success) return tournamentResult;
+      if (tournamentResult.data!.status !== 'in_progress') {
+        return { success: true, data: { skipped: `tournament is ${tournamentResult.data!.status}` } };
+      }
+
+      if (event.to === 'cancelled') {
+        const forfeit = await this.decideCancelledMatch(match, event.raceId);
+        if (!forfeit.success) return forfeit;
+
+        // Without a walkover the match still has to be decided, so it goes back to the queue for a fresh race
+        return this.advance(tournamentResult.data!, state => {
+          const current = state.matches.get(match.id);
+          if (current?.status !== 'ready' || current.raceId !== event.raceId) return;
+          if (forfeit.data) {
+            this.complete(state, current, forfeit.data.winner, forfeit.data.loser);
+            return;
+          }
+          current.raceId = null;
+          state.dirty.add(current.id);
+        });
+      }
+
+      const outcome = await this.decideMatch(match, event.raceId);
+      if (!outcome.success) return outcome;
+
+      return this.advance(tournamentResult.data!, state => {
+        const current = state.matches.get(match.id);
+        if (current?.status !== 'ready' || current.raceId !== event.raceId) return;
+        this.complete(state, current, outcome.data!.winner, outcome.data!.loser);
+      });
+    });
+
+    if (!result.success) {
+      console.error(`Failed to advance tournament ${match.tournamentId} after race ${event.raceId}:`, result.error);
+    }
+  }
+
+  // Drag racing rules on the server-timed runs: first to the stripe wins, a red light loses, and
+  // rejected results don't count. If neither driver has a valid run the higher seed goes through.
+  private async decideMatch(match: TournamentMatch, raceId: string): Promise<ApiResponse<{ winner: string; loser: string }>> {
+    const [raceResult, resultsResult, entrantsResult] = await Promise.all([
+      this.dbService.getRace(raceId),
+      this.dbService.getRaceResults(raceId),
+      this.dbService.getTournamentEntrants(match.tournamentId),
+    ]);
+    if (!raceResult.success) return raceResult;
+    if (!resultsResult.success) return resultsResult as ApiResponse<any>;
+    if (!entrantsResult.success) return entrantsResult as ApiResponse<any>;
+
+    const pair = [match.entrantA!, match.entrantB!];
+    const runs = rankDragRuns(dragRunsFor(raceResult.data, resultsResult.data || []))
+      .filter(run => run.elapsedTime !== null && pair.includes(run.userId));
+
+    const winner = runs[0]?.userId || higherSeed(pair, entrantsResult.data || []);
+    return { success: true, data: { winner, loser: pair.find(userId => userId !== winner)! } };
+  }
+
+  // A driver who readied for a race that never ran wins by walkover when the other didn't show.
+  // If both or neither turned up the match is raced again, until it runs out of attempts and the
+  // higher seed goes through. Resolves with null to reschedule.
+  private async decideCancelledMatch(
+    match: TournamentMatch,
+    raceId: string
+  ): Promise<ApiResponse<{ winner: string; loser: string } | null>> {
+    const [raceResult, entrantsResult] = await Promise.all([
+      this.dbService.getRace(raceId),
+      this.dbService.getTournamentEntrants(match.tournamentId),
+    ]);
+    if (!raceResult.success) return raceResult;
+    if (!entrantsResult.success) return entrantsResult as ApiResponse<any>;
+
+    const pair = [match.entrantA!, match.entrantB!];
+    const showedUp = pair.filter(userId => raceResult.data.participants.some(
+      (p: any) => p.user_id === userId && !['registered', 'withdrawn'].includes(p.status)
+    ));
+
+    let winner: string | undefined;
+    if (showedUp.length === 1) {
+      winner = showedUp[0];
+    } else if (match.attempts >= MAX_MATCH_ATTEMPTS) {
+      winner = higherSeed(pair, entrantsResult.data || []);
+    }
+    if (!winner) return { success: true, data: null };
+
+    return { success: true, data: { winner, loser: pair.find(userId => userId !== winner)! } };
+  }
+
+  // Loads the bracket, applies `change`, settles byes and persists everything that moved.
+  // Callers must hold the tournament's queue.
+  private async advance(tournament: Tournament, change: (state: Advancement) => void): Promise<ApiResponse<any>> {
+    const matchesResult = await this.dbService.getTournamentMatches(tournament.id);
+    if (!matchesResult.success) return matchesResult;
+
+    const state: Advancement = {
+      matches: new Map((matchesResult.data || []).map(match => [match.id, match])),
+      dirty: new Set(),
+      losers: [],
+      eliminated: [],
+    };
+
+    change(state);
+    this.settle(state);
+
+    for (const matchId of state.dirty) {
+      const match = state.matches.get(matchId)!;
+      const updateResult = await this.dbService.updateTournamentMatch(match.id, {
+        entrant_a: match.entrantA,
+        entrant_b: match.entrantB,
+        a_settled: match.aSettled,
+        b_settled: match.bSettled,
+        race_id: match.raceId,
+        winner_id: match.winnerId,
+        loser_id: match.loserId,
+        status: match.status,
+        completed_at: match.completedAt ? match.completedAt.toISOString() : null,
+      });
+      if (!updateResult.success) return updateResult;
+    }
+
+    const entrantsResult = await this.dbService.getTournamentEntrants(tournament.id);
+    if (!entrantsResult.success) return entrantsResult;
+    const entrants = new Map((entrantsResult.data || []).map(entrant => [entrant.userId, entrant]));
+
+    for (const userId of state.losers) {
+      const entrant = entrants.get(userId);
+      if (!entrant) continue;
+      entrant.losses += 1;
+      await this.dbService.updateTournamentEntrant(tournament.id, userId, {
+        losses: entrant.losses,
+        ...(state.eliminated.includes(userId) ? { status: 'eliminated' } : {}),
+      });
+    }
+
+    if (state.champion) {
+      return this.crown(tournament, state.champion);
+    }
+
+    for (const match of state.matches.values()) {
+      if (match.status === 'ready' && !match.raceId) {
+        const raceResult = await this.createMatchRace(tournament, match, entrants);
+        if (!raceResult.success) return raceResult;
+      }
+    }
+
+    return { success: true, data: { updated: state.dirty.size } };
+  }
+
+  private complete(state: Advancement, match: TournamentMatch, winner: string | null, loser: string | null): void {
+    match.winnerId = winner;
+    match.loserId = loser;
+    match.completedAt = new Date();
+    match.status = winner && loser ? 'completed' : winner ? 'bye' : 'void';
+    state.dirty.add(match.id);
+
+    if (loser) state.losers.push(loser);
+
+    if (match.bracket === 'grand_final' && match.round === 1) {
+      const reset = [...state.matches.values()].find(m => m.bracket === 'grand_final' && m.round === 2);
+      // The winners' champion has yet to lose, so beating them once only forces a deciding race
+      if (reset && loser && winner === match.entrantB) {
+        this.place(state, { matchId: reset.id, slot: 'a' }, match.entrantA);
+        this.place(state, { matchId: reset.id, slot: 'b' }, match.entrantB);
+        return;
+      }
+      if (reset) {
+        reset.status = 'void';
+        state.dirty.add(reset.id);
+      }
+      state.champion = winner || undefined;
+      if (loser) state.eliminated.push(loser);
+      return;
+    }
+
+    if (!match.winnerNext) {
+      state.champion = winner || undefined;
+    } else {
+      this.place(state, match.winnerNext, winner);
+    }
+
+    if (match.loserNext) {
+      this.place(state, match.loserNext, loser);
+    } else if (loser) {
+      state.eliminated.push(loser);
+    }
+  }
+
+  private place(state: Advancement, next: { matchId: string; slot: MatchSlot }, userId: string | null): void {
+    const target = state.matches.get(next.matchId);
+    if (!target) return;
+
+    if (next.slot === 'a') {
+      target.entrantA = userId;
+      target.aSettled = true;
+    } else {
+      target.entrantB = userId;
+      target.bSettled = true;
+    }
+    state.dirty.add(target.id);
+  }
+
+  // Resolves every match whose sides are both known: two drivers race, one walks through, none is void
+  private settle(state: Advancement): void {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const match of state.matches.values()) {
+        if (match.status !== 'pending' || !match.aSettled || !match.bSettled) continue;
+
+        const drivers = [match.entrantA, match.entrantB].filter((id): id is string => !!id);
+        if (drivers.length === 2) {
+          match.status = 'ready';
+          state.dirty.add(match.id);
+        } else {
+          this.complete(state, match, drivers[0] || null, null);
+        }
+        changed = true;
+      }
+    }
+  }
+
+  private async createMatchRace(
+    tournament: Tournament,
+    match: TournamentMatch,
+    entrants: Map<string, TournamentEntrant>
+  ): Promise<ApiResponse<any>> {
+    // The higher seed takes lane 1
+    const drivers = [entrants.get(match.entrantA!), entrants.get(match.entrantB!)]
+      .filter((entrant): entrant is TournamentEntrant => !!entrant)
+      .sort((a, b) => (a.seed ?? Infinity) - (b.seed ?? Infinity));
+
+    const raceResult = await this.dbService.createRace({
+      name: `${tournament.name}: ${matchLabel(match)}`.slice(0, 100),
+      description: `Tournament match, seed ${drivers[0]?.seed} vs seed ${drivers[1]?.seed}`,
+      createdBy: tournament.createdBy,
+      raceType: 'drag',
+      startLocation: tournament.startLocation,
+      endLocation: tournament.endLocation,
+      maxParticipants: 2,
+      startTime: new Date(Date.now() + MATCH_START_DELAY_MS),
+    });
+    if (!raceResult.success) return raceResult;
+
+    const race = raceResult.data;
+    const participantsResult = await this.dbService.addRaceParticipants(race.id, drivers.map((entrant, i) => ({
+      userId: entrant.userId,
+      vehicleId: entrant.vehicleId,
+      laneNumber: i + 1,
+    })));
+    if (!participantsResult.success) return participantsResult;
+
+    const matchResult = await this.dbService.updateTournamentMatch(match.id, { race_id: race.id, attempts: match.attempts + 1 });
+    if (!matchResult.success) return matchResult;
+    match.raceId = race.id;
+    match.attempts += 1;
+
+    await this.raceJobs.scheduleRace(race);
+
+    await this.notifications.notify(drivers.map((entrant, i): NotificationInput => ({
+      userId: entrant.userId,
+      type: 'race_update',
+      title: 'Tournament match ready',
+      message: `${tournament.name}: ${matchLabel(match)} is on, you're in lane ${i + 1}`,
+      relatedRaceId: race.id,
+      data: { tournamentId: tournament.id, matchId: match.id, laneNumber: i + 1 },
+    })));
+
+    return { success: true, data: race };
+  }
+
+  private async crown(tournament: Tournament, championId: string): Promise<ApiResponse<any>> {
+    const completed = await this.dbService.updateTournament(tournament.id, 'in_progress', {
+      status: 'completed',
+      champion_id: championId,
+      completed_at: new Date().toISOString(),
+    });
+    if (!completed.success) return completed;
+
+    await this.dbService.updateTournamentEntrant(tournament.id, championId, { status: 'champion' });
+    this.queues.delete(tournament.id);
+
+    const entrantsResult = await this.dbService.getTournamentEntrants(tournament.id);
+    await this.notifications.notify((entrantsResult.data || []).map(entrant => ({
+      userId: entrant.userId,
+      type: 'race_result' as const,
+      title: entrant.userId === championId ? 'Tournament won' : 'Tournament complete',
+      message: entrant.userId === championId
+        ? `You won ${tournament.name}`
+        : `${tournament.name} is over`,
+      relatedUserId: championId,
+      data: { tournamentId: tournament.id },
+    })));
+
+    return { success: true, data: completed.data };
+  }
+
+  // Seeds the field and lays out every match
+  private async draw(tournament: Tournament, entrants: TournamentEntrant[]): Promise<ApiResponse<TournamentMatch[]>> {
+    const seededResult = await this.seed(tournament, entrants);
+    if (!seededResult.success) return seededResult as ApiResponse<any>;
+
+    return this.dbService.createTournamentMatches(
+      buildBracket(tournament.id, tournament.format, seededResult.data!.map(entrant => entrant.userId))
+    );
+  }
+
+  // Quarter mile seeding takes each driver's best timed run; rating seeding uses the drag rating.
+  // Drivers without a number go to the bottom in registration order.
+  private async seed(tournament: Tournament, entrants: TournamentEntrant[]): Promise<ApiResponse<TournamentEntrant[]>> {
+    const userIds = entrants.map(entrant => entrant.userId);
+    const values = new Map<string, number>();
+
+    if (tournament.seeding === 'quarter_mile') {
+      const bestResult = await this.dbService.getBestQuarterMiles(userIds);
+      if (!bestResult.success) return bestResult as ApiResponse<any>;
+      Object.entries(bestResult.data!).forEach(([userId, time]) => values.set(userId, time));
+    } else {
+      const ratingsResult = await this.ratings.getFieldRatings(userIds, 'drag');
+      if (!ratingsResult.success) return ratingsResult as ApiResponse<any>;
+      for (const rating of ratingsResult.data!.values()) {
+        if (rating.racesRated > 0) values.set(rating.userId, Number(rating.rating.toFixed(2)));
+      }
+    }
+
+    const better = seedComparator(tournament.seeding);
+    const seeded = entrants
+      .map((entrant, index) => ({ entrant, index, value: values.get(entrant.userId) }))
+      .sort((a, b) => {
+        if (a.value === undefined || b.value === undefined) {
+          return a.value === b.value ? a.index - b.index : a.value === undefined ? 1 : -1;
+        }
+        return better(a.value, b.value) || a.index - b.index;
+      })
+      .map(({ entrant, value }, i) => ({ ...entrant, seed: i + 1, seedValue: value, status: 'active' as const }));
+
+    for (const entrant of seeded) {
+      const updateResult = await this.dbService.updateTournamentEntrant(tournament.id, entrant.userId, {
+        seed: entrant.seed,
+        seed_value: entrant.seedValue ?? null,
+        status: entrant.status,
+      });
+      if (!updateResult.success) return updateResult as ApiResponse<any>;
+    }
+
+    return { success: true, data: seeded };
+  }
+
+  private serialize<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) || Promise.resolve();
+    const run = previous.then(task, task);
+    this.queues.set(key, run.catch(() => undefined));
+    return run;
+  }
+}
+
+// Lower quarter mile times seed higher; higher ratings do
+const seedComparator = (seeding: TournamentSeeding) => (a: number, b: number): number =>
+  seeding === 'quarter_mile' ? a - b : b - a;
+
+const matchLabel = (match: TournamentMatch): string => {
+  if (match.bracket === 'grand_final') return match.round === 1 ? 'Grand final' : 'Grand final reset';
+  return `${match.bracket === 'winners' ? 'Winners' : 'Losers'} round ${match.round}, match ${match.matchNumber}`;
+};
+
+// Tie-breaker when a match can't be decided on the strip
+const higherSeed = (pair: string[], entrants: TournamentEntrant[]): string => {
+  const seed = (userId: string) => entrants.find(entrant => entrant.userId === userId)?.seed ?? Number.MAX_SAFE_INTEGER;
+  return [...pair].sort((a, b) => seed(a) - seed(b))[0];
+};
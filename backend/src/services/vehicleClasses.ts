@@ -0,0 +1,192 @@
+import { SupabaseService } from './database';
+import { WebSocketService } from './websocket';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { ApiResponse, Vehicle, VehicleClass, VehicleClassification, VehicleModification } from '../types';
+
+export const VEHICLE_CLASSES: VehicleClass[] = ['D', 'C', 'B', 'A', 'S', 'X'];
+
+// Upper performance index bound per class, slowest first; X is unlimited
+const CLASS_LIMITS: [VehicleClass, number][] = [
+  ['D', 70],
+  ['C', 90],
+  ['B', 115],
+  ['A', 145],
+  ['S', 200],
+  ['X', Infinity],
+];
+
+// A handicap never holds a lane back longer than this, however mismatched the cars
+const MAX_HANDICAP_SECONDS = parseFloat(process.env.DRAG_MAX_HANDICAP_SECONDS || '5');
+
+// All-wheel drive puts the power down best off the line, front-wheel drive worst
+const drivetrainFactor = (drivetrain: string): number => {
+  const normalized = drivetrain.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (['awd', '4wd', '4x4', 'allwheeldrive', 'fourwheeldrive'].includes(normalized)) return 1.1;
+  if (['fwd', 'frontwheeldrive'].includes(normalized)) return 0.92;
+  return 1;
+};
+
+// Classifies a vehicle as it will actually be raced, with its installed modifications.
+// The performance index is horsepower per 1000 lb, scaled for how well the drivetrain launches;
+// the quarter mile estimate is Hale's formula, 5.825 * (weight / hp)^(1/3), on that same power.
+export const classifyVehicle = (vehicle: Vehicle, modifications: VehicleModification[] = []): VehicleClassification => {
+  const horsepower = (vehicle.specs?.horsepower || 0) + modifications.reduce((sum, mod) => sum + mod.horsepowerGain, 0);
+  const weight = (vehicle.specs?.weight || 0) + modifications.reduce((sum, mod) => sum + mod.weightChange, 0);
+  const drivetrain = vehicle.specs?.drivetrain || '';
+
+  const known = horsepower > 0 && weight > 0;
+  const powerToWeight = known ? (horsepower / weight) * 1000 : null;
+  const performanceIndex = powerToWeight === null ? null : powerToWeight * drivetrainFactor(drivetrain);
+  const estimatedQuarterMile = known ? 5.825 * Math.cbrt(weight / (horsepower * drivetrainFactor(drivetrain))) : null;
+
+  return {
+    vehicleId: vehicle.id,
+    vehicleClass: performanceIndex === null ? null : CLASS_LIMITS.find(([, limit]) => performanceIndex < limit)![0],
+    horsepower,
+    weight,
+    drivetrain,
+    powerToWeight: powerToWeight === null ? null : Number(powerToWeight.toFixed(1)),
+    performanceIndex: performanceIndex === null ? null : Number(performanceIndex.toFixed(1)),
+    estimatedQuarterMile: estimatedQuarterMile === null ? null : Number(estimatedQuarterMile.toFixed(3)),
+    modifications: modifications.length,
+  };
+};
+
+// Seconds each lane's green is held back, Pro-tree style: the slowest car leaves on the race's green
+// and every quicker car waits out the difference in estimated ET. Unknown cars get no head start.
+export const handicapDelays = (entrants: { userId: string; estimatedQuarterMile: number | null }[]): Map<string, number> => {
+  const estimates = entrants.map(entrant => entrant.estimatedQuarterMile).filter((et): et is number => et !== null);
+  const slowest = estimates.length ? Math.max(...estimates) : 0;
+
+  return new Map(entrants.map(entrant => [
+    entrant.userId,
+    entrant.estimatedQuarterMile === null
+      ? 0
+      : Number(Math.min(MAX_HANDICAP_SECONDS, slowest - entrant.estimatedQuarterMile).toFixed(3)),
+  ]));
+};
+
+export class VehicleClassService {
+  constructor(
+    private dbService: SupabaseService,
+    private wsService: WebSocketService,
+    private lifecycle: RaceLifecycleService
+  ) {
+    this.lifecycle.useJoinGuard((race, userId) => this.checkClass(race, userId));
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+  }
+
+  async classify(vehicleId: string): Promise<ApiResponse<VehicleClassification>> {
+    const vehicleResult = await this.dbService.getVehicle(vehicleId);
+    if (!vehicleResult.success) {
+      return { success: false, error: 'Vehicle not found' };
+    }
+
+    const modificationsResult = await this.dbService.getVehicleModifications(vehicleId);
+    if (!modificationsResult.success) return modificationsResult as ApiResponse<any>;
+
+    return { success: true, data: classifyVehicle(vehicleResult.data!, modificationsResult.data) };
+  }
+
+  // Head starts for the current field of a drag race, as they would be set at the countdown
+  async getHandicaps(raceId: string): Promise<ApiResponse<any>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (race.raceType !== 'drag' || !race.handicap) {
+      return { success: false, error: 'Invalid request: race is not a handicap drag race' };
+    }
+
+    const entrants = [];
+    for (const participant of race.participants.filter((p: any) => p.status !== 'withdrawn')) {
+      const classification = participant.vehicle_id ? await this.classify(participant.vehicle_id) : null;
+      entrants.push({
+        userId: participant.user_id as string,
+        vehicleClass: classification?.data?.vehicleClass ?? null,
+        estimatedQuarterMile: classification?.data?.estimatedQuarterMile ?? null,
+      });
+    }
+
+    const delays = handicapDelays(entrants);
+    return {
+      success: true,
+      data: entrants.map(entrant => ({ ...entrant, handicapDelay: delays.get(entrant.userId) })),
+    };
+  }
+
+  private async checkClass(race: any, userId: string): Promise<ApiResponse<any>> {
+    if (!race.allowedClasses?.length) return { success: true };
+
+    // Same vehicle the join itself will enter
+    const vehiclesResult = await this.dbService.getUserVehicles(userId);
+    if (!vehiclesResult.success || !vehiclesResult.data?.length) {
+      return { success: false, error: 'No vehicle found' };
+    }
+    const vehicle = vehiclesResult.data.find(v => v.isSelected) || vehiclesResult.data[0];
+
+    const classResult = await this.classify(vehicle.id);
+    if (!classResult.success) return classResult;
+
+    const { vehicleClass } = classResult.data!;
+    if (!vehicleClass) {
+      return { success: false, error: 'Only vehicles with horsepower and weight on file can enter a class-restricted race' };
+    }
+    if (!race.allowedClasses.includes(vehicleClass)) {
+      return {
+        success: false,
+        error: `Only class ${race.allowedClasses.join('/')} vehicles can enter this race; yours is class ${vehicleClass}`,
+      };
+    }
+
+    return { success: true };
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (event.userId && event.from === null && event.to === 'registered') {
+      await this.recordClass(event.raceId, event.userId);
+      return;
+    }
+
+    if (!event.userId && event.to === 'countdown') {
+      await this.assignHandicaps(event.raceId);
+    }
+  }
+
+  // Stamps the entered vehicle's class on the participant, so results show what class it ran in
+  private async recordClass(raceId: string, userId: string): Promise<void> {
+    const raceResult = await this.dbService.getRace(raceId);
+    const participant = raceResult.data?.participants.find((p: any) => p.user_id === userId);
+    if (!participant?.vehicle_id) return;
+
+    const classResult = await this.classify(participant.vehicle_id);
+    if (!classResult.success || !classResult.data!.vehicleClass) return;
+
+    const result = await this.dbService.updateParticipant(raceId, userId, { vehicle_class: classResult.data!.vehicleClass });
+    if (!result.success) {
+      console.error('Failed to record vehicle class:', result.error);
+    }
+  }
+
+  // Fixed at the countdown, once the field can no longer change
+  private async assignHandicaps(raceId: string): Promise<void> {
+    const handicapsResult = await this.getHandicaps(raceId);
+    if (!handicapsResult.success) return;
+
+    for (const entrant of handicapsResult.data) {
+      const result = await this.dbService.updateParticipant(raceId, entrant.userId, { handicap_delay: entrant.handicapDelay });
+      if (!result.success) {
+        console.error('Failed to set handicap delay:', result.error);
+      }
+    }
+
+    this.wsService.broadcastToRace(raceId, {
+      type: 'race_handicaps',
+      raceId,
+      data: { raceId, handicaps: handicapsResult.data },
+      timestamp: new Date(),
+    });
+  }
+}
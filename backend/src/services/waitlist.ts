@@ -0,0 +1,238 @@
+import { SupabaseService } from './database';
+import { RaceLifecycleService, LifecycleEvent } from './raceLifecycle';
+import { JobSchedulerService } from './jobScheduler';
+import { NotificationService } from './notifications';
+import { RaceAccessService } from './raceAccess';
+import { ApiResponse, RaceStatus, ScheduledJob, WaitlistEntry } from '../types';
+
+// How long a promoted user has to confirm before the spot passes down the list
+const CONFIRM_WINDOW_MS = parseInt(process.env.WAITLIST_CONFIRM_MINUTES || '15') * 60 * 1000;
+
+const OPEN_STATUSES: RaceStatus[] = ['scheduled', 'staging'];
+
+export interface WaitlistSummary {
+  length: number;
+  position: number | null; // 1-based, null when the user is not on the list
+  status?: WaitlistEntry['status'];
+  offerExpiresAt?: Date;
+}
+
+const isLiveOffer = (entry: WaitlistEntry, now: number): boolean =>
+  entry.status === 'offered' && !!entry.offerExpiresAt && entry.offerExpiresAt.getTime() > now;
+
+const entrantCount = (race: any): number =>
+  race.participants.filter((p: any) => p.status !== 'withdrawn').length;
+
+export class WaitlistService {
+  constructor(
+    private dbService: SupabaseService,
+    private lifecycle: RaceLifecycleService,
+    private scheduler: JobSchedulerService,
+    private notifications: NotificationService,
+    private raceAccess: RaceAccessService
+  ) {
+    this.lifecycle.useJoinGuard((race, userId) => this.holdOfferedSpots(race, userId));
+    this.lifecycle.onTransition(event => this.handleTransition(event));
+    this.scheduler.register('waitlist_offer_expiry', job => this.expireOffer(job));
+  }
+
+  async join(raceId: string, userId: string): Promise<ApiResponse<WaitlistSummary>> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success || !(await this.raceAccess.canView(raceResult.data, userId))) {
+      return { success: false, error: 'Race not found' };
+    }
+
+    const race = raceResult.data;
+    if (!OPEN_STATUSES.includes(race.status)) {
+      return { success: false, error: `Illegal waitlist: race is ${race.status}` };
+    }
+
+    if (race.participants.some((p: any) => p.user_id === userId && p.status !== 'withdrawn')) {
+      return { success: false, error: 'User already in race' };
+    }
+
+    // A spot from the waitlist skips the approval queue, so only invitees may wait for one
+    if (race.requiresApproval && race.createdBy !== userId) {
+      const invitation = await this.dbService.getInvitation(raceId, userId);
+      if (!invitation.data) {
+        return { success: false, error: 'Illegal waitlist: race requires organizer approval' };
+      }
+    }
+
+    const queueResult = await this.dbService.getWaitlist(raceId);
+    if (!queueResult.success) return queueResult as ApiResponse<any>;
+
+    const queue = queueResult.data!;
+    if (queue.some(entry => entry.userId === userId)) {
+      return { success: false, error: 'User already on the waitlist' };
+    }
+
+    const now = Date.now();
+    const held = queue.filter(entry => isLiveOffer(entry, now)).length;
+    if (entrantCount(race) + held < race.maxParticipants) {
+      return { success: false, error: 'Illegal waitlist: race has open spots' };
+    }
+
+    const added = await this.dbService.addToWaitlist(raceId, userId);
+    if (!added.success) return added as ApiResponse<any>;
+
+    return this.getSummary(raceId, userId);
+  }
+
+  async leave(raceId: string, userId: string): Promise<ApiResponse<WaitlistSummary>> {
+    const entryResult = await this.dbService.getWaitlistEntry(raceId, userId);
+    if (!entryResult.success) return entryResult as ApiResponse<any>;
+
+    const entry = entryResult.data;
+    if (!entry || (entry.status !== 'waiting' && entry.status !== 'offered')) {
+      return { success: false, error: 'Waitlist entry not found' };
+    }
+
+    const left = await this.dbService.updateWaitlistEntry(entry.id, entry.status, 'left');
+    if (!left.success) return left as ApiResponse<any>;
+
+    // Handing back an offer frees the spot for the next in line
+    if (entry.status === 'offered') {
+      await this.promote(raceId);
+    }
+
+    return this.getSummary(raceId, userId);
+  }
+
+  // Takes the spot held by an offer, joining the race
+  async confirm(raceId: string, userId: string): Promise<ApiResponse<any>> {
+    const entryResult = await this.dbService.getWaitlistEntry(raceId, userId);
+    if (!entryResult.success) return entryResult;
+
+    const entry = entryResult.data;
+    if (!entry || entry.status !== 'offered') {
+      return { success: false, error: 'Waitlist offer not found' };
+    }
+
+    if (!isLiveOffer(entry, Date.now())) {
+      return { success: false, error: 'Illegal confirmation: the offer has expired' };
+    }
+
+    const joined = await this.lifecycle.joinRace(raceId, userId);
+    if (!joined.success) return joined;
+
+    await this.dbService.updateWaitlistEntry(entry.id, 'offered', 'confirmed');
+
+    return joined;
+  }
+
+  async getSummary(raceId: string, userId: string): Promise<ApiResponse<WaitlistSummary>> {
+    const queueResult = await this.dbService.getWaitlist(raceId);
+    if (!queueResult.success) return queueResult as ApiResponse<any>;
+
+    const queue = queueResult.data!;
+    const index = queue.findIndex(entry => entry.userId === userId);
+    const entry = index >= 0 ? queue[index] : undefined;
+
+    return {
+      success: true,
+      data: {
+        length: queue.length,
+        position: entry ? index + 1 : null,
+        status: entry?.status,
+        offerExpiresAt: entry?.offerExpiresAt,
+      },
+    };
+  }
+
+  // Offers every free spot to the next waiting users in order
+  async promote(raceId: string): Promise<void> {
+    const raceResult = await this.dbService.getRace(raceId);
+    if (!raceResult.success || !OPEN_STATUSES.includes(raceResult.data.status)) return;
+
+    const race = raceResult.data;
+    const queueResult = await this.dbService.getWaitlist(raceId);
+    if (!queueResult.success) {
+      console.error('Failed to load waitlist:', queueResult.error);
+      return;
+    }
+
+    const now = Date.now();
+    const queue = queueResult.data!;
+    let free = race.maxParticipants - entrantCount(race) - queue.filter(entry => isLiveOffer(entry, now)).length;
+
+    for (const entry of queue) {
+      if (free <= 0) break;
+      if (entry.status !== 'waiting') continue;
+
+      const expiresAt = new Date(now + CONFIRM_WINDOW_MS);
+      const offered = await this.dbService.updateWaitlistEntry(entry.id, 'waiting', 'offered', {
+        offered_at: new Date(now).toISOString(),
+        offer_expires_at: expiresAt.toISOString(),
+      });
+      if (!offered.success || !offered.data) continue;
+
+      free--;
+
+      await this.scheduler.schedule({
+        type: 'waitlist_offer_expiry',
+        key: `race:${raceId}:waitlist:${entry.id}:${expiresAt.getTime()}`,
+        payload: { raceId, userId: entry.userId },
+        runAt: expiresAt,
+      });
+
+      await this.notifications.notify([{
+        userId: entry.userId,
+        type: 'race_waitlist',
+        title: 'A spot opened up',
+        message: `A spot in ${race.name} is yours if you confirm within ${Math.round(CONFIRM_WINDOW_MS / 60000)} minutes`,
+        relatedRaceId: raceId,
+        expiresAt,
+        data: { offerExpiresAt: expiresAt },
+      }]);
+    }
+  }
+
+  // Spots held by live offers count as taken for everyone except the user holding them
+  private async holdOfferedSpots(race: any, userId: string): Promise<ApiResponse<any>> {
+    const queueResult = await this.dbService.getWaitlist(race.id);
+    if (!queueResult.success) return queueResult;
+
+    const now = Date.now();
+    const held = queueResult.data!.filter(entry => entry.userId !== userId && isLiveOffer(entry, now)).length;
+    if (held > 0 && entrantCount(race) + held >= race.maxParticipants) {
+      return { success: false, error: 'Race is full' };
+    }
+
+    return { success: true };
+  }
+
+  private async handleTransition(event: LifecycleEvent): Promise<void> {
+    if (event.userId && event.to === 'withdrawn') {
+      await this.promote(event.raceId);
+    }
+  }
+
+  private async expireOffer(job: ScheduledJob): Promise<ApiResponse<any>> {
+    const { raceId, userId } = job.payload;
+    const entryResult = await this.dbService.getWaitlistEntry(raceId, userId);
+    if (!entryResult.success) return entryResult;
+
+    const entry = entryResult.data;
+    if (!entry || entry.status !== 'offered' || isLiveOffer(entry, Date.now())) {
+      return { success: true, data: { skipped: true } };
+    }
+
+    const expired = await this.dbService.updateWaitlistEntry(entry.id, 'offered', 'expired');
+    if (!expired.success) return expired;
+
+    if (expired.data) {
+      await this.notifications.notify([{
+        userId,
+        type: 'race_waitlist',
+        title: 'Waitlist offer expired',
+        message: 'You did not confirm in time, so the spot was offered to the next person',
+        relatedRaceId: raceId,
+      }]);
+    }
+
+    await this.promote(raceId);
+
+    return { success: true, data: { expired: !!expired.data } };
+  }
+}
@@ -1,6 +1,12 @@
 import { FastifyRequest } from 'fastify';
 import WebSocket from 'ws';
 import { v4 as uuidv4 } from 'uuid';
+import { ApiResponse } from '../types';
+
+// Spectators see the race this far behind the participants, so a live position can't be used to find a car
+export const SPECTATOR_DELAY_MS = parseInt(process.env.SPECTATOR_DELAY_MS || '5000');
+// Per driver, spectators get at most this many position updates a second
+const SPECTATOR_LOCATION_HZ = parseFloat(process.env.SPECTATOR_LOCATION_HZ || '1');
 
 interface WebSocketConnection {
   id: string;
@@ -12,7 +18,11 @@ interface WebSocketConnection {
 }
 
 interface RaceUpdateMessage {
-  type: 'race_update' | 'race_join' | 'race_leave' | 'race_start' | 'race_finish' | 'race_started' | 'race_completed';
+  type: 'race_update' | 'race_join' | 'race_leave' | 'race_start' | 'race_finish' | 'race_started' | 'race_completed'
+    | 'race_status_changed' | 'participant_status_changed' | 'race_countdown' | 'jump_start'
+    | 'checkpoint_passed' | 'lap_completed' | 'lap_rejected' | 'race_positions' | 'standings_update'
+    | 'results_updated' | 'race_updated' | 'championship_standings' | 'race_handicaps' | 'dial_in_updated'
+    | 'viewer_count' | 'chat_message' | 'chat_message_edited' | 'chat_message_deleted';
   raceId: string;
   data: any;
   timestamp: Date;
@@ -41,8 +51,20 @@ interface LocationUpdateMessage {
   timestamp: Date;
 }
 
+export interface RaceMessageContext {
+  connectionId: string;
+  userId: string;
+  raceId: string;
+}
+
+// Handlers for race socket messages owned by other services. A failed ApiResponse is sent back as an `error` message.
+export type RaceMessageHandler = (context: RaceMessageContext, message: any) => Promise<ApiResponse | void> | ApiResponse | void;
+
+// Decides who may join a race room as a participant; everyone else can only spectate
+export type RaceRoomGuard = (userId: string | undefined, raceId: string) => Promise<ApiResponse>;
+
 interface NotificationMessage {
-  type: 'friend_request_received' | 'friend_request_accepted' | 'race_invitation' | 'notification';
+  type: 'friend_request_received' | 'friend_request_accepted' | 'race_invitation' | 'notification' | 'matchmaking_status';
   userId?: string;
   data: any;
   timestamp: Date;
@@ -51,7 +73,13 @@ interface NotificationMessage {
 export class WebSocketService {
   private connections: Map<string, WebSocketConnection> = new Map();
   private raceRooms: Map<string, Set<string>> = new Map();
+  private spectatorRooms: Map<string, Set<string>> = new Map();
+  private spectatorLocationSentAt: Map<string, number> = new Map();
+  private pendingJoins: Map<string, Promise<void>> = new Map();
+  private roomGuard?: RaceRoomGuard;
   private userConnections: Map<string, string> = new Map();
+  private raceMessageHandlers: Map<string, RaceMessageHandler> = new Map();
+  private disconnectListeners: ((connectionId: string) => void)[] = [];
   private heartbeatInterval?: NodeJS.Timeout;
 
   initialize(): void {
@@ -62,6 +90,19 @@ export class WebSocketService {
     }, parseInt(process.env.WS_HEARTBEAT_INTERVAL || '30000'));
   }
 
+  public onRaceMessage(type: string, handler: RaceMessageHandler): void {
+    this.raceMessageHandlers.set(type, handler);
+  }
+
+  public useRoomGuard(guard: RaceRoomGuard): void {
+    this.roomGuard = guard;
+  }
+
+  // For services holding per-connection state, e.g. a ghost race streaming to the socket
+  public onDisconnect(listener: (connectionId: string) => void): void {
+    this.disconnectListeners.push(listener);
+  }
+
   async handleMainConnection(connection: WebSocket, request: FastifyRequest): Promise<void> {
     const connectionId = uuidv4();
     const userId = (request as any).user?.id;
@@ -186,7 +227,7 @@ export class WebSocketService {
     });
   }
 
-  private sendToConnection(connectionId: string, message: any): void {
+  public sendToConnection(connectionId: string, message: any): void {
     const connection = this.connections.get(connectionId);
     if (connection && connection.socket.readyState === WebSocket.OPEN) {
       try {
@@ -211,7 +252,7 @@ export class WebSocketService {
     switch (message.type) {
       case 'join_race':
         console.log('🔍 WebSocket Debug - User joining race room:', message.data?.raceId || message.raceId);
-        this.joinRaceRoom(connectionId, message.data?.raceId || message.raceId);
+        this.requestJoinRaceRoom(connectionId, message.data?.raceId || message.raceId);
         break;
       case 'leave_race':
         this.leaveRaceRoom(connectionId, message.data?.raceId || message.raceId);
@@ -244,6 +285,11 @@ export class WebSocketService {
       }
     }
 
+    for (const raceId of this.getSpectatedRaces(connectionId)) {
+      this.removeSpectator(connectionId, raceId);
+    }
+    this.pendingJoins.delete(connectionId);
+
     // Remove user connection mapping
     if (connection.userId) {
       this.userConnections.delete(connection.userId);
@@ -251,6 +297,35 @@ export class WebSocketService {
     }
 
     this.connections.delete(connectionId);
+
+    for (const listener of this.disconnectListeners) {
+      listener(connectionId);
+    }
+  }
+
+  private requestJoinRaceRoom(connectionId: string, raceId: string): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    if (!this.roomGuard) {
+      this.joinRaceRoom(connectionId, raceId);
+      return;
+    }
+
+    const guard = this.roomGuard;
+    const join = this.afterPendingJoin(connectionId, () => guard(connection.userId, raceId))
+      .then(access => {
+        if (access.success) this.joinRaceRoom(connectionId, raceId);
+        else this.sendRaceError(connectionId, raceId, 'join_race', access.error || 'Request failed');
+      })
+      .catch(error => {
+        console.error('Race room guard failed:', error);
+        this.sendRaceError(connectionId, raceId, 'join_race', 'Internal server error');
+      })
+      .finally(() => {
+        if (this.pendingJoins.get(connectionId) === join) this.pendingJoins.delete(connectionId);
+      });
+    this.pendingJoins.set(connectionId, join);
   }
 
   private joinRaceRoom(connectionId: string, raceId: string): void {
@@ -259,6 +334,7 @@ export class WebSocketService {
     }
     
     this.raceRooms.get(raceId)!.add(connectionId);
+    this.removeSpectator(connectionId, raceId);
     console.log('🔍 WebSocket Debug - Connection joined race room:', connectionId, 'to race:', raceId);
     console.log('🔍 WebSocket Debug - Race room participants:', Array.from(this.raceRooms.get(raceId) || []));
     
@@ -285,6 +361,67 @@ export class WebSocketService {
     });
   }
 
+  // Spectators get every race broadcast, delayed, but are never part of the participant room
+  public addSpectator(connectionId: string, raceId: string): number {
+    if (!this.spectatorRooms.has(raceId)) {
+      this.spectatorRooms.set(raceId, new Set());
+    }
+    this.spectatorRooms.get(raceId)!.add(connectionId);
+    this.broadcastViewerCount(raceId);
+
+    return this.getViewerCount(raceId);
+  }
+
+  public removeSpectator(connectionId: string, raceId: string): void {
+    const room = this.spectatorRooms.get(raceId);
+    if (!room?.delete(connectionId)) return;
+
+    if (room.size === 0) {
+      this.spectatorRooms.delete(raceId);
+      for (const key of this.spectatorLocationSentAt.keys()) {
+        if (key.startsWith(`${raceId}:`)) this.spectatorLocationSentAt.delete(key);
+      }
+    }
+    this.broadcastViewerCount(raceId);
+  }
+
+  public getSpectatedRaces(connectionId: string): string[] {
+    return [...this.spectatorRooms.entries()]
+      .filter(([, connectionIds]) => connectionIds.has(connectionId))
+      .map(([raceId]) => raceId);
+  }
+
+  public isInRaceRoom(connectionId: string, raceId: string): boolean {
+    return this.raceRooms.get(raceId)?.has(connectionId) ?? false;
+  }
+
+  public isSpectating(connectionId: string, raceId: string): boolean {
+    return this.spectatorRooms.get(raceId)?.has(connectionId) ?? false;
+  }
+
+  public getViewerCount(raceId: string): number {
+    return this.spectatorRooms.get(raceId)?.size ?? 0;
+  }
+
+  private broadcastViewerCount(raceId: string): void {
+    this.broadcastToRace(raceId, {
+      type: 'viewer_count',
+      raceId,
+      data: { raceId, viewers: this.getViewerCount(raceId) },
+      timestamp: new Date(),
+    });
+  }
+
+  private sendToSpectators(raceId: string, message: any): void {
+    if (!this.spectatorRooms.get(raceId)?.size) return;
+
+    setTimeout(() => {
+      for (const connectionId of this.spectatorRooms.get(raceId) || []) {
+        this.sendToConnection(connectionId, message);
+      }
+    }, SPECTATOR_DELAY_MS);
+  }
+
   private sendHeartbeat(): void {
     for (const connection of this.connections.values()) {
       if (connection.socket.readyState === WebSocket.OPEN) {
@@ -323,9 +460,10 @@ export class WebSocketService {
     console.log(`🏁 Race WebSocket connected: ${connectionId} (User: ${userId})`);
 
     connection.on('message', (data: Buffer) => {
+      const receivedAt = Date.now();
       try {
         const message = JSON.parse(data.toString());
-        this.handleRaceMessage(connectionId, message);
+        this.handleRaceMessage(connectionId, message, receivedAt);
       } catch (error) {
         console.error('Invalid race message:', error);
       }
@@ -427,29 +565,88 @@ export class WebSocketService {
     });
   }
 
-  private handleRaceMessage(connectionId: string, message: any): void {
+  private handleRaceMessage(connectionId: string, message: any, receivedAt: number = Date.now()): void {
     const connection = this.connections.get(connectionId);
     if (!connection) return;
 
     switch (message.type) {
+      case 'clock_sync':
+        // NTP-style handshake: the client estimates its offset from server time as
+        // ((serverReceiveTime - clientTime) + (serverSendTime - clientReceiveTime)) / 2
+        this.sendToConnection(connectionId, {
+          type: 'clock_sync',
+          data: {
+            clientTime: message.data?.clientTime,
+            serverReceiveTime: receivedAt,
+            serverSendTime: Date.now(),
+          },
+          timestamp: new Date(),
+        });
+        break;
       case 'join_race':
-        this.joinRaceRoom(connectionId, message.data?.raceId || message.raceId);
+        this.requestJoinRaceRoom(connectionId, message.data?.raceId || message.raceId);
         break;
       case 'leave_race':
         this.leaveRaceRoom(connectionId, message.data?.raceId || message.raceId);
         break;
       case 'race_update':
-        this.broadcastToRace(message.data?.raceId || message.raceId, {
-          type: 'race_update',
-          raceId: message.data?.raceId || message.raceId,
-          data: message.data,
-          timestamp: new Date(),
-        });
+        this.afterPendingJoin(connectionId, () => this.relayRaceUpdate(connectionId, message));
         break;
       case 'pong':
         connection.lastPing = new Date();
         break;
+      default:
+        this.dispatchRaceMessage(connection, message);
+        break;
+    }
+  }
+
+  // Only participants in the room may post into it; spectators are read-only
+  private relayRaceUpdate(connectionId: string, message: any): void {
+    const raceId = message.data?.raceId || message.raceId;
+    if (!this.raceRooms.get(raceId)?.has(connectionId)) {
+      this.sendRaceError(connectionId, raceId, 'race_update', 'Only race participants can send race updates');
+      return;
     }
+
+    this.broadcastToRace(raceId, {
+      type: 'race_update',
+      raceId,
+      data: message.data,
+      timestamp: new Date(),
+    });
+  }
+
+  private sendRaceError(connectionId: string, raceId: string, requestType: string, error: string): void {
+    this.sendToConnection(connectionId, {
+      type: 'error',
+      raceId,
+      data: { requestType, error },
+      timestamp: new Date(),
+    });
+  }
+
+  // Messages after a join_race are handled once the join is decided, so e.g. a `ready` sent right
+  // after joining still gets its broadcast back
+  private afterPendingJoin<T>(connectionId: string, action: () => T | Promise<T>): Promise<T> {
+    return (this.pendingJoins.get(connectionId) || Promise.resolve()).then(action);
+  }
+
+  private dispatchRaceMessage(connection: WebSocketConnection, message: any): void {
+    const handler = this.raceMessageHandlers.get(message.type);
+    if (!handler || !connection.userId) return;
+
+    const raceId = message.data?.raceId || message.raceId;
+    const sendError = (error: string) => this.sendRaceError(connection.id, raceId, message.type, error);
+
+    this.afterPendingJoin(connection.id, () => handler({ connectionId: connection.id, userId: connection.userId!, raceId }, message))
+      .then(result => {
+        if (result && !result.success) sendError(result.error || 'Request failed');
+      })
+      .catch(error => {
+        console.error(`Race message handler failed for ${message.type}:`, error);
+        sendError('Internal server error');
+      });
   }
 
   private handleLocationMessage(connectionId: string, message: any): void {
@@ -483,6 +680,8 @@ export class WebSocketService {
   }
 
   public broadcastToRace(raceId: string, message: RaceUpdateMessage): void {
+    this.sendToSpectators(raceId, message);
+
     const connectionIds = this.raceRooms.get(raceId);
     if (!connectionIds) {
       console.log('🔍 WebSocket Debug - No race room found for:', raceId);
@@ -510,7 +709,7 @@ export class WebSocketService {
     console.log('🔍 WebSocket Debug - Location update sent to', sentCount, 'connections');
   }
 
-  public sendRaceStartedNotification(raceId: string): void {
+  public sendRaceStartedNotification(raceId: string, startAt?: number): void {
     console.log('🔍 WebSocket Debug - Sending race started notification for race:', raceId);
     console.log('🔍 WebSocket Debug - Race room participants:', this.raceRooms.get(raceId));
     this.broadcastToRace(raceId, {
@@ -519,6 +718,7 @@ export class WebSocketService {
       data: {
         raceId: raceId,
         status: 'active',
+        startAt,
         message: 'Race has started!'
       },
       timestamp: new Date(),
@@ -541,14 +741,6 @@ export class WebSocketService {
   }
 
   public sendLocationUpdate(raceId: string, userId: string, location: any): void {
-    const connectionIds = this.raceRooms.get(raceId);
-    if (!connectionIds) {
-      console.log('🔍 WebSocket Debug - No race room for location update:', raceId);
-      return;
-    }
-
-    console.log('🔍 WebSocket Debug - Sending location update for race:', raceId, 'from user:', userId);
-
     const locationMessage: LocationUpdateMessage = {
       type: 'location_update',
       userId: userId,
@@ -561,6 +753,21 @@ export class WebSocketService {
       timestamp: new Date(),
     };
 
+    const throttleKey = `${raceId}:${userId}`;
+    const now = Date.now();
+    if (now - (this.spectatorLocationSentAt.get(throttleKey) ?? 0) >= 1000 / SPECTATOR_LOCATION_HZ) {
+      this.spectatorLocationSentAt.set(throttleKey, now);
+      this.sendToSpectators(raceId, locationMessage);
+    }
+
+    const connectionIds = this.raceRooms.get(raceId);
+    if (!connectionIds) {
+      console.log('🔍 WebSocket Debug - No race room for location update:', raceId);
+      return;
+    }
+
+    console.log('🔍 WebSocket Debug - Sending location update for race:', raceId, 'from user:', userId);
+
     for (const connectionId of connectionIds) {
       const connection = this.connections.get(connectionId);
       if (connection) {
@@ -583,6 +790,8 @@ export class WebSocketService {
 
     this.connections.clear();
     this.raceRooms.clear();
+    this.spectatorRooms.clear();
+    this.spectatorLocationSentAt.clear();
     this.userConnections.clear();
   }
 
@@ -593,6 +802,7 @@ export class WebSocketService {
       locationConnections: Array.from(this.connections.values()).filter(c => c.type === 'location').length,
       notificationConnections: Array.from(this.connections.values()).filter(c => c.type === 'notification').length,
       activeRaces: this.raceRooms.size,
+      spectators: [...this.spectatorRooms.values()].reduce((sum, room) => sum + room.size, 0),
       authenticatedUsers: this.userConnections.size,
     };
   }
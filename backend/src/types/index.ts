@@ -76,11 +76,225 @@ export interface Race {
   maxParticipants: number;
   entryRequirements: string[];
   participants: RaceParticipant[];
-  status: 'scheduled' | 'active' | 'completed' | 'cancelled';
+  status: RaceStatus;
   results?: RaceResult[];
   createdAt: Date;
 }
 
+// Race lifecycle states (must match the CHECK constraints in database/complete-schema.sql)
+export type RaceStatus = 'scheduled' | 'staging' | 'countdown' | 'active' | 'finished' | 'cancelled';
+
+export type ParticipantStatus = 'registered' | 'ready' | 'racing' | 'finished' | 'dnf' | 'withdrawn';
+
+// One GPS sample. Timestamps are server epoch ms (clients correct their clock with clock_sync).
+export interface TelemetrySample {
+  seq: number;
+  timestamp: number;
+  lat: number;
+  lng: number;
+  speed?: number; // m/s
+  heading?: number; // degrees
+  accuracy?: number; // meters
+}
+
+export interface TelemetryIngestResult {
+  accepted: number;
+  duplicates: number;
+  throttled: number;
+  rejected: number;
+}
+
+// Drag strip timing slip. Times are seconds from launch (reaction time from green), speeds m/s.
+// Markers the trace never reached are null.
+export interface TimingSlip {
+  reactionTime: number | null;
+  sixtyFoot: number | null;
+  threeThirtyFoot: number | null;
+  eighthMile: number | null;
+  eighthMileSpeed: number | null;
+  thousandFoot: number | null;
+  quarterMile: number | null;
+  trapSpeed: number | null;
+  complete: boolean;
+}
+
+// Timing gate on a race route: a line the car must cross, or a circle it must enter
+export type RouteGate =
+  | { type: 'line'; name?: string; a: { lat: number; lng: number }; b: { lat: number; lng: number } }
+  | { type: 'radius'; name?: string; center: { lat: number; lng: number }; radius: number }; // radius in meters
+
+// Stored in races.route. Older races stored a bare waypoint array, which maps to { waypoints }.
+export interface RaceRoute {
+  waypoints: { lat: number; lng: number }[];
+  startFinish?: RouteGate;
+  checkpoints?: RouteGate[]; // in driving order
+  laps?: number;
+  driftZones?: DriftZone[]; // judged sections of a drift course, in driving order
+}
+
+// A judged section of a drift course, scored from its entry gate to its exit gate against the
+// organizer's ideal line through it
+export interface DriftZone {
+  name?: string;
+  entry: RouteGate;
+  exit: RouteGate;
+  line: { lat: number; lng: number }[]; // ideal line, in driving order
+  targetAngle?: number; // degrees of yaw for full angle marks
+  targetSpeed?: number; // m/s for full speed marks
+  weight?: number; // share of the run score relative to the other zones; defaults to 1
+}
+
+// Sub-scores are 0-100
+export interface DriftZoneScore {
+  zone: number;
+  name?: string;
+  completed: boolean; // entered and exited; an incomplete zone scores nothing
+  spun: boolean;
+  angle: number;
+  speed: number;
+  line: number;
+  style: number;
+  total: number;
+  averageAngle: number; // degrees
+  maxAngle: number;
+  averageSpeed: number; // m/s
+  lineDeviation: number; // meters, average distance from the ideal line
+  driftShare: number; // fraction of the zone spent sideways
+  proximity?: number; // tandem chase only: average meters behind the lead car
+}
+
+export interface DriftScore {
+  userId: string;
+  total: number;
+  angle: number;
+  speed: number;
+  line: number;
+  style: number;
+  zones: DriftZoneScore[];
+  tandem?: {
+    role: 'lead' | 'chase';
+    partnerId: string;
+    soloTotal: number; // the run judged on its own, before the tandem adjustment
+    proximity: number | null; // chase: 0-100 for staying close
+    mimic: number | null; // chase: 0-100 for matching the lead's angle
+    passed: boolean; // chase overtook the lead in a zone
+  };
+}
+
+export interface LapRecord {
+  lap: number;
+  lapTime: number; // seconds
+  sectors: number[]; // seconds, one per checkpoint plus the run back to the line
+  completedAt: number; // server epoch ms
+}
+
+export interface RaceGap {
+  distance: number; // meters
+  time: number | null; // seconds; null when it can't be measured yet
+}
+
+export interface StandingEntry {
+  position: number;
+  userId: string;
+  status: ParticipantStatus;
+  distance: number; // meters along the route, including completed laps
+  lap?: number; // current lap on circuits
+  speed?: number; // m/s
+  gapToLeader: RaceGap | null;
+  gapToNext: RaceGap | null;
+}
+
+export type ReviewStatus = 'approved' | 'pending_review' | 'rejected';
+
+// Outcome of the plausibility checks run on every submitted result
+export interface ResultReview {
+  status: ReviewStatus;
+  reasons: string[];
+}
+
+// A row of race_results, with the participant's user resolved
+export interface RecordedResult {
+  id: string;
+  raceId: string;
+  participantId: string;
+  userId: string;
+  position: number;
+  timeResult: number;
+  speedResult: number | null;
+  splits: any;
+  isWinner: boolean;
+  reviewStatus: ReviewStatus;
+  reviewReasons: string[];
+  createdAt: Date;
+}
+
+export type DisputeStatus = 'open' | 'accepted' | 'rejected' | 'withdrawn';
+
+// What an organizer does to the contested result when accepting a dispute
+export type DisputeRuling =
+  | { action: 'reposition'; position: number }
+  | { action: 'adjust_time'; timeResult: number }
+  | { action: 'disqualify' };
+
+export interface ResultDispute {
+  id: string;
+  raceId: string;
+  resultId: string;
+  filedBy: string;
+  reason: string;
+  evidence: {
+    telemetryRange?: { userId: string; fromSeq: number; toSeq: number };
+    photoUrl?: string;
+  };
+  requestedPosition?: number;
+  status: DisputeStatus;
+  ruling?: DisputeRuling;
+  resolution?: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+export interface ResultHistoryEntry {
+  raceId: string;
+  resultId: string;
+  disputeId?: string;
+  changedBy?: string;
+  action: string;
+  previous?: any;
+  current?: any;
+  reason?: string;
+  createdAt: Date;
+}
+
+// A correction to one result, applied in the same transaction as the re-rank it leads to
+export interface ResultChange {
+  resultId: string;
+  action: string;
+  previous?: any;
+  current?: any;
+  timeResult?: number;
+  reviewStatus?: ReviewStatus;
+}
+
+// What a participant's finish is recorded with, after any server-side timing has been applied
+export interface FinishData {
+  finishTime: string;
+  totalTime: number; // seconds
+  averageSpeed: number; // m/s
+  splits?: any;
+}
+
+export interface RaceStatusTransition {
+  raceId: string;
+  userId?: string; // set for participant transitions
+  from: RaceStatus | ParticipantStatus | null;
+  to: RaceStatus | ParticipantStatus;
+  changedBy?: string;
+  reason?: string;
+  createdAt: Date;
+}
+
 export interface RaceParticipant {
   userId: string;
   username: string;
@@ -212,14 +426,373 @@ export interface AIPerformanceAnalysis {
 export interface Notification {
   id: string;
   userId: string;
-  type: 'race_invite' | 'friend_request' | 'race_result' | 'meetup_invite';
+  type: NotificationType;
   title: string;
   message: string;
   data?: any;
+  relatedUserId?: string;
+  relatedRaceId?: string;
+  actionUrl?: string;
   read: boolean;
   createdAt: Date;
+  expiresAt?: Date;
+}
+
+export type NotificationType =
+  | 'race_invite' | 'friend_request' | 'race_result' | 'meetup_invite' | 'race_dispute'
+  | 'race_reminder' | 'race_update' | 'race_join_request' | 'race_waitlist';
+
+export type NotificationInput = Omit<Notification, 'id' | 'read' | 'createdAt'>;
+
+// Race Access Types
+export type InvitationStatus = 'pending' | 'accepted' | 'declined';
+
+export interface RaceInvitation {
+  id: string;
+  raceId: string;
+  userId: string;
+  invitedBy?: string;
+  status: InvitationStatus;
+  respondedAt?: Date;
+  createdAt: Date;
+}
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface JoinRequest {
+  id: string;
+  raceId: string;
+  userId: string;
+  message?: string;
+  status: JoinRequestStatus;
+  decidedBy?: string;
+  decidedAt?: Date;
+  reason?: string;
+  createdAt: Date;
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'confirmed' | 'expired' | 'left';
+
+export interface WaitlistEntry {
+  id: string;
+  raceId: string;
+  userId: string;
+  status: WaitlistStatus;
+  offeredAt?: Date;
+  offerExpiresAt?: Date;
+  createdAt: Date;
+}
+
+// Tournament Types
+export type TournamentFormat = 'single_elimination' | 'double_elimination';
+
+export type TournamentSeeding = 'quarter_mile' | 'rating';
+
+export type TournamentStatus = 'registration' | 'in_progress' | 'completed' | 'cancelled';
+
+export interface Tournament {
+  id: string;
+  createdBy: string;
+  name: string;
+  description?: string;
+  format: TournamentFormat;
+  seeding: TournamentSeeding;
+  maxEntrants: number;
+  startLocation: { lat: number; lng: number; address?: string };
+  endLocation: { lat: number; lng: number; address?: string };
+  status: TournamentStatus;
+  championId?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+}
+
+export type TournamentEntrantStatus = 'registered' | 'active' | 'eliminated' | 'champion';
+
+export interface TournamentEntrant {
+  id: string;
+  tournamentId: string;
+  userId: string;
+  vehicleId?: string;
+  seed?: number;
+  seedValue?: number;
+  status: TournamentEntrantStatus;
+  losses: number;
+  createdAt: Date;
 }
 
+export type BracketSide = 'winners' | 'losers' | 'grand_final';
+
+export type MatchStatus = 'pending' | 'ready' | 'completed' | 'bye' | 'void';
+
+export type MatchSlot = 'a' | 'b';
+
+export interface TournamentMatch {
+  id: string;
+  tournamentId: string;
+  bracket: BracketSide;
+  round: number;
+  matchNumber: number;
+  entrantA: string | null;
+  entrantB: string | null;
+  aSettled: boolean;
+  bSettled: boolean;
+  raceId: string | null;
+  attempts: number; // races created for this match, including cancelled ones
+  winnerId: string | null;
+  loserId: string | null;
+  status: MatchStatus;
+  winnerNext: { matchId: string; slot: MatchSlot } | null;
+  loserNext: { matchId: string; slot: MatchSlot } | null;
+  completedAt?: Date;
+}
+
+// Championship Types
+export interface PointsScheme {
+  positions: number[]; // points for P1, P2, ...; finishing further back scores nothing
+  fastestLap: number; // bonus for the fastest lap of a round, among classified finishers
+  dropWorst: number; // each driver's worst N rounds don't count
+}
+
+// Drivers score within the division their vehicle fits; criteria left out don't restrict
+export interface ChampionshipDivision {
+  key: string;
+  name: string;
+  minHorsepower?: number;
+  maxHorsepower?: number;
+  drivetrains?: string[];
+}
+
+export interface Championship {
+  id: string;
+  createdBy: string;
+  name: string;
+  description?: string;
+  pointsScheme: PointsScheme;
+  divisions: ChampionshipDivision[];
+  createdAt: Date;
+}
+
+export interface ChampionshipRound {
+  id: string;
+  championshipId: string;
+  raceId: string;
+  roundNumber: number;
+  createdAt: Date;
+}
+
+export interface RoundScore {
+  roundNumber: number;
+  raceId: string;
+  position: number | null; // within the division; null if the driver didn't classify
+  points: number;
+  fastestLap: boolean;
+  dropped: boolean;
+}
+
+export interface ChampionshipStanding {
+  rank: number;
+  userId: string;
+  username?: string;
+  points: number; // after dropped rounds
+  grossPoints: number;
+  countback: number[]; // finishes per position: [wins, seconds, thirds, ...]
+  rounds: RoundScore[];
+}
+
+// Skill Rating Types
+export type RatedRaceType = 'drag' | 'circuit' | 'drift' | 'time-trial';
+
+export interface SkillRating {
+  userId: string;
+  raceType: RatedRaceType;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  racesRated: number;
+  provisional: boolean; // deviation still too wide for the rating to mean much
+  lastRatedAt?: Date;
+}
+
+export interface RatingHistoryEntry {
+  id: string;
+  userId: string;
+  raceId: string;
+  raceType: RatedRaceType;
+  ratingBefore: number;
+  ratingAfter: number;
+  deviationBefore: number;
+  deviationAfter: number;
+  volatilityBefore?: number; // kept so a race can be re-rated when its results change
+  position: number;
+  fieldSize: number;
+  createdAt: Date;
+}
+
+// Vehicle Class Types
+export type VehicleClass = 'D' | 'C' | 'B' | 'A' | 'S' | 'X';
+
+export interface VehicleModification {
+  id: string;
+  vehicleId: string;
+  category: string;
+  name: string;
+  horsepowerGain: number;
+  torqueGain: number;
+  weightChange: number;
+}
+
+// Performance as raced: stock specs plus installed modifications
+export interface VehicleClassification {
+  vehicleId: string;
+  vehicleClass: VehicleClass | null; // null when the specs are missing horsepower or weight
+  horsepower: number;
+  weight: number;
+  drivetrain: string;
+  powerToWeight: number | null; // hp per 1000 lb
+  performanceIndex: number | null;
+  estimatedQuarterMile: number | null;
+  modifications: number;
+}
+
+// Time Trial Types
+// Point-to-point (or loop, when start and finish are the same gate) course for a saved route
+export interface TrialRoute {
+  waypoints: { lat: number; lng: number }[];
+  start: RouteGate;
+  checkpoints: RouteGate[]; // in driving order
+  finish: RouteGate;
+}
+
+export interface SavedRoute {
+  id: string;
+  createdBy: string;
+  name: string;
+  description?: string;
+  route: TrialRoute;
+  distance: number | null; // meters
+  createdAt: Date;
+}
+
+export interface RouteRun {
+  id: string;
+  routeId: string;
+  userId: string;
+  vehicleId?: string;
+  vehicleClass: VehicleClass | null;
+  elapsedTime: number; // seconds
+  splits: number[]; // seconds from the start gate at each checkpoint
+  startedAt: Date;
+  reviewStatus: ReviewStatus;
+  reviewReasons: string[];
+  createdAt: Date;
+}
+
+export type LeaderboardView = 'overall' | 'weekly' | 'class' | 'friends';
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username?: string;
+  runId: string;
+  vehicleClass: VehicleClass | null;
+  elapsedTime: number;
+  gapToLeader: number;
+  startedAt: Date;
+}
+
+export type GhostOutcome = 'won' | 'lost' | 'tied';
+
+// Against a saved-route run (routeId, runId, ghostRunId) or a race result (raceId, ghostResultId)
+export interface GhostRaceRecord {
+  id: string;
+  routeId: string | null;
+  raceId: string | null;
+  userId: string;
+  runId: string | null; // the attempt's route run; race attempts aren't saved as runs
+  ghostRunId: string | null;
+  ghostResultId: string | null;
+  ghostUserId: string;
+  elapsedTime: number;
+  ghostTime: number;
+  margin: number; // seconds; negative beat the ghost
+  splitDeltas: number[];
+  outcome: GhostOutcome;
+  createdAt: Date;
+}
+
+// Race Chat Types
+export type ChatMessageType = 'text' | 'image' | 'system' | 'location';
+
+export interface ChatMessage {
+  id: string;
+  raceId: string;
+  senderId: string; // for system messages, the participant the event is about (or the organizer)
+  content: string;
+  messageType: ChatMessageType;
+  metadata?: Record<string, any>;
+  isEdited: boolean;
+  editedAt?: Date;
+  isDeleted: boolean;
+  createdAt: Date;
+}
+
+// Matchmaking Types
+export type TicketStatus = 'searching' | 'proposed' | 'matched' | 'cancelled' | 'expired';
+
+export interface MatchmakingTicket {
+  id: string;
+  userId: string;
+  vehicleId?: string;
+  raceType: RatedRaceType;
+  location: { lat: number; lng: number };
+  radiusKm: number;
+  windowStart: Date;
+  windowEnd: Date;
+  rating: number;
+  powerToWeight: number | null; // hp per 1000 lb
+  status: TicketStatus;
+  proposalId?: string;
+  acceptedAt?: Date;
+  raceId?: string;
+  createdAt: Date;
+}
+
+export type ProposalStatus = 'pending' | 'accepted' | 'declined' | 'expired';
+
+export interface MatchProposal {
+  id: string;
+  raceType: RatedRaceType;
+  meetingPoint: { lat: number; lng: number };
+  startTime: Date;
+  status: ProposalStatus;
+  raceId?: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// Background Job Types
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScheduledJob {
+  id: string;
+  type: string;
+  key?: string;
+  payload: Record<string, any>;
+  runAt: Date;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  workerId?: string;
+  leaseExpiresAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+}
+
+export type JobInput = Pick<ScheduledJob, 'type' | 'key' | 'payload' | 'runAt'> & { maxAttempts?: number };
+
 // Error Types
 export interface AppError {
   code: string;
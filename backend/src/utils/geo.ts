@@ -0,0 +1,129 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Great-circle distance in meters
+export function haversineDistance(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Initial compass bearing from a to b, degrees 0-360
+export function bearing(a: LatLng, b: LatLng): number {
+  const dLng = toRadians(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRadians(b.lat));
+  const x = Math.cos(toRadians(a.lat)) * Math.sin(toRadians(b.lat))
+    - Math.sin(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.cos(dLng);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Smallest difference between two compass angles, degrees 0-180
+export function angleBetween(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Flat projection in meters around `origin`; accurate enough over the few hundred meters of a gate
+export function toLocalMeters(origin: LatLng, p: LatLng): Point {
+  return {
+    x: toRadians(p.lng - origin.lng) * Math.cos(toRadians(origin.lat)) * EARTH_RADIUS_M,
+    y: toRadians(p.lat - origin.lat) * EARTH_RADIUS_M,
+  };
+}
+
+// Where segment p1->p2 crosses segment q1->q2, as a fraction along p1->p2 (null if they don't cross)
+export function segmentIntersection(p1: LatLng, p2: LatLng, q1: LatLng, q2: LatLng): number | null {
+  const a = toLocalMeters(q1, p1);
+  const b = toLocalMeters(q1, p2);
+  const c = { x: 0, y: 0 };
+  const d = toLocalMeters(q1, q2);
+
+  const r = { x: b.x - a.x, y: b.y - a.y };
+  const s = { x: d.x - c.x, y: d.y - c.y };
+  const denominator = r.x * s.y - r.y * s.x;
+  if (denominator === 0) return null;
+
+  const t = ((c.x - a.x) * s.y - (c.y - a.y) * s.x) / denominator;
+  const u = ((c.x - a.x) * r.y - (c.y - a.y) * r.x) / denominator;
+
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+}
+
+export interface Path {
+  points: LatLng[];
+  cumulative: number[]; // meters from the first point to each point
+  length: number;
+  closed: boolean;
+}
+
+export interface PathProjection {
+  along: number; // meters along the path
+  offset: number; // meters from the path
+  segment: number;
+}
+
+// A closed path (circuit) gets a final segment back to its first point
+export function buildPath(points: LatLng[], closed = false): Path {
+  const vertices = closed && points.length > 2 ? [...points, points[0]] : [...points];
+  const cumulative = [0];
+  for (let i = 1; i < vertices.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineDistance(vertices[i - 1], vertices[i]));
+  }
+
+  return { points: vertices, cumulative, length: cumulative[cumulative.length - 1] || 0, closed };
+}
+
+function projectOntoSegment(path: Path, segment: number, p: LatLng): PathProjection {
+  const a = toLocalMeters(p, path.points[segment]);
+  const b = toLocalMeters(p, path.points[segment + 1]);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+
+  return {
+    along: path.cumulative[segment] + t * (path.cumulative[segment + 1] - path.cumulative[segment]),
+    offset: Math.hypot(a.x + t * dx, a.y + t * dy),
+    segment,
+  };
+}
+
+// Nearest point on the path. With `near` (the previous segment) the search starts in a window
+// ahead of it, so routes that pass close to themselves don't make the projection jump.
+export function projectOntoPath(path: Path, p: LatLng, near?: number, maxOffset = 50): PathProjection | null {
+  const segments = path.points.length - 1;
+  if (segments < 1) return null;
+
+  const best = (candidates: number[]): PathProjection =>
+    candidates
+      .map(segment => projectOntoSegment(path, segment, p))
+      .reduce((a, b) => (b.offset < a.offset ? b : a));
+
+  if (near !== undefined) {
+    const window: number[] = [];
+    for (let i = near - 2; i <= near + 10; i++) {
+      if (path.closed) window.push(((i % segments) + segments) % segments);
+      else if (i >= 0 && i < segments) window.push(i);
+    }
+
+    const local = best(window);
+    if (local.offset <= maxOffset) return local;
+  }
+
+  return best([...Array(segments).keys()]);
+}
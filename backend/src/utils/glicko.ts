@@ -0,0 +1,103 @@
+// Glicko-2 (Glickman, "Example of the Glicko-2 system"). Ratings are on the familiar
+// 1500 scale at the edges and converted to the internal mu/phi scale for the update.
+
+const SCALE = 173.7178;
+// Constrains how fast volatility can move; 0.3-1.2 per the paper
+const TAU = parseFloat(process.env.RATING_TAU || '0.5');
+const EPSILON = 0.000001;
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+// Until the deviation narrows below this the rating is shown as provisional
+export const PROVISIONAL_DEVIATION = 110;
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export interface Glicko2Game {
+  opponent: Glicko2Rating;
+  score: number; // 1 win, 0.5 draw, 0 loss
+}
+
+const g = (phi: number): number => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expected = (mu: number, muJ: number, phiJ: number): number => 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+
+// Grows the deviation for rating periods without games, capped at the unrated value
+export function inflateDeviation(player: Glicko2Rating, periods: number): Glicko2Rating {
+  if (periods <= 0) return player;
+
+  const phi = player.deviation / SCALE;
+  const inflated = Math.sqrt(phi * phi + periods * player.volatility * player.volatility) * SCALE;
+  return { ...player, deviation: Math.min(inflated, DEFAULT_DEVIATION) };
+}
+
+// One rating period for `player`. Opponents must be their ratings from before the period.
+export function rateGlicko2(player: Glicko2Rating, games: Glicko2Game[]): Glicko2Rating {
+  const mu = (player.rating - DEFAULT_RATING) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+
+  if (!games.length) {
+    return { ...player, deviation: Math.min(Math.sqrt(phi * phi + sigma * sigma) * SCALE, DEFAULT_DEVIATION) };
+  }
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const game of games) {
+    const muJ = (game.opponent.rating - DEFAULT_RATING) / SCALE;
+    const phiJ = game.opponent.deviation / SCALE;
+    const e = expected(mu, muJ, phiJ);
+    vInverse += g(phiJ) ** 2 * e * (1 - e);
+    improvement += g(phiJ) * (game.score - e);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  // New volatility by the Illinois algorithm
+  const a = Math.log(sigma * sigma);
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * (phi * phi + v + ex) ** 2) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  const newSigma = Math.exp(A / 2);
+
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * SCALE + DEFAULT_RATING,
+    deviation: newPhi * SCALE,
+    volatility: newSigma,
+  };
+}
@@ -120,12 +120,12 @@ CREATE TABLE races (
     -- Basic info
     name VARCHAR(100) NOT NULL,
     description TEXT,
-    race_type VARCHAR(20) DEFAULT 'drag' CHECK (race_type IN ('drag', 'circuit', 'street', 'autocross')),
+    race_type VARCHAR(20) DEFAULT 'drag' CHECK (race_type IN ('drag', 'circuit', 'drift', 'time-trial', 'street', 'autocross')),
     
     -- Location and route
     start_location JSONB NOT NULL, -- {lat, lng, address}
     end_location JSONB, -- for point-to-point races
-    route JSONB, -- array of waypoints for complex routes
+    route JSONB, -- {waypoints, startFinish, checkpoints, laps}; gates are {type: line, a, b} or {type: radius, center, radius}
     distance DECIMAL(8,2), -- in miles or km
     
     -- Timing
@@ -138,9 +138,13 @@ CREATE TABLE races (
     entry_fee DECIMAL(8,2) DEFAULT 0.0,
     is_private BOOLEAN DEFAULT false,
     requires_approval BOOLEAN DEFAULT false,
+    allowed_classes TEXT[], -- performance classes allowed to enter; NULL is open to all
+    handicap BOOLEAN DEFAULT false, -- drag only: slower cars get a head start on the tree
+    bracket_racing BOOLEAN DEFAULT false, -- drag only: staggered from declared dial-ins, breakouts lose
+    drift_tandem BOOLEAN DEFAULT false, -- drift only: two cars run together, judged as lead and chase
     
     -- Status
-    status VARCHAR(20) DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'active', 'finished', 'cancelled')),
+    status VARCHAR(20) DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'staging', 'countdown', 'active', 'finished', 'cancelled')),
     weather_conditions JSONB,
     
     -- Metadata
@@ -159,6 +163,9 @@ CREATE TABLE race_participants (
     joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     status VARCHAR(20) DEFAULT 'registered' CHECK (status IN ('registered', 'ready', 'racing', 'finished', 'dnf', 'withdrawn')),
     lane_number INTEGER,
+    vehicle_class VARCHAR(1) CHECK (vehicle_class IN ('D', 'C', 'B', 'A', 'S', 'X')),
+    handicap_delay DECIMAL(5,3) DEFAULT 0, -- seconds after the race's green that this lane's light turns
+    dial_in DECIMAL(6,3), -- bracket racing: the ET the driver declares before staging
     
     -- Performance data
     reaction_time DECIMAL(5,3),
@@ -169,7 +176,7 @@ CREATE TABLE race_participants (
     position INTEGER,
     
     -- Location tracking during race
-    location_data JSONB, -- array of {timestamp, lat, lng, speed}
+    location_data JSONB, -- array of {timestamp, lat, lng, speed}; raw samples live in race_telemetry
     
     UNIQUE(race_id, user_id)
 );
@@ -191,12 +198,386 @@ CREATE TABLE race_results (
     is_winner BOOLEAN DEFAULT false,
     awards JSONB DEFAULT '[]'::jsonb, -- array of award names
     
+    -- Plausibility review; only approved results count towards user stats
+    review_status VARCHAR(20) DEFAULT 'approved' CHECK (review_status IN ('approved', 'pending_review', 'rejected')),
+    review_reasons JSONB DEFAULT '[]'::jsonb, -- array of reasons the result was flagged
+    
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
     UNIQUE(race_id, participant_id),
     UNIQUE(race_id, position)
 );
 
+-- Raw GPS telemetry recorded during races (one row per sample)
+CREATE TABLE race_telemetry (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    
+    seq INTEGER NOT NULL, -- per-participant sequence number, used for deduplication
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL, -- sample time on the server clock
+    lat DOUBLE PRECISION NOT NULL,
+    lng DOUBLE PRECISION NOT NULL,
+    speed DECIMAL(6,2), -- m/s
+    heading DECIMAL(5,2), -- degrees
+    accuracy DECIMAL(6,2), -- meters
+    
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(race_id, user_id, seq)
+);
+
+-- Race and participant status transitions (audit trail for the race lifecycle)
+CREATE TABLE race_status_history (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE, -- set for participant transitions, NULL for race transitions
+    
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL when the server made the change
+    reason TEXT,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Invitations to races (the only way into a private race)
+CREATE TABLE race_invitations (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+    responded_at TIMESTAMP WITH TIME ZONE,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(race_id, user_id)
+);
+
+-- Requests to join races that require organizer approval
+CREATE TABLE race_join_requests (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    
+    message TEXT,
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    reason TEXT,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(race_id, user_id)
+);
+
+-- Waitlist for full races, served first in, first out. A freed spot is offered to the
+-- next waiting user, who must confirm before offer_expires_at or it moves down the list.
+CREATE TABLE race_waitlist (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    
+    status VARCHAR(20) DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'confirmed', 'expired', 'left')),
+    offered_at TIMESTAMP WITH TIME ZONE,
+    offer_expires_at TIMESTAMP WITH TIME ZONE,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(race_id, user_id)
+);
+
+-- Elimination tournaments run as a bracket of head-to-head drag races
+CREATE TABLE tournaments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    created_by UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    format VARCHAR(30) DEFAULT 'single_elimination' CHECK (format IN ('single_elimination', 'double_elimination')),
+    seeding VARCHAR(20) DEFAULT 'quarter_mile' CHECK (seeding IN ('quarter_mile', 'rating')),
+    max_entrants INTEGER DEFAULT 16,
+    
+    -- Where every match race is run
+    start_location JSONB NOT NULL,
+    end_location JSONB NOT NULL,
+    
+    status VARCHAR(20) DEFAULT 'registration' CHECK (status IN ('registration', 'in_progress', 'completed', 'cancelled')),
+    champion_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE tournament_entrants (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    tournament_id UUID REFERENCES tournaments(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL,
+    
+    seed INTEGER, -- assigned when the bracket is drawn
+    seed_value DECIMAL(8,3), -- the quarter mile time or rating the seed was drawn from
+    status VARCHAR(20) DEFAULT 'registered' CHECK (status IN ('registered', 'active', 'eliminated', 'champion')),
+    losses INTEGER DEFAULT 0,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(tournament_id, user_id)
+);
+
+-- One bracket slot. Each side is filled by a seed or by the winner/loser of a feeding match;
+-- a_settled/b_settled mark a side as final, so a settled side with no entrant is a bye.
+CREATE TABLE tournament_matches (
+    id UUID PRIMARY KEY,
+    tournament_id UUID REFERENCES tournaments(id) ON DELETE CASCADE NOT NULL,
+    bracket VARCHAR(20) NOT NULL CHECK (bracket IN ('winners', 'losers', 'grand_final')),
+    round INTEGER NOT NULL,
+    match_number INTEGER NOT NULL,
+    
+    entrant_a UUID REFERENCES users(id) ON DELETE SET NULL,
+    entrant_b UUID REFERENCES users(id) ON DELETE SET NULL,
+    a_settled BOOLEAN DEFAULT false,
+    b_settled BOOLEAN DEFAULT false,
+    
+    race_id UUID REFERENCES races(id) ON DELETE SET NULL,
+    attempts INTEGER DEFAULT 0, -- races created for the match; cancelled ones are rescheduled up to a limit
+    winner_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    loser_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'ready', 'completed', 'bye', 'void')),
+    
+    -- Where the winner and loser go next; null means champion / eliminated
+    winner_next_match UUID REFERENCES tournament_matches(id) ON DELETE SET NULL,
+    winner_next_slot CHAR(1) CHECK (winner_next_slot IN ('a', 'b')),
+    loser_next_match UUID REFERENCES tournament_matches(id) ON DELETE SET NULL,
+    loser_next_slot CHAR(1) CHECK (loser_next_slot IN ('a', 'b')),
+    
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(tournament_id, bracket, round, match_number)
+);
+
+-- Championships: a season of races scored with a points table
+CREATE TABLE championships (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    created_by UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    points_scheme JSONB NOT NULL, -- {positions: [25, 18, ...], fastestLap, dropWorst}
+    divisions JSONB DEFAULT '[]'::jsonb, -- [{key, name, minHorsepower, maxHorsepower, drivetrains}]
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE championship_rounds (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    championship_id UUID REFERENCES championships(id) ON DELETE CASCADE NOT NULL,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE NOT NULL,
+    round_number INTEGER NOT NULL,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(championship_id, race_id),
+    UNIQUE(championship_id, round_number)
+);
+
+-- Glicko-2 skill ratings, kept separately per race type
+CREATE TABLE user_ratings (
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    race_type VARCHAR(20) NOT NULL CHECK (race_type IN ('drag', 'circuit', 'drift', 'time-trial')),
+    
+    rating DECIMAL(7,2) DEFAULT 1500,
+    rating_deviation DECIMAL(6,2) DEFAULT 350,
+    volatility DECIMAL(8,6) DEFAULT 0.06,
+    races_rated INTEGER DEFAULT 0,
+    last_rated_at TIMESTAMP WITH TIME ZONE,
+    
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    PRIMARY KEY (user_id, race_type)
+);
+
+-- One row per user per rated race
+CREATE TABLE rating_history (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE NOT NULL,
+    race_type VARCHAR(20) NOT NULL,
+    
+    rating_before DECIMAL(7,2) NOT NULL,
+    rating_after DECIMAL(7,2) NOT NULL,
+    deviation_before DECIMAL(6,2) NOT NULL,
+    deviation_after DECIMAL(6,2) NOT NULL,
+    volatility_before DECIMAL(8,6), -- with the other *_before columns, the state a re-rate starts from
+    position INTEGER NOT NULL, -- shared by tied finishers; non-finishers share last place
+    field_size INTEGER NOT NULL,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(user_id, race_id)
+);
+
+-- Matchmaking: proposals group compatible queued drivers and become a race once all accept
+CREATE TABLE matchmaking_proposals (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    race_type VARCHAR(20) NOT NULL,
+    meeting_point JSONB NOT NULL, -- {lat, lng}
+    start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired')),
+    race_id UUID REFERENCES races(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A driver's place in the matchmaking queue; rating and power-to-weight are captured on entry
+CREATE TABLE matchmaking_tickets (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL,
+    race_type VARCHAR(20) NOT NULL,
+    
+    location JSONB NOT NULL, -- {lat, lng}
+    radius_km DECIMAL(6,1) NOT NULL,
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    rating DECIMAL(7,2) NOT NULL,
+    power_to_weight DECIMAL(8,4), -- hp per 1000 lb; null when the vehicle specs are incomplete
+    
+    status VARCHAR(20) DEFAULT 'searching' CHECK (status IN ('searching', 'proposed', 'matched', 'cancelled', 'expired')),
+    proposal_id UUID REFERENCES matchmaking_proposals(id) ON DELETE SET NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    race_id UUID REFERENCES races(id) ON DELETE SET NULL,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Saved routes anyone can run as an asynchronous time trial
+CREATE TABLE saved_routes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    created_by UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    route JSONB NOT NULL, -- {waypoints, start, checkpoints, finish}; gates as in races.route
+    distance DECIMAL(10,1), -- meters along the waypoints
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Timed runs of a saved route; only approved runs make the leaderboards
+CREATE TABLE route_runs (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    route_id UUID REFERENCES saved_routes(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL,
+    vehicle_class VARCHAR(1) CHECK (vehicle_class IN ('D', 'C', 'B', 'A', 'S', 'X')),
+    
+    elapsed_time DECIMAL(10,3) NOT NULL, -- seconds from the start gate to the finish gate
+    splits JSONB DEFAULT '[]', -- seconds from the start gate at each checkpoint
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    telemetry JSONB NOT NULL, -- the run's samples, start gate to finish gate
+    
+    review_status VARCHAR(20) DEFAULT 'approved' CHECK (review_status IN ('approved', 'pending_review', 'rejected')),
+    review_reasons JSONB DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Head-to-head record of a live run against a ghost: a recorded run of the same route, or a
+-- participant's run in a finished race (attempts at a race ghost aren't saved as route runs)
+CREATE TABLE ghost_races (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    route_id UUID REFERENCES saved_routes(id) ON DELETE CASCADE,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    run_id UUID REFERENCES route_runs(id) ON DELETE CASCADE,
+    ghost_run_id UUID REFERENCES route_runs(id) ON DELETE CASCADE,
+    ghost_result_id UUID REFERENCES race_results(id) ON DELETE CASCADE,
+    ghost_user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    
+    elapsed_time DECIMAL(10,3) NOT NULL,
+    ghost_time DECIMAL(10,3) NOT NULL,
+    margin DECIMAL(10,3) NOT NULL, -- elapsed_time - ghost_time; negative beat the ghost
+    split_deltas JSONB DEFAULT '[]',
+    outcome VARCHAR(10) NOT NULL CHECK (outcome IN ('won', 'lost', 'tied')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (
+        (route_id IS NOT NULL AND run_id IS NOT NULL AND ghost_run_id IS NOT NULL AND race_id IS NULL AND ghost_result_id IS NULL)
+        OR (race_id IS NOT NULL AND ghost_result_id IS NOT NULL AND route_id IS NULL AND run_id IS NULL AND ghost_run_id IS NULL)
+    )
+);
+
+-- Disputes filed against recorded results
+CREATE TABLE result_disputes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE NOT NULL,
+    result_id UUID REFERENCES race_results(id) ON DELETE CASCADE NOT NULL,
+    filed_by UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    
+    reason TEXT NOT NULL,
+    evidence JSONB DEFAULT '{}'::jsonb, -- {telemetryRange: {userId, fromSeq, toSeq}, photoUrl}
+    requested_position INTEGER,
+    
+    -- Adjudication
+    status VARCHAR(20) DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'rejected', 'withdrawn')),
+    ruling JSONB, -- {action: reposition|adjust_time|disqualify, ...}
+    resolution TEXT,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Every change to a recorded result (re-ranks, reviews, dispute rulings)
+CREATE TABLE result_history (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    race_id UUID REFERENCES races(id) ON DELETE CASCADE NOT NULL,
+    result_id UUID REFERENCES race_results(id) ON DELETE CASCADE NOT NULL,
+    dispute_id UUID REFERENCES result_disputes(id) ON DELETE SET NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    
+    action VARCHAR(30) NOT NULL, -- position_changed, time_adjusted, review_approved, review_rejected, dispute_filed, ...
+    previous JSONB,
+    current JSONB,
+    reason TEXT,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Background jobs (reminders, auto-transitions, cleanup). Claimed with a guarded
+-- pending -> running update so each attempt runs at most once across restarts.
+CREATE TABLE scheduled_jobs (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    job_type VARCHAR(50) NOT NULL,
+    job_key VARCHAR(200) UNIQUE, -- dedupes scheduling, e.g. race:<id>:reminder:<run_at>
+    payload JSONB DEFAULT '{}'::jsonb,
+    
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+    attempts INTEGER DEFAULT 0,
+    max_attempts INTEGER DEFAULT 5,
+    last_error TEXT,
+    
+    -- Instance running the job; it renews the lease until the attempt ends
+    worker_id VARCHAR(100),
+    lease_expires_at TIMESTAMP WITH TIME ZONE,
+    
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Chat messages (for race lobbies and friend chats)
 CREATE TABLE messages (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -293,15 +674,52 @@ CREATE INDEX idx_race_participants_status ON race_participants(status);
 
 CREATE INDEX idx_race_results_race ON race_results(race_id);
 CREATE INDEX idx_race_results_position ON race_results(race_id, position);
+CREATE INDEX idx_race_results_review ON race_results(review_status) WHERE review_status <> 'approved';
+
+CREATE INDEX idx_race_telemetry_participant ON race_telemetry(race_id, user_id, recorded_at);
+
+CREATE INDEX idx_race_status_history_race ON race_status_history(race_id, created_at);
+
+CREATE INDEX idx_race_invitations_user ON race_invitations(user_id, status);
+CREATE INDEX idx_race_join_requests_race ON race_join_requests(race_id, status);
+
+CREATE INDEX idx_race_waitlist_queue ON race_waitlist(race_id, status, created_at);
+
+CREATE INDEX idx_tournaments_status ON tournaments(status);
+CREATE INDEX idx_tournament_entrants_user ON tournament_entrants(user_id);
+CREATE INDEX idx_tournament_matches_tournament ON tournament_matches(tournament_id);
+CREATE INDEX idx_tournament_matches_race ON tournament_matches(race_id) WHERE race_id IS NOT NULL;
+
+CREATE INDEX idx_championship_rounds_race ON championship_rounds(race_id);
+
+CREATE INDEX idx_user_ratings_leaderboard ON user_ratings(race_type, rating DESC);
+CREATE INDEX idx_rating_history_user ON rating_history(user_id, race_type, created_at DESC);
+CREATE INDEX idx_rating_history_race ON rating_history(race_id);
+
+CREATE UNIQUE INDEX idx_matchmaking_tickets_active ON matchmaking_tickets(user_id) WHERE status IN ('searching', 'proposed');
+CREATE INDEX idx_matchmaking_tickets_queue ON matchmaking_tickets(status, race_type, created_at);
+CREATE INDEX idx_matchmaking_tickets_proposal ON matchmaking_tickets(proposal_id) WHERE proposal_id IS NOT NULL;
+CREATE INDEX idx_matchmaking_proposals_pending ON matchmaking_proposals(expires_at) WHERE status = 'pending';
+CREATE INDEX idx_route_runs_leaderboard ON route_runs(route_id, user_id, elapsed_time) WHERE review_status = 'approved';
+CREATE INDEX idx_route_runs_user ON route_runs(user_id, created_at DESC);
+CREATE INDEX idx_ghost_races_user ON ghost_races(user_id, route_id, created_at DESC);
+
+CREATE INDEX idx_result_disputes_race ON result_disputes(race_id, status);
+CREATE INDEX idx_result_disputes_result ON result_disputes(result_id);
+CREATE INDEX idx_result_history_race ON result_history(race_id, created_at);
+
+CREATE INDEX idx_scheduled_jobs_due ON scheduled_jobs(run_at) WHERE status = 'pending';
+CREATE INDEX idx_scheduled_jobs_status ON scheduled_jobs(status, job_type);
 
 CREATE INDEX idx_messages_sender ON messages(sender_id);
-CREATE INDEX idx_messages_race ON messages(race_id) WHERE race_id IS NOT NULL;
+CREATE INDEX idx_messages_race ON messages(race_id, created_at DESC, id DESC) WHERE race_id IS NOT NULL;
 CREATE INDEX idx_messages_recipient ON messages(recipient_id) WHERE recipient_id IS NOT NULL;
 CREATE INDEX idx_messages_created ON messages(created_at DESC);
 
 CREATE INDEX idx_notifications_user ON notifications(user_id);
 CREATE INDEX idx_notifications_unread ON notifications(user_id, is_read) WHERE is_read = false;
 CREATE INDEX idx_notifications_created ON notifications(created_at DESC);
+CREATE INDEX idx_notifications_expires ON notifications(expires_at) WHERE expires_at IS NOT NULL;
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
@@ -311,6 +729,26 @@ ALTER TABLE friendships ENABLE ROW LEVEL SECURITY;
 ALTER TABLE races ENABLE ROW LEVEL SECURITY;
 ALTER TABLE race_participants ENABLE ROW LEVEL SECURITY;
 ALTER TABLE race_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE race_telemetry ENABLE ROW LEVEL SECURITY;
+ALTER TABLE race_status_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE race_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE race_join_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE race_waitlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_entrants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE championships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE championship_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rating_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE matchmaking_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE matchmaking_tickets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE route_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ghost_races ENABLE ROW LEVEL SECURITY;
+ALTER TABLE result_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE result_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
 ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
@@ -412,34 +850,49 @@ CREATE TRIGGER races_updated_at BEFORE UPDATE ON races
 -- Create function to update user statistics
 CREATE OR REPLACE FUNCTION update_user_stats()
 RETURNS TRIGGER AS $$
+DECLARE
+    target_user UUID;
 BEGIN
-    -- Update user statistics when race results change
+    -- A result held for review changes nothing until it is approved
+    IF TG_OP = 'INSERT' AND NEW.review_status <> 'approved' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Results reference participants, so resolve the user through race_participants
+    SELECT user_id INTO target_user FROM race_participants
+    WHERE id = COALESCE(NEW.participant_id, OLD.participant_id);
+
+    -- Update user statistics from approved results only
     UPDATE users SET
         total_races = (
-            SELECT COUNT(*) FROM race_participants 
-            WHERE user_id = users.id AND status = 'finished'
+            SELECT COUNT(*) FROM race_results rr
+            JOIN race_participants rp ON rp.id = rr.participant_id
+            WHERE rp.user_id = users.id AND rr.review_status = 'approved'
         ),
         total_wins = (
-            SELECT COUNT(*) FROM race_results 
-            WHERE participant_id IN (
-                SELECT id FROM race_participants WHERE user_id = users.id
-            ) AND position = 1
+            SELECT COUNT(*) FROM race_results rr
+            JOIN race_participants rp ON rp.id = rr.participant_id
+            WHERE rp.user_id = users.id AND rr.review_status = 'approved' AND rr.position = 1
         ),
         win_rate = CASE 
-            WHEN (SELECT COUNT(*) FROM race_participants WHERE user_id = users.id AND status = 'finished') > 0
+            WHEN (
+                SELECT COUNT(*) FROM race_results rr
+                JOIN race_participants rp ON rp.id = rr.participant_id
+                WHERE rp.user_id = users.id AND rr.review_status = 'approved'
+            ) > 0
             THEN (
-                SELECT COUNT(*) FROM race_results 
-                WHERE participant_id IN (
-                    SELECT id FROM race_participants WHERE user_id = users.id
-                ) AND position = 1
+                SELECT COUNT(*) FROM race_results rr
+                JOIN race_participants rp ON rp.id = rr.participant_id
+                WHERE rp.user_id = users.id AND rr.review_status = 'approved' AND rr.position = 1
             ) * 100.0 / (
-                SELECT COUNT(*) FROM race_participants 
-                WHERE user_id = users.id AND status = 'finished'
+                SELECT COUNT(*) FROM race_results rr
+                JOIN race_participants rp ON rp.id = rr.participant_id
+                WHERE rp.user_id = users.id AND rr.review_status = 'approved'
             )
             ELSE 0
         END,
         updated_at = NOW()
-    WHERE id = COALESCE(NEW.user_id, OLD.user_id);
+    WHERE id = target_user;
     
     RETURN COALESCE(NEW, OLD);
 END;
@@ -450,6 +903,187 @@ CREATE TRIGGER update_user_stats_trigger
     AFTER INSERT OR UPDATE OR DELETE ON race_results
     FOR EACH ROW EXECUTE FUNCTION update_user_stats();
 
+-- Re-rank a race's results in the given order in one transaction. Positions are parked on negative
+-- values first so no intermediate state violates UNIQUE(race_id, position). p_change corrects one
+-- result first ({result_id, action, previous, current, time_result, review_status}, nulls left alone)
+-- and is recorded in the history under its action, so a ruling never lands without its re-rank.
+-- A p_ruling accepts dispute p_dispute_id in the same transaction; returns no rows, changing nothing,
+-- when the dispute is no longer open (e.g. a concurrent resolution got there first).
+CREATE OR REPLACE FUNCTION rerank_race_results(
+    p_race_id UUID,
+    p_result_ids UUID[],
+    p_changed_by UUID,
+    p_reason TEXT,
+    p_dispute_id UUID DEFAULT NULL,
+    p_change JSONB DEFAULT NULL,
+    p_ruling JSONB DEFAULT NULL,
+    p_resolution TEXT DEFAULT NULL
+)
+RETURNS SETOF race_results AS $$
+BEGIN
+    IF p_ruling IS NOT NULL THEN
+        UPDATE result_disputes SET
+            status = 'accepted',
+            ruling = p_ruling,
+            resolution = p_resolution,
+            resolved_by = p_changed_by,
+            resolved_at = NOW()
+        WHERE id = p_dispute_id AND race_id = p_race_id AND status = 'open';
+
+        IF NOT FOUND THEN
+            RETURN;
+        END IF;
+
+        INSERT INTO result_history (race_id, result_id, dispute_id, changed_by, action, current, reason)
+        SELECT race_id, result_id, id, p_changed_by, 'dispute_accepted', p_ruling, p_resolution
+        FROM result_disputes WHERE id = p_dispute_id;
+    END IF;
+
+    IF (SELECT COUNT(*) FROM race_results WHERE race_id = p_race_id) <> COALESCE(array_length(p_result_ids, 1), 0) THEN
+        RAISE EXCEPTION 'Result order must list every result of race % exactly once', p_race_id;
+    END IF;
+
+    IF p_change IS NOT NULL THEN
+        UPDATE race_results SET
+            time_result = COALESCE((p_change->>'time_result')::DECIMAL, time_result),
+            review_status = COALESCE(p_change->>'review_status', review_status)
+        WHERE id = (p_change->>'result_id')::UUID AND race_id = p_race_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Result % not found in race %', p_change->>'result_id', p_race_id;
+        END IF;
+
+        INSERT INTO result_history (race_id, result_id, dispute_id, changed_by, action, previous, current, reason)
+        VALUES (p_race_id, (p_change->>'result_id')::UUID, p_dispute_id, p_changed_by, p_change->>'action',
+                NULLIF(p_change->'previous', 'null'::jsonb), NULLIF(p_change->'current', 'null'::jsonb), p_reason);
+    END IF;
+
+    INSERT INTO result_history (race_id, result_id, dispute_id, changed_by, action, previous, current, reason)
+    SELECT rr.race_id, rr.id, p_dispute_id, p_changed_by, 'position_changed',
+           jsonb_build_object('position', rr.position),
+           jsonb_build_object('position', o.ordinality),
+           p_reason
+    FROM race_results rr
+    JOIN unnest(p_result_ids) WITH ORDINALITY AS o(id, ordinality) ON o.id = rr.id
+    WHERE rr.race_id = p_race_id AND rr.position <> o.ordinality;
+
+    UPDATE race_results SET position = -position WHERE race_id = p_race_id;
+
+    UPDATE race_results rr SET
+        position = o.ordinality::INTEGER,
+        is_winner = (o.ordinality = 1 AND rr.review_status = 'approved')
+    FROM unnest(p_result_ids) WITH ORDINALITY AS o(id, ordinality)
+    WHERE rr.id = o.id AND rr.race_id = p_race_id;
+
+    IF EXISTS (SELECT 1 FROM race_results WHERE race_id = p_race_id AND position < 0) THEN
+        RAISE EXCEPTION 'Result order must list every result of race % exactly once', p_race_id;
+    END IF;
+
+    -- Keep participant positions in step with the results
+    UPDATE race_participants rp SET position = rr.position
+    FROM race_results rr
+    WHERE rr.participant_id = rp.id AND rr.race_id = p_race_id;
+
+    RETURN QUERY SELECT * FROM race_results WHERE race_id = p_race_id ORDER BY position;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record a participant's finish in one transaction: claim the racing -> finished transition, insert the
+-- result and rank the race by time, so positions never depend on the order finishes arrive in. Returns
+-- no rows when the participant was no longer racing (e.g. a concurrent finish got there first).
+CREATE OR REPLACE FUNCTION finish_race_participant(
+    p_race_id UUID,
+    p_user_id UUID,
+    p_time_result DECIMAL,
+    p_speed_result DECIMAL,
+    p_splits JSONB,
+    p_review_status VARCHAR,
+    p_review_reasons JSONB
+)
+RETURNS SETOF race_results AS $$
+DECLARE
+    v_participant_id UUID;
+BEGIN
+    -- Finishes in the same race are ranked one at a time
+    PERFORM 1 FROM races WHERE id = p_race_id FOR UPDATE;
+
+    UPDATE race_participants SET status = 'finished', final_time = p_time_result
+    WHERE race_id = p_race_id AND user_id = p_user_id AND status = 'racing'
+    RETURNING id INTO v_participant_id;
+
+    IF v_participant_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Park existing positions on negative values so the insert and re-rank never violate UNIQUE(race_id, position)
+    UPDATE race_results SET position = -position WHERE race_id = p_race_id;
+
+    INSERT INTO race_results (race_id, participant_id, position, time_result, speed_result, splits, review_status, review_reasons)
+    VALUES (p_race_id, v_participant_id, 0, p_time_result, p_speed_result, p_splits, p_review_status, p_review_reasons);
+
+    UPDATE race_results rr SET
+        position = o.rank::INTEGER,
+        is_winner = (o.rank = 1 AND rr.review_status = 'approved')
+    FROM (
+        SELECT id, ROW_NUMBER() OVER (ORDER BY (review_status = 'rejected'), time_result, created_at, id) AS rank
+        FROM race_results WHERE race_id = p_race_id
+    ) o
+    WHERE rr.id = o.id;
+
+    UPDATE race_participants rp SET position = rr.position
+    FROM race_results rr
+    WHERE rr.participant_id = rp.id AND rr.race_id = p_race_id;
+
+    RETURN QUERY SELECT * FROM race_results WHERE race_id = p_race_id ORDER BY position;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Time trial leaderboard: each driver's best approved run on a route (the earliest of equal times),
+-- ranked with equal times sharing the better rank. Returns one page from p_offset, plus p_user_id's
+-- own entry wherever it ranks; `place` is the row's 1-based position on the full board.
+CREATE OR REPLACE FUNCTION route_leaderboard(
+    p_route_id UUID,
+    p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_vehicle_class VARCHAR DEFAULT NULL,
+    p_user_ids UUID[] DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0,
+    p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    place BIGINT,
+    rank BIGINT,
+    run_id UUID,
+    user_id UUID,
+    vehicle_class VARCHAR,
+    elapsed_time DECIMAL,
+    gap_to_leader DECIMAL,
+    started_at TIMESTAMP WITH TIME ZONE
+) AS $$
+    WITH best AS (
+        SELECT DISTINCT ON (rr.user_id) rr.id, rr.user_id, rr.vehicle_class, rr.elapsed_time, rr.started_at, rr.created_at
+        FROM route_runs rr
+        WHERE rr.route_id = p_route_id
+          AND rr.review_status = 'approved'
+          AND (p_since IS NULL OR rr.started_at >= p_since)
+          AND (p_vehicle_class IS NULL OR rr.vehicle_class = p_vehicle_class)
+          AND (p_user_ids IS NULL OR rr.user_id = ANY(p_user_ids))
+        ORDER BY rr.user_id, rr.elapsed_time, rr.created_at
+    ),
+    ranked AS (
+        SELECT b.*,
+               ROW_NUMBER() OVER (ORDER BY b.elapsed_time, b.created_at, b.id) AS board_place,
+               RANK() OVER (ORDER BY b.elapsed_time) AS board_rank,
+               MIN(b.elapsed_time) OVER () AS leader_time
+        FROM best b
+    )
+    SELECT r.board_place, r.board_rank, r.id, r.user_id, r.vehicle_class, r.elapsed_time,
+           r.elapsed_time - r.leader_time, r.started_at
+    FROM ranked r
+    WHERE (r.board_place > p_offset AND r.board_place <= p_offset + p_limit) OR r.user_id = p_user_id
+    ORDER BY r.board_place;
+$$ LANGUAGE sql STABLE;
+
 -- Function to automatically accept friend requests between users who race together
 CREATE OR REPLACE FUNCTION auto_friend_racers()
 RETURNS TRIGGER AS $$
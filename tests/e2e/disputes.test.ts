@@ -0,0 +1,185 @@
+/**
+ * End-to-End Result Dispute Tests
+ * Tests filing disputes against recorded results and the organizer's ruling re-ranking the race
+ */
+
+import { describe, test, expect, beforeEach, afterEach, afterAll } from '@jest/globals';
+import { apiClient } from '../utils/api-client';
+import { TestUtils } from '../utils/test-utils';
+import { generateRandomLocation, sleep } from '../utils/test-helpers';
+import { Driver, readyUp, signIn } from '../utils/e2e-helpers';
+
+describe('E2E Result Disputes', () => {
+  let organizer: Driver;
+  let rival: Driver;
+
+  // The organizer and a rival race each other, the organizer finishing first; returns the race and its results in order
+  const runRace = async (): Promise<{ raceId: string; results: any[] }> => {
+    apiClient.setAuthToken(organizer.token);
+    const createResponse = await apiClient.post('/api/races', {
+      name: 'Disputed Race',
+      startLocation: generateRandomLocation(),
+      endLocation: generateRandomLocation(),
+      maxParticipants: 2,
+      startTime: new Date(Date.now() + 2000).toISOString()
+    });
+    const raceId = createResponse.data.race.id;
+    await apiClient.post(`/api/races/${raceId}/join`);
+
+    apiClient.setAuthToken(rival.token);
+    await apiClient.post(`/api/races/${raceId}/join`);
+
+    apiClient.setAuthToken(organizer.token);
+    await apiClient.post(`/api/races/${raceId}/stage`);
+
+    const sockets = [await readyUp(raceId, organizer), await readyUp(raceId, rival)];
+    await apiClient.post(`/api/races/${raceId}/start`);
+    await sockets[0].waitForMessage('race_started', 10000);
+    sockets.forEach(socket => socket.disconnect());
+
+    for (const [driver, totalTime] of [[organizer, 120.4], [rival, 121.9]] as [Driver, number][]) {
+      apiClient.setAuthToken(driver.token);
+      await apiClient.post(`/api/races/${raceId}/finish`, {
+        finishTime: new Date().toISOString(),
+        totalTime,
+        averageSpeed: 45
+      });
+    }
+
+    const resultsResponse = await apiClient.get(`/api/races/${raceId}/results`);
+    const results = [...resultsResponse.data.results].sort((a: any, b: any) => a.position - b.position);
+    expect(results.map(r => r.userId)).toEqual([organizer.id, rival.id]);
+
+    return { raceId, results };
+  };
+
+  beforeEach(async () => {
+    organizer = await signIn();
+    rival = await signIn();
+  });
+
+  afterEach(async () => {
+    await apiClient.post('/api/auth/logout').catch(() => {});
+    apiClient.clearAuth();
+    await sleep(100);
+  });
+
+  afterAll(async () => {
+    await TestUtils.cleanup();
+  });
+
+  test('Accepted dispute re-ranks the race and is recorded in the history', async () => {
+    const { raceId, results } = await runRace();
+    const [winner, runnerUp] = results;
+
+    // The rival contests the organizer's win with a photo of the finish
+    apiClient.setAuthToken(rival.token);
+    const fileResponse = await apiClient.post(`/api/races/${raceId}/disputes`, {
+      resultId: winner.id,
+      reason: 'I crossed the line first, see the finish photo',
+      evidence: { photoUrl: 'https://example.com/finish.jpg' },
+      requestedPosition: 2
+    });
+    expect(fileResponse.status).toBe(201);
+    expect(fileResponse.data.dispute).toEqual(expect.objectContaining({
+      raceId, resultId: winner.id, filedBy: rival.id, status: 'open'
+    }));
+    const disputeId = fileResponse.data.dispute.id;
+
+    const listResponse = await apiClient.get(`/api/races/${raceId}/disputes`);
+    expect(listResponse.data.disputes.map((d: any) => d.id)).toContain(disputeId);
+
+    apiClient.setAuthToken(organizer.token);
+    const resolveResponse = await apiClient.post(`/api/races/${raceId}/disputes/${disputeId}/resolve`, {
+      decision: 'accept',
+      ruling: { action: 'reposition', position: 2 },
+      resolution: 'Photo shows the rival ahead'
+    });
+    expect(resolveResponse.success).toBe(true);
+    expect(resolveResponse.data.dispute.status).toBe('accepted');
+
+    // Positions swap, and stay unique
+    const reranked = [...resolveResponse.data.results].sort((a: any, b: any) => a.position - b.position);
+    expect(reranked.map((r: any) => r.id)).toEqual([runnerUp.id, winner.id]);
+    expect(reranked.map((r: any) => r.position)).toEqual([1, 2]);
+
+    const resultsResponse = await apiClient.get(`/api/races/${raceId}/results`);
+    const stored = resultsResponse.data.results.find((r: any) => r.id === runnerUp.id);
+    expect(stored.position).toBe(1);
+
+    const historyResponse = await apiClient.get(`/api/races/${raceId}/results/history`);
+    const actions = historyResponse.data.history
+      .filter((h: any) => h.disputeId === disputeId)
+      .map((h: any) => h.action);
+    expect(actions).toEqual(expect.arrayContaining(['dispute_filed', 'dispute_accepted']));
+
+    // A ruled dispute cannot be ruled on again
+    const secondResolve = await apiClient.post(`/api/races/${raceId}/disputes/${disputeId}/resolve`, {
+      decision: 'reject'
+    });
+    expect(secondResolve.status).toBe(409);
+  });
+
+  test('Rejected dispute leaves the results as they were', async () => {
+    const { raceId, results } = await runRace();
+    const [winner, runnerUp] = results;
+
+    apiClient.setAuthToken(rival.token);
+    const fileResponse = await apiClient.post(`/api/races/${raceId}/disputes`, {
+      resultId: winner.id,
+      reason: 'Cut the chicane',
+      evidence: { telemetryRange: { userId: winner.userId, fromSeq: 0, toSeq: 50 } }
+    });
+    const disputeId = fileResponse.data.dispute.id;
+
+    // One open dispute per result and filer
+    const duplicate = await apiClient.post(`/api/races/${raceId}/disputes`, {
+      resultId: winner.id,
+      reason: 'Cut the chicane, again',
+      evidence: { photoUrl: 'https://example.com/chicane.jpg' }
+    });
+    expect(duplicate.status).toBe(409);
+
+    // Only the organizer rules
+    const selfRuling = await apiClient.post(`/api/races/${raceId}/disputes/${disputeId}/resolve`, {
+      decision: 'accept',
+      ruling: { action: 'disqualify' }
+    });
+    expect(selfRuling.status).toBe(403);
+
+    apiClient.setAuthToken(organizer.token);
+    const resolveResponse = await apiClient.post(`/api/races/${raceId}/disputes/${disputeId}/resolve`, {
+      decision: 'reject',
+      resolution: 'Telemetry shows the car inside the track limits'
+    });
+    expect(resolveResponse.success).toBe(true);
+    expect(resolveResponse.data.dispute.status).toBe('rejected');
+
+    const resultsResponse = await apiClient.get(`/api/races/${raceId}/results`);
+    const positions = Object.fromEntries(resultsResponse.data.results.map((r: any) => [r.id, r.position]));
+    expect(positions).toEqual({ [winner.id]: 1, [runnerUp.id]: 2 });
+  });
+
+  test('Disputes need evidence and a place in the race', async () => {
+    const { raceId, results } = await runRace();
+
+    apiClient.setAuthToken(rival.token);
+    const noEvidence = await apiClient.post(`/api/races/${raceId}/disputes`, {
+      resultId: results[0].id,
+      reason: 'Trust me'
+    });
+    expect(noEvidence.status).toBe(400);
+
+    const outsider = await signIn();
+    apiClient.setAuthToken(outsider.token);
+    const outsiderResponse = await apiClient.post(`/api/races/${raceId}/disputes`, {
+      resultId: results[0].id,
+      reason: 'Saw it from the stands',
+      evidence: { photoUrl: 'https://example.com/stands.jpg' }
+    });
+    expect(outsiderResponse.status).toBe(403);
+
+    const outsiderList = await apiClient.get(`/api/races/${raceId}/disputes`);
+    expect(outsiderList.status).toBe(403);
+  });
+});
@@ -12,6 +12,7 @@ import { createTestRace, generateRandomLocation, sleep, waitFor } from '../utils
 describe('E2E Race Management', () => {
   let testUser: any;
   let authToken: string;
+  let userId: string;
   let wsClient: TestWebSocketClient;
 
   beforeEach(async () => {
@@ -30,6 +31,7 @@ describe('E2E Race Management', () => {
     });
 
     authToken = loginResponse.data.token;
+    userId = loginResponse.data.id;
     apiClient.setAuthToken(authToken);
 
     // Setup WebSocket client
@@ -49,6 +51,19 @@ describe('E2E Race Management', () => {
     await TestUtils.cleanup();
   });
 
+  // Opens staging and reports the current user ready over the race socket
+  const readyUp = async (raceId: string): Promise<TestWebSocketClient> => {
+    await apiClient.post(`/api/races/${raceId}/stage`);
+
+    const raceSocket = new TestWebSocketClient('ws://localhost:3000/ws/races');
+    await raceSocket.connect(authToken);
+    raceSocket.send('join_race', { raceId });
+    raceSocket.send('ready', { raceId });
+    await raceSocket.waitForMessage('participant_status_changed', 5000);
+
+    return raceSocket;
+  };
+
   test('Create race with valid data', async () => {
     const raceData = {
       name: 'Test Race',
@@ -203,14 +218,38 @@ describe('E2E Race Management', () => {
     // Wait a moment for the join to be processed
     await new Promise(resolve => setTimeout(resolve, 1000));
 
+    const raceSocket = await readyUp(raceId);
+
     // Start race manually (for testing)
     const startResponse = await apiClient.post(`/api/races/${raceId}/start`);
     expect(startResponse.success).toBe(true);
+    expect(startResponse.data.startAt).toBeGreaterThan(Date.now() - 1000);
+
+    // Countdown announces the green light in server time before the race goes live
+    const countdownMessage = await wsClient.waitForMessage('race_countdown', 5000);
+    expect(countdownMessage.data.startAt).toBe(startResponse.data.startAt);
 
     // Wait for race start WebSocket message
     const raceStartMessage = await wsClient.waitForMessage('race_started', 10000);
     expect(raceStartMessage.data.raceId).toBe(raceId);
     expect(raceStartMessage.data.status).toBe('active');
+    expect(raceStartMessage.data.startAt).toBe(startResponse.data.startAt);
+
+    raceSocket.disconnect();
+  });
+
+  test('Clock sync handshake on the race socket', async () => {
+    const raceSocket = new TestWebSocketClient('ws://localhost:3000/ws/races');
+    await raceSocket.connect(authToken);
+
+    const clientTime = Date.now();
+    raceSocket.send('clock_sync', { clientTime });
+
+    const syncMessage = await raceSocket.waitForMessage('clock_sync', 5000);
+    expect(syncMessage.data.clientTime).toBe(clientTime);
+    expect(syncMessage.data.serverSendTime).toBeGreaterThanOrEqual(syncMessage.data.serverReceiveTime);
+
+    raceSocket.disconnect();
   });
 
   test('Race location updates via WebSocket', async () => {
@@ -238,6 +277,7 @@ describe('E2E Race Management', () => {
     // Join race room via WebSocket to receive notifications  
     wsClient.send('join_race', { raceId: raceId });
 
+    const raceSocket = await readyUp(raceId);
     await apiClient.post(`/api/races/${raceId}/start`);
 
     // Send location update
@@ -256,6 +296,50 @@ describe('E2E Race Management', () => {
     expect(locationMessage.data.raceId).toBe(raceId);
     expect(locationMessage.data.location.lat).toBe(locationData.lat);
     expect(locationMessage.data.location.lng).toBe(locationData.lng);
+
+    raceSocket.disconnect();
+  });
+
+  test('Batched telemetry is deduplicated by sequence number', async () => {
+    const raceData = {
+      name: 'Telemetry Test Race',
+      startLocation: generateRandomLocation(),
+      endLocation: generateRandomLocation(),
+      maxParticipants: 2,
+      startTime: new Date(Date.now() + 2000).toISOString()
+    };
+
+    const createResponse = await apiClient.post('/api/races', raceData);
+    const raceId = createResponse.data.race.id;
+    await apiClient.post(`/api/races/${raceId}/join`);
+
+    const raceSocket = await readyUp(raceId);
+    await apiClient.post(`/api/races/${raceId}/start`);
+    await raceSocket.waitForMessage('race_started', 10000);
+
+    const now = Date.now();
+    const samples = [0, 1, 2].map(seq => ({
+      seq,
+      timestamp: now - 1000 + seq * 200,
+      lat: 40.75 + seq * 0.0001,
+      lng: -73.99,
+      speed: 10 + seq
+    }));
+
+    const first = await apiClient.post(`/api/races/${raceId}/telemetry`, { samples });
+    expect(first.success).toBe(true);
+    expect(first.data.accepted).toBe(3);
+
+    // Replaying the same batch after a reconnect stores nothing new
+    const retry = await apiClient.post(`/api/races/${raceId}/telemetry`, { samples });
+    expect(retry.success).toBe(true);
+    expect(retry.data.accepted).toBe(0);
+    expect(retry.data.duplicates).toBe(3);
+
+    const replay = await apiClient.get(`/api/races/${raceId}/telemetry/${userId}`);
+    expect(replay.data.samples.map((s: any) => s.seq)).toEqual([0, 1, 2]);
+
+    raceSocket.disconnect();
   });
 
   test('Complete race and calculate results', async () => {
@@ -284,7 +368,10 @@ describe('E2E Race Management', () => {
     // Join race room via WebSocket to receive notifications  
     wsClient.send('join_race', { raceId: raceId });
 
+    const raceSocket = await readyUp(raceId);
     await apiClient.post(`/api/races/${raceId}/start`);
+    await raceSocket.waitForMessage('race_started', 10000);
+    raceSocket.disconnect();
 
     // Simulate reaching finish line
     const finishResponse = await apiClient.post(`/api/races/${raceId}/finish`, {
@@ -299,6 +386,64 @@ describe('E2E Race Management', () => {
     expect(finishResponse.data).toHaveProperty('result');
     expect(finishResponse.data.result.position).toBe(1);
     expect(finishResponse.data.result.totalTime).toBe(125.5);
+
+    // No telemetry backs the claimed time, so it is held rather than credited
+    expect(finishResponse.data.result.reviewStatus).toBe('pending_review');
+    expect(finishResponse.data.result.reviewReasons.length).toBeGreaterThan(0);
+  });
+
+  test('Drag race finish uses the server-computed timing slip', async () => {
+    const raceData = {
+      name: 'Drag Slip Race',
+      startLocation: { lat: 40.75, lng: -73.99 },
+      endLocation: { lat: 40.7536, lng: -73.99 },
+      maxParticipants: 1,
+      startTime: new Date(Date.now() + 1000).toISOString(),
+      raceType: 'drag'
+    };
+
+    const createResponse = await apiClient.post('/api/races', raceData);
+    const raceId = createResponse.data.race.id;
+    await apiClient.post(`/api/races/${raceId}/join`);
+
+    const raceSocket = await readyUp(raceId);
+    await apiClient.post(`/api/races/${raceId}/start`);
+    const started = await raceSocket.waitForMessage('race_started', 10000);
+    const startAt = started.data.startAt;
+
+    // Constant 8 m/s² pull north: the quarter mile (402.3 m) falls just past 10 s after green
+    await sleep(6000);
+    const samples = [{ timestamp: startAt - 500, lat: 40.75, lng: -73.99, speed: 0 }];
+    for (let t = 0.1; t <= 10.3; t += 0.1) {
+      const distance = 0.5 * 8 * t * t;
+      samples.push({
+        timestamp: Math.round(startAt + t * 1000),
+        lat: 40.75 + distance / 111195,
+        lng: -73.99,
+        speed: 8 * t
+      });
+    }
+    const upload = await apiClient.post(`/api/races/${raceId}/telemetry`, { samples });
+    expect(upload.success).toBe(true);
+
+    const slipResponse = await apiClient.get(`/api/races/${raceId}/timing/${userId}`);
+    const slip = slipResponse.data.slip;
+    expect(slip.complete).toBe(true);
+    expect(slip.sixtyFoot).toBeLessThan(slip.eighthMile);
+    expect(slip.eighthMile).toBeLessThan(slip.quarterMile);
+    expect(slip.quarterMile + slip.reactionTime).toBeCloseTo(10.03, 1);
+
+    // The client's stopwatch is ignored for drag races
+    const finishResponse = await apiClient.post(`/api/races/${raceId}/finish`, {
+      finishTime: new Date().toISOString(),
+      totalTime: 1.5,
+      averageSpeed: 300
+    });
+    expect(finishResponse.success).toBe(true);
+    expect(finishResponse.data.result.totalTime).toBe(slip.quarterMile);
+    expect(finishResponse.data.result.splits.trapSpeed).toBe(slip.trapSpeed);
+
+    raceSocket.disconnect();
   });
 
   test('Race validation and error handling', async () => {
@@ -314,6 +459,56 @@ describe('E2E Race Management', () => {
     expect(response.error).toBeTruthy();
   });
 
+  test('Illegal lifecycle transitions are rejected', async () => {
+    await apiClient.post('/api/vehicles', {
+      name: 'Lifecycle Car', make: 'Nissan', model: 'GT-R', year: 2023
+    });
+
+    const createResponse = await apiClient.post('/api/races', {
+      name: 'Lifecycle Race',
+      startLocation: generateRandomLocation(),
+      endLocation: generateRandomLocation(),
+      maxParticipants: 2,
+      startTime: new Date(Date.now() + 3600000).toISOString()
+    });
+    const raceId = createResponse.data.race.id;
+
+    await apiClient.post(`/api/races/${raceId}/join`);
+
+    // Cannot finish a race that has not started
+    const earlyFinish = await apiClient.post(`/api/races/${raceId}/finish`, {
+      finishTime: new Date().toISOString(),
+      totalTime: 12.5,
+      averageSpeed: 100
+    });
+    expect(earlyFinish.success).toBe(false);
+    expect(earlyFinish.status).toBe(409);
+
+    // Cannot count down before staging
+    const scheduledStart = await apiClient.post(`/api/races/${raceId}/start`);
+    expect(scheduledStart.status).toBe(409);
+
+    const raceSocket = await readyUp(raceId);
+
+    const startResponse = await apiClient.post(`/api/races/${raceId}/start`);
+    expect(startResponse.success).toBe(true);
+    expect(startResponse.data.status).toBe('countdown');
+
+    // Cannot start twice
+    const secondStart = await apiClient.post(`/api/races/${raceId}/start`);
+    expect(secondStart.status).toBe(409);
+
+    await raceSocket.waitForMessage('race_started', 10000);
+    raceSocket.disconnect();
+
+    // Every step is recorded in the audit trail
+    const historyResponse = await apiClient.get(`/api/races/${raceId}/history`);
+    const raceSteps = historyResponse.data.history
+      .filter((h: any) => !h.userId)
+      .map((h: any) => h.to);
+    expect(raceSteps).toEqual(['staging', 'countdown', 'active']);
+  });
+
   test('Race capacity limits', async () => {
     // Create race with max 1 participant
     const raceData = {
@@ -368,4 +563,65 @@ describe('E2E Race Management', () => {
     expect(joinResponse2.success).toBe(false);
     expect(joinResponse2.status).toBe(409); // Conflict - race full
   });
+
+  test('Private race is hidden from and closed to uninvited users', async () => {
+    const createResponse = await apiClient.post('/api/races', {
+      name: 'Private Race',
+      startLocation: { lat: 40.7128, lng: -74.0060 },
+      endLocation: { lat: 40.7589, lng: -73.9851 },
+      maxParticipants: 4,
+      startTime: new Date(Date.now() + 3600000).toISOString(),
+      raceType: 'street',
+      isPrivate: true
+    });
+    expect(createResponse.success).toBe(true);
+    const raceId = createResponse.data.race.id;
+
+    const outsider = TestUtils.generateTestUser();
+    await apiClient.post('/api/auth/register', {
+      email: outsider.email,
+      username: outsider.username,
+      password: outsider.password
+    });
+    const outsiderLogin = await apiClient.post('/api/auth/login', {
+      email: outsider.email,
+      password: outsider.password
+    });
+    apiClient.setAuthToken(outsiderLogin.data.token);
+
+    const listResponse = await apiClient.get('/api/races');
+    expect(listResponse.data.races.some((race: any) => race.id === raceId)).toBe(false);
+
+    const detailResponse = await apiClient.get(`/api/races/${raceId}`);
+    expect(detailResponse.status).toBe(404);
+
+    const joinResponse = await apiClient.post(`/api/races/${raceId}/join`);
+    expect(joinResponse.success).toBe(false);
+    expect(joinResponse.status).toBe(403);
+  });
+
+  test('Cancelled race leaves discovery but stays in history', async () => {
+    const createResponse = await apiClient.post('/api/races', {
+      name: 'Race To Cancel',
+      startLocation: { lat: 40.7128, lng: -74.0060 },
+      endLocation: { lat: 40.7589, lng: -73.9851 },
+      maxParticipants: 4,
+      startTime: new Date(Date.now() + 3600000).toISOString(),
+      raceType: 'street'
+    });
+    const raceId = createResponse.data.race.id;
+
+    const cancelResponse = await apiClient.post(`/api/races/${raceId}/cancel`, { reason: 'Road closed' });
+    expect(cancelResponse.success).toBe(true);
+    expect(cancelResponse.data.race.status).toBe('cancelled');
+
+    const listResponse = await apiClient.get('/api/races');
+    expect(listResponse.data.races.some((race: any) => race.id === raceId)).toBe(false);
+
+    const historyResponse = await apiClient.get('/api/races/my-races');
+    expect(historyResponse.data.races.some((race: any) => race.id === raceId)).toBe(true);
+
+    const editResponse = await apiClient.put(`/api/races/${raceId}`, { name: 'Too Late' });
+    expect(editResponse.status).toBe(409);
+  });
 });
@@ -0,0 +1,154 @@
+/**
+ * End-to-End Spectator Mode Tests
+ * Tests read-only, delayed spectator rooms for public races and keeping race rooms to participants
+ */
+
+import { describe, test, expect, beforeEach, afterEach, afterAll } from '@jest/globals';
+import { apiClient } from '../utils/api-client';
+import { TestWebSocketClient } from '../utils/websocket-client';
+import { TestUtils } from '../utils/test-utils';
+import { generateRandomLocation, sleep } from '../utils/test-helpers';
+import { signIn } from '../utils/e2e-helpers';
+
+const RACE_SOCKET_URL = 'ws://localhost:3000/ws/races';
+
+describe('E2E Spectator Mode', () => {
+  let organizerToken: string;
+  let viewerToken: string;
+  let organizerSocket: TestWebSocketClient;
+  let viewerSocket: TestWebSocketClient;
+
+  // A race the organizer has joined, with their race socket in its room
+  const createRace = async (isPrivate = false): Promise<string> => {
+    apiClient.setAuthToken(organizerToken);
+    await apiClient.post('/api/vehicles', {
+      name: 'Show Car', make: 'Porsche', model: '911 GT3', year: 2024
+    });
+
+    const createResponse = await apiClient.post('/api/races', {
+      name: 'Spectated Race',
+      startLocation: generateRandomLocation(),
+      endLocation: generateRandomLocation(),
+      maxParticipants: 4,
+      startTime: new Date(Date.now() + 3600000).toISOString(),
+      raceType: 'street',
+      isPrivate
+    });
+    const raceId = createResponse.data.race.id;
+    await apiClient.post(`/api/races/${raceId}/join`);
+
+    organizerSocket.send('join_race', { raceId });
+    await organizerSocket.waitForMessage('joined_race', 5000);
+
+    return raceId;
+  };
+
+  beforeEach(async () => {
+    organizerToken = (await signIn()).token;
+    viewerToken = (await signIn()).token;
+
+    organizerSocket = new TestWebSocketClient(RACE_SOCKET_URL);
+    viewerSocket = new TestWebSocketClient(RACE_SOCKET_URL);
+    await organizerSocket.connect(organizerToken);
+    await viewerSocket.connect(viewerToken);
+  });
+
+  afterEach(async () => {
+    organizerSocket.disconnect();
+    viewerSocket.disconnect();
+    await apiClient.post('/api/auth/logout').catch(() => {});
+    apiClient.clearAuth();
+    await sleep(100);
+  });
+
+  afterAll(async () => {
+    await TestUtils.cleanup();
+  });
+
+  test('Race room is closed to users outside the race', async () => {
+    const raceId = await createRace();
+
+    viewerSocket.send('join_race', { raceId });
+    const errorMessage = await viewerSocket.waitForMessage('error', 5000);
+
+    expect(errorMessage.data.requestType).toBe('join_race');
+    expect(errorMessage.data.error).toBe('Only race participants can join the race room; spectate it instead');
+    expect(viewerSocket.getMessagesByType('joined_race')).toHaveLength(0);
+  });
+
+  test('Spectator gets a delayed snapshot of the race and is counted', async () => {
+    const raceId = await createRace();
+
+    const requestedAt = Date.now();
+    viewerSocket.send('spectate_race', { raceId });
+
+    // Participants see the viewer count straight away
+    const countMessage = await organizerSocket.waitForMessage('viewer_count', 5000);
+    expect(countMessage.data.viewers).toBe(1);
+
+    const snapshot = await viewerSocket.waitForMessage('spectating', 15000);
+    expect(Date.now() - requestedAt).toBeGreaterThanOrEqual(snapshot.data.delayMs);
+    expect(snapshot.data.viewers).toBe(1);
+    expect(snapshot.data.race).toEqual(expect.objectContaining({ id: raceId, status: 'scheduled' }));
+    expect(snapshot.data.participants).toHaveLength(1);
+    expect(snapshot.data.participants[0].vehicle).toEqual(expect.objectContaining({ make: 'Porsche', model: '911 GT3' }));
+    expect(snapshot.data.standings).toEqual([]);
+  });
+
+  test('Spectators get room broadcasts late', async () => {
+    const raceId = await createRace();
+    viewerSocket.send('spectate_race', { raceId });
+    const snapshot = await viewerSocket.waitForMessage('spectating', 15000);
+
+    apiClient.setAuthToken(organizerToken);
+    await apiClient.post(`/api/races/${raceId}/stage`);
+
+    const live = await organizerSocket.waitForMessage('race_status_changed', 5000);
+    const delayed = await viewerSocket.waitForMessage('race_status_changed', 15000);
+
+    expect(delayed.data).toEqual(live.data);
+    expect(delayed.timestamp! - live.timestamp!).toBeGreaterThanOrEqual(snapshot.data.delayMs - 100);
+  });
+
+  test('Spectators cannot post into the race room', async () => {
+    const raceId = await createRace();
+    viewerSocket.send('spectate_race', { raceId });
+    await viewerSocket.waitForMessage('spectating', 15000);
+
+    viewerSocket.send('race_update', { raceId, message: 'Car 2 is slowing down' });
+    const errorMessage = await viewerSocket.waitForMessage('error', 5000);
+
+    expect(errorMessage.data).toEqual({
+      requestType: 'race_update',
+      error: 'Only race participants can send race updates'
+    });
+
+    await sleep(1000);
+    expect(organizerSocket.getMessagesByType('race_update')).toHaveLength(0);
+  });
+
+  test('Leaving drops the viewer count', async () => {
+    const raceId = await createRace();
+    viewerSocket.send('spectate_race', { raceId });
+    await organizerSocket.waitForMessage('viewer_count', 5000);
+    organizerSocket.clearMessages();
+
+    viewerSocket.send('stop_spectating', { raceId });
+    await viewerSocket.waitForMessage('stopped_spectating', 5000);
+
+    const countMessage = await organizerSocket.waitForMessage('viewer_count', 5000);
+    expect(countMessage.data.viewers).toBe(0);
+  });
+
+  test('Private races cannot be spectated', async () => {
+    const raceId = await createRace(true);
+
+    viewerSocket.send('spectate_race', { raceId });
+    const errorMessage = await viewerSocket.waitForMessage('error', 5000);
+
+    expect(errorMessage.data).toEqual({
+      requestType: 'spectate_race',
+      error: 'Only public races can be spectated'
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * End-to-End Race Waitlist Tests
+ * Tests queueing for a full race, promotion when a spot opens and confirming the offered spot
+ */
+
+import { describe, test, expect, beforeEach, afterEach, afterAll } from '@jest/globals';
+import { apiClient } from '../utils/api-client';
+import { TestUtils } from '../utils/test-utils';
+import { generateRandomLocation, sleep, waitFor } from '../utils/test-helpers';
+import { signIn } from '../utils/e2e-helpers';
+
+describe('E2E Race Waitlist', () => {
+  let organizerToken: string;
+
+  // A one-seat race the organizer has already taken
+  const createFullRace = async (): Promise<string> => {
+    apiClient.setAuthToken(organizerToken);
+    const createResponse = await apiClient.post('/api/races', {
+      name: 'Waitlist Race',
+      startLocation: generateRandomLocation(),
+      endLocation: generateRandomLocation(),
+      maxParticipants: 1,
+      startTime: new Date(Date.now() + 3600000).toISOString()
+    });
+    const raceId = createResponse.data.race.id;
+
+    await apiClient.post(`/api/races/${raceId}/join`);
+
+    return raceId;
+  };
+
+  beforeEach(async () => {
+    organizerToken = (await signIn()).token;
+  });
+
+  afterEach(async () => {
+    await apiClient.post('/api/auth/logout').catch(() => {});
+    apiClient.clearAuth();
+    await sleep(100);
+  });
+
+  afterAll(async () => {
+    await TestUtils.cleanup();
+  });
+
+  test('Queue for a full race in arrival order', async () => {
+    const raceId = await createFullRace();
+    const firstToken = (await signIn()).token;
+    const secondToken = (await signIn()).token;
+
+    apiClient.setAuthToken(firstToken);
+    const fullResponse = await apiClient.post(`/api/races/${raceId}/join`);
+    expect(fullResponse.status).toBe(409);
+
+    const firstResponse = await apiClient.post(`/api/races/${raceId}/waitlist`);
+    expect(firstResponse.status).toBe(201);
+    expect(firstResponse.data.waitlist).toEqual(expect.objectContaining({ length: 1, position: 1, status: 'waiting' }));
+
+    // Queueing twice is refused
+    const againResponse = await apiClient.post(`/api/races/${raceId}/waitlist`);
+    expect(againResponse.status).toBe(409);
+
+    apiClient.setAuthToken(secondToken);
+    const secondResponse = await apiClient.post(`/api/races/${raceId}/waitlist`);
+    expect(secondResponse.data.waitlist).toEqual(expect.objectContaining({ length: 2, position: 2 }));
+
+    // The race detail shows the list length and the caller's own place in it
+    const detailResponse = await apiClient.get(`/api/races/${raceId}`);
+    expect(detailResponse.data.waitlist).toEqual(expect.objectContaining({ length: 2, position: 2 }));
+
+    apiClient.setAuthToken(organizerToken);
+    const organizerDetail = await apiClient.get(`/api/races/${raceId}`);
+    expect(organizerDetail.data.waitlist).toEqual(expect.objectContaining({ length: 2, position: null }));
+  });
+
+  test('Waitlist is closed while the race has open spots', async () => {
+    apiClient.setAuthToken(organizerToken);
+    const createResponse = await apiClient.post('/api/races', {
+      name: 'Open Race',
+      startLocation: generateRandomLocation(),
+      endLocation: generateRandomLocation(),
+      maxParticipants: 4,
+      startTime: new Date(Date.now() + 3600000).toISOString()
+    });
+    const raceId = createResponse.data.race.id;
+
+    apiClient.setAuthToken((await signIn()).token);
+    const waitlistResponse = await apiClient.post(`/api/races/${raceId}/waitlist`);
+
+    expect(waitlistResponse.success).toBe(false);
+    expect(waitlistResponse.status).toBe(409);
+    expect(waitlistResponse.error).toBe('Illegal waitlist: race has open spots');
+  });
+
+  test('A freed spot is offered to the head of the list and held for them', async () => {
+    const raceId = await createFullRace();
+    const firstToken = (await signIn()).token;
+    const secondToken = (await signIn()).token;
+
+    apiClient.setAuthToken(firstToken);
+    await apiClient.post(`/api/races/${raceId}/waitlist`);
+    apiClient.setAuthToken(secondToken);
+    await apiClient.post(`/api/races/${raceId}/waitlist`);
+
+    // The organizer gives up their seat
+    apiClient.setAuthToken(organizerToken);
+    const leaveResponse = await apiClient.post(`/api/races/${raceId}/leave`);
+    expect(leaveResponse.success).toBe(true);
+
+    apiClient.setAuthToken(firstToken);
+    await waitFor(async () => {
+      const detail = await apiClient.get(`/api/races/${raceId}`);
+      return detail.data?.waitlist?.status === 'offered';
+    }, 10000, 500);
+
+    const offerDetail = await apiClient.get(`/api/races/${raceId}`);
+    expect(new Date(offerDetail.data.waitlist.offerExpiresAt).getTime()).toBeGreaterThan(Date.now());
+
+    // The offered spot is not up for grabs by the rest of the list
+    apiClient.setAuthToken(secondToken);
+    const skipResponse = await apiClient.post(`/api/races/${raceId}/join`);
+    expect(skipResponse.status).toBe(409);
+
+    const earlyConfirm = await apiClient.post(`/api/races/${raceId}/waitlist/confirm`);
+    expect(earlyConfirm.status).toBe(404);
+
+    apiClient.setAuthToken(firstToken);
+    const confirmResponse = await apiClient.post(`/api/races/${raceId}/waitlist/confirm`);
+    expect(confirmResponse.success).toBe(true);
+    expect(confirmResponse.message).toBe('Successfully joined race');
+
+    const raceDetail = await apiClient.get(`/api/races/${raceId}`);
+    expect(raceDetail.data.race.participants.filter((p: any) => p.status !== 'withdrawn')).toHaveLength(1);
+    expect(raceDetail.data.waitlist).toEqual(expect.objectContaining({ length: 1, position: null }));
+
+    apiClient.setAuthToken(secondToken);
+    const secondDetail = await apiClient.get(`/api/races/${raceId}`);
+    expect(secondDetail.data.waitlist).toEqual(expect.objectContaining({ length: 1, position: 1, status: 'waiting' }));
+  });
+
+  test('Turning down an offer passes the spot down the list', async () => {
+    const raceId = await createFullRace();
+    const firstToken = (await signIn()).token;
+    const secondToken = (await signIn()).token;
+
+    apiClient.setAuthToken(firstToken);
+    await apiClient.post(`/api/races/${raceId}/waitlist`);
+    apiClient.setAuthToken(secondToken);
+    await apiClient.post(`/api/races/${raceId}/waitlist`);
+
+    apiClient.setAuthToken(organizerToken);
+    await apiClient.post(`/api/races/${raceId}/leave`);
+
+    apiClient.setAuthToken(firstToken);
+    await waitFor(async () => {
+      const detail = await apiClient.get(`/api/races/${raceId}`);
+      return detail.data?.waitlist?.status === 'offered';
+    }, 10000, 500);
+
+    const declineResponse = await apiClient.delete(`/api/races/${raceId}/waitlist`);
+    expect(declineResponse.success).toBe(true);
+    expect(declineResponse.data.waitlist.position).toBeNull();
+
+    apiClient.setAuthToken(secondToken);
+    await waitFor(async () => {
+      const detail = await apiClient.get(`/api/races/${raceId}`);
+      return detail.data?.waitlist?.status === 'offered';
+    }, 10000, 500);
+
+    const confirmResponse = await apiClient.post(`/api/races/${raceId}/waitlist/confirm`);
+    expect(confirmResponse.success).toBe(true);
+  });
+});
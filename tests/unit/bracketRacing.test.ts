@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for Bracket Racing
+ * Tests drag finishing order with dial-ins: first to the stripe, breakouts, red lights and handicap starts
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { DragRun, bracketOrder, rankDragRuns } from '../../backend/src/services/bracketRacing';
+import { RecordedResult } from '../../backend/src/types';
+
+const run = (userId: string, overrides: Partial<DragRun> = {}): DragRun => ({
+  userId,
+  elapsedTime: 12,
+  reactionTime: 0.5,
+  dialIn: null,
+  delay: 0,
+  ...overrides,
+});
+
+const order = (runs: DragRun[]) => rankDragRuns(runs).map(r => r.userId);
+
+describe('Bracket Racing', () => {
+  describe('rankDragRuns', () => {
+    test('should rank heads-up runs by who reached the stripe first', () => {
+      // Quicker ET, but the slower light costs the race
+      const ranked = rankDragRuns([
+        run('quick-car', { elapsedTime: 11.9, reactionTime: 0.7 }),
+        run('good-light', { elapsedTime: 12, reactionTime: 0.5 }),
+      ]);
+
+      expect(ranked.map(r => r.userId)).toEqual(['good-light', 'quick-car']);
+      expect(ranked.map(r => r.crossing)).toEqual([12.5, 12.6]);
+    });
+
+    test('should start each lane from its own green in a handicap race', () => {
+      expect(order([
+        run('slow-car', { elapsedTime: 14, delay: 0 }),
+        run('fast-car', { elapsedTime: 12, delay: 2.1 }),
+      ])).toEqual(['slow-car', 'fast-car']);
+    });
+
+    test('should put a clean run ahead of a breakout, whoever got there first', () => {
+      const ranked = rankDragRuns([
+        run('broke-out', { elapsedTime: 11.9, dialIn: 12, delay: 0 }),
+        run('on-dial', { elapsedTime: 13.05, dialIn: 13, delay: 1 }),
+      ]);
+
+      expect(ranked.map(r => r.userId)).toEqual(['on-dial', 'broke-out']);
+      expect(ranked[1]).toEqual(expect.objectContaining({ breakout: true, margin: -0.1 }));
+      expect(ranked[0]).toEqual(expect.objectContaining({ breakout: false, margin: 0.05, package: 0.55 }));
+    });
+
+    test('should give the race to the smaller breakout when both break out', () => {
+      expect(order([
+        run('big', { elapsedTime: 11.7, dialIn: 12 }),
+        run('small', { elapsedTime: 11.95, dialIn: 12 }),
+      ])).toEqual(['small', 'big']);
+    });
+
+    test('should put a red light behind a breakout', () => {
+      const ranked = rankDragRuns([
+        run('red-light', { reactionTime: -0.02, dialIn: 12.2 }),
+        run('broke-out', { elapsedTime: 11.9, dialIn: 12 }),
+      ]);
+
+      expect(ranked.map(r => r.userId)).toEqual(['broke-out', 'red-light']);
+      expect(ranked[1].redLight).toBe(true);
+    });
+
+    test('should put the first of two red lights last', () => {
+      expect(order([
+        run('early', { reactionTime: -0.3 }),
+        run('late', { reactionTime: -0.01 }),
+      ])).toEqual(['late', 'early']);
+    });
+
+    test('should put a driver without a valid run behind every fault', () => {
+      const ranked = rankDragRuns([
+        run('no-run', { elapsedTime: null }),
+        run('red-light', { reactionTime: -0.1 }),
+      ]);
+
+      expect(ranked.map(r => r.userId)).toEqual(['red-light', 'no-run']);
+      expect(ranked[1]).toEqual(expect.objectContaining({ crossing: null, margin: null, redLight: false }));
+    });
+  });
+
+  describe('bracketOrder', () => {
+    const result = (id: string, userId: string, timeResult: number, reviewStatus: RecordedResult['reviewStatus'] = 'approved') =>
+      ({ id, userId, timeResult, reviewStatus, position: 0 } as RecordedResult);
+
+    test('should order the recorded results by the participants\' runs', () => {
+      const race = {
+        participants: [
+          { user_id: 'ana', status: 'finished', reaction_time: 0.6, dial_in: 12, handicap_delay: 0 },
+          { user_id: 'ben', status: 'finished', reaction_time: 0.4, dial_in: 12, handicap_delay: 0 },
+        ],
+      };
+      const results = [result('r-ana', 'ana', 12.1), result('r-ben', 'ben', 11.8)];
+
+      // ben broke out, so ana wins despite the slower light
+      expect(bracketOrder(race, results).map(r => r.id)).toEqual(['r-ana', 'r-ben']);
+    });
+
+    test('should rank a rejected result with the drivers who have no run', () => {
+      const race = {
+        participants: [
+          { user_id: 'ana', status: 'finished', reaction_time: 0.5 },
+          { user_id: 'ben', status: 'finished', reaction_time: 0.5 },
+        ],
+      };
+      const results = [result('r-ana', 'ana', 11, 'rejected'), result('r-ben', 'ben', 12)];
+
+      expect(bracketOrder(race, results).map(r => r.id)).toEqual(['r-ben', 'r-ana']);
+    });
+
+    test('should leave results without a starter at the end', () => {
+      const race = { participants: [{ user_id: 'ana', status: 'finished', reaction_time: 0.5 }] };
+      const results = [result('r-gone', 'gone', 10), result('r-ana', 'ana', 12)];
+
+      expect(bracketOrder(race, results).map(r => r.id)).toEqual(['r-ana', 'r-gone']);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for Championship Scoring
+ * Tests points per position, the fastest lap bonus, dropped rounds and tie-breaks
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ScoredRound, scoreRounds } from '../../backend/src/services/championships';
+import { PointsScheme } from '../../backend/src/types';
+
+const scheme: PointsScheme = { positions: [10, 6, 4, 3], fastestLap: 0, dropWorst: 0 };
+
+// Finishers in order, none with a lap time
+const round = (roundNumber: number, ...order: string[]): ScoredRound => ({
+  roundNumber,
+  raceId: `race-${roundNumber}`,
+  finishers: order.map(userId => ({ userId, bestLap: null })),
+});
+
+const table = (standings: ReturnType<typeof scoreRounds>) =>
+  standings.map(({ rank, userId, points }) => ({ rank, userId, points }));
+
+describe('Championship Scoring', () => {
+  test('should add up points by finishing position', () => {
+    const standings = scoreRounds(scheme, [round(1, 'ana', 'ben', 'cat'), round(2, 'ana', 'cat', 'ben')]);
+
+    expect(table(standings)).toEqual([
+      { rank: 1, userId: 'ana', points: 20 },
+      { rank: 2, userId: 'cat', points: 10 },
+      { rank: 3, userId: 'ben', points: 10 },
+    ]);
+  });
+
+  test('should score nothing beyond the points positions', () => {
+    const standings = scoreRounds(scheme, [round(1, 'a', 'b', 'c', 'd', 'e')]);
+
+    expect(standings.find(s => s.userId === 'e')!.points).toBe(0);
+    expect(standings.find(s => s.userId === 'e')!.rounds[0].position).toBe(5);
+  });
+
+  test('should give the fastest lap bonus to one classified finisher', () => {
+    const standings = scoreRounds({ ...scheme, fastestLap: 1 }, [{
+      roundNumber: 1,
+      raceId: 'race-1',
+      finishers: [
+        { userId: 'ana', bestLap: 61.2 },
+        { userId: 'ben', bestLap: 60.8 },
+        { userId: 'cat', bestLap: null },
+      ],
+    }]);
+    const ben = standings.find(s => s.userId === 'ben')!;
+
+    expect(ben.points).toBe(7);
+    expect(ben.rounds[0].fastestLap).toBe(true);
+    expect(standings.filter(s => s.rounds[0].fastestLap)).toHaveLength(1);
+  });
+
+  test('should score a missed round as zero, with no position', () => {
+    const standings = scoreRounds(scheme, [round(1, 'ana', 'ben'), round(2, 'ana')]);
+    const ben = standings.find(s => s.userId === 'ben')!;
+
+    expect(ben.rounds).toEqual([
+      expect.objectContaining({ roundNumber: 1, position: 2, points: 6 }),
+      expect.objectContaining({ roundNumber: 2, raceId: 'race-2', position: null, points: 0 }),
+    ]);
+  });
+
+  describe('dropped rounds', () => {
+    test('should drop each driver\'s worst rounds from the total but not the gross', () => {
+      const standings = scoreRounds({ ...scheme, dropWorst: 1 }, [
+        round(1, 'ana', 'ben'),
+        round(2, 'ben', 'ana'),
+        round(3, 'ana'),
+      ]);
+      const ben = standings.find(s => s.userId === 'ben')!;
+
+      expect(ben.grossPoints).toBe(16);
+      expect(ben.points).toBe(16);
+      expect(ben.rounds.map(r => r.dropped)).toEqual([false, false, true]);
+      expect(standings.find(s => s.userId === 'ana')!.points).toBe(20);
+    });
+
+    test('should drop the earlier of two equal rounds', () => {
+      const standings = scoreRounds({ ...scheme, dropWorst: 1 }, [round(1, 'ana'), round(2, 'ana')]);
+
+      expect(standings[0].rounds.map(r => r.dropped)).toEqual([true, false]);
+    });
+
+    test('should always count at least one round', () => {
+      const standings = scoreRounds({ ...scheme, dropWorst: 3 }, [round(1, 'ana'), round(2, 'ana')]);
+
+      expect(standings[0].points).toBe(10);
+      expect(standings[0].rounds.filter(r => r.dropped)).toHaveLength(1);
+    });
+  });
+
+  describe('tie-breaks', () => {
+    test('should split equal points on countback', () => {
+      // All on 12 points: ana and cat with two wins each, ben with four second places
+      const standings = scoreRounds({ positions: [6, 3, 0], fastestLap: 0, dropWorst: 0 }, [
+        round(1, 'ana', 'ben', 'cat'),
+        round(2, 'ana', 'ben', 'cat'),
+        round(3, 'cat', 'ben', 'ana'),
+        round(4, 'cat', 'ben', 'ana'),
+      ]);
+
+      expect(table(standings)).toEqual([
+        { rank: 1, userId: 'cat', points: 12 },
+        { rank: 2, userId: 'ana', points: 12 },
+        { rank: 3, userId: 'ben', points: 12 },
+      ]);
+      expect(standings.map(s => s.countback)).toEqual([[2, 0, 2], [2, 0, 2], [0, 4, 0]]);
+    });
+
+    test('should fall back to the most recent round when countback is level', () => {
+      const standings = scoreRounds(scheme, [round(1, 'ana', 'ben'), round(2, 'ben', 'ana')]);
+
+      // Level on points and countback, but ben won the latest round
+      expect(standings.map(s => s.userId)).toEqual(['ben', 'ana']);
+      expect(standings.map(s => s.rank)).toEqual([1, 2]);
+    });
+
+    test('should rank a later win ahead of an earlier one', () => {
+      const standings = scoreRounds(scheme, [round(1, 'ana'), round(2, 'ben')]);
+
+      expect(table(standings)).toEqual([
+        { rank: 1, userId: 'ben', points: 10 },
+        { rank: 2, userId: 'ana', points: 10 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for Result Disputes
+ * Tests that accepting a dispute claims it together with its ruling and re-rank, and rejecting leaves results alone
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { DisputeService } from '../../backend/src/services/disputes';
+import { RecordedResult, ResultDispute } from '../../backend/src/types';
+
+const RACE_ID = 'race-1';
+
+const result = (id: string, userId: string, position: number): RecordedResult =>
+  ({ id, userId, position, timeResult: 100 + position, reviewStatus: 'approved' } as RecordedResult);
+
+// One dispute against the winner, and a database whose re-rank claims it the way rerank_race_results does
+const fakeDb = () => {
+  const state = {
+    dispute: {
+      id: 'dispute-1', raceId: RACE_ID, resultId: 'r-ana', filedBy: 'ben', status: 'open', reason: 'Cut the chicane',
+    } as ResultDispute,
+    results: [result('r-ana', 'ana', 1), result('r-ben', 'ben', 2)],
+    reranks: [] as any[][],
+    history: [] as any[],
+  };
+
+  const db = {
+    getRace: async () => ({ success: true, data: { id: RACE_ID, name: 'Night Run', createdBy: 'organizer', participants: [] } }),
+    getDispute: async () => ({ success: true, data: { ...state.dispute } }),
+    getRaceResults: async () => ({ success: true, data: state.results.map(r => ({ ...r })) }),
+    rerankRaceResults: async (...args: any[]) => {
+      const [, orderedIds, , , , , ruling] = args;
+      if (ruling) {
+        if (state.dispute.status !== 'open') return { success: true, data: false };
+        state.dispute = { ...state.dispute, status: 'accepted', ruling };
+      }
+      state.reranks.push(args);
+      state.results = orderedIds.map((id: string, i: number) => ({ ...state.results.find(r => r.id === id)!, position: i + 1 }));
+      return { success: true, data: true };
+    },
+    resolveDispute: async (_id: string, status: any) => {
+      if (state.dispute.status !== 'open') return { success: true, data: null };
+      state.dispute = { ...state.dispute, status };
+      return { success: true, data: { ...state.dispute } };
+    },
+    recordResultHistory: async (entries: any[]) => {
+      state.history.push(...entries);
+      return { success: true, data: true };
+    },
+  };
+
+  return { db, state };
+};
+
+const buildService = (db: any) => new DisputeService(
+  db,
+  { broadcastToRace: () => undefined } as any,
+  { notify: async () => undefined } as any,
+  { rankResults: (_race: any, results: RecordedResult[]) => results } as any
+);
+
+describe('Result Disputes', () => {
+  let fake: ReturnType<typeof fakeDb>;
+  let service: DisputeService;
+
+  beforeEach(() => {
+    fake = fakeDb();
+    service = buildService(fake.db);
+  });
+
+  test('should accept a dispute in the same call as its ruling and re-rank', async () => {
+    const response = await service.resolveDispute(
+      RACE_ID, 'dispute-1', 'organizer', 'accept', { action: 'reposition', position: 2 }, 'Photo shows ben ahead'
+    );
+
+    expect(response.success).toBe(true);
+    expect(response.data.dispute.status).toBe('accepted');
+    expect(response.data.results.map((r: RecordedResult) => r.id)).toEqual(['r-ben', 'r-ana']);
+    expect(fake.state.reranks).toHaveLength(1);
+    expect(fake.state.reranks[0].slice(6)).toEqual([{ action: 'reposition', position: 2 }, 'Photo shows ben ahead']);
+  });
+
+  test('should re-rank only once when two accepts race each other', async () => {
+    // Both read the dispute as open before either claims it
+    const [first, second] = await Promise.all([
+      service.resolveDispute(RACE_ID, 'dispute-1', 'organizer', 'accept', { action: 'reposition', position: 2 }),
+      service.resolveDispute(RACE_ID, 'dispute-1', 'organizer', 'accept', { action: 'disqualify' }),
+    ]);
+
+    expect(first.success).toBe(true);
+    expect(second).toEqual({ success: false, error: 'Illegal resolution: dispute is no longer open' });
+    expect(fake.state.reranks).toHaveLength(1);
+    expect(fake.state.results.map(r => r.reviewStatus)).toEqual(['approved', 'approved']);
+  });
+
+  test('should reject a dispute without touching the results', async () => {
+    const response = await service.resolveDispute(RACE_ID, 'dispute-1', 'organizer', 'reject', undefined, 'Inside track limits');
+
+    expect(response.data.dispute.status).toBe('rejected');
+    expect(fake.state.reranks).toHaveLength(0);
+    expect(fake.state.results.map(r => r.position)).toEqual([1, 2]);
+    expect(fake.state.history).toEqual([expect.objectContaining({ action: 'dispute_rejected', disputeId: 'dispute-1' })]);
+  });
+
+  test('should leave a ruled dispute alone', async () => {
+    fake.state.dispute.status = 'rejected';
+
+    const response = await service.resolveDispute(RACE_ID, 'dispute-1', 'organizer', 'accept', { action: 'disqualify' });
+
+    expect(response).toEqual({ success: false, error: 'Illegal resolution: dispute is already rejected' });
+    expect(fake.state.reranks).toHaveLength(0);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for Drag Timing
+ * Tests the timing slip built from a GPS trace: elapsed times at each marker, trap speeds and reaction time
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { computeTimingSlip } from '../../backend/src/services/dragTiming';
+import { T0, buildTrace } from '../utils/telemetry-fixtures';
+
+const FOOT = 0.3048;
+const ACCELERATION = 5; // m/s², a steady pull from launch
+const GREEN_AT = T0 + 1000;
+
+// Seconds after launch that a car pulling ACCELERATION reaches `meters`
+const timeTo = (meters: number) => Math.sqrt((2 * meters) / ACCELERATION);
+
+// Staged at the origin, launching `reaction` seconds after the green, sampled at 10 Hz
+const dragRun = (reaction: number, seconds: number = 16) =>
+  buildTrace(seconds, t => {
+    const moving = Math.max(0, t - 1 - reaction);
+    return { north: 0.5 * ACCELERATION * moving ** 2, speed: ACCELERATION * moving };
+  }, 100);
+
+describe('Drag Timing', () => {
+  test('should time each marker from launch', () => {
+    const slip = computeTimingSlip(dragRun(0.5), GREEN_AT, 0.5);
+
+    expect(slip.reactionTime).toBe(0.5);
+    expect(slip.sixtyFoot).toBeCloseTo(timeTo(60 * FOOT), 2);
+    expect(slip.threeThirtyFoot).toBeCloseTo(timeTo(330 * FOOT), 2);
+    expect(slip.eighthMile).toBeCloseTo(timeTo(660 * FOOT), 2);
+    expect(slip.thousandFoot).toBeCloseTo(timeTo(1000 * FOOT), 2);
+    expect(slip.quarterMile).toBeCloseTo(timeTo(1320 * FOOT), 2);
+    expect(slip.complete).toBe(true);
+  });
+
+  test('should measure trap speed over the last 66 feet', () => {
+    const slip = computeTimingSlip(dragRun(0.5), GREEN_AT, 0.5);
+    const trap = (end: number) => (66 * FOOT) / (timeTo(end * FOOT) - timeTo((end - 66) * FOOT));
+
+    expect(slip.eighthMileSpeed).toBeCloseTo(trap(660), 0);
+    expect(slip.trapSpeed).toBeCloseTo(trap(1320), 0);
+  });
+
+  test('should time from the green when no reaction time was recorded', () => {
+    const slip = computeTimingSlip(dragRun(0.5), GREEN_AT, null);
+
+    expect(slip.reactionTime).toBeNull();
+    expect(slip.quarterMile).toBeCloseTo(timeTo(1320 * FOOT) + 0.5, 2);
+  });
+
+  test('should leave markers the trace never reaches empty', () => {
+    // About 250 m covered: past the eighth mile, short of the thousand foot mark
+    const slip = computeTimingSlip(dragRun(0.5, 11.5), GREEN_AT, 0.5);
+
+    expect(slip.eighthMile).not.toBeNull();
+    expect(slip.thousandFoot).toBeNull();
+    expect(slip.quarterMile).toBeNull();
+    expect(slip.trapSpeed).toBeNull();
+    expect(slip.complete).toBe(false);
+  });
+
+  test('should ignore sample order', () => {
+    const trace = dragRun(0.5);
+    const shuffled = [...trace.slice(50), ...trace.slice(0, 50)];
+
+    expect(computeTimingSlip(shuffled, GREEN_AT, 0.5)).toEqual(computeTimingSlip(trace, GREEN_AT, 0.5));
+  });
+
+  test('should return an empty slip without telemetry', () => {
+    const slip = computeTimingSlip([], GREEN_AT, 0.2);
+
+    expect(slip).toEqual({
+      reactionTime: 0.2,
+      sixtyFoot: null,
+      threeThirtyFoot: null,
+      eighthMile: null,
+      eighthMileSpeed: null,
+      thousandFoot: null,
+      quarterMile: null,
+      trapSpeed: null,
+      complete: false,
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Drift Scoring
+ * Tests zone judging (angle, speed, line, style, spins), zone order and weights, and tandem lead/chase marks
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { judgeDriftRun, judgeTandem, ranTogether } from '../../backend/src/services/driftScoring';
+import { DriftZone, RouteGate, TelemetrySample } from '../../backend/src/types';
+import { TracePoint, buildTrace, offset } from '../utils/telemetry-fixtures';
+
+const lineAt = (north: number): RouteGate => ({ type: 'line', a: offset(north, -10), b: offset(north, 10) });
+
+// A straight zone from `from` to `to` meters north, its ideal line up the middle of the road
+const zone = (from: number, to: number, overrides: Partial<DriftZone> = {}): DriftZone => ({
+  entry: lineAt(from),
+  exit: lineAt(to),
+  line: [offset(from), offset(to)],
+  targetAngle: 45,
+  targetSpeed: 15,
+  ...overrides,
+});
+
+const ZONE = zone(100, 200);
+
+// Heading north at 15 m/s from 10 m short of the origin, pointed `heading` degrees off the direction of
+// travel, sampled at 5 Hz. The zone is entered at about 7.3 s and left at 14 s.
+const run = (at: (t: number) => Partial<TracePoint> = () => ({}), seconds: number = 20): TelemetrySample[] =>
+  buildTrace(seconds, t => ({ north: 15 * t - 10, speed: 15, heading: 45, ...at(t) }), 200);
+
+const shifted = (trace: TelemetrySample[], ms: number) => trace.map(sample => ({ ...sample, timestamp: sample.timestamp + ms }));
+
+describe('Drift Scoring', () => {
+  describe('judgeDriftRun', () => {
+    test('should give full marks for a committed drift on the line at the target angle and speed', () => {
+      const { score } = judgeDriftRun('driver-1', [ZONE], run());
+
+      expect(score.zones[0]).toEqual(expect.objectContaining({
+        completed: true, spun: false, angle: 100, speed: 100, line: 100, style: 100, total: 100, driftShare: 1,
+      }));
+      expect(score.total).toBe(100);
+    });
+
+    test('should give only control marks for driving the zone straight', () => {
+      const { score } = judgeDriftRun('driver-1', [ZONE], run(() => ({ heading: 0 })));
+
+      expect(score.zones[0]).toEqual(expect.objectContaining({ angle: 0, speed: 0, line: 0, style: 40, driftShare: 0 }));
+      expect(score.total).toBe(6);
+    });
+
+    test('should mark a drift away from the ideal line down', () => {
+      const { score } = judgeDriftRun('driver-1', [ZONE], run(() => ({ east: 5 })));
+
+      expect(score.zones[0].lineDeviation).toBeCloseTo(5, 1);
+      expect(score.zones[0].line).toBeCloseTo(46.2, 0);
+      expect(score.zones[0].angle).toBe(100);
+    });
+
+    test('should score a spin as nothing for the zone', () => {
+      const { score } = judgeDriftRun('driver-1', [ZONE], run(t => (t >= 10 && t < 10.5 ? { heading: 150 } : {})));
+
+      expect(score.zones[0].spun).toBe(true);
+      expect(score.zones[0].total).toBe(0);
+    });
+
+    test('should score nothing for a zone the car never leaves', () => {
+      const { score } = judgeDriftRun('driver-1', [ZONE], run(undefined, 12));
+
+      expect(score.zones[0].completed).toBe(false);
+      expect(score.total).toBe(0);
+    });
+
+    test('should keep judging later zones after a missed exit', () => {
+      // Runs wide around the first zone's exit line, then through the second zone
+      const zones = [zone(100, 200), zone(300, 400)];
+      const { score } = judgeDriftRun('driver-1', zones, run(t => (t > 12 && t < 15 ? { east: 40 } : {}), 35));
+
+      expect(score.zones.map(z => z.completed)).toEqual([false, true]);
+      expect(score.zones[1].total).toBe(100);
+    });
+
+    test('should weight zones by their share of the run', () => {
+      const zones = [zone(100, 200), zone(300, 400, { weight: 3 })];
+      const { score } = judgeDriftRun('driver-1', zones, run(t => (t < 15 ? { heading: 0 } : {}), 35));
+
+      // Straight through the first zone (6), a full drift through the heavier second (100)
+      expect(score.total).toBeCloseTo((6 + 3 * 100) / 4, 1);
+    });
+  });
+
+  describe('judgeTandem', () => {
+    test('should judge the car into the first zone first as the lead', () => {
+      const lead = judgeDriftRun('lead', [ZONE], run());
+      // One second, 15 m, behind
+      const chase = judgeDriftRun('chase', [ZONE], shifted(run(), 1000));
+      const [leadScore, chaseScore] = judgeTandem([ZONE], chase, lead);
+
+      expect(leadScore.userId).toBe('lead');
+      expect(leadScore.total).toBe(100);
+      expect(leadScore.tandem).toEqual({ role: 'lead', partnerId: 'chase', soloTotal: 100, proximity: null, mimic: null, passed: false });
+
+      expect(chaseScore.userId).toBe('chase');
+      expect(chaseScore.tandem).toEqual(expect.objectContaining({ role: 'chase', partnerId: 'lead', soloTotal: 100, mimic: 100, passed: false }));
+      expect(chaseScore.tandem!.proximity).toBeCloseTo(((20 - 15) / (20 - 3)) * 100, 0);
+      expect(chaseScore.total).toBeCloseTo(50 + 0.3 * chaseScore.tandem!.proximity! + 20, 0);
+      expect(chaseScore.zones[0].proximity).toBeCloseTo(15, 0);
+    });
+
+    test('should take the tandem marks off a chase that passes the lead', () => {
+      const lead = judgeDriftRun('lead', [ZONE], run());
+      // Into the zone just behind the lead, then by it at twice the speed
+      const chase = judgeDriftRun('chase', [ZONE], buildTrace(20, t => ({
+        north: t < 8 ? 15 * t - 25 : 95 + 30 * (t - 8), speed: t < 8 ? 15 : 30, heading: 45,
+      }), 200));
+      const [, chaseScore] = judgeTandem([ZONE], lead, chase);
+
+      expect(chaseScore.tandem!.passed).toBe(true);
+      expect(chaseScore.total).toBeCloseTo(chaseScore.tandem!.soloTotal * 0.5, 1);
+    });
+  });
+
+  describe('ranTogether', () => {
+    test('should tell runs that shared a zone from runs made apart', () => {
+      const first = judgeDriftRun('a', [ZONE], run());
+
+      expect(ranTogether(first, judgeDriftRun('b', [ZONE], shifted(run(), 1000)))).toBe(true);
+      expect(ranTogether(first, judgeDriftRun('b', [ZONE], shifted(run(), 60000)))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for Ghost Races
+ * Tests racing a participant's run from a finished race: who can, the course it is timed on and the head-to-head result
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { GhostRaceService } from '../../backend/src/services/ghostRaces';
+import { timeRun } from '../../backend/src/services/timeTrials';
+import { RecordedResult } from '../../backend/src/types';
+import { T0, buildTrace } from '../utils/telemetry-fixtures';
+
+const RACE_ID = '00000000-0000-4000-8000-000000000001';
+const ANA_RESULT = '00000000-0000-4000-8000-00000000000a';
+const BEN_RESULT = '00000000-0000-4000-8000-00000000000b';
+const GREEN = T0 + 2000;
+
+// Staged for two seconds, then straight up the road at `speed` m/s
+const run = (speed: number, offsetMs: number = 0) =>
+  buildTrace(60, t => ({ north: t < 2 ? 0 : (t - 2) * speed, speed: t < 2 ? 0 : speed }), 500)
+    .map(sample => ({ ...sample, timestamp: sample.timestamp + offsetMs }));
+
+const result = (id: string, userId: string, position: number, reviewStatus: RecordedResult['reviewStatus'] = 'approved') =>
+  ({ id, raceId: RACE_ID, userId, position, timeResult: 50, reviewStatus } as RecordedResult);
+
+const fakes = (raceOverrides: any = {}) => {
+  const state = {
+    sent: [] as any[],
+    records: [] as any[],
+    results: [result(ANA_RESULT, 'ana', 1), result(BEN_RESULT, 'ben', 2)],
+  };
+
+  const db = {
+    getRace: async () => ({
+      success: true,
+      data: {
+        id: RACE_ID,
+        createdBy: 'organizer',
+        status: 'finished',
+        actualStart: new Date(GREEN),
+        participants: [{ user_id: 'ana', vehicle_class: 'B' }, { user_id: 'ben', vehicle_class: 'C' }],
+        ...raceOverrides,
+      },
+    }),
+    getRaceResults: async () => ({ success: true, data: state.results }),
+    createGhostRace: async (record: any) => {
+      state.records.push(record);
+      return { success: true, data: { id: 'ghost-race-1', ...record } };
+    },
+  };
+  const ws = {
+    onDisconnect: () => undefined,
+    sendToConnection: (_connectionId: string, message: any) => { state.sent.push(message); },
+  };
+  // Times attempts over the course it's given and approves them
+  const timeTrials = {
+    reviewRun: async (course: any, _userId: string, samples: any[]) => {
+      const timed = timeRun(course, samples);
+      if (!timed.success) return timed;
+      return { success: true, data: { ...timed.data, vehicleId: 'car', vehicleClass: 'B', reviewStatus: 'approved', reviewReasons: [] } };
+    },
+  };
+  const telemetry = { getTrace: async () => ({ success: true, data: run(20) }) };
+  const raceAccess = { canView: async () => true };
+
+  const service = new GhostRaceService(db as any, ws as any, timeTrials as any, telemetry as any, raceAccess as any);
+  const messages = (type: string) => state.sent.filter(m => m.type === type);
+
+  return { service, state, messages };
+};
+
+describe('Ghost Races', () => {
+  let fake: ReturnType<typeof fakes>;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 });
+    fake = fakes();
+  });
+
+  afterEach(() => {
+    fake.service.stop();
+    jest.useRealTimers();
+  });
+
+  describe('race ghosts', () => {
+    test('should load the winner\'s run on a course laid along its line', async () => {
+      expect(await fake.service.start('conn-1', 'ben', { raceId: RACE_ID })).toEqual({ success: true });
+
+      const [ready] = fake.messages('ghost_ready');
+      expect(ready.data.raceId).toBe(RACE_ID);
+      expect(ready.data.ghost).toEqual(expect.objectContaining({ resultId: ANA_RESULT, userId: 'ana', vehicleClass: 'B' }));
+      // Into the start circle 15m off the grid, into the finish circle 25m before where the ghost finished
+      expect(ready.data.ghost.elapsedTime).toBeCloseTo(48, 1);
+      expect(ready.data.course.checkpoints).toHaveLength(1);
+    });
+
+    test('should race your own result as your personal best', async () => {
+      await fake.service.start('conn-1', 'ben', { raceId: RACE_ID, ghost: 'personal_best' });
+
+      expect(fake.messages('ghost_ready')[0].data.ghost.resultId).toBe(BEN_RESULT);
+    });
+
+    test('should keep the race to its field and organizer', async () => {
+      expect(await fake.service.start('conn-1', 'stranger', { raceId: RACE_ID })).toEqual({
+        success: false, error: 'Race not found',
+      });
+    });
+
+    test('should only offer finished races', async () => {
+      fake = fakes({ status: 'active' });
+
+      expect(await fake.service.start('conn-1', 'ben', { raceId: RACE_ID })).toEqual({
+        success: false, error: 'Illegal ghost: race is active',
+      });
+    });
+
+    test('should not let other drivers race a result still under review', async () => {
+      fake.state.results[0] = result(ANA_RESULT, 'ana', 1, 'pending_review');
+
+      expect(await fake.service.start('conn-1', 'ben', { raceId: RACE_ID, resultId: ANA_RESULT })).toEqual({
+        success: false, error: 'Only approved results can be raced by other drivers',
+      });
+    });
+
+    test('should refuse a ghost from a route and a race at once', async () => {
+      const response = await fake.service.start('conn-1', 'ben', { raceId: RACE_ID, routeId: RACE_ID });
+
+      expect(response.success).toBe(false);
+      expect(response.error).toMatch(/^Invalid ghost race: /);
+    });
+
+    test('should score a finished attempt against the ghost and record it', async () => {
+      await fake.service.start('conn-1', 'ben', { raceId: RACE_ID });
+
+      // A quicker run an hour later, sent in batches like a live client would
+      const attempt = run(25, 3600000);
+      for (let i = 0; i < attempt.length; i += 20) {
+        await fake.service.ingest('conn-1', attempt.slice(i, i + 20).map(({ seq, ...sample }) => sample));
+      }
+
+      const [outcome] = fake.messages('ghost_result');
+      expect(outcome.data.outcome).toBe('won');
+      expect(outcome.data.margin).toBeCloseTo(-9.6, 1);
+      expect(outcome.data.rank).toBeNull();
+      expect(fake.messages('ghost_split')).toHaveLength(1);
+      expect(fake.state.records).toEqual([expect.objectContaining({
+        raceId: RACE_ID, ghostResultId: ANA_RESULT, routeId: null, runId: null, ghostRunId: null, outcome: 'won',
+      })]);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for Glicko-2 Ratings
+ * Tests one rating period against Glickman's worked example and deviation growth between periods
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_DEVIATION, DEFAULT_RATING, DEFAULT_VOLATILITY, inflateDeviation, rateGlicko2,
+} from '../../backend/src/utils/glicko';
+
+const player = { rating: 1500, deviation: 200, volatility: 0.06 };
+
+describe('Glicko-2 Ratings', () => {
+  describe('rateGlicko2', () => {
+    test('should match the worked example from the Glicko-2 paper', () => {
+      const next = rateGlicko2(player, [
+        { opponent: { rating: 1400, deviation: 30, volatility: 0.06 }, score: 1 },
+        { opponent: { rating: 1550, deviation: 100, volatility: 0.06 }, score: 0 },
+        { opponent: { rating: 1700, deviation: 300, volatility: 0.06 }, score: 0 },
+      ]);
+
+      expect(next.rating).toBeCloseTo(1464.06, 1);
+      expect(next.deviation).toBeCloseTo(151.52, 1);
+      expect(next.volatility).toBeCloseTo(0.059996, 5);
+    });
+
+    test('should raise the rating of a winner and lower that of a loser', () => {
+      const opponent = { rating: 1500, deviation: 200, volatility: 0.06 };
+
+      expect(rateGlicko2(player, [{ opponent, score: 1 }]).rating).toBeGreaterThan(1500);
+      expect(rateGlicko2(player, [{ opponent, score: 0 }]).rating).toBeLessThan(1500);
+      expect(rateGlicko2(player, [{ opponent, score: 0.5 }]).rating).toBeCloseTo(1500, 6);
+    });
+
+    test('should move a new driver further than an established one', () => {
+      const opponent = { rating: 1500, deviation: 50, volatility: 0.06 };
+      const newcomer = rateGlicko2({ rating: DEFAULT_RATING, deviation: DEFAULT_DEVIATION, volatility: DEFAULT_VOLATILITY }, [{ opponent, score: 1 }]);
+      const regular = rateGlicko2({ rating: 1500, deviation: 60, volatility: 0.06 }, [{ opponent, score: 1 }]);
+
+      expect(newcomer.rating - 1500).toBeGreaterThan(regular.rating - 1500);
+      expect(newcomer.deviation).toBeLessThan(DEFAULT_DEVIATION);
+    });
+
+    test('should only grow the deviation for a period without games', () => {
+      const next = rateGlicko2(player, []);
+
+      expect(next.rating).toBe(1500);
+      expect(next.volatility).toBe(0.06);
+      expect(next.deviation).toBeCloseTo(200.27, 2);
+    });
+  });
+
+  describe('inflateDeviation', () => {
+    test('should grow the deviation with each idle period', () => {
+      const one = inflateDeviation(player, 1);
+      const ten = inflateDeviation(player, 10);
+
+      expect(one.deviation).toBeCloseTo(rateGlicko2(player, []).deviation, 6);
+      expect(ten.deviation).toBeGreaterThan(one.deviation);
+      expect(ten.rating).toBe(1500);
+    });
+
+    test('should cap the deviation at the unrated value', () => {
+      expect(inflateDeviation(player, 100000).deviation).toBe(DEFAULT_DEVIATION);
+    });
+
+    test('should leave the rating untouched without idle periods', () => {
+      expect(inflateDeviation(player, 0)).toBe(player);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit Tests for the Job Scheduler
+ * Tests retrying failed jobs with backoff, renewing the lease while a job runs and failing jobs whose worker is gone
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { JobSchedulerService } from '../../backend/src/services/jobScheduler';
+import { ScheduledJob } from '../../backend/src/types';
+
+const T0 = Date.parse('2026-01-01T12:00:00Z');
+const SECOND = 1000;
+
+// Column names the scheduler writes, mapped onto the job fields the fake keeps
+const COLUMNS: Record<string, string> = { last_error: 'lastError', run_at: 'runAt', completed_at: 'completedAt' };
+const apply = (job: any, fields: Record<string, any>) => {
+  for (const [key, value] of Object.entries(fields)) {
+    const field = COLUMNS[key] || key;
+    job[field] = field === 'runAt' || field === 'completedAt' ? new Date(value) : value ?? undefined;
+  }
+};
+
+const job = (overrides: Partial<ScheduledJob> = {}): ScheduledJob => ({
+  id: 'job-1',
+  type: 'race_reminder',
+  payload: { raceId: 'race-1' },
+  runAt: new Date(T0),
+  status: 'pending',
+  attempts: 0,
+  maxAttempts: 5,
+  createdAt: new Date(T0),
+  ...overrides,
+});
+
+// An in-memory job table whose claims and lease checks follow the database's guards
+const fakeDb = (jobs: ScheduledJob[]) => {
+  const state = { jobs, renewals: [] as number[] };
+
+  const db = {
+    failInterruptedJobs: async (workerId: string, now: Date) => {
+      const interrupted = state.jobs.filter(j => j.status === 'running' &&
+        (j.workerId === workerId || !j.leaseExpiresAt || j.leaseExpiresAt < now));
+      interrupted.forEach(j => apply(j, { status: 'failed', last_error: 'Interrupted: the worker running it stopped' }));
+      return { success: true, data: interrupted.length };
+    },
+    getDueJobs: async (now: Date) => ({
+      success: true,
+      data: state.jobs.filter(j => j.status === 'pending' && j.runAt <= now).map(j => ({ ...j })),
+    }),
+    claimJob: async (pending: ScheduledJob, workerId: string, leaseUntil: Date) => {
+      const row = state.jobs.find(j => j.id === pending.id && j.status === 'pending' && j.attempts === pending.attempts);
+      if (!row) return { success: true, data: null };
+      Object.assign(row, { status: 'running', attempts: row.attempts + 1, workerId, leaseExpiresAt: leaseUntil });
+      return { success: true, data: { ...row } };
+    },
+    renewJobLease: async (jobId: string, workerId: string, leaseUntil: Date) => {
+      const row = state.jobs.find(j => j.id === jobId && j.status === 'running' && j.workerId === workerId);
+      if (row) {
+        row.leaseExpiresAt = leaseUntil;
+        state.renewals.push(Date.now() - T0);
+      }
+      return { success: true, data: !!row };
+    },
+    updateJob: async (jobId: string, fields: Record<string, any>) => {
+      const row = state.jobs.find(j => j.id === jobId)!;
+      apply(row, fields);
+      return { success: true, data: { ...row } };
+    },
+  };
+
+  return { db, state };
+};
+
+describe('Job Scheduler', () => {
+  let scheduler: JobSchedulerService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  test('should complete a job whose handler succeeds', async () => {
+    const { db, state } = fakeDb([job()]);
+    scheduler = new JobSchedulerService(db as any);
+    scheduler.register('race_reminder', async () => ({ success: true, data: {} }));
+
+    await scheduler.start();
+
+    expect(state.jobs[0]).toEqual(expect.objectContaining({ status: 'completed', attempts: 1, lastError: undefined }));
+  });
+
+  test('should refuse job types nobody handles', async () => {
+    scheduler = new JobSchedulerService(fakeDb([]).db as any);
+
+    expect(await scheduler.schedule({ type: 'mystery', payload: {}, runAt: new Date(T0) })).toEqual({
+      success: false, error: 'Invalid job type: mystery',
+    });
+  });
+
+  describe('retries', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should back off exponentially between attempts and fail the job once they run out', async () => {
+      const { db, state } = fakeDb([job({ maxAttempts: 4 })]);
+      scheduler = new JobSchedulerService(db as any);
+      const attemptedAt: number[] = [];
+      scheduler.register('race_reminder', async () => {
+        attemptedAt.push(Date.now() - T0);
+        return { success: false, error: 'Notification service unavailable' };
+      });
+
+      await scheduler.start();
+      expect(state.jobs[0]).toEqual(expect.objectContaining({
+        status: 'pending', attempts: 1, runAt: new Date(T0 + 30 * SECOND), lastError: 'Notification service unavailable',
+      }));
+
+      await jest.advanceTimersByTimeAsync(300 * SECOND);
+
+      // 30s, then 60s, then 120s after each failure, polled every five seconds
+      expect(attemptedAt).toEqual([0, 30 * SECOND, 90 * SECOND, 210 * SECOND]);
+      expect(state.jobs[0]).toEqual(expect.objectContaining({ status: 'failed', attempts: 4 }));
+    });
+
+    test('should treat a handler that throws as a failed attempt', async () => {
+      const { db, state } = fakeDb([job()]);
+      scheduler = new JobSchedulerService(db as any);
+      scheduler.register('race_reminder', async () => { throw new Error('Race row is corrupt'); });
+
+      await scheduler.start();
+
+      expect(state.jobs[0]).toEqual(expect.objectContaining({ status: 'pending', attempts: 1, lastError: 'Race row is corrupt' }));
+    });
+  });
+
+  describe('leases', () => {
+    test('should keep renewing the lease while a long job runs', async () => {
+      const { db, state } = fakeDb([job()]);
+      scheduler = new JobSchedulerService(db as any);
+      scheduler.register('race_reminder', () => new Promise(resolve => setTimeout(() => resolve({ success: true }), 300 * SECOND)));
+
+      const started = scheduler.start();
+      await jest.advanceTimersByTimeAsync(200 * SECOND);
+
+      // Renewed every 40s, so well past the first two-minute lease it still hasn't lapsed
+      expect(state.renewals).toEqual([40, 80, 120, 160, 200].map(s => s * SECOND));
+      expect(state.jobs[0].leaseExpiresAt).toEqual(new Date(T0 + 320 * SECOND));
+      expect(await db.failInterruptedJobs('other-instance', new Date())).toEqual({ success: true, data: 0 });
+
+      await jest.advanceTimersByTimeAsync(100 * SECOND);
+      await started;
+      expect(state.jobs[0].status).toBe('completed');
+
+      // The lease stops being renewed once the job is done
+      await jest.advanceTimersByTimeAsync(120 * SECOND);
+      expect(state.renewals).toHaveLength(7);
+    });
+
+    test('should fail jobs whose worker let the lease lapse, but leave live ones alone', async () => {
+      const { db, state } = fakeDb([
+        job({ id: 'abandoned', status: 'running', attempts: 1, workerId: 'dead-instance', leaseExpiresAt: new Date(T0 - SECOND) }),
+        job({ id: 'leased', status: 'running', attempts: 1, workerId: 'live-instance', leaseExpiresAt: new Date(T0 + 60 * SECOND) }),
+      ]);
+      scheduler = new JobSchedulerService(db as any);
+      const handled: string[] = [];
+      scheduler.register('race_reminder', async j => {
+        handled.push(j.id);
+        return { success: true };
+      });
+
+      await scheduler.start();
+
+      // Interrupted jobs are never retried, to keep execution at most once
+      expect(state.jobs.map(j => [j.id, j.status])).toEqual([['abandoned', 'failed'], ['leased', 'running']]);
+      expect(state.jobs[0].lastError).toBe('Interrupted: the worker running it stopped');
+      expect(handled).toEqual([]);
+    });
+
+    test('should fail the jobs its own previous process left running straight away', async () => {
+      const { db, state } = fakeDb([job()]);
+      scheduler = new JobSchedulerService(db as any);
+      scheduler.register('race_reminder', async () => ({ success: true }));
+      await scheduler.start();
+      scheduler.stop();
+
+      // Same worker id, lease still live: a restart gives it up instead of waiting two minutes
+      const workerId = state.jobs[0].workerId!;
+      state.jobs.push(job({ id: 'job-2', status: 'running', attempts: 1, workerId, leaseExpiresAt: new Date(T0 + 60 * SECOND) }));
+      await scheduler.start();
+
+      expect(state.jobs[1].status).toBe('failed');
+    });
+  });
+});
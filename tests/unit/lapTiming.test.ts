@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for Lap Timing
+ * Tests when a car's path between two GPS samples crosses a line gate or enters a radius gate
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { gateCrossing } from '../../backend/src/services/lapTiming';
+import { RouteGate, TelemetrySample } from '../../backend/src/types';
+import { T0, offset } from '../utils/telemetry-fixtures';
+
+const sample = (north: number, east: number, timestamp: number): TelemetrySample => ({
+  seq: 0,
+  timestamp,
+  ...offset(north, east),
+});
+
+// A 20 m wide line across the road, 100 m north of the origin
+const line: RouteGate = { type: 'line', a: offset(100, -10), b: offset(100, 10) };
+const circle: RouteGate = { type: 'radius', center: offset(100), radius: 10 };
+
+describe('Lap Timing', () => {
+  describe('line gates', () => {
+    test('should interpolate the crossing time between samples', () => {
+      // 80 m to 120 m over one second: the line is halfway
+      const at = gateCrossing(line, sample(80, 0, T0), sample(120, 0, T0 + 1000));
+
+      expect(at).toBeCloseTo(T0 + 500, 0);
+    });
+
+    test('should place an off-center crossing by where the path meets the line', () => {
+      const at = gateCrossing(line, sample(90, 5, T0), sample(130, 5, T0 + 1000));
+
+      expect(at).toBeCloseTo(T0 + 250, 0);
+    });
+
+    test('should not count a path that stops short of the line', () => {
+      expect(gateCrossing(line, sample(80, 0, T0), sample(95, 0, T0 + 1000))).toBeNull();
+    });
+
+    test('should not count a path that passes beside the line', () => {
+      expect(gateCrossing(line, sample(80, 15, T0), sample(120, 15, T0 + 1000))).toBeNull();
+    });
+  });
+
+  describe('radius gates', () => {
+    test('should time the moment the car enters the circle', () => {
+      // 80 m to 100 m: the 10 m circle starts at 90 m, halfway
+      const at = gateCrossing(circle, sample(80, 0, T0), sample(100, 0, T0 + 1000));
+
+      expect(at).toBeCloseTo(T0 + 500, 0);
+    });
+
+    test('should not count a car already inside the circle', () => {
+      expect(gateCrossing(circle, sample(95, 0, T0), sample(100, 0, T0 + 1000))).toBeNull();
+    });
+
+    test('should not count a car leaving the circle', () => {
+      expect(gateCrossing(circle, sample(100, 0, T0), sample(120, 0, T0 + 1000))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Unit Tests for Matchmaking
+ * Tests grouping compatible drivers, creating the race once everyone accepts and recovering when it can't be created
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { MatchmakingService, QueueRequest } from '../../backend/src/services/matchmaking';
+import { MatchmakingTicket, MatchProposal } from '../../backend/src/types';
+
+const HOUR = 60 * 60 * 1000;
+
+const request = (): QueueRequest => ({
+  raceType: 'drag',
+  location: { lat: 34.05, lng: -118.25 },
+  radiusKm: 20,
+  windowStart: new Date(Date.now() + HOUR),
+  windowEnd: new Date(Date.now() + 3 * HOUR),
+});
+
+// Column names the service writes, mapped onto the ticket and proposal fields the fake keeps
+const COLUMNS: Record<string, string> = { proposal_id: 'proposalId', accepted_at: 'acceptedAt', race_id: 'raceId' };
+const apply = (row: any, fields: Record<string, any>) => {
+  for (const [key, value] of Object.entries(fields)) {
+    row[COLUMNS[key] || key] = key === 'accepted_at' && value ? new Date(value) : value ?? undefined;
+  }
+};
+
+// An in-memory queue whose guarded updates only touch rows still in the expected status
+const fakeDb = (ratings: Record<string, number>) => {
+  const state = {
+    tickets: [] as MatchmakingTicket[],
+    proposals: [] as MatchProposal[],
+    races: [] as any[],
+    failCreateRace: false,
+    failAddParticipants: false,
+  };
+
+  const db = {
+    getActiveTicket: async (userId: string) => ({
+      success: true,
+      data: state.tickets.find(t => t.userId === userId && (t.status === 'searching' || t.status === 'proposed')) || null,
+    }),
+    getUserVehicles: async (userId: string) => ({
+      success: true,
+      data: [{ id: `car-${userId}`, isSelected: true, specs: { horsepower: 400, weight: 3200 } }],
+    }),
+    getUserRatings: async () => ({ success: true, data: [] }),
+    createTicket: async (ticket: any) => {
+      const created = { ...ticket, id: `ticket-${state.tickets.length + 1}`, status: 'searching', createdAt: new Date() };
+      state.tickets.push(created);
+      return { success: true, data: created };
+    },
+    getSearchingTickets: async () => ({ success: true, data: state.tickets.filter(t => t.status === 'searching') }),
+    updateTickets: async (ids: string[], from: string, fields: Record<string, any>) => {
+      const rows = state.tickets.filter(t => ids.includes(t.id) && t.status === from);
+      rows.forEach(row => apply(row, fields));
+      return { success: true, data: rows.map(row => ({ ...row })) };
+    },
+    createProposal: async (proposal: any) => {
+      const created = { ...proposal, id: `proposal-${state.proposals.length + 1}`, status: 'pending', createdAt: new Date() };
+      state.proposals.push(created);
+      return { success: true, data: created };
+    },
+    getProposal: async (id: string) => {
+      const proposal = state.proposals.find(p => p.id === id);
+      return proposal ? { success: true, data: { ...proposal } } : { success: false, error: 'Proposal not found' };
+    },
+    getProposalTickets: async (id: string) => ({
+      success: true,
+      data: state.tickets.filter(t => t.proposalId === id).map(t => ({ ...t })),
+    }),
+    updateProposal: async (id: string, from: string, fields: Record<string, any>) => {
+      const proposal = state.proposals.find(p => p.id === id && p.status === from);
+      if (!proposal) return { success: true, data: null };
+      apply(proposal, fields);
+      return { success: true, data: { ...proposal } };
+    },
+    createRace: async (race: any) => {
+      if (state.failCreateRace) return { success: false, error: 'Failed to create race' };
+      const created = { ...race, id: `race-${state.races.length + 1}`, status: 'scheduled' };
+      state.races.push(created);
+      return { success: true, data: created };
+    },
+    addRaceParticipants: async () =>
+      state.failAddParticipants ? { success: false, error: 'Failed to add participants' } : { success: true, data: [] },
+    updateRaceStatus: async (raceId: string, from: string, to: string) => {
+      const race = state.races.find(r => r.id === raceId && r.status === from);
+      if (race) race.status = to;
+      return { success: true, data: race || null };
+    },
+  };
+
+  const ratingService = {
+    getFieldRatings: async (userIds: string[]) => ({
+      success: true,
+      data: new Map(userIds.map(id => [id, { rating: ratings[id] ?? 1500 }])),
+    }),
+  };
+
+  return { db, ratingService, state };
+};
+
+describe('Matchmaking', () => {
+  let fake: ReturnType<typeof fakeDb>;
+  let scheduled: any[];
+  let service: MatchmakingService;
+
+  beforeEach(() => {
+    fake = fakeDb({ ana: 1500, ben: 1550, cal: 1900 });
+    scheduled = [];
+    service = new MatchmakingService(
+      fake.db as any,
+      { sendNotificationToUser: () => undefined } as any,
+      fake.ratingService as any,
+      { scheduleRace: async (race: any) => { scheduled.push(race); } } as any
+    );
+  });
+
+  test('should propose a race to drivers of similar skill nearby', async () => {
+    await service.enqueue('ana', request());
+    const second = await service.enqueue('ben', request());
+
+    expect(second.data!.status).toBe('proposed');
+    expect(fake.state.proposals).toHaveLength(1);
+    expect(fake.state.tickets.map(t => t.proposalId)).toEqual(['proposal-1', 'proposal-1']);
+  });
+
+  test('should leave a driver far outside the rating range searching', async () => {
+    await service.enqueue('ana', request());
+    const second = await service.enqueue('cal', request());
+
+    expect(second.data!.status).toBe('searching');
+    expect(fake.state.proposals).toHaveLength(0);
+  });
+
+  test('should create and schedule the race once everyone accepts', async () => {
+    await service.enqueue('ana', request());
+    await service.enqueue('ben', request());
+
+    await service.respond('proposal-1', 'ana', true);
+    const response = await service.respond('proposal-1', 'ben', true);
+
+    expect(response.data.status).toBe('accepted');
+    expect(response.data.raceId).toBe('race-1');
+    expect(fake.state.tickets.map(t => t.status)).toEqual(['matched', 'matched']);
+    expect(scheduled.map(race => race.id)).toEqual(['race-1']);
+  });
+
+  test('should put everyone back in the queue when the race cannot be created', async () => {
+    await service.enqueue('ana', request());
+    await service.enqueue('ben', request());
+    fake.state.failCreateRace = true;
+
+    await service.respond('proposal-1', 'ana', true);
+    const response = await service.respond('proposal-1', 'ben', true);
+
+    expect(response).toEqual({ success: false, error: 'Failed to create race' });
+    expect(fake.state.proposals[0].status).toBe('expired');
+    expect(scheduled).toHaveLength(0);
+
+    // The pair is matched again on a fresh proposal rather than stuck on the old one
+    expect(fake.state.tickets.map(t => [t.status, t.proposalId, t.acceptedAt])).toEqual([
+      ['proposed', 'proposal-2', undefined],
+      ['proposed', 'proposal-2', undefined],
+    ]);
+
+    const left = await service.leave('ana');
+    expect(left.success).toBe(true);
+    expect(fake.state.tickets.map(t => t.status)).toEqual(['cancelled', 'searching']);
+  });
+
+  test('should cancel a half-created race and requeue when participants cannot be added', async () => {
+    await service.enqueue('ana', request());
+    await service.enqueue('ben', request());
+    fake.state.failAddParticipants = true;
+
+    await service.respond('proposal-1', 'ana', true);
+    const response = await service.respond('proposal-1', 'ben', true);
+
+    expect(response).toEqual({ success: false, error: 'Failed to add participants' });
+    expect(fake.state.races.map(r => r.status)).toEqual(['cancelled']);
+    expect(fake.state.proposals[0].status).toBe('expired');
+    expect(fake.state.tickets.every(t => t.status === 'proposed' && t.proposalId === 'proposal-2')).toBe(true);
+    expect(scheduled).toHaveLength(0);
+  });
+});
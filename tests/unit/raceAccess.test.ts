@@ -0,0 +1,153 @@
+/**
+ * Unit Tests for Race Access
+ * Tests who can see and join private and approval-only races, and answering invitations
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { RaceAccessService } from '../../backend/src/services/raceAccess';
+import { RaceInvitation } from '../../backend/src/types';
+
+const RACE_ID = 'race-1';
+
+const race = (overrides: any = {}) => ({
+  id: RACE_ID,
+  name: 'Night Run',
+  createdBy: 'organizer',
+  isPrivate: false,
+  requiresApproval: false,
+  participants: [] as any[],
+  ...overrides,
+});
+
+const invitation = (status: RaceInvitation['status'], invitedBy: string = 'organizer'): RaceInvitation => ({
+  id: 'invitation-1',
+  raceId: RACE_ID,
+  userId: 'guest',
+  invitedBy,
+  status,
+  createdAt: new Date(),
+});
+
+// Records joins, join requests and invitation answers instead of writing them
+const fakeDb = (raceData: any, invite: RaceInvitation | null) => {
+  const state = { joined: [] as string[], joinRequests: [] as string[], answers: [] as string[], invite };
+
+  const db = {
+    getRace: async () => ({ success: true, data: raceData }),
+    getInvitation: async () => ({ success: true, data: state.invite }),
+    respondToInvitation: async (_id: string, status: RaceInvitation['status']) => {
+      state.answers.push(status);
+      state.invite = { ...state.invite!, status };
+      return { success: true, data: state.invite };
+    },
+    getJoinRequest: async () => ({ success: true, data: null }),
+    upsertJoinRequest: async (_raceId: string, userId: string) => {
+      state.joinRequests.push(userId);
+      return { success: true, data: { id: 'request-1', userId, status: 'pending' } };
+    },
+  };
+  const lifecycle = {
+    joinRace: async (_raceId: string, userId: string) => {
+      state.joined.push(userId);
+      return { success: true, data: raceData };
+    },
+  };
+
+  return { db, lifecycle, state };
+};
+
+const buildService = (fake: ReturnType<typeof fakeDb>) =>
+  new RaceAccessService(fake.db as any, fake.lifecycle as any, { notify: async () => undefined } as any);
+
+describe('Race Access', () => {
+  describe('canView', () => {
+    test('should show public races to everyone', async () => {
+      expect(await buildService(fakeDb(race(), null)).canView(race(), 'stranger')).toBe(true);
+    });
+
+    test('should show a private race to its organizer, field and open invitations only', async () => {
+      const privateRace = race({ isPrivate: true, participants: [{ user_id: 'driver' }] });
+
+      expect(await buildService(fakeDb(privateRace, null)).canView(privateRace, 'organizer')).toBe(true);
+      expect(await buildService(fakeDb(privateRace, null)).canView(privateRace, 'driver')).toBe(true);
+      expect(await buildService(fakeDb(privateRace, null)).canView(privateRace, 'stranger')).toBe(false);
+      expect(await buildService(fakeDb(privateRace, invitation('pending'))).canView(privateRace, 'guest')).toBe(true);
+      expect(await buildService(fakeDb(privateRace, invitation('accepted'))).canView(privateRace, 'guest')).toBe(true);
+    });
+
+    test('should hide a private race from a user who declined the invitation', async () => {
+      const privateRace = race({ isPrivate: true });
+
+      expect(await buildService(fakeDb(privateRace, invitation('declined'))).canView(privateRace, 'guest')).toBe(false);
+    });
+  });
+
+  describe('join', () => {
+    test('should keep private races to invited users', async () => {
+      const fake = fakeDb(race({ isPrivate: true }), null);
+
+      expect(await buildService(fake).join(RACE_ID, 'stranger')).toEqual({ success: false, error: 'Race is invite-only' });
+      expect(fake.state.joined).toEqual([]);
+    });
+
+    test('should accept a pending invitation by joining', async () => {
+      const fake = fakeDb(race({ isPrivate: true }), invitation('pending'));
+      const result = await buildService(fake).join(RACE_ID, 'guest');
+
+      expect(result.success).toBe(true);
+      expect(fake.state.joined).toEqual(['guest']);
+      expect(fake.state.answers).toEqual(['accepted']);
+    });
+
+    test('should refuse a private race whose invitation was declined', async () => {
+      const fake = fakeDb(race({ isPrivate: true }), invitation('declined'));
+
+      expect(await buildService(fake).join(RACE_ID, 'guest')).toEqual({
+        success: false, error: 'Race is invite-only and the invitation was declined',
+      });
+      expect(fake.state.joined).toEqual([]);
+    });
+
+    test('should queue a declined invitee for approval like anyone else', async () => {
+      const fake = fakeDb(race({ requiresApproval: true }), invitation('declined'));
+      const result = await buildService(fake).join(RACE_ID, 'guest');
+
+      expect(result.data.joinRequest).toEqual(expect.objectContaining({ userId: 'guest', status: 'pending' }));
+      expect(fake.state.joined).toEqual([]);
+    });
+
+    test('should send a friend\'s invitee to the approval queue', async () => {
+      const fake = fakeDb(race({ requiresApproval: true, participants: [{ user_id: 'friend' }] }), invitation('pending', 'friend'));
+      const result = await buildService(fake).join(RACE_ID, 'guest');
+
+      expect(result.data.joinRequest).toBeDefined();
+      expect(fake.state.joined).toEqual([]);
+    });
+  });
+
+  describe('respondToInvitation', () => {
+    test('should join the race on accepting', async () => {
+      const fake = fakeDb(race({ isPrivate: true }), invitation('pending'));
+      const result = await buildService(fake).respondToInvitation(RACE_ID, 'guest', true);
+
+      expect(result.success).toBe(true);
+      expect(fake.state.joined).toEqual(['guest']);
+    });
+
+    test('should record a decline without joining', async () => {
+      const fake = fakeDb(race({ isPrivate: true }), invitation('pending'));
+      const result = await buildService(fake).respondToInvitation(RACE_ID, 'guest', false);
+
+      expect(result.data.invitation.status).toBe('declined');
+      expect(fake.state.joined).toEqual([]);
+    });
+
+    test('should not answer an invitation twice', async () => {
+      const fake = fakeDb(race({ isPrivate: true }), invitation('declined'));
+
+      expect(await buildService(fake).respondToInvitation(RACE_ID, 'guest', true)).toEqual({
+        success: false, error: 'Invitation already declined',
+      });
+    });
+  });
+});
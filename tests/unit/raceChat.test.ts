@@ -0,0 +1,140 @@
+/**
+ * Unit Tests for Race Chat
+ * Tests history paging by cursor, including messages sent in the same millisecond, and who may post
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { RaceChatService } from '../../backend/src/services/raceChat';
+import { ChatMessage } from '../../backend/src/types';
+
+const RACE_ID = 'race-1';
+const T0 = Date.parse('2026-01-01T12:00:00Z');
+
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+// Ten messages, sent in pairs within the same millisecond
+const buildMessages = (): ChatMessage[] => Array.from({ length: 10 }, (_, i) => ({
+  id: uuid(i + 1),
+  raceId: RACE_ID,
+  senderId: 'driver-1',
+  content: `message ${i + 1}`,
+  messageType: 'text',
+  isEdited: false,
+  isDeleted: false,
+  createdAt: new Date(T0 + Math.floor(i / 2)),
+}));
+
+// Keyed on (createdAt, id) newest first, as the database query pages them
+const fakeDb = (messages: ChatMessage[]) => ({
+  getRace: async () => ({ success: true, data: { id: RACE_ID, createdBy: 'organizer', participants: [] } }),
+  getUserById: async (id: string) => ({ success: true, data: { id, username: `user-${id}` } }),
+  getChatMessages: async (_raceId: string, before: { createdAt: string; id: string } | null, limit: number) => {
+    const newestFirst = [...messages].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id));
+    const older = before
+      ? newestFirst.filter(m => m.createdAt.toISOString() < before.createdAt
+        || (m.createdAt.toISOString() === before.createdAt && m.id < before.id))
+      : newestFirst;
+    return { success: true, data: older.slice(0, limit) };
+  },
+  createChatMessage: async (message: any) => ({
+    success: true,
+    data: { ...message, id: uuid(99), isEdited: false, isDeleted: false, createdAt: new Date(T0) },
+  }),
+});
+
+const fakeWs = (raceRoom: string[], spectatorRoom: string[]) => ({
+  onDisconnect: () => undefined,
+  isInRaceRoom: (connectionId: string) => raceRoom.includes(connectionId),
+  isSpectating: (connectionId: string) => spectatorRoom.includes(connectionId),
+  broadcastToRace: () => undefined,
+});
+
+const buildService = (messages: ChatMessage[], raceRoom: string[] = [], spectatorRoom: string[] = []) => new RaceChatService(
+  fakeDb(messages) as any,
+  fakeWs(raceRoom, spectatorRoom) as any,
+  { onTransition: () => undefined } as any,
+  { canView: async () => true } as any
+);
+
+describe('Race Chat', () => {
+  let messages: ChatMessage[];
+
+  beforeEach(() => {
+    messages = buildMessages();
+  });
+
+  describe('history', () => {
+    test('should return the newest page first with a cursor to the next', async () => {
+      const page = await buildService(messages).getHistory(RACE_ID, 'driver-1', undefined, 4);
+
+      expect(page.data!.messages.map(m => m.content)).toEqual(['message 10', 'message 9', 'message 8', 'message 7']);
+      expect(page.data!.messages[0].username).toBe('user-driver-1');
+      expect(page.data!.nextCursor).toEqual(expect.any(String));
+    });
+
+    test('should page through every message once, even ones sent in the same millisecond', async () => {
+      const service = buildService(messages);
+      const seen: string[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await service.getHistory(RACE_ID, 'driver-1', cursor, 3);
+        seen.push(...page.data!.messages.map(m => m.id));
+        cursor = page.data!.nextCursor ?? undefined;
+      } while (cursor);
+
+      expect(seen).toEqual(messages.map(m => m.id).reverse());
+    });
+
+    test('should not offer a next page after the oldest message', async () => {
+      const page = await buildService(messages).getHistory(RACE_ID, 'driver-1', undefined, 10);
+
+      expect(page.data!.messages).toHaveLength(10);
+      expect(page.data!.nextCursor).toBeNull();
+    });
+
+    test('should refuse a cursor it did not issue', async () => {
+      const service = buildService(messages);
+      const forged = Buffer.from('yesterday|not-an-id').toString('base64url');
+
+      expect(await service.getHistory(RACE_ID, 'driver-1', forged)).toEqual({ success: false, error: 'Invalid cursor' });
+      expect(await service.getHistory(RACE_ID, 'driver-1', '%%%')).toEqual({ success: false, error: 'Invalid cursor' });
+    });
+
+    test('should serve at least one message a page', async () => {
+      const page = await buildService(messages).getHistory(RACE_ID, 'driver-1', undefined, 0);
+
+      expect(page.data!.messages).toHaveLength(1);
+    });
+  });
+
+  describe('posting', () => {
+    test('should let the race room post', async () => {
+      const result = await buildService(messages, ['room-connection']).send('room-connection', 'driver-1', RACE_ID, '  Good luck  ');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.content).toBe('Good luck');
+    });
+
+    test('should let spectators post from the spectator room', async () => {
+      const result = await buildService(messages, ['room-connection'], ['spectator-connection'])
+        .send('spectator-connection', 'fan', RACE_ID, 'Go!');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.content).toBe('Go!');
+    });
+
+    test('should keep everyone outside both rooms to reading', async () => {
+      const result = await buildService(messages, ['room-connection'], ['spectator-connection'])
+        .send('other-connection', 'passer-by', RACE_ID, 'Hello?');
+
+      expect(result).toEqual({ success: false, error: 'Only race participants and spectators can chat; join or spectate the race first' });
+    });
+
+    test('should refuse empty messages', async () => {
+      const result = await buildService(messages, ['room-connection']).send('room-connection', 'driver-1', RACE_ID, '   ');
+
+      expect(result).toEqual({ success: false, error: 'Invalid message: content is required' });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for GPX Route Import
+ * Tests reading a race route from GPX: route or track points, gate waypoints, limits and refused documents
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { parseGpxRoute, toGpx } from '../../backend/src/services/raceExport';
+import { RaceRoute } from '../../backend/src/types';
+
+const gpx = (body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+${body}
+</gpx>`;
+
+const track = `<trk><trkseg>
+  <trkpt lat="51.5" lon="-0.1"><time>2026-01-01T12:00:00Z</time></trkpt>
+  <trkpt lat="51.501" lon="-0.1"/>
+  <trkpt lat="51.502" lon="-0.1"/>
+</trkseg></trk>`;
+
+describe('GPX Route Import', () => {
+  test('should read a recorded track as the route waypoints', () => {
+    const result = parseGpxRoute(gpx(track));
+
+    expect(result).toEqual({
+      success: true,
+      data: { waypoints: [{ lat: 51.5, lng: -0.1 }, { lat: 51.501, lng: -0.1 }, { lat: 51.502, lng: -0.1 }] },
+    });
+  });
+
+  test('should prefer a planned route over a recorded track', () => {
+    const result = parseGpxRoute(gpx(`${track}
+<rte><rtept lat="52" lon="1"/><rtept lat="52.1" lon="1.1"/></rte>`));
+
+    expect(result.data!.waypoints).toEqual([{ lat: 52, lng: 1 }, { lat: 52.1, lng: 1.1 }]);
+  });
+
+  test('should turn start/finish and checkpoint waypoints into gates', () => {
+    const result = parseGpxRoute(gpx(`${track}
+<wpt lat="51.5" lon="-0.1"><name>Start</name></wpt>
+<wpt lat="51.501" lon="-0.1"><name>Hairpin</name><type>checkpoint</type><extensions><dash:gate type="radius" radius="40"/></extensions></wpt>
+<wpt lat="51.5015" lon="-0.1"><name>Cafe</name></wpt>`));
+
+    expect(result.data!.startFinish).toEqual({ type: 'radius', name: 'Start', center: { lat: 51.5, lng: -0.1 }, radius: 25 });
+    expect(result.data!.checkpoints).toEqual([
+      { type: 'radius', name: 'Hairpin', center: { lat: 51.501, lng: -0.1 }, radius: 40 },
+    ]);
+  });
+
+  test('should import its own export back as the same route', () => {
+    const route: RaceRoute = {
+      waypoints: [{ lat: 51.5, lng: -0.1 }, { lat: 51.51, lng: -0.1 }],
+      startFinish: { type: 'line', name: 'Start/Finish', a: { lat: 51.5, lng: -0.1001 }, b: { lat: 51.5, lng: -0.0999 } },
+      checkpoints: [{ type: 'radius', name: 'Checkpoint 1', center: { lat: 51.505, lng: -0.1 }, radius: 30 }],
+    };
+    const exported = toGpx({ name: 'Night & Day', route }, []);
+
+    expect(parseGpxRoute(exported)).toEqual({ success: true, data: route });
+  });
+
+  test('should thin a long track to the waypoint limit, keeping both ends', () => {
+    const points = Array.from({ length: 3000 }, (_, i) => `<trkpt lat="${(51 + i / 10000).toFixed(4)}" lon="0"/>`);
+    const result = parseGpxRoute(gpx(`<trk><trkseg>${points.join('')}</trkseg></trk>`));
+
+    expect(result.data!.waypoints).toHaveLength(1000);
+    expect(result.data!.waypoints[0]).toEqual({ lat: 51, lng: 0 });
+    expect(result.data!.waypoints[999]).toEqual({ lat: 51.2999, lng: 0 });
+  });
+
+  describe('refused documents', () => {
+    test('should refuse anything that is not GPX', () => {
+      expect(parseGpxRoute('<kml><Document/></kml>').error).toBe('Invalid GPX: not a GPX document');
+    });
+
+    test('should refuse document type declarations', () => {
+      const bomb = `<?xml version="1.0"?><!DOCTYPE gpx [<!ENTITY a "aaaa">]>${gpx(track)}`;
+
+      expect(parseGpxRoute(bomb).error).toBe('Invalid GPX: document type declarations are not allowed');
+    });
+
+    test('should refuse points with coordinates out of range', () => {
+      const result = parseGpxRoute(gpx('<trk><trkseg><trkpt lat="51.5" lon="-0.1"/><trkpt lat="95" lon="0"/></trkseg></trk>'));
+
+      expect(result.error).toBe('Invalid GPX: trkpt 2 has no valid lat/lon');
+    });
+
+    test('should refuse a file without a usable path', () => {
+      const result = parseGpxRoute(gpx('<trk><trkseg><trkpt lat="51.5" lon="-0.1"/></trkseg></trk>'));
+
+      expect(result.error).toBe('Invalid GPX: needs a track or route with at least 2 points');
+    });
+
+    test('should refuse checkpoints without a start/finish', () => {
+      const result = parseGpxRoute(gpx(`${track}<wpt lat="51.501" lon="-0.1"><name>Checkpoint 1</name></wpt>`));
+
+      expect(result.error).toBe('Invalid GPX: checkpoints need a start/finish waypoint');
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit Tests for Race Jobs
+ * Tests the jobs each race gets scheduled and what they do when they come due
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RaceJobsService } from '../../backend/src/services/raceJobs';
+import { ScheduledJob } from '../../backend/src/types';
+
+const T0 = Date.parse('2026-01-01T12:00:00Z');
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const dueJob = (type: string, payload: Record<string, any> = { raceId: 'race-1' }): ScheduledJob =>
+  ({ id: 'job-1', type, payload, runAt: new Date(T0), status: 'running', attempts: 1, maxAttempts: 5, createdAt: new Date(T0) });
+
+const fakes = (raceOverrides: any = {}) => {
+  const state = {
+    race: {
+      id: 'race-1',
+      name: 'Night Run',
+      status: 'scheduled',
+      startTime: new Date(T0 + 2 * HOUR),
+      participants: [{ user_id: 'ana', status: 'registered' }, { user_id: 'ben', status: 'withdrawn' }],
+      ...raceOverrides,
+    },
+    handlers: new Map<string, (job: ScheduledJob) => Promise<any>>(),
+    scheduled: [] as any[],
+    transitions: [] as any[],
+    notified: [] as any[],
+  };
+
+  const scheduler = {
+    register: (type: string, handler: any) => { state.handlers.set(type, handler); },
+    schedule: async (job: any) => {
+      state.scheduled.push(job);
+      return { success: true, data: job };
+    },
+  };
+  const lifecycle = {
+    onTransition: () => undefined,
+    transitionRace: async (...args: any[]) => {
+      state.transitions.push(args);
+      return { success: true, data: {} };
+    },
+  };
+  const db = {
+    getRace: async () => ({ success: true, data: state.race }),
+    deleteExpiredNotifications: async () => ({ success: true, data: 3 }),
+    deleteFinishedJobs: async () => ({ success: true, data: 12 }),
+  };
+  const notifications = {
+    notify: async (batch: any[]) => {
+      state.notified.push(...batch);
+      return { success: true, data: batch };
+    },
+  };
+
+  const service = new RaceJobsService(db as any, lifecycle as any, scheduler as any, notifications as any);
+  const run = (job: ScheduledJob) => state.handlers.get(job.type)!(job);
+
+  return { service, state, run };
+};
+
+describe('Race Jobs', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should schedule the reminder, the sign-up check, the start and the stale cutoff, keyed by race and time', async () => {
+    const { service, state } = fakes();
+
+    await service.scheduleRace(state.race);
+
+    expect(state.scheduled.map(j => [j.type, j.runAt.getTime() - T0])).toEqual([
+      ['race_reminder', 90 * MINUTE],
+      ['race_auto_cancel', 105 * MINUTE],
+      ['race_auto_stage', 2 * HOUR],
+      ['race_stale_cancel', 8 * HOUR],
+    ]);
+    expect(state.scheduled[2].key).toBe(`race:race-1:race_auto_stage:${T0 + 2 * HOUR}`);
+  });
+
+  test('should skip the advance warnings for a race created at short notice', async () => {
+    const { service, state } = fakes({ startTime: new Date(T0 + 10 * MINUTE) });
+
+    await service.scheduleRace(state.race);
+
+    expect(state.scheduled.map(j => j.type)).toEqual(['race_auto_stage', 'race_stale_cancel']);
+  });
+
+  test('should remind everyone still entered', async () => {
+    const { state, run } = fakes({ startTime: new Date(T0 + 30 * MINUTE) });
+
+    await run(dueJob('race_reminder'));
+
+    expect(state.notified).toEqual([expect.objectContaining({
+      userId: 'ana', type: 'race_reminder', message: 'Night Run starts in 30 minutes',
+    })]);
+  });
+
+  test('should call off an under-subscribed race and tell its entrants', async () => {
+    const { state, run } = fakes();
+
+    expect(await run(dueJob('race_auto_cancel'))).toEqual(expect.objectContaining({ success: true }));
+
+    expect(state.transitions).toEqual([['race-1', 'cancelled', undefined, 'Only 1 of the 2 required participants signed up']]);
+    expect(state.notified.map(n => [n.userId, n.title])).toEqual([['ana', 'Race cancelled']]);
+  });
+
+  test('should leave a race alone once it has moved on by the time its job runs', async () => {
+    const { state, run } = fakes({ status: 'active' });
+
+    expect(await run(dueJob('race_auto_stage'))).toEqual({ success: true, data: { skipped: 'race is active' } });
+    expect(await run(dueJob('race_stale_cancel'))).toEqual({ success: true, data: { skipped: 'race is active' } });
+    expect(state.transitions).toEqual([]);
+  });
+
+  test('should stage a race at its scheduled start', async () => {
+    const { state, run } = fakes();
+
+    await run(dueJob('race_auto_stage'));
+
+    expect(state.transitions).toEqual([['race-1', 'staging', undefined, 'Scheduled start reached']]);
+  });
+
+  test('should schedule the next cleanup on the following hour', async () => {
+    const { state, run } = fakes();
+
+    expect(await run(dueJob('cleanup', {}))).toEqual({ success: true, data: { expiredNotifications: 3, finishedJobs: 12 } });
+
+    expect(state.scheduled).toEqual([expect.objectContaining({
+      type: 'cleanup', key: `cleanup:${T0 + HOUR}`, runAt: new Date(T0 + HOUR),
+    })]);
+  });
+});
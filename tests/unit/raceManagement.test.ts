@@ -0,0 +1,220 @@
+/**
+ * Unit Tests for Race Management
+ * Tests organizer edits: who may make them, and the rescheduling and re-confirmation a moved race needs
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RaceManagementService } from '../../backend/src/services/raceManagement';
+
+const T0 = Date.parse('2026-01-01T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const START = new Date(T0 + 2 * HOUR);
+
+const fakes = (raceOverrides: any = {}) => {
+  const state = {
+    race: {
+      id: 'race-1',
+      name: 'Night Run',
+      createdBy: 'organizer',
+      status: 'scheduled',
+      startTime: START,
+      startLocation: { lat: 34.05, lng: -118.25 },
+      endLocation: { lat: 34.06, lng: -118.25 },
+      maxParticipants: 4,
+      participants: [
+        { user_id: 'organizer', status: 'ready' },
+        { user_id: 'ana', status: 'ready' },
+        { user_id: 'ben', status: 'registered' },
+        { user_id: 'cal', status: 'withdrawn' },
+      ],
+      ...raceOverrides,
+    },
+    editable: true,
+    updates: [] as Record<string, any>[],
+    jobs: [] as string[],
+    resets: [] as { userId: string; reason: string }[],
+    raceTransitions: [] as any[],
+    notified: [] as any[],
+    promoted: 0,
+    broadcasts: [] as any[],
+  };
+
+  const db = {
+    getRace: async () => ({ success: true, data: state.race }),
+    updateRace: async (_raceId: string, fields: Record<string, any>) => {
+      if (!state.editable) return { success: true, data: null };
+      state.updates.push(fields);
+      const updated = { ...state.race, startTime: fields.scheduled_start ? new Date(fields.scheduled_start) : state.race.startTime };
+      return { success: true, data: updated };
+    },
+    getWaitlist: async () => ({ success: true, data: [{ userId: 'dee' }] }),
+  };
+  const raceJobs = {
+    unscheduleRace: async () => { state.jobs.push('unscheduled'); },
+    scheduleRace: async (race: any) => { state.jobs.push(`scheduled for ${race.startTime.toISOString()}`); },
+  };
+  const lifecycle = {
+    transitionParticipant: async (_raceId: string, userId: string, _to: string, _by: string, reason: string) => {
+      state.resets.push({ userId, reason });
+      return { success: true, data: {} };
+    },
+    transitionRace: async (...args: any[]) => {
+      state.raceTransitions.push(args);
+      return { success: true, data: {} };
+    },
+  };
+  const notifications = {
+    notify: async (batch: any[]) => {
+      state.notified.push(...batch);
+      return { success: true, data: batch };
+    },
+  };
+
+  const service = new RaceManagementService(
+    db as any,
+    { broadcastToRace: (_raceId: string, message: any) => { state.broadcasts.push(message); } } as any,
+    lifecycle as any,
+    raceJobs as any,
+    { promote: async () => { state.promoted += 1; } } as any,
+    notifications as any
+  );
+
+  return { service, state };
+};
+
+describe('Race Management', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('moving the start', () => {
+    const later = new Date(T0 + 3 * HOUR).toISOString();
+
+    test('should reschedule the race\'s jobs for the new start', async () => {
+      const { service, state } = fakes();
+
+      expect((await service.updateRace('race-1', 'organizer', { startTime: later })).success).toBe(true);
+
+      expect(state.updates).toEqual([{ scheduled_start: later }]);
+      expect(state.jobs).toEqual(['unscheduled', `scheduled for ${later}`]);
+    });
+
+    test('should make everyone who readied up confirm again, and tell the rest of the field', async () => {
+      const { service, state } = fakes();
+
+      await service.updateRace('race-1', 'organizer', { startTime: later });
+
+      expect(state.resets).toEqual([
+        { userId: 'organizer', reason: 'Race start time changed' },
+        { userId: 'ana', reason: 'Race start time changed' },
+      ]);
+      expect(state.notified.map(n => [n.userId, n.title])).toEqual([
+        ['ana', 'Race details changed'],
+        ['ben', 'Race details changed'],
+      ]);
+      expect(state.broadcasts[0].data.changed).toEqual(['start time']);
+    });
+
+    test('should take a race staged early back to scheduled', async () => {
+      const { service, state } = fakes({ status: 'staging' });
+
+      await service.updateRace('race-1', 'organizer', { startTime: later });
+
+      expect(state.raceTransitions).toEqual([['race-1', 'scheduled', 'organizer', 'Start time moved']]);
+    });
+
+    test('should not count resending the same start time as a change', async () => {
+      const { service, state } = fakes();
+
+      await service.updateRace('race-1', 'organizer', { startTime: START.toISOString(), name: 'Night Run II' });
+
+      expect(state.updates).toEqual([{ name: 'Night Run II' }]);
+      expect(state.jobs).toEqual([]);
+      expect(state.resets).toEqual([]);
+      expect(state.notified).toEqual([]);
+    });
+
+    test('should refuse a start time in the past', async () => {
+      const { service, state } = fakes();
+
+      expect(await service.updateRace('race-1', 'organizer', { startTime: new Date(T0 - HOUR).toISOString() })).toEqual({
+        success: false, error: 'Invalid start time: must be in the future',
+      });
+      expect(state.updates).toEqual([]);
+    });
+  });
+
+  test('should ask for re-confirmation, without rescheduling, when the course moves', async () => {
+    const { service, state } = fakes();
+
+    await service.updateRace('race-1', 'organizer', {
+      startLocation: { lat: 34.05, lng: -118.25 },
+      endLocation: { lat: 34.07, lng: -118.25 },
+    });
+
+    expect(state.updates).toEqual([{ end_location: JSON.stringify({ lat: 34.07, lng: -118.25 }) }]);
+    expect(state.jobs).toEqual([]);
+    expect(state.resets.map(r => r.reason)).toEqual(['Race finish location changed', 'Race finish location changed']);
+  });
+
+  test('should offer freed places to the waitlist when the limit goes up', async () => {
+    const { service, state } = fakes();
+
+    await service.updateRace('race-1', 'organizer', { maxParticipants: 6 });
+
+    expect(state.promoted).toBe(1);
+    expect(state.resets).toEqual([]);
+  });
+
+  test('should refuse a limit below the participants already in', async () => {
+    const { service } = fakes();
+
+    expect(await service.updateRace('race-1', 'organizer', { maxParticipants: 2 })).toEqual({
+      success: false, error: 'Invalid participant limit: 3 participants have already joined',
+    });
+  });
+
+  test('should only let the organizer edit the race', async () => {
+    const { service } = fakes();
+
+    expect(await service.updateRace('race-1', 'ana', { name: 'Ana\'s Run' })).toEqual({
+      success: false, error: 'Only race creator can edit the race',
+    });
+  });
+
+  test('should refuse edits once the countdown has begun', async () => {
+    const { service } = fakes({ status: 'countdown' });
+
+    expect(await service.updateRace('race-1', 'organizer', { name: 'Late Change' })).toEqual({
+      success: false, error: 'Illegal edit: race is countdown',
+    });
+  });
+
+  test('should not reschedule or reset anyone when the race leaves the editable window mid-edit', async () => {
+    const { service, state } = fakes();
+    state.editable = false;
+
+    expect(await service.updateRace('race-1', 'organizer', { startTime: new Date(T0 + 3 * HOUR).toISOString() })).toEqual({
+      success: false, error: 'Illegal edit: race is no longer editable',
+    });
+    expect(state.jobs).toEqual([]);
+    expect(state.resets).toEqual([]);
+  });
+
+  test('should tell the field and the waitlist when the organizer cancels', async () => {
+    const { service, state } = fakes();
+
+    await service.cancelRace('race-1', 'organizer', 'Road closed');
+
+    expect(state.raceTransitions).toEqual([['race-1', 'cancelled', 'organizer', 'Road closed']]);
+    expect(state.notified.map(n => [n.userId, n.message])).toEqual([
+      ['ana', 'Night Run was cancelled by the organizer: Road closed'],
+      ['ben', 'Night Run was cancelled by the organizer: Road closed'],
+      ['dee', 'Night Run was cancelled by the organizer: Road closed'],
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for Race Start
+ * Tests the ready check, the synced countdown, handicap greens and jump-start detection from launch telemetry
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RaceStartService } from '../../backend/src/services/raceStart';
+import { TelemetrySample } from '../../backend/src/types';
+import { T0, offset } from '../utils/telemetry-fixtures';
+
+const RACE_ID = 'race-1';
+const COUNTDOWN_MS = 5000;
+const GREEN = T0 + COUNTDOWN_MS;
+
+const participant = (userId: string, status: string, handicapDelay: number = 0) =>
+  ({ user_id: userId, status, handicap_delay: handicapDelay });
+
+// A sample `atMs` after T0, `north` meters up the lane from where the car staged
+const sample = (atMs: number, north: number = 0, speed: number = 0): TelemetrySample =>
+  ({ seq: atMs, timestamp: T0 + atMs, ...offset(north), speed });
+
+const fakes = (participants: any[]) => {
+  const state = {
+    broadcasts: [] as any[],
+    transitions: [] as any[],
+    jobs: [] as any[],
+    reactionTimes: {} as Record<string, number>,
+    onSamples: undefined as undefined | ((raceId: string, userId: string, samples: TelemetrySample[]) => Promise<void>),
+    failGreen: false,
+  };
+
+  const db = {
+    getRace: async () => ({
+      success: true,
+      data: { id: RACE_ID, createdBy: 'organizer', status: 'staging', participants },
+    }),
+    updateParticipant: async (_raceId: string, userId: string, fields: any) => {
+      state.reactionTimes[userId] = fields.reaction_time;
+      return { success: true, data: fields };
+    },
+  };
+  const ws = {
+    broadcastToRace: (_raceId: string, message: any) => { state.broadcasts.push(message); },
+    sendRaceStartedNotification: () => undefined,
+  };
+  const lifecycle = {
+    onTransition: () => undefined,
+    transitionRace: async (...args: any[]) => {
+      if (args[1] === 'active' && state.failGreen) throw new Error('connection reset');
+      state.transitions.push(args);
+      return { success: true, data: { id: RACE_ID, status: args[1] } };
+    },
+  };
+  const telemetry = {
+    onSamples: (handler: any) => { state.onSamples = handler; },
+  };
+  const scheduler = {
+    register: () => undefined,
+    schedule: async (job: any) => {
+      state.jobs.push(job);
+      return { success: true, data: job };
+    },
+    cancel: async () => ({ success: true, data: 0 }),
+  };
+
+  const service = new RaceStartService(db as any, ws as any, lifecycle as any, telemetry as any, scheduler as any);
+  const feed = (userId: string, ...samples: TelemetrySample[]) => state.onSamples!(RACE_ID, userId, samples);
+
+  return { service, state, feed };
+};
+
+describe('Race Start', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('beginCountdown', () => {
+    test('should hold the countdown until every entrant is ready', async () => {
+      const { service, state } = fakes([participant('ana', 'ready'), participant('ben', 'registered'), participant('cal', 'withdrawn')]);
+
+      expect(await service.beginCountdown(RACE_ID, 'organizer')).toEqual({
+        success: false, error: 'Illegal countdown: 1 participant(s) not ready',
+      });
+      expect(state.transitions).toHaveLength(0);
+    });
+
+    test('should only let the creator start the race', async () => {
+      const { service } = fakes([participant('ana', 'ready')]);
+
+      expect(await service.beginCountdown(RACE_ID, 'ana')).toEqual({
+        success: false, error: 'Only race creator can start the race',
+      });
+    });
+
+    test('should send every client the green light in server time', async () => {
+      const { service, state } = fakes([participant('ana', 'ready'), participant('ben', 'ready')]);
+
+      const result = await service.beginCountdown(RACE_ID, 'organizer');
+
+      expect(result.data).toEqual(expect.objectContaining({ startAt: GREEN, countdownMs: COUNTDOWN_MS, greenAt: {} }));
+      expect(state.broadcasts).toEqual([expect.objectContaining({
+        type: 'race_countdown',
+        data: { raceId: RACE_ID, startAt: GREEN, countdownMs: COUNTDOWN_MS, serverTime: T0, greenAt: {} },
+      })]);
+      expect(state.jobs).toEqual([expect.objectContaining({ type: 'race_green', runAt: new Date(GREEN) })]);
+    });
+
+    test('should hold handicapped lanes back by their delay', async () => {
+      const { service } = fakes([participant('ana', 'ready'), participant('ben', 'ready', 0.75)]);
+
+      const result = await service.beginCountdown(RACE_ID, 'organizer');
+
+      expect(result.data.greenAt).toEqual({ ben: GREEN + 750 });
+    });
+
+    test('should turn the light green when the countdown runs out', async () => {
+      const { service, state } = fakes([participant('ana', 'ready')]);
+      await service.beginCountdown(RACE_ID, 'organizer');
+
+      await jest.advanceTimersByTimeAsync(COUNTDOWN_MS);
+
+      expect(state.transitions.map(t => t[1])).toEqual(['countdown', 'active']);
+      expect(state.transitions[1][4]).toEqual(new Date(GREEN));
+    });
+
+    test('should log rather than crash when the green light fails', async () => {
+      const { service, state } = fakes([participant('ana', 'ready')]);
+      await service.beginCountdown(RACE_ID, 'organizer');
+      state.failGreen = true;
+      const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await jest.advanceTimersByTimeAsync(COUNTDOWN_MS);
+
+      expect(logged).toHaveBeenCalledWith(`Failed to start race ${RACE_ID}:`, expect.any(Error));
+      logged.mockRestore();
+    });
+  });
+
+  describe('launch tracking', () => {
+    test('should record reaction time for a car leaving after green', async () => {
+      const { service, state, feed } = fakes([participant('ana', 'ready')]);
+      await service.beginCountdown(RACE_ID, 'organizer');
+
+      await feed('ana', sample(4000), sample(COUNTDOWN_MS + 400, 5, 4));
+
+      expect(state.reactionTimes).toEqual({ ana: 0.4 });
+      expect(state.broadcasts.filter(b => b.type === 'jump_start')).toHaveLength(0);
+    });
+
+    test('should flag a car that moves off its staging spot before green', async () => {
+      const { service, state, feed } = fakes([participant('ana', 'ready')]);
+      await service.beginCountdown(RACE_ID, 'organizer');
+
+      // Creeping forward below launch speed still counts once it has rolled far enough
+      await feed('ana', sample(4000), sample(4800, 4, 0.5));
+
+      expect(state.reactionTimes).toEqual({ ana: -0.2 });
+      expect(state.broadcasts).toContainEqual(expect.objectContaining({
+        type: 'jump_start',
+        data: { raceId: RACE_ID, userId: 'ana', reactionTime: -0.2 },
+      }));
+    });
+
+    test('should judge a handicapped lane against its own green', async () => {
+      const { service, state, feed } = fakes([participant('ana', 'ready'), participant('ben', 'ready', 1)]);
+      await service.beginCountdown(RACE_ID, 'organizer');
+
+      await feed('ana', sample(COUNTDOWN_MS + 500, 0, 3));
+      await feed('ben', sample(COUNTDOWN_MS + 500, 0, 3));
+
+      expect(state.reactionTimes).toEqual({ ana: 0.5, ben: -0.5 });
+      expect(state.broadcasts.filter(b => b.type === 'jump_start').map(b => b.data.userId)).toEqual(['ben']);
+    });
+
+    test('should only record the first launch', async () => {
+      const { service, state, feed } = fakes([participant('ana', 'ready')]);
+      await service.beginCountdown(RACE_ID, 'organizer');
+
+      await feed('ana', sample(COUNTDOWN_MS + 300, 0, 3), sample(COUNTDOWN_MS + 900, 10, 8));
+
+      expect(state.reactionTimes).toEqual({ ana: 0.3 });
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Unit Tests for Race Supervision
+ * Tests retiring participants who go silent or leave the route, and closing races at the time limit
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RaceSupervisorService } from '../../backend/src/services/raceSupervisor';
+import { LifecycleEvent } from '../../backend/src/services/raceLifecycle';
+import { TelemetrySample } from '../../backend/src/types';
+import { T0, offset } from '../utils/telemetry-fixtures';
+
+const RACE_ID = 'race-1';
+const CHECK_INTERVAL_MS = 5000;
+
+// A sample taken now, `north` meters up the strip and `east` meters off it
+const here = (north: number, east: number = 0): TelemetrySample =>
+  ({ seq: Date.now(), timestamp: Date.now(), ...offset(north, east) });
+
+const fakes = (raceOverrides: any = {}) => {
+  const state = {
+    race: {
+      id: RACE_ID,
+      raceType: 'drag',
+      status: 'active',
+      actualStart: new Date(T0),
+      startLocation: offset(0),
+      endLocation: offset(400),
+      participants: [{ user_id: 'ana', status: 'racing' }, { user_id: 'ben', status: 'racing' }],
+      ...raceOverrides,
+    },
+    onTransition: undefined as undefined | ((event: LifecycleEvent) => Promise<void>),
+    onSamples: undefined as undefined | ((raceId: string, userId: string, samples: TelemetrySample[]) => void),
+    dnfs: [] as { userId: string; reason: string }[],
+    raceTransitions: [] as any[],
+    completeChecks: 0,
+    dnfError: undefined as string | undefined,
+  };
+
+  const lifecycle = {
+    onTransition: (listener: any) => { state.onTransition = listener; },
+    transitionParticipant: async (_raceId: string, userId: string, _to: string, _by: undefined, reason: string) => {
+      if (state.dnfError) return { success: false, error: state.dnfError };
+      state.dnfs.push({ userId, reason });
+      return { success: true, data: {} };
+    },
+    transitionRace: async (...args: any[]) => {
+      state.raceTransitions.push(args);
+      return { success: true, data: {} };
+    },
+    completeIfAllDone: async () => { state.completeChecks += 1; },
+  };
+
+  const service = new RaceSupervisorService(
+    {
+      getRace: async () => ({ success: true, data: state.race }),
+      getRacesByStatus: async () => ({ success: true, data: [state.race] }),
+    } as any,
+    {} as any,
+    lifecycle as any,
+    { onSamples: (listener: any) => { state.onSamples = listener; } } as any,
+    {} as any
+  );
+
+  const goGreen = () => state.onTransition!({ raceId: RACE_ID, from: 'countdown', to: 'active' } as LifecycleEvent);
+  const feed = (userId: string, sample: TelemetrySample) => state.onSamples!(RACE_ID, userId, [sample]);
+
+  return { service, state, goGreen, feed };
+};
+
+describe('Race Supervision', () => {
+  let fake: ReturnType<typeof fakes>;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 });
+    fake = fakes();
+  });
+
+  afterEach(() => {
+    fake.service.stop();
+    jest.useRealTimers();
+  });
+
+  // Moves the clock a check at a time, with `ana` reporting in (somewhere along the strip) before each one
+  const drive = async (ms: number, where: (elapsed: number) => TelemetrySample | null) => {
+    for (let elapsed = CHECK_INTERVAL_MS; elapsed <= ms; elapsed += CHECK_INTERVAL_MS) {
+      await jest.advanceTimersByTimeAsync(CHECK_INTERVAL_MS - 1);
+      const sample = where(elapsed);
+      if (sample) fake.feed('ana', sample);
+      await jest.advanceTimersByTimeAsync(1);
+    }
+  };
+
+  test('should retire a participant whose phone goes silent', async () => {
+    await fake.goGreen();
+
+    await drive(55000, () => here(100));
+    expect(fake.state.dnfs).toEqual([]);
+
+    await drive(5000, () => here(120));
+    expect(fake.state.dnfs).toEqual([{ userId: 'ben', reason: 'No telemetry for 60s' }]);
+    expect(fake.state.completeChecks).toBe(1);
+  });
+
+  test('should retire a participant who stays off the route past the grace period', async () => {
+    await fake.goGreen();
+    fake.feed('ben', here(0));
+
+    await drive(25000, () => here(200, 500));
+    expect(fake.state.dnfs).toEqual([]);
+
+    await drive(10000, () => here(200, 500));
+    expect(fake.state.dnfs).toEqual([{ userId: 'ana', reason: 'More than 300m off route for 30s' }]);
+  });
+
+  test('should forgive a detour that rejoins the route in time', async () => {
+    await fake.goGreen();
+    fake.feed('ben', here(0));
+
+    await drive(25000, () => here(200, 500));
+    await drive(20000, () => here(250));
+    fake.feed('ben', here(0));
+
+    expect(fake.state.dnfs).toEqual([]);
+  });
+
+  test('should not judge street races without a route by where they drive', async () => {
+    fake = fakes({ raceType: 'street' });
+    await fake.goGreen();
+    fake.feed('ben', here(0));
+
+    await drive(50000, () => here(200, 5000));
+
+    expect(fake.state.dnfs).toEqual([]);
+  });
+
+  test('should stop watching a participant the lifecycle says is already done', async () => {
+    await fake.goGreen();
+    fake.state.dnfError = 'Illegal transition: participant is finished';
+
+    await drive(60000, () => here(100));
+    expect(fake.state.dnfs).toEqual([]);
+
+    // Ben is no longer watched, so nothing is retried
+    fake.state.dnfError = undefined;
+    await drive(5000, () => here(120));
+    expect(fake.state.dnfs).toEqual([]);
+  });
+
+  test('should close a race that runs past the time limit', async () => {
+    fake = fakes({ actualStart: new Date(T0 - 120 * 60 * 1000) });
+    await fake.service.recover();
+
+    await drive(5000, () => here(100));
+
+    expect(fake.state.dnfs.map(d => d.reason)).toEqual(['Race time limit reached', 'Race time limit reached']);
+    expect(fake.state.raceTransitions).toEqual([[RACE_ID, 'finished', undefined, 'Race time limit reached']]);
+  });
+});
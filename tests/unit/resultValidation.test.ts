@@ -0,0 +1,180 @@
+/**
+ * Unit Tests for Result Validation
+ * Tests the speed, position jump, acceleration, route coverage and time checks run on a finished result
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ResultValidationService } from '../../backend/src/services/resultValidation';
+import { FinishData, TelemetrySample, Vehicle } from '../../backend/src/types';
+
+const START = { lat: 51.5, lng: -0.1 };
+const METERS_PER_DEGREE = (6371000 * Math.PI) / 180;
+const T0 = Date.parse('2026-01-01T12:00:00Z');
+
+// A point `meters` due north of the start line
+const north = (meters: number) => ({ lat: START.lat + meters / METERS_PER_DEGREE, lng: START.lng });
+
+// One sample a second, at `position(t)` meters along the course and `speed(t)` m/s
+const buildTrace = (
+  seconds: number,
+  position: (t: number) => number,
+  speed: (t: number) => number
+): TelemetrySample[] =>
+  Array.from({ length: seconds + 1 }, (_, t) => ({
+    seq: t,
+    timestamp: T0 + t * 1000,
+    ...north(position(t)),
+    speed: speed(t),
+  }));
+
+// A clean kilometre sprint at a steady 25 m/s, reaching the finish area around 39 s
+const cleanTrace = () => buildTrace(45, t => t * 25, () => 25);
+
+const buildRace = (overrides: Record<string, any> = {}) => ({
+  id: 'race-1',
+  raceType: 'sprint',
+  actualStart: new Date(T0),
+  startLocation: north(0),
+  endLocation: north(1000),
+  route: null,
+  participants: [{ user_id: 'driver-1', vehicle_id: 'vehicle-1' }],
+  ...overrides,
+});
+
+const buildVehicle = (specs: Partial<Vehicle['specs']> = {}): Vehicle => ({
+  specs: { horsepower: 0, torque: 0, acceleration: 0, topSpeed: 150, weight: 0, transmission: 'manual', drivetrain: 'rwd', ...specs },
+} as Vehicle);
+
+const finish = (totalTime: number): FinishData => ({
+  finishTime: new Date(T0 + totalTime * 1000).toISOString(),
+  totalTime,
+  averageSpeed: 1000 / totalTime,
+});
+
+const buildService = (trace: TelemetrySample[], vehicle: Vehicle = buildVehicle()) =>
+  new ResultValidationService(
+    { getVehicle: async () => ({ success: true, data: vehicle }) } as any,
+    { getTrace: async () => ({ success: true, data: trace }) } as any
+  );
+
+describe('Result Validation', () => {
+  test('should approve a clean run whose reported time matches the trace', async () => {
+    const review = await buildService(cleanTrace()).review(buildRace(), 'driver-1', finish(39), finish(39), false);
+
+    expect(review).toEqual({ status: 'approved', reasons: [] });
+  });
+
+  test('should hold a run with no telemetry for review', async () => {
+    const review = await buildService([]).review(buildRace(), 'driver-1', finish(39), finish(39), false);
+
+    expect(review).toEqual({ status: 'pending_review', reasons: ['No telemetry recorded for this run'] });
+  });
+
+  describe('speed', () => {
+    test('should flag a speed above the vehicle\'s top speed', async () => {
+      // 100 mph top speed allows about 51 m/s with tolerance
+      const trace = buildTrace(45, t => t * 25, () => 60);
+      const review = await buildService(trace, buildVehicle({ topSpeed: 100 }))
+        .review(buildRace(), 'driver-1', finish(39), finish(39), false);
+
+      expect(review.status).toBe('pending_review');
+      expect(review.reasons).toEqual(['Speed of 60 m/s exceeds what the vehicle can reach']);
+    });
+
+    test('should fall back to the absolute ceiling when the vehicle has no top speed', async () => {
+      const trace = buildTrace(45, t => t * 25, () => 90);
+      const review = await buildService(trace, buildVehicle({ topSpeed: 0 }))
+        .review(buildRace(), 'driver-1', finish(39), finish(39), false);
+
+      expect(review).toEqual({ status: 'approved', reasons: [] });
+    });
+  });
+
+  describe('position jumps', () => {
+    test('should flag a jump between samples faster than the vehicle can travel', async () => {
+      // 60 m skipped at t=10: 85 m/s against the 77 m/s a 150 mph car is allowed
+      const trace = buildTrace(45, t => t * 25 + (t >= 10 ? 60 : 0), () => 25);
+      const review = await buildService(trace).review(buildRace(), 'driver-1', finish(36), finish(36), false);
+
+      expect(review.reasons).toEqual(['Position jumped 1 time(s), implying up to 85 m/s']);
+    });
+
+    test('should allow for the reported GPS accuracy', async () => {
+      const trace = buildTrace(45, t => t * 25 + (t === 10 ? 60 : 0), () => 25);
+      trace[10].accuracy = 20;
+      const review = await buildService(trace).review(buildRace(), 'driver-1', finish(39), finish(39), false);
+
+      expect(review).toEqual({ status: 'approved', reasons: [] });
+    });
+  });
+
+  describe('acceleration', () => {
+    test('should flag acceleration beyond the vehicle\'s 0-60 time', async () => {
+      // 0-60 in 10 s allows about 0.55 g; this trace pulls 25 m/s in one second
+      const trace = buildTrace(45, t => Math.max(0, t - 1) * 25, t => (t === 0 ? 0 : 25));
+      const review = await buildService(trace, buildVehicle({ acceleration: 10 }))
+        .review(buildRace(), 'driver-1', finish(40), finish(40), false);
+
+      expect(review.reasons).toHaveLength(1);
+      expect(review.reasons[0]).toMatch(/^Acceleration of 2\.55 g exceeds the vehicle's limit of 0\.55 g$/);
+    });
+  });
+
+  describe('route coverage', () => {
+    test('should flag a trace that leaves out most of the route', async () => {
+      const route = { waypoints: [north(0), north(500), north(1000)] };
+      // Stops after 500 m of a 1 km route
+      const trace = buildTrace(20, t => t * 25, () => 25);
+      const review = await buildService(trace).review(buildRace({ route }), 'driver-1', finish(39), null, false);
+
+      expect(review.status).toBe('pending_review');
+      expect(review.reasons).toEqual([expect.stringMatching(/^Telemetry covers only 5\d% of the route$/)]);
+    });
+
+    test('should follow the route waypoints rather than the straight line between start and end', async () => {
+      // Out 500 m east and back: the start-to-end line would be covered, the route is not
+      const east = (meters: number) => ({ lat: START.lat, lng: START.lng + meters / (METERS_PER_DEGREE * Math.cos(START.lat * Math.PI / 180)) });
+      const route = { waypoints: [north(0), east(500), north(0)] };
+      const trace = buildTrace(45, t => t * 25, () => 25);
+      const review = await buildService(trace).review(buildRace({ route, endLocation: north(0) }), 'driver-1', finish(39), null, false);
+
+      expect(review.reasons).toEqual([expect.stringMatching(/^Telemetry covers only \d+% of the route$/)]);
+    });
+  });
+
+  describe('time', () => {
+    test('should flag a reported time the trace does not support', async () => {
+      const review = await buildService(cleanTrace()).review(buildRace(), 'driver-1', finish(30), finish(30), false);
+
+      expect(review.reasons).toEqual([expect.stringMatching(/^Reported time 30s differs from the 3\d\.000s measured from telemetry$/)]);
+    });
+
+    test('should flag a trace that never reaches the finish', async () => {
+      const trace = buildTrace(30, t => t * 25, () => 25);
+      const review = await buildService(trace).review(buildRace({ route: { waypoints: [north(0), north(750)] } }), 'driver-1', finish(39), finish(39), false);
+
+      expect(review.reasons).toEqual(['Telemetry never reaches the finish']);
+    });
+
+    test('should compare against the server-timed result when the finish timer produced it', async () => {
+      // The server timed 45 s, so the reported 39 s is flagged even though it matches the finish location
+      const review = await buildService(cleanTrace()).review(buildRace(), 'driver-1', finish(45), finish(39), true);
+
+      expect(review.reasons).toEqual(['Reported time 39s differs from the 45.000s measured from telemetry']);
+    });
+
+    test('should time the trace itself when the finish data came from the client', async () => {
+      // Not server timed: the client's own 45 s is not trusted as the measurement
+      const reported = finish(45);
+      const review = await buildService(cleanTrace()).review(buildRace(), 'driver-1', { ...reported }, reported, false);
+
+      expect(review.reasons).toEqual([expect.stringMatching(/^Reported time 45s differs from the 3\d\.000s measured from telemetry$/)]);
+    });
+
+    test('should skip the time check when the server detected the finish itself', async () => {
+      const review = await buildService(cleanTrace()).review(buildRace(), 'driver-1', finish(30), null, true);
+
+      expect(review).toEqual({ status: 'approved', reasons: [] });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Spectator Mode
+ * Tests the delayed snapshot a spectator gets and that it is dropped once they stop watching
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { SpectatorService } from '../../backend/src/services/spectators';
+import { SPECTATOR_DELAY_MS } from '../../backend/src/services/websocket';
+
+const RACE_ID = 'race-1';
+
+// Spectator rooms kept in a set, and every message sent to a connection recorded
+const fakeWs = () => {
+  const spectators = new Set<string>();
+  const sent: { connectionId: string; message: any }[] = [];
+
+  const ws = {
+    useRoomGuard: () => undefined,
+    onDisconnect: () => undefined,
+    isInRaceRoom: () => false,
+    getSpectatedRaces: (connectionId: string) => (spectators.has(connectionId) ? [RACE_ID] : []),
+    isSpectating: (connectionId: string) => spectators.has(connectionId),
+    addSpectator: (connectionId: string) => {
+      spectators.add(connectionId);
+      return spectators.size;
+    },
+    removeSpectator: (connectionId: string) => { spectators.delete(connectionId); },
+    sendToConnection: (connectionId: string, message: any) => { sent.push({ connectionId, message }); },
+  };
+
+  return { ws, spectators, sent };
+};
+
+const db = {
+  getRace: async () => ({
+    success: true,
+    data: { id: RACE_ID, name: 'Night Run', status: 'scheduled', isPrivate: false, participants: [] },
+  }),
+};
+
+describe('Spectator Mode', () => {
+  let fake: ReturnType<typeof fakeWs>;
+  let service: SpectatorService;
+
+  const snapshots = () => fake.sent.filter(s => s.message.type === 'spectating');
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fake = fakeWs();
+    service = new SpectatorService(db as any, fake.ws as any, { getStandings: async () => ({ success: true, data: [] }) } as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should send the snapshot only after the spectator delay', async () => {
+    await service.spectate('viewer', RACE_ID);
+
+    await jest.advanceTimersByTimeAsync(SPECTATOR_DELAY_MS - 1);
+    expect(snapshots()).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(snapshots()).toEqual([{
+      connectionId: 'viewer',
+      message: expect.objectContaining({
+        raceId: RACE_ID,
+        data: expect.objectContaining({ viewers: 1, delayMs: SPECTATOR_DELAY_MS, participants: [], standings: [] }),
+      }),
+    }]);
+  });
+
+  test('should not send the snapshot to a viewer who stopped watching', async () => {
+    await service.spectate('viewer', RACE_ID);
+    await service.stopSpectating('viewer', RACE_ID);
+
+    await jest.advanceTimersByTimeAsync(SPECTATOR_DELAY_MS);
+
+    expect(snapshots()).toHaveLength(0);
+    expect(fake.sent.map(s => s.message.type)).toEqual(['stopped_spectating']);
+  });
+
+  test('should not send the snapshot after the viewer disconnects', async () => {
+    await service.spectate('viewer', RACE_ID);
+    fake.spectators.delete('viewer');
+
+    await jest.advanceTimersByTimeAsync(SPECTATOR_DELAY_MS);
+
+    expect(snapshots()).toHaveLength(0);
+  });
+
+  test('should refuse private races', async () => {
+    const privateDb = { getRace: async () => ({ success: true, data: { id: RACE_ID, status: 'scheduled', isPrivate: true } }) };
+    const privateService = new SpectatorService(privateDb as any, fake.ws as any, {} as any);
+
+    expect(await privateService.spectate('viewer', RACE_ID)).toEqual({
+      success: false, error: 'Only public races can be spectated',
+    });
+    expect(fake.spectators.size).toBe(0);
+  });
+});
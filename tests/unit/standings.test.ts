@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for Live Standings
+ * Tests placing runners along the route from their telemetry and the distance and time gaps between them
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { StandingsService } from '../../backend/src/services/standings';
+import { TelemetrySample } from '../../backend/src/types';
+import { T0, offset } from '../utils/telemetry-fixtures';
+
+const RACE_ID = 'race-1';
+
+// `seconds` after the green, `north` meters up the road and `east` meters off it
+const at = (seconds: number, north: number, east: number = 0): TelemetrySample =>
+  ({ seq: seconds, timestamp: T0 + seconds * 1000, ...offset(north, east) });
+
+const fakes = (raceOverrides: any = {}, completedLaps: Record<string, number> = {}) => {
+  const state = {
+    race: {
+      id: RACE_ID,
+      status: 'active',
+      raceType: 'street',
+      actualStart: new Date(T0),
+      route: { waypoints: [offset(0), offset(500), offset(1000)] },
+      participants: [
+        { user_id: 'ana', status: 'racing' },
+        { user_id: 'ben', status: 'racing' },
+        { user_id: 'cal', status: 'withdrawn' },
+      ],
+      ...raceOverrides,
+    },
+    onSamples: undefined as undefined | ((raceId: string, userId: string, samples: TelemetrySample[]) => Promise<void>),
+    broadcasts: [] as any[],
+  };
+
+  const service = new StandingsService(
+    { getRace: async () => ({ success: true, data: state.race }) } as any,
+    { broadcastToRace: (_raceId: string, message: any) => { state.broadcasts.push(message); } } as any,
+    { onTransition: () => undefined } as any,
+    { onSamples: (handler: any) => { state.onSamples = handler; } } as any,
+    { getCompletedLaps: (_raceId: string, userId: string) => completedLaps[userId] ?? 0 } as any
+  );
+  const feed = (userId: string, ...samples: TelemetrySample[]) => state.onSamples!(RACE_ID, userId, samples);
+
+  return { service, state, feed };
+};
+
+describe('Live Standings', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should place runners by how far along the route they are, not how far they drove', async () => {
+    const { service, feed } = fakes();
+
+    // Ana weaves across the road, Ben drives straight; Ana is still further up the route
+    await feed('ana', at(0, 0), at(10, 100, 30), at(20, 300, -30));
+    await feed('ben', at(0, 0), at(10, 120), at(20, 250));
+
+    // Cal withdrew before the start, so isn't placed at all
+    const standings = (await service.getStandings(RACE_ID)).data!;
+    expect(standings.map(s => [s.userId, s.position, s.distance])).toEqual([
+      ['ana', 1, 300],
+      ['ben', 2, 250],
+    ]);
+  });
+
+  test('should ignore samples from before the green', async () => {
+    const { service, feed } = fakes();
+
+    await feed('ana', at(-5, 200), at(0, 0), at(10, 100));
+
+    const standings = (await service.getStandings(RACE_ID)).data!;
+    expect(standings[0]).toEqual(expect.objectContaining({ userId: 'ana', distance: 100 }));
+  });
+
+  test('should give the time since the car ahead was where the car behind is now', async () => {
+    const { service, feed } = fakes();
+
+    await feed('ana', at(0, 0), at(10, 200), at(20, 400));
+    await feed('ben', at(0, 0), at(10, 150), at(20, 300));
+
+    const [, ben] = (await service.getStandings(RACE_ID)).data!;
+    // Ana passed 300 m at 15 s, five seconds before Ben got there
+    expect(ben.gapToLeader).toEqual({ distance: 100, time: 5 });
+    expect(ben.gapToNext).toEqual({ distance: 100, time: 5 });
+  });
+
+  test('should leave the time gap out when the car ahead has no trail that far back', async () => {
+    const { service, feed } = fakes();
+
+    await feed('ana', at(10, 200), at(20, 400));
+    await feed('ben', at(20, 100));
+
+    const [, ben] = (await service.getStandings(RACE_ID)).data!;
+    expect(ben.gapToLeader).toEqual({ distance: 300, time: null });
+  });
+
+  test('should count completed laps on a circuit', async () => {
+    const circuit = { raceType: 'circuit', route: { waypoints: [offset(0), offset(250), offset(250, 250), offset(0, 250)], laps: 3 } };
+    const { service, feed } = fakes(circuit, { ana: 1 });
+
+    await feed('ana', at(0, 0), at(70, 200));
+    await feed('ben', at(0, 0), at(70, 250, 100));
+
+    const standings = (await service.getStandings(RACE_ID)).data!;
+    // One lap of the 1000 m loop plus 200 m beats 350 m into the first lap
+    expect(standings.map(s => [s.userId, s.distance, s.lap])).toEqual([
+      ['ana', 1200, 2],
+      ['ben', 350, 1],
+    ]);
+  });
+
+  test('should fall back to a straight line from start to finish without a route', async () => {
+    const { service, feed } = fakes({ route: null, startLocation: offset(0), endLocation: offset(400) });
+
+    await feed('ana', at(0, 0), at(10, 150, 20));
+
+    const standings = (await service.getStandings(RACE_ID)).data!;
+    expect(standings[0]).toEqual(expect.objectContaining({ userId: 'ana', distance: 150 }));
+  });
+
+  test('should throttle standings broadcasts to the room', async () => {
+    const { state, feed } = fakes();
+
+    await feed('ana', at(0, 0), at(1, 20));
+    await feed('ben', at(0, 0), at(1, 15));
+    await feed('ana', at(2, 40));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(state.broadcasts).toHaveLength(1);
+    expect(state.broadcasts[0].data).toEqual(expect.objectContaining({ routeLength: 1000 }));
+  });
+
+  test('should rank a finished race by its recorded results', async () => {
+    const { service } = fakes({
+      status: 'finished',
+      participants: [
+        { user_id: 'ben', status: 'finished', position: 2, final_time: 61.25 },
+        { user_id: 'cal', status: 'dnf' },
+        { user_id: 'ana', status: 'finished', position: 1, final_time: 60 },
+      ],
+    });
+
+    const standings = (await service.getStandings(RACE_ID)).data!;
+    expect(standings.map(s => [s.userId, s.position, s.gapToLeader])).toEqual([
+      ['ana', 1, null],
+      ['ben', 2, { distance: 0, time: 1.25 }],
+      ['cal', 3, null],
+    ]);
+  });
+});
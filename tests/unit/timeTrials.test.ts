@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for Time Trials
+ * Tests timing an uploaded trace over a saved route: start gate, checkpoints in order, finish and loops
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { timeRun } from '../../backend/src/services/timeTrials';
+import { RouteGate, TrialRoute } from '../../backend/src/types';
+import { T0, buildTrace, offset } from '../utils/telemetry-fixtures';
+
+// A 20 m wide line across the road, `north` meters up it
+const lineAt = (north: number, name?: string): RouteGate => ({
+  type: 'line', name, a: offset(north, -10), b: offset(north, 10),
+});
+
+// Start at 100 m, a checkpoint at 600 m and the finish at 1100 m
+const sprint: TrialRoute = {
+  waypoints: [offset(100), offset(1100)],
+  start: lineAt(100),
+  checkpoints: [lineAt(600)],
+  finish: lineAt(1100),
+};
+
+// Rolling north at 25 m/s from 10 m short of the origin: the gates fall at 4.4 s, 24.4 s and 44.4 s
+const steadyRun = () => buildTrace(50, t => ({ north: 25 * t - 10 }));
+
+describe('Time Trials', () => {
+  test('should time the run from the start gate to the finish', () => {
+    const result = timeRun(sprint, steadyRun());
+
+    expect(result.success).toBe(true);
+    expect(result.data!.startedAt).toBe(T0 + 4400);
+    expect(result.data!.elapsedTime).toBeCloseTo(40, 3);
+    expect(result.data!.splits).toHaveLength(1);
+    expect(result.data!.splits[0]).toBeCloseTo(20, 3);
+  });
+
+  test('should keep only the trace from just before the start to just after the finish', () => {
+    const { trace } = timeRun(sprint, steadyRun()).data!;
+
+    expect(trace[0].timestamp).toBe(T0 + 4000);
+    expect(trace[trace.length - 1].timestamp).toBe(T0 + 45000);
+  });
+
+  test('should time samples uploaded out of order', () => {
+    const trace = steadyRun();
+
+    expect(timeRun(sprint, [...trace].reverse())).toEqual(timeRun(sprint, trace));
+  });
+
+  test('should restart the run when the driver rolls back through the start', () => {
+    // Over the start at 4.4 s, back behind it by 8 s, then over again for good at 8.4 s
+    const trace = buildTrace(60, t => ({ north: t < 6 ? 25 * t - 10 : t < 8 ? 140 - 25 * (t - 6) : 90 + 25 * (t - 8) }));
+    const result = timeRun(sprint, trace);
+
+    expect(result.data!.startedAt).toBe(T0 + 8400);
+    expect(result.data!.elapsedTime).toBeCloseTo(40, 3);
+  });
+
+  test('should time a loop that starts and finishes on the same gate', () => {
+    // Out 750 m and back over the start line
+    const loop: TrialRoute = { waypoints: [offset(100), offset(750)], start: lineAt(100), checkpoints: [], finish: lineAt(100) };
+    const trace = buildTrace(70, t => ({ north: t <= 30 ? 25 * t - 10 : 740 - 25 * (t - 30) }));
+    const result = timeRun(loop, trace);
+
+    expect(result.data!.startedAt).toBe(T0 + 4400);
+    expect(result.data!.elapsedTime).toBeCloseTo(51.2, 3);
+  });
+
+  describe('incomplete runs', () => {
+    test('should report a trace that never crosses the start', () => {
+      const trace = buildTrace(10, t => ({ north: 5 * t }));
+
+      expect(timeRun(sprint, trace)).toEqual({ success: false, error: 'Incomplete run: telemetry never crosses the start gate' });
+    });
+
+    test('should name the checkpoint the trace misses', () => {
+      // Runs wide of the checkpoint line, then back onto the road for the finish
+      const trace = buildTrace(50, t => ({ north: 25 * t - 10, east: t > 20 && t < 28 ? 40 : 0 }));
+      const named = { ...sprint, checkpoints: [lineAt(600, 'Hairpin')] };
+
+      expect(timeRun(sprint, trace).error).toBe('Incomplete run: telemetry misses checkpoint 1');
+      expect(timeRun(named, trace).error).toBe('Incomplete run: telemetry misses Hairpin');
+    });
+
+    test('should report a trace that stops before the finish', () => {
+      const trace = buildTrace(30, t => ({ north: 25 * t - 10 }));
+      const named = { ...sprint, finish: lineAt(1100, 'Summit') };
+
+      expect(timeRun(named, trace).error).toBe('Incomplete run: telemetry never crosses Summit');
+    });
+  });
+});
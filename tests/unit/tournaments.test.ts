@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for Tournament Brackets
+ * Tests seeding order, byes and how winners and losers are routed through single and double elimination
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildBracket, seedOrder } from '../../backend/src/services/tournaments';
+import { TournamentMatch } from '../../backend/src/types';
+
+const entrants = (count: number) => Array.from({ length: count }, (_, i) => `seed-${i + 1}`);
+
+const firstRound = (matches: TournamentMatch[]) =>
+  matches
+    .filter(match => match.bracket === 'winners' && match.round === 1)
+    .sort((a, b) => a.matchNumber - b.matchNumber)
+    .map(match => [match.entrantA, match.entrantB]);
+
+const find = (matches: TournamentMatch[], bracket: string, round: number, matchNumber: number = 1) =>
+  matches.find(match => match.bracket === bracket && match.round === round && match.matchNumber === matchNumber)!;
+
+// Every slot a match result feeds, as matchId:slot
+const feeds = (matches: TournamentMatch[]) =>
+  matches.flatMap(match => [match.winnerNext, match.loserNext])
+    .filter((next): next is NonNullable<TournamentMatch['winnerNext']> => next !== null)
+    .map(next => `${next.matchId}:${next.slot}`);
+
+describe('Tournament Brackets', () => {
+  describe('seedOrder', () => {
+    test('should keep the top seeds apart until the late rounds', () => {
+      expect(seedOrder(2)).toEqual([1, 2]);
+      expect(seedOrder(4)).toEqual([1, 4, 2, 3]);
+      expect(seedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    });
+
+    test('should pair each seed with its mirror from the bottom of the field', () => {
+      const order = seedOrder(16);
+      for (let i = 0; i < order.length; i += 2) {
+        expect(order[i] + order[i + 1]).toBe(17);
+      }
+    });
+  });
+
+  describe('single elimination', () => {
+    test('should draw a full field by seed', () => {
+      const matches = buildBracket('tournament-1', 'single_elimination', entrants(8));
+
+      expect(matches).toHaveLength(7);
+      expect(firstRound(matches)).toEqual([
+        ['seed-1', 'seed-8'],
+        ['seed-4', 'seed-5'],
+        ['seed-2', 'seed-7'],
+        ['seed-3', 'seed-6'],
+      ]);
+    });
+
+    test('should give the top seeds the byes in a short field', () => {
+      const matches = buildBracket('tournament-1', 'single_elimination', entrants(5));
+
+      expect(firstRound(matches)).toEqual([
+        ['seed-1', null],
+        ['seed-4', 'seed-5'],
+        ['seed-2', null],
+        ['seed-3', null],
+      ]);
+    });
+
+    test('should send each winner on to the next round and crown the final\'s winner', () => {
+      const matches = buildBracket('tournament-1', 'single_elimination', entrants(8));
+      const semiFinal = find(matches, 'winners', 2, 1);
+      const final = find(matches, 'winners', 3);
+
+      expect(find(matches, 'winners', 1, 1).winnerNext).toEqual({ matchId: semiFinal.id, slot: 'a' });
+      expect(find(matches, 'winners', 1, 2).winnerNext).toEqual({ matchId: semiFinal.id, slot: 'b' });
+      expect(semiFinal.winnerNext).toEqual({ matchId: final.id, slot: 'a' });
+      expect(final.winnerNext).toBeNull();
+      expect(matches.every(match => match.loserNext === null)).toBe(true);
+    });
+
+    test('should start every match unraced', () => {
+      const matches = buildBracket('tournament-1', 'single_elimination', entrants(4));
+
+      expect(matches.every(match => match.status === 'pending' && match.attempts === 0 && match.raceId === null)).toBe(true);
+      expect(matches.every(match => match.tournamentId === 'tournament-1')).toBe(true);
+    });
+  });
+
+  describe('double elimination', () => {
+    test('should add a losers bracket and a grand final with its reset', () => {
+      const matches = buildBracket('tournament-1', 'double_elimination', entrants(8));
+      const count = (bracket: string) => matches.filter(match => match.bracket === bracket).length;
+
+      expect(count('winners')).toBe(7);
+      expect(count('losers')).toBe(6);
+      expect(count('grand_final')).toBe(2);
+    });
+
+    test('should feed every slot from exactly one earlier match', () => {
+      const matches = buildBracket('tournament-1', 'double_elimination', entrants(8));
+      const fed = feeds(matches);
+      const ids = new Set(matches.map(match => match.id));
+
+      expect(new Set(fed).size).toBe(fed.length);
+      expect(fed.every(feed => ids.has(feed.split(':')[0]))).toBe(true);
+
+      // Every slot after the first round is fed, except the reset, which only races if it's needed
+      const reset = find(matches, 'grand_final', 2);
+      const open = matches
+        .filter(match => !(match.bracket === 'winners' && match.round === 1) && match !== reset)
+        .flatMap(match => [`${match.id}:a`, `${match.id}:b`]);
+      expect(fed.sort()).toEqual(open.sort());
+    });
+
+    test('should drop first-round losers into the losers bracket and bring the champions together', () => {
+      const matches = buildBracket('tournament-1', 'double_elimination', entrants(8));
+      const grandFinal = find(matches, 'grand_final', 1);
+
+      expect(find(matches, 'winners', 1, 1).loserNext).toEqual({ matchId: find(matches, 'losers', 1, 1).id, slot: 'a' });
+      expect(find(matches, 'winners', 1, 2).loserNext).toEqual({ matchId: find(matches, 'losers', 1, 1).id, slot: 'b' });
+      expect(find(matches, 'winners', 3).winnerNext).toEqual({ matchId: grandFinal.id, slot: 'a' });
+      expect(find(matches, 'losers', 4).winnerNext).toEqual({ matchId: grandFinal.id, slot: 'b' });
+    });
+
+    test('should send the loser of a two-driver final straight to the grand final', () => {
+      const matches = buildBracket('tournament-1', 'double_elimination', entrants(2));
+      const grandFinal = find(matches, 'grand_final', 1);
+
+      expect(matches.filter(match => match.bracket === 'losers')).toHaveLength(0);
+      expect(find(matches, 'winners', 1).winnerNext).toEqual({ matchId: grandFinal.id, slot: 'a' });
+      expect(find(matches, 'winners', 1).loserNext).toEqual({ matchId: grandFinal.id, slot: 'b' });
+    });
+  });
+});
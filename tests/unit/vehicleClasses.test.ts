@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Vehicle Classes
+ * Tests the performance index, class boundaries, quarter mile estimates and drag handicap delays
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { classifyVehicle, handicapDelays } from '../../backend/src/services/vehicleClasses';
+import { Vehicle, VehicleModification } from '../../backend/src/types';
+
+const vehicle = (horsepower: number, weight: number, drivetrain: string = 'RWD'): Vehicle => ({
+  id: 'vehicle-1',
+  specs: { horsepower, weight, drivetrain, torque: 0, acceleration: 0, topSpeed: 0, transmission: 'manual' },
+} as Vehicle);
+
+const modification = (horsepowerGain: number, weightChange: number = 0): VehicleModification => ({
+  id: `mod-${horsepowerGain}-${weightChange}`,
+  vehicleId: 'vehicle-1',
+  category: 'engine',
+  name: 'Tune',
+  horsepowerGain,
+  torqueGain: 0,
+  weightChange,
+});
+
+describe('Vehicle Classes', () => {
+  describe('classifyVehicle', () => {
+    test('should rate horsepower per 1000 lb and place the car in its class', () => {
+      const classification = classifyVehicle(vehicle(300, 3000));
+
+      expect(classification).toEqual({
+        vehicleId: 'vehicle-1',
+        vehicleClass: 'B',
+        horsepower: 300,
+        weight: 3000,
+        drivetrain: 'RWD',
+        powerToWeight: 100,
+        performanceIndex: 100,
+        estimatedQuarterMile: 12.55,
+        modifications: 0,
+      });
+    });
+
+    test('should place cars on each side of the class boundaries', () => {
+      expect(classifyVehicle(vehicle(200, 3000)).vehicleClass).toBe('D');
+      expect(classifyVehicle(vehicle(210, 3000)).vehicleClass).toBe('C');
+      expect(classifyVehicle(vehicle(450, 3000)).vehicleClass).toBe('S');
+      expect(classifyVehicle(vehicle(590, 3000)).vehicleClass).toBe('S');
+      expect(classifyVehicle(vehicle(600, 3000)).vehicleClass).toBe('X');
+    });
+
+    test('should favour all-wheel drive and penalise front-wheel drive off the line', () => {
+      const awd = classifyVehicle(vehicle(300, 3000, 'All-Wheel Drive'));
+      const fwd = classifyVehicle(vehicle(300, 3000, 'fwd'));
+
+      expect(awd.performanceIndex).toBe(110);
+      expect(fwd.performanceIndex).toBe(92);
+      expect(awd.powerToWeight).toBe(100);
+      expect(awd.estimatedQuarterMile!).toBeLessThan(fwd.estimatedQuarterMile!);
+    });
+
+    test('should classify the car as raced, with its modifications', () => {
+      const classification = classifyVehicle(vehicle(300, 3000), [modification(150), modification(0, -300)]);
+
+      expect(classification.horsepower).toBe(450);
+      expect(classification.weight).toBe(2700);
+      expect(classification.vehicleClass).toBe('S');
+      expect(classification.modifications).toBe(2);
+    });
+
+    test('should leave a car without horsepower or weight unclassified', () => {
+      const classification = classifyVehicle(vehicle(300, 0));
+
+      expect(classification.vehicleClass).toBeNull();
+      expect(classification.powerToWeight).toBeNull();
+      expect(classification.estimatedQuarterMile).toBeNull();
+    });
+  });
+
+  describe('handicapDelays', () => {
+    test('should hold each quicker car back by the difference from the slowest', () => {
+      const delays = handicapDelays([
+        { userId: 'slow', estimatedQuarterMile: 14.2 },
+        { userId: 'quick', estimatedQuarterMile: 12.5 },
+      ]);
+
+      expect(delays.get('slow')).toBe(0);
+      expect(delays.get('quick')).toBe(1.7);
+    });
+
+    test('should cap the hold at the maximum handicap', () => {
+      const delays = handicapDelays([
+        { userId: 'slow', estimatedQuarterMile: 18 },
+        { userId: 'rocket', estimatedQuarterMile: 9 },
+      ]);
+
+      expect(delays.get('rocket')).toBe(5);
+    });
+
+    test('should give a car with no estimate no head start', () => {
+      const delays = handicapDelays([
+        { userId: 'unknown', estimatedQuarterMile: null },
+        { userId: 'known', estimatedQuarterMile: 13 },
+      ]);
+
+      expect(delays.get('unknown')).toBe(0);
+      expect(delays.get('known')).toBe(0);
+    });
+  });
+});
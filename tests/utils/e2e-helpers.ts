@@ -0,0 +1,41 @@
+/**
+ * E2E Helpers
+ * Signing in fresh drivers and readying them up over the race socket, shared by the end-to-end suites
+ */
+
+import { apiClient } from './api-client';
+import { TestWebSocketClient } from './websocket-client';
+import { TestUtils } from './test-utils';
+
+export interface Driver {
+  id: string;
+  token: string;
+}
+
+// Registers and logs in a fresh user
+export const signIn = async (): Promise<Driver> => {
+  const user = TestUtils.generateTestUser();
+  await apiClient.post('/api/auth/register', {
+    email: user.email,
+    username: user.username,
+    password: user.password
+  });
+
+  const loginResponse = await apiClient.post('/api/auth/login', {
+    email: user.email,
+    password: user.password
+  });
+
+  return { id: loginResponse.data.id, token: loginResponse.data.token };
+};
+
+// Reports the driver ready over the race socket, which is left open in the race room
+export const readyUp = async (raceId: string, driver: Driver): Promise<TestWebSocketClient> => {
+  const raceSocket = new TestWebSocketClient('ws://localhost:3000/ws/races');
+  await raceSocket.connect(driver.token);
+  raceSocket.send('join_race', { raceId });
+  raceSocket.send('ready', { raceId });
+  await raceSocket.waitForMessage('participant_status_changed', 5000);
+
+  return raceSocket;
+};
@@ -0,0 +1,33 @@
+/**
+ * Telemetry Fixtures
+ * Positions and GPS traces laid out in meters, for unit testing the timing, scoring and validation code
+ */
+
+import { TelemetrySample } from '../../backend/src/types';
+
+export const ORIGIN = { lat: 51.5, lng: -0.1 };
+export const T0 = Date.parse('2026-01-01T12:00:00Z');
+
+const METERS_PER_DEGREE = (6371000 * Math.PI) / 180;
+
+export interface TracePoint {
+  north: number;
+  east?: number;
+  speed?: number;
+  heading?: number;
+  accuracy?: number;
+}
+
+// The point `north` meters north and `east` meters east of the origin
+export const offset = (north: number, east: number = 0): { lat: number; lng: number } => ({
+  lat: ORIGIN.lat + north / METERS_PER_DEGREE,
+  lng: ORIGIN.lng + east / (METERS_PER_DEGREE * Math.cos((ORIGIN.lat * Math.PI) / 180)),
+});
+
+// A sample every `stepMs` from T0 for `seconds`, placed by `at(t)` with t in seconds since T0
+export const buildTrace = (seconds: number, at: (t: number) => TracePoint, stepMs: number = 1000): TelemetrySample[] =>
+  Array.from({ length: Math.floor((seconds * 1000) / stepMs) + 1 }, (_, i) => {
+    const t = (i * stepMs) / 1000;
+    const { north, east, ...reading } = at(t);
+    return { seq: i, timestamp: T0 + i * stepMs, ...offset(north, east), ...reading };
+  });